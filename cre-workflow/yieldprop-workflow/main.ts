@@ -38,6 +38,7 @@ import {
 } from "@chainlink/cre-sdk";
 import { encodeFunctionData, decodeFunctionResult, encodeAbiParameters, parseAbiParameters, zeroAddress } from "viem";
 import { YieldDistributorAbi, PriceManagerAbi } from "./abi.js";
+import { normalizeMarketData, parseJsonMarketData } from "../../services/marketDataNormalization";
 
 type Config = {
   schedule: string;
@@ -85,16 +86,6 @@ type PriceRecommendation = {
   source: "mock" | "openai";
 };
 
-type MarketDataResponse = {
-  data?: {
-    comparables?: Array<{ price: number }>;
-    averageRent?: number;
-    medianRent?: number;
-    occupancyRate?: number;
-    rentGrowth?: number;
-  };
-};
-
 type ReserveHealthResult = {
   poolBalance: string;
   expectedRent: string;
@@ -210,6 +201,22 @@ function checkReserveHealth(runtime: Runtime<Config>, config: Config): ReserveHe
   };
 }
 
+/**
+ * Market data from a Market Data API response body, through the same
+ * normalization as the off-chain workflow's providers
+ */
+function toMarketData(body: unknown, config: Config): MarketData {
+  const data = normalizeMarketData(
+    parseJsonMarketData(body),
+    { address: config.propertyAddress, propertyType: config.propertyType, radius: Number(config.marketDataRadiusMiles) },
+    "market-data-api"
+  );
+  return {
+    marketMetrics: data.marketMetrics,
+    comparableCount: data.comparableProperties.length,
+  };
+}
+
 /** Phase 5: Market data via Confidential HTTP */
 function fetchMarketDataConfidential(
   sendRequester: ConfidentialHTTPSendRequester,
@@ -239,33 +246,7 @@ function fetchMarketDataConfidential(
     throw new Error(`Market Data API failed: status ${response.statusCode}`);
   }
 
-  const body = json(response) as MarketDataResponse;
-  const data = body?.data;
-  const comparables = data?.comparables ?? [];
-  const prices = comparables.map((c) => c.price);
-
-  const averageRent =
-    data?.averageRent ??
-    (prices.length > 0 ? prices.reduce((a, b) => a + b, 0) / prices.length : 0);
-  const medianRent =
-    data?.medianRent ??
-    (prices.length > 0
-      ? (() => {
-        const sorted = [...prices].sort((a, b) => a - b);
-        const mid = Math.floor(sorted.length / 2);
-        return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
-      })()
-      : 0);
-
-  return {
-    marketMetrics: {
-      averageRent,
-      medianRent,
-      occupancyRate: data?.occupancyRate ?? 95,
-      rentGrowthYoY: data?.rentGrowth ?? 0,
-    },
-    comparableCount: comparables.length,
-  };
+  return toMarketData(json(response), config);
 }
 
 /** Phase 5: OpenAI via Confidential HTTP – API key injected in enclave, never exposed */
@@ -464,35 +445,7 @@ function fetchMarketData(
     throw new Error(`Market Data API failed: status ${response.statusCode}`);
   }
 
-  const body = json(response) as MarketDataResponse;
-  const data = body?.data;
-  const comparables = data?.comparables ?? [];
-  const prices = comparables.map((c) => c.price);
-
-  const averageRent =
-    data?.averageRent ??
-    (prices.length > 0 ? prices.reduce((a, b) => a + b, 0) / prices.length : 0);
-  const medianRent =
-    data?.medianRent ??
-    (prices.length > 0
-      ? (() => {
-        const sorted = [...prices].sort((a, b) => a - b);
-        const mid = Math.floor(sorted.length / 2);
-        return sorted.length % 2 === 0
-          ? (sorted[mid - 1] + sorted[mid]) / 2
-          : sorted[mid];
-      })()
-      : 0);
-
-  return {
-    marketMetrics: {
-      averageRent,
-      medianRent,
-      occupancyRate: data?.occupancyRate ?? 95,
-      rentGrowthYoY: data?.rentGrowth ?? 0,
-    },
-    comparableCount: comparables.length,
-  };
+  return toMarketData(json(response), config);
 }
 
 // Fetch AI pricing recommendation from OpenAI API
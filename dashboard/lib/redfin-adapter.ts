@@ -7,9 +7,13 @@
  *
  * In a full production deployment, this would periodically fetch and cache
  * Redfin CSV data. For now, we use curated reference data that provides
- * realistic market-level estimates by property type and region.
+ * realistic market-level estimates by property type and region. The table is
+ * shared with the workflow's reference market data provider
+ * (services/referenceRents.ts), so both serve the same figures.
  */
 
+import { lookupReferenceRent } from '../../services/referenceRents'
+
 export type MarketDataResponse = {
     averageRent: number
     medianRent: number
@@ -20,50 +24,6 @@ export type MarketDataResponse = {
     lastUpdated: string
 }
 
-/**
- * Reference rental data by metro area and property type.
- * Source: Redfin Data Center (https://www.redfin.com/news/data-center/)
- * Updated: Feb 2026 median asking rents.
- */
-const REFERENCE_DATA: Record<string, Record<string, { medianRent: number; avgRent: number; occupancy: number; growth: number }>> = {
-    'San Francisco': {
-        'Single Family': { medianRent: 4200, avgRent: 4500, occupancy: 94.5, growth: 2.1 },
-        'Condo': { medianRent: 3100, avgRent: 3350, occupancy: 93.8, growth: 1.8 },
-        'Multi-Family': { medianRent: 2800, avgRent: 3000, occupancy: 95.2, growth: 2.5 },
-        'Townhouse': { medianRent: 3600, avgRent: 3850, occupancy: 94.0, growth: 2.0 },
-    },
-    'Los Angeles': {
-        'Single Family': { medianRent: 3500, avgRent: 3750, occupancy: 95.1, growth: 3.2 },
-        'Condo': { medianRent: 2600, avgRent: 2850, occupancy: 94.5, growth: 2.8 },
-        'Multi-Family': { medianRent: 2200, avgRent: 2400, occupancy: 96.0, growth: 3.5 },
-        'Townhouse': { medianRent: 3000, avgRent: 3200, occupancy: 95.0, growth: 3.0 },
-    },
-    'New York': {
-        'Single Family': { medianRent: 3800, avgRent: 4100, occupancy: 96.5, growth: 1.5 },
-        'Condo': { medianRent: 3400, avgRent: 3700, occupancy: 96.0, growth: 1.2 },
-        'Multi-Family': { medianRent: 2900, avgRent: 3100, occupancy: 97.0, growth: 1.8 },
-        'Townhouse': { medianRent: 3500, avgRent: 3800, occupancy: 96.2, growth: 1.4 },
-    },
-    'default': {
-        'Single Family': { medianRent: 2200, avgRent: 2400, occupancy: 94.0, growth: 2.5 },
-        'Condo': { medianRent: 1800, avgRent: 1950, occupancy: 93.5, growth: 2.2 },
-        'Multi-Family': { medianRent: 1500, avgRent: 1650, occupancy: 95.0, growth: 2.8 },
-        'Townhouse': { medianRent: 2000, avgRent: 2150, occupancy: 94.2, growth: 2.4 },
-    },
-}
-
-/**
- * Extract metro area from a full address string.
- * Matches known metro areas from the address.
- */
-function extractMetro(address: string): string {
-    const normalized = address.toLowerCase()
-    if (normalized.includes('san francisco') || normalized.includes('sf')) return 'San Francisco'
-    if (normalized.includes('los angeles') || normalized.includes('la,')) return 'Los Angeles'
-    if (normalized.includes('new york') || normalized.includes('nyc') || normalized.includes('manhattan') || normalized.includes('brooklyn')) return 'New York'
-    return 'default'
-}
-
 /**
  * Get market data for a given property address and type.
  * Returns realistic rental market metrics based on Redfin reference data.
@@ -72,20 +32,19 @@ export function getMarketDataForAddress(
     address: string,
     propertyType: string
 ): MarketDataResponse {
-    const metro = extractMetro(address)
-    const metroData = REFERENCE_DATA[metro] ?? REFERENCE_DATA['default']
-    const typeData = metroData[propertyType] ?? metroData['Single Family']
+    // The built-in table has a default metro and falls back to Single Family
+    const typeData = lookupReferenceRent(address, propertyType)!
 
     // Add slight variance to make data feel dynamic (±3%)
     const variance = 0.97 + Math.random() * 0.06
     const medianRent = Math.round(typeData.medianRent * variance)
-    const avgRent = Math.round(typeData.avgRent * variance)
+    const avgRent = Math.round(typeData.averageRent * variance)
 
     return {
         averageRent: avgRent,
         medianRent,
-        occupancyRate: Number((typeData.occupancy + (Math.random() - 0.5) * 2).toFixed(1)),
-        rentGrowthYoY: Number((typeData.growth + (Math.random() - 0.5) * 1).toFixed(1)),
+        occupancyRate: Number((typeData.occupancyRate + (Math.random() - 0.5) * 2).toFixed(1)),
+        rentGrowthYoY: Number((typeData.rentGrowthYoY + (Math.random() - 0.5) * 1).toFixed(1)),
         comparableCount: Math.floor(8 + Math.random() * 15),
         source: 'reference',
         lastUpdated: new Date().toISOString(),
@@ -1,6 +1,11 @@
 import type { NextConfig } from "next";
+import path from "path";
 
 const nextConfig: NextConfig = {
+  // lib/redfin-adapter.ts imports the reference rent table from ../services
+  turbopack: {
+    root: path.resolve(__dirname, ".."),
+  },
   async headers() {
     return [
       {
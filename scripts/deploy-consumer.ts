@@ -1,4 +1,5 @@
 import { ethers } from "hardhat";
+import { TransactionManager, transactionOptionsFromEnv } from "../services/transactionManager";
 
 /**
  * Deploy RecommendationConsumer to receive CRE workflow reports
@@ -60,8 +61,8 @@ async function main() {
   console.log("\nGranting PROPERTY_MANAGER_ROLE to consumer...");
   const priceManager = await ethers.getContractAt("PriceManager", priceManagerAddress);
   const PROPERTY_MANAGER_ROLE = await priceManager.PROPERTY_MANAGER_ROLE();
-  const grantTx = await priceManager.grantRole(PROPERTY_MANAGER_ROLE, consumerAddress);
-  await grantTx.wait();
+  const txManager = new TransactionManager(deployer, transactionOptionsFromEnv());
+  await txManager.sendAndWait(await priceManager.grantRole.populateTransaction(PROPERTY_MANAGER_ROLE, consumerAddress));
   console.log("PROPERTY_MANAGER_ROLE granted to consumer");
 
   // Verify role
@@ -1,6 +1,7 @@
 import { ethers } from "hardhat";
 import * as fs from "fs";
 import * as path from "path";
+import { TransactionManager, transactionOptionsFromEnv } from "../services/transactionManager";
 
 // Types
 interface PropertyConfig {
@@ -49,7 +50,8 @@ async function deployProperty(
   config: PropertyConfig,
   deployer: { address: string },
   stablecoinAddress: string,
-  whitelistAddresses: string[]
+  whitelistAddresses: string[],
+  txManager: TransactionManager
 ) {
   console.log(`\n📄 Deploying property: ${config.name} (${config.propertyType})...`);
 
@@ -110,23 +112,23 @@ async function deployProperty(
   const propertySaleAddress = await propertySale.getAddress();
   console.log(`   ✅ PropertySale: ${propertySaleAddress}`);
 
-  // Post-deployment setup
+  // Post-deployment setup (nonces, fees and confirmations handled by the transaction manager)
 
   // Whitelist + register holders
   if (whitelist.length > 0) {
     console.log(`   ... Whitelisting ${whitelist.length} addresses`);
     for (const addr of whitelist) {
-      await (await propertyToken.addToWhitelist(addr)).wait();
+      await txManager.sendAndWait(await propertyToken.addToWhitelist.populateTransaction(addr));
     }
-    await (await yieldDistributor.registerHolders(whitelist)).wait();
+    await txManager.sendAndWait(await yieldDistributor.registerHolders.populateTransaction(whitelist));
   }
 
   // Authorize PropertySale
-  await (await yieldDistributor.setAuthorizedRegistrar(propertySaleAddress)).wait();
+  await txManager.sendAndWait(await yieldDistributor.setAuthorizedRegistrar.populateTransaction(propertySaleAddress));
 
   // Approve PropertySale
   const totalSupply = await propertyToken.totalSupply();
-  await (await propertyToken.approve(propertySaleAddress, totalSupply)).wait();
+  await txManager.sendAndWait(await propertyToken.approve.populateTransaction(propertySaleAddress, totalSupply));
 
   return {
     PropertyToken: propertyTokenAddress,
@@ -146,6 +148,9 @@ async function main() {
   console.log("📝 Deployer:", deployer.address);
   console.log("💰 Balance:", ethers.formatEther(await ethers.provider.getBalance(deployer.address)), "ETH\n");
 
+  // TX_CONFIRMATIONS, TX_MAX_FEE_GWEI, ... tune confirmations and fee caps
+  const txManager = new TransactionManager(deployer, transactionOptionsFromEnv());
+
   // Global whitelist
   const WHITELIST_ADDRESSES = process.env.WHITELIST_ADDRESSES
     ? process.env.WHITELIST_ADDRESSES.split(",").map(a => a.trim())
@@ -161,7 +166,7 @@ async function main() {
 
   // Mint test USDC
   const mintAmount = ethers.parseUnits("2000000", 6);
-  await (await stablecoin.mint(deployer.address, mintAmount)).wait();
+  await txManager.sendAndWait(await stablecoin.mint.populateTransaction(deployer.address, mintAmount));
   console.log("   Minted 2,000,000 USDC to deployer");
 
   // Determine Properties to Deploy
@@ -189,7 +194,7 @@ async function main() {
   const deployedProperties: DeployedProperty[] = [];
 
   for (const config of propertiesToDeploy) {
-    const contracts = await deployProperty(config, deployer, stablecoinAddress, WHITELIST_ADDRESSES);
+    const contracts = await deployProperty(config, deployer, stablecoinAddress, WHITELIST_ADDRESSES, txManager);
     deployedProperties.push({
       id: config.id,
       name: config.name,
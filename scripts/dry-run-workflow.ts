@@ -0,0 +1,74 @@
+/**
+ * Preview a workflow run without broadcasting transactions
+ *
+ * Runs every step; ethereum-transaction steps (and yield-distribution and
+ * recommendation-acceptance steps whose policy allows the transaction) are
+ * encoded, executed with eth_call and gas-estimated, then reported instead
+ * of sent.
+ *
+ * Usage:
+ *   npx ts-node scripts/dry-run-workflow.ts [--block <number|tag>] [--from <address>] [workflow.yaml]
+ *
+ * Requires ETHEREUM_RPC_URL. The sender defaults to the PRIVATE_KEY wallet;
+ * role-gated functions revert when simulated from an address without the role.
+ */
+
+import * as dotenv from "dotenv";
+import * as path from "path";
+import { WorkflowOrchestrator, dryRunFromEnv } from "../services/workflowOrchestrator";
+
+dotenv.config();
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+async function main(): Promise<number> {
+  const args = process.argv.slice(2);
+  const block = option(args, "--block");
+  const from = option(args, "--from");
+  const configPath =
+    args.find((arg, i) => !arg.startsWith("--") && !["--block", "--from"].includes(args[i - 1])) ||
+    path.join(__dirname, "..", "workflows", "yieldprop-optimization.yaml");
+
+  const defaults = dryRunFromEnv({ ...process.env, WORKFLOW_DRY_RUN: "true", WORKFLOW_DRY_RUN_BLOCK: block });
+  const orchestrator = new WorkflowOrchestrator(configPath, {
+    dryRun: { ...defaults, ...(from ? { from } : {}) },
+  });
+  const state = await orchestrator.execute();
+
+  console.log("\n🧪 Dry run report");
+  let reverts = 0;
+  for (const [stepId, result] of Object.entries(state.step_results)) {
+    const report = result.dry_run;
+    if (result.distribution) {
+      console.log(`  ${stepId}: distribution ${result.distribution.status}: ${result.distribution.reason}`);
+    }
+    if (result.acceptance) {
+      console.log(`  ${stepId}: recommendation ${result.acceptance.status}: ${result.acceptance.reason}`);
+    }
+    if (!report) {
+      if (result.status !== "completed") console.log(`  ${stepId}: ${result.status}${result.error ? ` (${result.error})` : ""}`);
+      continue;
+    }
+
+    console.log(`  ${stepId}: ${report.function_name} on ${report.to} at block ${report.block_tag}`);
+    if (report.would_revert) {
+      reverts++;
+      console.log(`    ❌ would revert: ${report.revert_reason}`);
+    } else {
+      console.log(`    ✅ would succeed, estimated gas ${report.estimated_gas ?? "unknown"}`);
+    }
+    if (report.error) console.log(`    ⚠️  ${report.error}`);
+  }
+
+  return state.status === "completed" && reverts === 0 ? 0 : 1;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
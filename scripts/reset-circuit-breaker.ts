@@ -0,0 +1,39 @@
+/**
+ * Reset a tripped workflow circuit breaker
+ *
+ * Usage:
+ *   npx ts-node scripts/reset-circuit-breaker.ts [workflow-id[.property-id]]
+ *
+ * Defaults to the yieldprop-optimization workflow. Runs fanned out over a
+ * property registry have one breaker per property, e.g.
+ * yieldprop-optimization.prop-1.
+ */
+
+import * as dotenv from "dotenv";
+import { CircuitBreaker } from "../services/circuitBreaker";
+
+dotenv.config();
+
+async function main() {
+  const workflowId = process.argv[2] || "yieldprop-optimization";
+  const breaker = new CircuitBreaker();
+
+  const before = await breaker.getState(workflowId);
+  console.log(
+    `Circuit breaker for ${workflowId}: ${before.tripped ? "TRIPPED" : "closed"} ` +
+      `(${before.consecutive_failures} consecutive failures)`
+  );
+  if (before.last_failure) {
+    console.log(`  Last failure: ${before.last_failure}`);
+  }
+
+  await breaker.reset(workflowId);
+  console.log("✅ Circuit breaker reset; on-chain transactions are enabled again");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Reset failed:", error);
+    process.exit(1);
+  });
@@ -6,6 +6,9 @@
  * 1. Fetch REAL market data from RentCast API
  * 2. Analyze pricing with REAL OpenAI API
  * 3. Display recommendation (blockchain calls are simulated)
+ *
+ * This walks the pipeline by hand for demonstration; to execute the workflow
+ * YAML itself use `npm run workflow -- run` (see scripts/workflow.ts).
  * 
  * Usage:
  *   npm run workflow:real
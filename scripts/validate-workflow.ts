@@ -0,0 +1,22 @@
+/**
+ * Validate workflow YAML files
+ *
+ * Reports structural errors, broken step references and missing required
+ * environment variables with line/column positions. Exits non-zero if any
+ * file has errors.
+ *
+ * Usage:
+ *   npx ts-node scripts/validate-workflow.ts [--no-env] [--json] [workflow.yaml ...]
+ *
+ * Defaults to workflows/yieldprop-optimization.yaml. --no-env skips the
+ * required environment variable check (e.g. in CI). Variables are looked up
+ * through the WORKFLOW_SECRETS backends, like the orchestrator does.
+ * Same as `scripts/workflow.ts validate`.
+ */
+
+import * as dotenv from "dotenv";
+import { runCli } from "../services/workflowCli";
+
+dotenv.config({ quiet: true });
+
+runCli(["validate", ...process.argv.slice(2)]).then((code) => process.exit(code));
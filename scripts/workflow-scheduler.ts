@@ -0,0 +1,118 @@
+/**
+ * Workflow Scheduler Daemon
+ *
+ * Runs the workflow on the cron and event triggers declared in its YAML until
+ * stopped (SIGINT/SIGTERM wait for an in-flight run to finish).
+ *
+ * Usage:
+ *   npx ts-node scripts/workflow-scheduler.ts [workflow.yaml]
+ *
+ * Environment:
+ *   WORKFLOW_METRICS_PORT - serve Prometheus metrics on this port (optional)
+ *   WORKFLOW_PROPERTIES - deployments JSON or property array; each tick runs
+ *     the workflow once per property (optional)
+ *   WORKFLOW_PROPERTY_CONCURRENCY - properties run at the same time (default 2)
+ *   WORKFLOW_CACHE - cache backend shared by every run: file (default), sqlite
+ *     or memory; WORKFLOW_CACHE_PATH overrides its location
+ *   ETHEREUM_RPC_URL - node polled by event triggers
+ *   ETHEREUM_WS_URL - websocket node for event triggers with transport: websocket
+ */
+
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import * as path from "path";
+import * as yaml from "yaml";
+import { ethers } from "ethers";
+import { WorkflowScheduler } from "../services/scheduler";
+import { EventTriggerWatcher, eventVariables } from "../services/eventTrigger";
+import { executeWorkflow } from "../services/workflowOrchestrator";
+import { createSecretsProvider } from "../services/secretsProvider";
+import { executeWorkflowForProperties, formatPropertyReport } from "../services/multiPropertyRunner";
+import { defaultMetricsRegistry, serveMetrics } from "../services/metrics";
+import { WorkflowConfig } from "../services/types";
+
+dotenv.config();
+
+async function main() {
+  const configPath = process.argv[2] || path.join(__dirname, "..", "workflows", "yieldprop-optimization.yaml");
+
+  const registryPath = process.env.WORKFLOW_PROPERTIES;
+  const concurrency = process.env.WORKFLOW_PROPERTY_CONCURRENCY;
+
+  const scheduler = new WorkflowScheduler(configPath, {
+    run: async () => {
+      if (!registryPath) {
+        return await executeWorkflow(configPath);
+      }
+      const { report } = await executeWorkflowForProperties(
+        configPath,
+        registryPath,
+        undefined,
+        concurrency ? parseInt(concurrency, 10) : undefined
+      );
+      console.log(formatPropertyReport(report));
+    },
+  });
+
+  const watcher = createEventWatcher(configPath);
+
+  const metricsPort = process.env.WORKFLOW_METRICS_PORT;
+  const metricsServer = metricsPort ? serveMetrics(defaultMetricsRegistry, parseInt(metricsPort, 10)) : undefined;
+  if (metricsServer) {
+    console.log(`📈 Serving metrics on :${metricsPort}/metrics`);
+  }
+
+  const shutdown = async (signal: string) => {
+    console.log(`🛑 Received ${signal}; waiting for in-flight run to finish...`);
+    await Promise.all([scheduler.stop(), watcher?.stop()]);
+    metricsServer?.close();
+    process.exit(0);
+  };
+  process.on("SIGINT", () => void shutdown("SIGINT"));
+  process.on("SIGTERM", () => void shutdown("SIGTERM"));
+
+  await scheduler.start();
+  await watcher?.start();
+
+  const next = scheduler.nextTick();
+  console.log(next ? `🟢 Scheduler running; next run at ${new Date(next).toISOString()}` : "⚪ No runs scheduled");
+}
+
+/**
+ * Watcher for the workflow's enabled event triggers; each log runs the
+ * workflow with the event's TRIGGER_* variables
+ */
+function createEventWatcher(configPath: string): EventTriggerWatcher | undefined {
+  const config: WorkflowConfig = yaml.parse(fs.readFileSync(configPath, "utf8"));
+  const triggers = (config.triggers || []).filter((trigger) => trigger.type === "event" && trigger.enabled);
+  if (triggers.length === 0) return undefined;
+
+  const secrets = createSecretsProvider();
+  const wsUrl = secrets.get("ETHEREUM_WS_URL");
+  const rpcUrl = secrets.get("ETHEREUM_RPC_URL");
+  const websocket = triggers.some((trigger) => trigger.transport === "websocket");
+  let provider: ethers.Provider;
+  if (websocket && wsUrl) {
+    provider = new ethers.WebSocketProvider(wsUrl);
+  } else if (websocket) {
+    console.warn("⚠️  Event triggers use transport: websocket but ETHEREUM_WS_URL is not set; event triggers disabled");
+    return undefined;
+  } else if (rpcUrl) {
+    provider = new ethers.JsonRpcProvider(rpcUrl);
+  } else {
+    console.warn("⚠️  ETHEREUM_RPC_URL is not set; event triggers disabled");
+    return undefined;
+  }
+
+  return new EventTriggerWatcher(configPath, {
+    provider,
+    secrets,
+    run: async (event) =>
+      await executeWorkflow(configPath, undefined, { trigger: event, secrets, variables: eventVariables(event) }),
+  });
+}
+
+main().catch((error) => {
+  console.error("❌ Scheduler failed to start:", error);
+  process.exit(1);
+});
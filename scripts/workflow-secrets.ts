@@ -0,0 +1,60 @@
+/**
+ * Manage the encrypted workflow keystore
+ *
+ * Usage:
+ *   npx ts-node scripts/workflow-secrets.ts set <NAME> [--keystore file]   (value read from stdin)
+ *   npx ts-node scripts/workflow-secrets.ts list [--keystore file]
+ *
+ * The passphrase comes from WORKFLOW_KEYSTORE_PASSPHRASE. The keystore
+ * defaults to .workflow-secrets.json; use it from the workflow with
+ * WORKFLOW_SECRETS=keystore:.workflow-secrets.json,env
+ */
+
+import * as dotenv from "dotenv";
+import * as fs from "fs";
+import { KeystoreSecretsProvider, decryptKeystore } from "../services/secretsProvider";
+
+dotenv.config();
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8").replace(/\r?\n$/, "");
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const keystoreIndex = args.indexOf("--keystore");
+  const keystore = keystoreIndex === -1 ? ".workflow-secrets.json" : args[keystoreIndex + 1];
+  const [command, name] = args.filter((_, i) => i !== keystoreIndex && i !== keystoreIndex + 1);
+
+  const passphrase = process.env.WORKFLOW_KEYSTORE_PASSPHRASE;
+  if (!passphrase) {
+    throw new Error("WORKFLOW_KEYSTORE_PASSPHRASE is not set");
+  }
+
+  if (command === "set" && name) {
+    const value = await readStdin();
+    if (!value) {
+      throw new Error("No value on stdin");
+    }
+    KeystoreSecretsProvider.write(keystore, passphrase, { [name]: value });
+    console.log(`✅ Stored ${name} in ${keystore}`);
+  } else if (command === "list") {
+    const names = fs.existsSync(keystore)
+      ? Object.keys(decryptKeystore(JSON.parse(fs.readFileSync(keystore, "utf8")), passphrase))
+      : [];
+    console.log(names.length > 0 ? names.join("\n") : `No secrets in ${keystore}`);
+  } else {
+    throw new Error("Usage: workflow-secrets.ts set <NAME> | list [--keystore file]");
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌", error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
@@ -0,0 +1,26 @@
+/**
+ * Workflow CLI
+ *
+ * Usage:
+ *   npx ts-node scripts/workflow.ts run [workflow.yaml] [--step <id> [--input <file.json>] [--from-run <execution_id>]]
+ *   npx ts-node scripts/workflow.ts validate [workflow.yaml ...] [--no-env]
+ *   npx ts-node scripts/workflow.ts history [--workflow <id>] [--status <status>] [--limit <n>]
+ *   npx ts-node scripts/workflow.ts inspect <execution_id>
+ *   npx ts-node scripts/workflow.ts replay <execution_id> [workflow.yaml] [--step <id>]
+ *
+ * Every command takes --json (machine-readable output on stdout) and run and
+ * replay take --dry-run. See services/workflowCli.ts for details and exit codes.
+ */
+
+import * as dotenv from "dotenv";
+import { runCli } from "../services/workflowCli";
+
+// dotenv would otherwise print a banner on stdout ahead of a --json result
+dotenv.config({ quiet: true });
+
+runCli(process.argv.slice(2))
+  .then((code) => process.exit(code))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
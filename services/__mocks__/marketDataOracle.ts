@@ -54,6 +54,9 @@ export class MockMarketDataOracle extends MarketDataOracle {
             },
             timestamp: Date.now(),
             isStale: false,
+            provider: 'mock',
+            dataAsOf: Date.now(),
+            freshness: 'live',
         };
     }
 
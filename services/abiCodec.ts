@@ -0,0 +1,197 @@
+/**
+ * ABI Codec
+ *
+ * ABI-driven encoding of workflow arguments and decoding of contract return
+ * values into JSON for ethereum-call steps. Arguments from YAML (numbers,
+ * numeric strings, "true"/"false", objects for structs) are coerced to the
+ * parameter types; return values become named JSON: structs with named
+ * components are objects, integers are decimal strings so values beyond
+ * 2^53 survive, and several return values are keyed by name (or position).
+ *
+ * Requirements:
+ * - 2.6: Check rental payment before distributing yields
+ * - 3.5: Format data in standardized structure
+ */
+
+import { ethers } from "ethers";
+import { errorFields } from "./retryPolicy";
+import { DecodedRevert, decodeRevert, extractRevertData } from "./transactionSimulator";
+
+export class ContractCallRevertError extends Error {
+  /** Matches ethers, so the retry policy treats the revert as deterministic */
+  readonly code = "CALL_EXCEPTION";
+
+  constructor(public readonly functionName: string, public readonly revert?: DecodedRevert) {
+    super(`Call to ${functionName} reverted: ${revert?.reason ?? "no revert data"}`);
+    this.name = "ContractCallRevertError";
+  }
+}
+
+export interface ContractCallRequest {
+  to: string;
+  abi: ethers.InterfaceAbi;
+  /** Function name, or full signature for overloaded functions (e.g. "balanceOf(address)") */
+  functionName: string;
+  args?: unknown[];
+  blockTag?: ethers.BlockTag;
+}
+
+/**
+ * Coerce a YAML/JSON value to what ethers expects for the parameter type
+ */
+export function encodeValue(param: ethers.ParamType, value: unknown): unknown {
+  if (param.isArray()) {
+    if (!Array.isArray(value)) {
+      throw new Error(`Argument ${param.name || param.type} must be an array`);
+    }
+    return value.map((item) => encodeValue(param.arrayChildren, item));
+  }
+
+  if (param.isTuple()) {
+    const components = param.components;
+    if (Array.isArray(value)) {
+      return components.map((component, i) => encodeValue(component, value[i]));
+    }
+    if (value !== null && typeof value === "object") {
+      return components.map((component) => {
+        if (!(component.name in value)) {
+          throw new Error(`Argument ${param.name || param.type} is missing field ${component.name}`);
+        }
+        return encodeValue(component, (value as Record<string, unknown>)[component.name]);
+      });
+    }
+    throw new Error(`Argument ${param.name || param.type} must be an object or array`);
+  }
+
+  if (param.baseType === "bool" && typeof value === "string") {
+    if (value === "true" || value === "false") return value === "true";
+    throw new Error(`Argument ${param.name || param.type} must be true or false (got "${value}")`);
+  }
+
+  if (/^u?int\d*$/.test(param.baseType) && typeof value === "number") {
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(`Argument ${param.name || param.type} must be a whole number below 2^53; use a string for larger values`);
+    }
+    return BigInt(value);
+  }
+
+  return value;
+}
+
+/**
+ * Coerce an argument list to a function's inputs
+ */
+export function encodeArgs(fragment: ethers.FunctionFragment, args: unknown[]): unknown[] {
+  if (args.length !== fragment.inputs.length) {
+    throw new Error(`${fragment.format("sighash")} takes ${fragment.inputs.length} argument(s), got ${args.length}`);
+  }
+  return fragment.inputs.map((input, i) => encodeValue(input, args[i]));
+}
+
+/**
+ * Convert one decoded value to JSON (bigints as decimal strings)
+ */
+export function decodeValue(param: ethers.ParamType, value: unknown): unknown {
+  if (param.isArray()) {
+    return Array.from(value as ArrayLike<unknown>, (item) => decodeValue(param.arrayChildren, item));
+  }
+
+  if (param.isTuple()) {
+    const items = Array.from(value as ArrayLike<unknown>);
+    const named = param.components.every((component) => component.name !== "");
+    if (!named) {
+      return param.components.map((component, i) => decodeValue(component, items[i]));
+    }
+    const result: Record<string, unknown> = {};
+    param.components.forEach((component, i) => {
+      result[component.name] = decodeValue(component, items[i]);
+    });
+    return result;
+  }
+
+  return typeof value === "bigint" ? value.toString() : value;
+}
+
+/**
+ * Decode a function's return values: a single value as itself, several as an
+ * object keyed by output name (positional index when unnamed); undefined when
+ * the function returns nothing
+ */
+export function decodeResult(fragment: ethers.FunctionFragment, values: ethers.Result): unknown {
+  const outputs = fragment.outputs;
+  if (outputs.length === 0) return undefined;
+  if (outputs.length === 1) return decodeValue(outputs[0], values[0]);
+
+  const result: Record<string, unknown> = {};
+  outputs.forEach((output, i) => {
+    result[output.name || String(i)] = decodeValue(output, values[i]);
+  });
+  return result;
+}
+
+export interface EncodedCall {
+  iface: ethers.Interface;
+  fragment: ethers.FunctionFragment;
+  data: string;
+}
+
+/**
+ * Resolve the function and encode its calldata
+ */
+export function encodeCall(request: ContractCallRequest): EncodedCall {
+  const iface = new ethers.Interface(request.abi);
+  const fragment = iface.getFunction(request.functionName);
+  if (!fragment) {
+    throw new Error(`ABI does not define function ${request.functionName}`);
+  }
+  return { iface, fragment, data: iface.encodeFunctionData(fragment, encodeArgs(fragment, request.args || [])) };
+}
+
+/**
+ * Decode the return data of an encoded call
+ */
+export function decodeCall(request: ContractCallRequest, call: EncodedCall, returnData: string): unknown {
+  if (returnData === "0x" && call.fragment.outputs.length > 0) {
+    throw new Error(`Call to ${call.fragment.name} returned no data (is ${request.to} a contract on this network?)`);
+  }
+  return decodeResult(call.fragment, call.iface.decodeFunctionResult(call.fragment, returnData));
+}
+
+/**
+ * Read-only contract call with ABI-driven arguments and decoded result.
+ * Reverts are decoded with the ABI's custom errors.
+ */
+export async function callContract(
+  provider: Pick<ethers.Provider, "call">,
+  request: ContractCallRequest
+): Promise<unknown> {
+  const call = encodeCall(request);
+
+  let returnData: string;
+  try {
+    returnData = await provider.call({ to: request.to, data: call.data, blockTag: request.blockTag ?? "latest" });
+  } catch (error) {
+    const revertData = extractRevertData(error);
+    if (revertData !== undefined) {
+      throw new ContractCallRevertError(call.fragment.name, decodeRevert(request.abi, revertData));
+    }
+    // A revert without data: ethers reports CALL_EXCEPTION, Hardhat's provider returns data "0x"
+    if (ethers.isCallException(error) || errorFields(error).data === "0x") {
+      throw new ContractCallRevertError(call.fragment.name);
+    }
+    throw error;
+  }
+
+  return decodeCall(request, call, returnData);
+}
+
+/**
+ * Block tag from config: block numbers (number or decimal string), hex, or a
+ * named tag such as latest, safe, finalized or pending
+ */
+export function parseBlockTag(value: unknown): ethers.BlockTag | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value === "number") return value;
+  const text = String(value).trim();
+  return /^\d+$/.test(text) ? parseInt(text, 10) : text;
+}
@@ -0,0 +1,413 @@
+/**
+ * US Address Parser
+ *
+ * Splits a free-form US address into its components and normalizes them the
+ * way USPS Publication 28 does, without a geocoder or network access:
+ * - street suffixes, directionals and secondary unit designators are reduced
+ *   to their standard abbreviations ("Street" -> ST, "North" -> N,
+ *   "Apartment" -> APT)
+ * - state names become two-letter codes and ZIP+4 is split into ZIP and
+ *   add-on
+ * - the city may follow the street after a comma or, when the address has a
+ *   state or ZIP, with no comma at all; without commas or a ZIP, a trailing
+ *   state only counts when a street suffix or unit designator leaves room for
+ *   a city before it ("123 Main Ct" is not in Connecticut)
+ *
+ * canonicalAddress gives one spelling for every way of typing the same
+ * address, used for cache keys and for matching comparables.
+ *
+ * Requirements:
+ * - 3.3: Cache market data
+ * - 3.5: Format data in standardized structure
+ */
+
+export interface ParsedAddress {
+  /** House number, e.g. "123" or "123A" */
+  number?: string;
+  /** Directional before the street name (N, SE, ...) */
+  predirectional?: string;
+  /** Street name as typed, e.g. "Main" or "Martin Luther King Jr" */
+  street: string;
+  /** Street suffix abbreviation (ST, AVE, BLVD, ...) */
+  suffix?: string;
+  /** Directional after the street suffix (NW in "Main St NW") */
+  postdirectional?: string;
+  /** Secondary unit designator (APT, STE, UNIT, ...; "#" when none was given) */
+  unitType?: string;
+  unitNumber?: string;
+  /** City as typed */
+  city?: string;
+  /** Two-letter state code */
+  state?: string;
+  /** Five-digit ZIP code */
+  zip?: string;
+  /** ZIP+4 add-on */
+  zip4?: string;
+}
+
+const DIRECTIONALS: Record<string, string> = {
+  N: "N",
+  S: "S",
+  E: "E",
+  W: "W",
+  NE: "NE",
+  NW: "NW",
+  SE: "SE",
+  SW: "SW",
+  NORTH: "N",
+  SOUTH: "S",
+  EAST: "E",
+  WEST: "W",
+  NORTHEAST: "NE",
+  NORTHWEST: "NW",
+  SOUTHEAST: "SE",
+  SOUTHWEST: "SW",
+};
+
+/** Common street suffixes: standard abbreviation -> other spellings */
+const SUFFIX_SPELLINGS: Record<string, string[]> = {
+  ALY: ["ALLEY", "ALLY"],
+  AVE: ["AVENUE", "AV", "AVEN", "AVENU", "AVN", "AVNUE"],
+  BLVD: ["BOULEVARD", "BOUL", "BOULV"],
+  CIR: ["CIRCLE", "CIRC", "CIRCL", "CRCL"],
+  CT: ["COURT", "CRT"],
+  CV: ["COVE"],
+  CRK: ["CREEK"],
+  CRES: ["CRESCENT", "CRSENT", "CRSNT"],
+  XING: ["CROSSING", "CRSSNG"],
+  DR: ["DRIVE", "DRIV", "DRV"],
+  ESTS: ["ESTATES"],
+  EXPY: ["EXPRESSWAY", "EXPRESS", "EXPW"],
+  FWY: ["FREEWAY", "FREEWY", "FRWAY", "FRWY"],
+  GDNS: ["GARDENS", "GARDN", "GRDEN", "GRDN"],
+  GLN: ["GLEN"],
+  GRV: ["GROVE", "GROV"],
+  HTS: ["HEIGHTS", "HT"],
+  HWY: ["HIGHWAY", "HIGHWY", "HIWAY", "HIWY", "HWAY"],
+  HL: ["HILL"],
+  HOLW: ["HOLLOW", "HLLW", "HOLLOWS", "HOLWS"],
+  JCT: ["JUNCTION", "JCTION", "JUNCTN"],
+  LK: ["LAKE"],
+  LNDG: ["LANDING", "LNDNG"],
+  LN: ["LANE"],
+  LOOP: ["LOOPS"],
+  MNR: ["MANOR"],
+  MDWS: ["MEADOWS", "MEDOWS"],
+  PARK: ["PRK"],
+  PKWY: ["PARKWAY", "PARKWY", "PKY", "PKWAY"],
+  PASS: [],
+  PATH: ["PATHS"],
+  PIKE: ["PIKES"],
+  PL: ["PLACE"],
+  PLZ: ["PLAZA", "PLZA"],
+  PT: ["POINT"],
+  RDG: ["RIDGE", "RDGE"],
+  RD: ["ROAD"],
+  ROW: [],
+  RUN: [],
+  SQ: ["SQUARE", "SQR", "SQRE", "SQU"],
+  STA: ["STATION", "STATN", "STN"],
+  ST: ["STREET", "STRT", "STR"],
+  SMT: ["SUMMIT", "SUMIT", "SUMITT"],
+  TER: ["TERRACE", "TERR"],
+  TRL: ["TRAIL", "TRAILS", "TRLS"],
+  TPKE: ["TURNPIKE", "TRNPK", "TURNPK"],
+  VLY: ["VALLEY", "VALLY", "VLLY"],
+  VW: ["VIEW"],
+  VLG: ["VILLAGE", "VILL", "VILLAG", "VILLG"],
+  WALK: ["WALKS"],
+  WAY: ["WY"],
+};
+
+/** Secondary unit designators: standard abbreviation -> other spellings */
+const UNIT_SPELLINGS: Record<string, string[]> = {
+  APT: ["APARTMENT"],
+  BLDG: ["BUILDING"],
+  BSMT: ["BASEMENT"],
+  DEPT: ["DEPARTMENT"],
+  FL: ["FLOOR"],
+  LOT: [],
+  PH: ["PENTHOUSE"],
+  RM: ["ROOM"],
+  SPC: ["SPACE"],
+  STE: ["SUITE"],
+  TRLR: ["TRAILER"],
+  UNIT: [],
+};
+
+/** Designators that stand on their own, without a number */
+const UNITS_WITHOUT_NUMBER = new Set(["BSMT", "PH"]);
+
+const STATES: Record<string, string> = {
+  ALABAMA: "AL",
+  ALASKA: "AK",
+  ARIZONA: "AZ",
+  ARKANSAS: "AR",
+  CALIFORNIA: "CA",
+  COLORADO: "CO",
+  CONNECTICUT: "CT",
+  DELAWARE: "DE",
+  "DISTRICT OF COLUMBIA": "DC",
+  FLORIDA: "FL",
+  GEORGIA: "GA",
+  HAWAII: "HI",
+  IDAHO: "ID",
+  ILLINOIS: "IL",
+  INDIANA: "IN",
+  IOWA: "IA",
+  KANSAS: "KS",
+  KENTUCKY: "KY",
+  LOUISIANA: "LA",
+  MAINE: "ME",
+  MARYLAND: "MD",
+  MASSACHUSETTS: "MA",
+  MICHIGAN: "MI",
+  MINNESOTA: "MN",
+  MISSISSIPPI: "MS",
+  MISSOURI: "MO",
+  MONTANA: "MT",
+  NEBRASKA: "NE",
+  NEVADA: "NV",
+  "NEW HAMPSHIRE": "NH",
+  "NEW JERSEY": "NJ",
+  "NEW MEXICO": "NM",
+  "NEW YORK": "NY",
+  "NORTH CAROLINA": "NC",
+  "NORTH DAKOTA": "ND",
+  OHIO: "OH",
+  OKLAHOMA: "OK",
+  OREGON: "OR",
+  PENNSYLVANIA: "PA",
+  "PUERTO RICO": "PR",
+  "RHODE ISLAND": "RI",
+  "SOUTH CAROLINA": "SC",
+  "SOUTH DAKOTA": "SD",
+  TENNESSEE: "TN",
+  TEXAS: "TX",
+  UTAH: "UT",
+  VERMONT: "VT",
+  VIRGINIA: "VA",
+  WASHINGTON: "WA",
+  "WEST VIRGINIA": "WV",
+  WISCONSIN: "WI",
+  WYOMING: "WY",
+};
+
+const STATE_CODES = new Set(Object.values(STATES));
+
+/** Words in the longest state name ("District of Columbia") */
+const MAX_STATE_WORDS = 3;
+
+function lookupTable(spellings: Record<string, string[]>): Record<string, string> {
+  const table: Record<string, string> = {};
+  for (const [abbreviation, others] of Object.entries(spellings)) {
+    table[abbreviation] = abbreviation;
+    for (const other of others) table[other] = abbreviation;
+  }
+  return table;
+}
+
+const SUFFIXES = lookupTable(SUFFIX_SPELLINGS);
+const UNIT_DESIGNATORS = lookupTable(UNIT_SPELLINGS);
+
+const HOUSE_NUMBER = /^\d+[A-Z]?(-\d+[A-Z]?)?$/;
+const ZIP_CODE = /[\s,]*\b(\d{5})(?:-?(\d{4}))?$/;
+
+function isUnitToken(token: string): boolean {
+  return token.startsWith("#") || token in UNIT_DESIGNATORS;
+}
+
+/**
+ * State code at the end of words, and how many words it took
+ */
+function trailingState(words: string[]): { code: string; length: number } | undefined {
+  for (let length = Math.min(MAX_STATE_WORDS, words.length); length >= 1; length--) {
+    const name = words.slice(-length).join(" ").toUpperCase();
+    if (name in STATES) return { code: STATES[name], length };
+  }
+  const last = words[words.length - 1]?.toUpperCase();
+  return last && STATE_CODES.has(last) ? { code: last, length: 1 } : undefined;
+}
+
+/**
+ * Whether words read as a street line with more words (a city) after it: a
+ * street suffix or unit designator after the street name that is not the
+ * last word
+ */
+function hasWordsAfterStreet(words: string[]): boolean {
+  const upper = words.map((word) => word.toUpperCase());
+  const nameStart = upper.length > 1 && HOUSE_NUMBER.test(upper[0]) ? 1 : 0;
+  return upper.some((token, i) => i > nameStart && i < upper.length - 1 && (token in SUFFIXES || isUnitToken(token)));
+}
+
+/**
+ * Street line components; with cityFollows, the words after the street (and
+ * unit) are returned as the remainder instead of being read as street name
+ */
+function parseStreetLine(tokens: string[], cityFollows: boolean): { parsed: ParsedAddress; remainder: string[] } {
+  const upper = tokens.map((token) => token.toUpperCase());
+  const parsed: ParsedAddress = { street: "" };
+  let start = 0;
+
+  if (tokens.length > 1 && HOUSE_NUMBER.test(upper[0])) {
+    parsed.number = upper[0];
+    start = 1;
+  }
+
+  // The street name needs at least one word before a unit designator
+  let end = upper.findIndex((token, i) => i > start && isUnitToken(token));
+  if (end === -1) end = tokens.length;
+
+  // "North Ave" is a street named North, "N Main" is Main with a directional
+  const nameLength = end - start;
+  if (
+    upper[start] in DIRECTIONALS &&
+    nameLength >= 2 &&
+    !(nameLength === 2 && upper[start + 1] in SUFFIXES)
+  ) {
+    parsed.predirectional = DIRECTIONALS[upper[start]];
+    start++;
+  }
+
+  let suffixAt = -1;
+  let nameEnd = end;
+  if (cityFollows) {
+    // The first suffix ends the street; the city comes after it
+    suffixAt = upper.findIndex((token, i) => i > start && i < end && token in SUFFIXES);
+    if (suffixAt !== -1) {
+      nameEnd = suffixAt + 1 < end && upper[suffixAt + 1] in DIRECTIONALS ? suffixAt + 2 : suffixAt + 1;
+    }
+  } else if (end - start >= 2 && upper[end - 1] in SUFFIXES) {
+    suffixAt = end - 1;
+  } else if (end - start >= 3 && upper[end - 1] in DIRECTIONALS && upper[end - 2] in SUFFIXES) {
+    suffixAt = end - 2;
+  }
+
+  if (suffixAt !== -1) {
+    parsed.suffix = SUFFIXES[upper[suffixAt]];
+    if (nameEnd > suffixAt + 1) parsed.postdirectional = DIRECTIONALS[upper[suffixAt + 1]];
+    parsed.street = tokens.slice(start, suffixAt).join(" ");
+  } else {
+    parsed.street = tokens.slice(start, end).join(" ");
+  }
+
+  let next = suffixAt !== -1 ? nameEnd : end;
+  if (next < tokens.length && isUnitToken(upper[next])) {
+    const token = upper[next++];
+    if (token.startsWith("#")) {
+      parsed.unitType = "#";
+      parsed.unitNumber = token.length > 1 ? token.slice(1) : upper[next++];
+    } else {
+      parsed.unitType = UNIT_DESIGNATORS[token];
+      if (!UNITS_WITHOUT_NUMBER.has(parsed.unitType) && next < tokens.length) {
+        parsed.unitNumber = upper[next++].replace(/^#/, "");
+      }
+    }
+    if (!parsed.unitNumber) delete parsed.unitNumber;
+  }
+
+  let remainder = tokens.slice(next);
+  if (!cityFollows && remainder.length > 0) {
+    // Words after the unit belong to it ("Bldg 4 Rear")
+    if (parsed.unitType) {
+      parsed.unitNumber = [parsed.unitNumber, ...remainder.map((word) => word.toUpperCase())].filter(Boolean).join(" ");
+    } else {
+      parsed.street = [parsed.street, ...remainder].join(" ");
+    }
+    remainder = [];
+  }
+
+  return { parsed, remainder };
+}
+
+/**
+ * Components of a US address, e.g.
+ * "123 N Main Street Apt 4B, San Francisco, California 94105-1234"
+ */
+export function parseUsAddress(address: string): ParsedAddress {
+  let rest = address.replace(/\./g, "").replace(/\s+/g, " ").trim();
+  let zip: string | undefined;
+  let zip4: string | undefined;
+
+  const zipMatch = rest.match(ZIP_CODE);
+  if (zipMatch && zipMatch.index! > 0) {
+    [, zip, zip4] = zipMatch;
+    rest = rest.slice(0, zipMatch.index).trim();
+  }
+
+  const segments = rest
+    .split(",")
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+
+  // A lone street line has no state ("123 Main Ct" is not in Connecticut)
+  let state: string | undefined;
+  if (segments.length > 0) {
+    const words = segments[segments.length - 1].split(" ");
+    const found = trailingState(words);
+    const remaining = found ? words.slice(0, words.length - found.length) : [];
+    if (found && (segments.length > 1 || (remaining.length > 0 && (zip || hasWordsAfterStreet(remaining))))) {
+      state = found.code;
+      if (remaining.length > 0) segments[segments.length - 1] = remaining.join(" ");
+      else segments.pop();
+    }
+  }
+
+  let city: string | undefined;
+  if (segments.length > 1 && !isUnitToken(segments[segments.length - 1].split(" ")[0].toUpperCase())) {
+    city = segments.pop();
+  }
+
+  const tokens = segments.join(" ").split(" ").filter(Boolean);
+  const { parsed, remainder } = parseStreetLine(tokens, city === undefined && (state !== undefined || zip !== undefined));
+  if (remainder.length > 0) city = remainder.join(" ");
+
+  return {
+    ...parsed,
+    ...(city ? { city } : {}),
+    ...(state ? { state } : {}),
+    ...(zip ? { zip } : {}),
+    ...(zip4 ? { zip4 } : {}),
+  };
+}
+
+function titleCase(word: string): string {
+  return word.charAt(0) + word.slice(1).toLowerCase();
+}
+
+/**
+ * Street line for display: the street as typed with standard abbreviations,
+ * e.g. "123 N Main St Apt 4B"
+ */
+export function formatStreetLine(parsed: ParsedAddress): string {
+  const unit =
+    parsed.unitType === "#"
+      ? `#${parsed.unitNumber ?? ""}`
+      : parsed.unitType && [titleCase(parsed.unitType), parsed.unitNumber].filter(Boolean).join(" ");
+
+  return [
+    parsed.number,
+    parsed.predirectional,
+    parsed.street,
+    parsed.suffix && titleCase(parsed.suffix),
+    parsed.postdirectional,
+    unit,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * One spelling for every way of typing an address:
+ * "123 N MAIN ST APT 4B, SAN FRANCISCO, CA 94105". Parts that were not given
+ * are left out; the ZIP+4 add-on is always left out.
+ */
+export function canonicalAddress(address: string | ParsedAddress): string {
+  const parsed = typeof address === "string" ? parseUsAddress(address) : address;
+  const stateZip = [parsed.state, parsed.zip].filter(Boolean).join(" ");
+
+  return [formatStreetLine(parsed), parsed.city, stateZip]
+    .filter(Boolean)
+    .join(", ")
+    .toUpperCase();
+}
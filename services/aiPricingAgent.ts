@@ -1,6 +1,8 @@
 /**
  * AI Pricing Agent Service
  * Uses OpenAI API to analyze market data and generate optimal rental price recommendations
+ * Both the prompt and the rule-based fallback use the similarity-weighted
+ * comparables estimate (comparables.ts)
  * Requirements: 4.1, 4.2, 4.3, 4.6, 13.2
  */
 
@@ -11,6 +13,7 @@ import {
   PricingRecommendation,
   PricingAnalysisRequest,
 } from './types';
+import { ComparablesAnalysis, analyzeComparables, describeComparables } from './comparables';
 
 const DEFAULT_TIMEOUT_MS = 30000; // 30 seconds
 const MAX_RETRIES = 3;
@@ -28,7 +31,9 @@ export function computeRuleBasedRecommendation(
   const { marketData, propertyDetails } = request;
   const { averageRent, medianRent, rentGrowthYoY: rentGrowth, occupancyRate } = marketData.marketMetrics;
 
-  let recommendedPrice = medianRent;
+  // Start from the comparables most like this property when there are any
+  const comparables = analyzeComparables(marketData.comparableProperties, propertyDetails);
+  let recommendedPrice = comparables ? comparables.estimatedRent : medianRent;
 
   if (rentGrowth > 5) recommendedPrice *= 1.05;
   else if (rentGrowth < 0) recommendedPrice *= 0.95;
@@ -46,6 +51,10 @@ export function computeRuleBasedRecommendation(
   let confidence = 85;
   if (marketData.comparableProperties.length < 3) confidence -= 15;
   if (marketData.isStale) confidence -= 10;
+  // Up to 20 points off as the market data sources disagree
+  if (marketData.consensus) confidence -= Math.round((100 - marketData.consensus.confidence) / 5);
+  // Up to 10 points off as the comparables resemble the property less
+  if (comparables) confidence -= Math.round((100 - comparables.similarity) / 10);
 
   const priceDiff = propertyDetails.currentPrice
     ? ((recommendedPrice - propertyDetails.currentPrice) / propertyDetails.currentPrice * 100).toFixed(1)
@@ -54,6 +63,7 @@ export function computeRuleBasedRecommendation(
 
   const reasoning = `Based on comprehensive market analysis, I recommend a monthly rental price of $${Math.round(recommendedPrice).toLocaleString()} for this ${propertyDetails.propertyType} property. ` +
     `Market Comparison: ${((recommendedPrice / medianRent - 1) * 100).toFixed(1)}% ${recommendedPrice > medianRent ? 'above' : 'below'} median ($${medianRent.toLocaleString()}). ` +
+    (comparables ? `${describeEstimate(comparables)} ` : '') +
     `Market Trends: ${rentGrowth > 0 ? 'Positive' : 'Negative'} growth at ${rentGrowth.toFixed(1)}% YoY. ` +
     `Occupancy: ${occupancyRate}%. ` +
     (propertyDetails.currentPrice
@@ -65,9 +75,20 @@ export function computeRuleBasedRecommendation(
     price: Math.round(recommendedPrice),
     confidence: Math.round(Math.max(0, Math.min(100, confidence))),
     reasoning,
+    ...(includeFallbackNote ? { isFallback: true } : {}),
   };
 }
 
+/**
+ * One-sentence summary of a comparables estimate
+ */
+function describeEstimate(comparables: ComparablesAnalysis): string {
+  return `Comparables: $${comparables.weightedRent.toLocaleString()} weighted by similarity across ${comparables.used} ` +
+    `(${comparables.similarity}% similar)` +
+    (comparables.rentPerSqFt !== undefined ? `, $${comparables.rentPerSqFt.toFixed(2)}/sq ft` : '') +
+    '.';
+}
+
 export class AIPricingAgent {
   private client: OpenAI;
   private model: string;
@@ -124,6 +145,7 @@ export class AIPricingAgent {
       'July', 'August', 'September', 'October', 'November', 'December'
     ];
     const currentMonthName = monthNames[month - 1];
+    const comparables = analyzeComparables(marketData.comparableProperties, propertyDetails);
 
     return `You are an expert real estate pricing analyst. Analyze the provided market data and generate an optimal rental price recommendation.
 
@@ -138,13 +160,20 @@ CURRENT PROPERTY:
 ${propertyDetails.bedrooms ? `- Bedrooms: ${propertyDetails.bedrooms}` : ''}
 ${propertyDetails.bathrooms ? `- Bathrooms: ${propertyDetails.bathrooms}` : ''}
 ${propertyDetails.squareFeet ? `- Square Feet: ${propertyDetails.squareFeet}` : ''}
-
+${comparables ? `
+COMPARABLES ANALYSIS (similarity to this property on size, bedrooms, bathrooms and distance):
+- Similarity-weighted rent: $${comparables.weightedRent}/month from ${comparables.used} comparables (${comparables.similarity}% similar)
+${comparables.rentPerSqFt !== undefined ? `- Rent per square foot: $${comparables.rentPerSqFt.toFixed(2)}${comparables.sizeAdjustedRent !== undefined ? ` ($${comparables.sizeAdjustedRent}/month for this property's size)` : ''}` : ''}
+- Estimated rent: $${comparables.estimatedRent}/month
+- Most similar comparables:
+${describeComparables(comparables).map((line) => `  - ${line}`).join('\n')}
+` : ''}
 ANALYSIS REQUIREMENTS:
-1. Compare current price to market averages from comparable properties
+1. Compare current price to market averages from comparable properties, giving most weight to the most similar ones
 2. Consider rent growth trends (${marketData.marketMetrics.rentGrowthYoY}% YoY)
 3. Factor in occupancy rates (${marketData.marketMetrics.occupancyRate}% - higher occupancy may justify lower price)
 4. Account for seasonal factors (current month: ${currentMonthName})
-5. Provide confidence score based on data quality and market stability
+5. Provide confidence score based on data quality and market stability${marketData.consensus ? ` (the market data sources agree with confidence ${marketData.consensus.confidence}/100)` : ''}
 
 PRICING STRATEGY:
 - Prioritize stable occupancy over maximum rent
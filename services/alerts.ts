@@ -0,0 +1,215 @@
+/**
+ * Workflow Alert Rules
+ *
+ * Evaluates monitoring.alerts conditions after each run and routes fired
+ * alerts to the configured sinks (log, webhook, file). Conditions use the
+ * step condition expression language and can reference run metrics by name
+ * (e.g. `workflow_execution_time > 60000`) or step outputs
+ * (`steps.<id>.outputs.<path>`). An alert with `for_runs: N` fires only when
+ * its condition held for the current run and the N-1 runs before it.
+ *
+ * Requirements:
+ * - 2.5: Log errors and continue operation
+ * - 11.3: Log each step execution with timestamps and results
+ */
+
+import { Expression, parseExpression, evaluateExpression, isTruthy } from "./expressionEvaluator";
+import { FileNotifier, LogNotifier, Notifier, WebhookNotifier } from "./notifier";
+import { SecretsProvider, createSecretsProvider } from "./secretsProvider";
+import {
+  AlertConfig,
+  AlertSinkConfig,
+  FiredAlert,
+  MonitoringConfig,
+  WorkflowNotification,
+  WorkflowState,
+} from "./types";
+
+interface AlertRule {
+  config: AlertConfig;
+  expression: Expression;
+  severity: WorkflowNotification["severity"];
+  forRuns: number;
+  sinks: string[];
+}
+
+const DEFAULT_SINKS: AlertSinkConfig[] = [{ name: "log", type: "log" }];
+
+const SEVERITIES: Record<string, WorkflowNotification["severity"]> = {
+  info: "info",
+  warn: "warning",
+  warning: "warning",
+  error: "error",
+  critical: "critical",
+};
+
+function substituteSecrets(value: string, secrets: SecretsProvider): string {
+  return value.replace(/\$\{([^}]+)\}/g, (match, name) => secrets.get(name.trim()) || match);
+}
+
+function getNestedValue(obj: any, path: string): any {
+  return path.split(".").reduce((current, key) => current?.[key], obj);
+}
+
+/**
+ * Build the notifier for a sink definition; ${VAR} in a url or path is
+ * resolved through the secrets provider
+ */
+export function createAlertSink(config: AlertSinkConfig, secrets: SecretsProvider = createSecretsProvider()): Notifier {
+  switch (config.type) {
+    case "log":
+      return new LogNotifier();
+    case "webhook":
+      if (!config.url) {
+        throw new Error(`Alert sink ${config.name}: webhook sink requires a url`);
+      }
+      return new WebhookNotifier(substituteSecrets(config.url, secrets));
+    case "file":
+      if (!config.path) {
+        throw new Error(`Alert sink ${config.name}: file sink requires a path`);
+      }
+      return new FileNotifier(substituteSecrets(config.path, secrets));
+    default:
+      throw new Error(`Alert sink ${config.name}: unknown sink type ${(config as AlertSinkConfig).type}`);
+  }
+}
+
+/**
+ * Resolve an alert reference against a finished run:
+ * steps.<id>.outputs.<path>, status, or a run metric (optionally prefixed with metrics.)
+ */
+export function resolveAlertReference(state: WorkflowState, path: string): unknown {
+  if (path.startsWith("steps.")) {
+    const parts = path.split(".");
+    const stepOutput = state.step_outputs[parts[1]];
+    const outputPath = parts.slice(3).join(".");
+    return outputPath ? getNestedValue(stepOutput, outputPath) : stepOutput;
+  }
+  if (path === "status") {
+    return state.status;
+  }
+  return getNestedValue(state.metrics, path.startsWith("metrics.") ? path.slice("metrics.".length) : path);
+}
+
+export class AlertEngine {
+  private rules: AlertRule[];
+  private sinks: Map<string, Notifier> = new Map();
+
+  constructor(
+    monitoring: MonitoringConfig,
+    sinkFactory: (config: AlertSinkConfig, secrets: SecretsProvider) => Notifier = createAlertSink,
+    secrets: SecretsProvider = createSecretsProvider()
+  ) {
+    const sinkConfigs = monitoring.sinks && monitoring.sinks.length > 0 ? monitoring.sinks : DEFAULT_SINKS;
+    for (const sinkConfig of sinkConfigs) {
+      if (this.sinks.has(sinkConfig.name)) {
+        throw new Error(`Duplicate alert sink name: ${sinkConfig.name}`);
+      }
+      this.sinks.set(sinkConfig.name, sinkFactory(sinkConfig, secrets));
+    }
+
+    this.rules = (monitoring.alerts || []).map((config) => {
+      let expression: Expression;
+      try {
+        expression = parseExpression(config.condition);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`Invalid alert condition "${config.condition}": ${errorMessage}`);
+      }
+
+      const forRuns = config.for_runs ?? 1;
+      if (!Number.isInteger(forRuns) || forRuns < 1) {
+        throw new Error(`Alert "${config.condition}": for_runs must be a positive integer`);
+      }
+
+      const sinks = config.sinks || [...this.sinks.keys()];
+      for (const sink of sinks) {
+        if (!this.sinks.has(sink)) {
+          throw new Error(`Alert "${config.condition}" routes to unknown sink: ${sink}`);
+        }
+      }
+
+      return {
+        config,
+        expression,
+        severity: SEVERITIES[(config.severity || "warning").toLowerCase()] || "warning",
+        forRuns,
+        sinks,
+      };
+    });
+  }
+
+  /**
+   * Number of previous runs needed to evaluate every for_runs window
+   */
+  get historyDepth(): number {
+    return Math.max(0, ...this.rules.map((rule) => rule.forRuns - 1));
+  }
+
+  /**
+   * Evaluate all alert rules for a finished run.
+   * `history` holds earlier runs of the same workflow, newest first.
+   * A condition that cannot be evaluated (e.g. a type error) does not fire.
+   */
+  evaluate(state: WorkflowState, history: WorkflowState[] = []): FiredAlert[] {
+    const fired: FiredAlert[] = [];
+
+    for (const rule of this.rules) {
+      const window = [state, ...history.slice(0, rule.forRuns - 1)];
+      if (window.length < rule.forRuns) continue;
+
+      if (window.every((run) => this.holds(rule, run))) {
+        fired.push({
+          condition: rule.config.condition,
+          severity: rule.severity,
+          message: rule.config.message,
+          timestamp: Date.now(),
+          sinks: rule.sinks,
+        });
+      }
+    }
+
+    return fired;
+  }
+
+  /**
+   * Deliver fired alerts to their sinks. Sink failures are logged, never thrown.
+   */
+  async dispatch(alerts: FiredAlert[], state: WorkflowState): Promise<void> {
+    const deliveries: Promise<void>[] = [];
+
+    for (const alert of alerts) {
+      const notification: WorkflowNotification = {
+        workflow_id: state.workflow_id,
+        execution_id: state.execution_id,
+        severity: alert.severity,
+        title: `Workflow alert: ${alert.message}`,
+        message: `${alert.message} (condition: ${alert.condition})`,
+        timestamp: alert.timestamp,
+        details: { condition: alert.condition, metrics: state.metrics },
+      };
+
+      for (const sink of alert.sinks) {
+        deliveries.push(
+          this.sinks
+            .get(sink)!
+            .notify(notification)
+            .catch((error) => {
+              console.warn(`Alert sink ${sink} failed: ${error}`);
+            })
+        );
+      }
+    }
+
+    await Promise.all(deliveries);
+  }
+
+  private holds(rule: AlertRule, run: WorkflowState): boolean {
+    try {
+      return isTruthy(evaluateExpression(rule.expression, (path) => resolveAlertReference(run, path)));
+    } catch (error) {
+      console.warn(`Alert condition "${rule.config.condition}" could not be evaluated: ${error}`);
+      return false;
+    }
+  }
+}
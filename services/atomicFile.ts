@@ -0,0 +1,51 @@
+/**
+ * Atomic File Writes
+ *
+ * The file-backed stores (runs, circuit breaker state, scheduler and event
+ * checkpoints, cache entries) write a document to a temporary file and
+ * rename it over the target, so a crash never leaves a half-written file.
+ *
+ * Each write gets its own temporary file (process id plus a counter), so
+ * processes and concurrent writes in one process never share one. Writes to
+ * the same file within a process run one after another in call order, so the
+ * last save always wins.
+ *
+ * Requirements:
+ * - 11.3: Log each step execution with timestamps and results
+ */
+
+import * as fs from "fs";
+
+let tmpCounter = 0;
+
+/** Tail of the write queue per target file */
+const pendingWrites: Map<string, Promise<void>> = new Map();
+
+async function writeThenRename(file: string, contents: string): Promise<void> {
+  const tmpFile = `${file}.${process.pid}.${++tmpCounter}.tmp`;
+  try {
+    await fs.promises.writeFile(tmpFile, contents);
+    await fs.promises.rename(tmpFile, file);
+  } catch (error) {
+    await fs.promises.rm(tmpFile, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Replace a file's contents atomically, after any earlier write to the same
+ * file from this process has finished
+ */
+export function writeFileAtomic(file: string, contents: string): Promise<void> {
+  const previous = pendingWrites.get(file) ?? Promise.resolve();
+  // An earlier failed write is reported to its own caller, not to this one
+  const write = previous.catch(() => undefined).then(() => writeThenRename(file, contents));
+  const tail = write.catch(() => undefined);
+  pendingWrites.set(file, tail);
+  void tail.then(() => {
+    if (pendingWrites.get(file) === tail) {
+      pendingWrites.delete(file);
+    }
+  });
+  return write;
+}
@@ -0,0 +1,308 @@
+/**
+ * Cache Store
+ *
+ * Cache shared by the orchestrator (http step `cache` settings) and
+ * MarketDataOracle. Every entry records when it was fetched and its TTL, so
+ * an expired entry can still be served as stale data when its source fails
+ * (Requirement 13.1), including by a later process when the store persists.
+ *
+ * CacheStore is the extension point; InMemoryCacheStore lives as long as the
+ * process, FileCacheStore keeps one JSON document per key in a directory and
+ * SqliteCacheStore keeps a table in a SQLite database (better-sqlite3). Each
+ * store instance counts hits, stale hits, misses and
+ * writes and reports them with stats() for monitoring.
+ *
+ * Requirements:
+ * - 3.3: Cache market data
+ * - 3.4: Use cached data when API unavailable
+ * - 13.1: Use cached data on API failure
+ */
+
+import Database from "better-sqlite3";
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { writeFileAtomic } from "./atomicFile";
+
+export interface CacheEntry<T = any> {
+  value: T;
+  /** When the value was fetched (ms since epoch) */
+  fetchedAt: number;
+  /** How long the value stays fresh (ms) */
+  ttlMs: number;
+}
+
+export interface CacheHit<T = any> extends CacheEntry<T> {
+  /** The entry is past its TTL (only returned with allowStale) */
+  stale: boolean;
+}
+
+export interface CacheStats {
+  backend: string;
+  entries: number;
+  /** Fresh entries returned */
+  hits: number;
+  /** Expired entries returned because the caller allowed stale data */
+  staleHits: number;
+  /** Lookups that found no entry, or only an expired one */
+  misses: number;
+  writes: number;
+  /** Share of lookups answered from the cache, fresh or stale (percentage) */
+  hitRate: number;
+}
+
+export interface CacheStore {
+  readonly backend: string;
+  /** The entry for a key; expired entries only with allowStale */
+  get<T = any>(key: string, allowStale?: boolean): Promise<CacheHit<T> | null>;
+  set<T = any>(key: string, value: T, ttlMs: number, fetchedAt?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Remove the entries whose key starts with prefix (all entries when omitted) */
+  clear(prefix?: string): Promise<void>;
+  stats(): Promise<CacheStats>;
+}
+
+const DEFAULT_RUN_DIRECTORY = ".workflow-runs";
+
+/**
+ * JSON round trip so cached values never alias live objects and every
+ * backend returns the same thing (bigints are stored as strings)
+ */
+function serialize(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => (typeof item === "bigint" ? item.toString() : item));
+}
+
+/**
+ * Hit and miss counts for one store, and the freshness check every backend shares
+ */
+class CacheCounters {
+  private hits = 0;
+  private staleHits = 0;
+  private misses = 0;
+  private writes = 0;
+
+  lookup<T>(entry: CacheEntry<T> | null, allowStale: boolean): CacheHit<T> | null {
+    if (!entry) {
+      this.misses++;
+      return null;
+    }
+    const stale = Date.now() - entry.fetchedAt >= entry.ttlMs;
+    if (stale && !allowStale) {
+      this.misses++;
+      return null;
+    }
+    if (stale) this.staleHits++;
+    else this.hits++;
+    return { ...entry, stale };
+  }
+
+  written(): void {
+    this.writes++;
+  }
+
+  stats(backend: string, entries: number): CacheStats {
+    const lookups = this.hits + this.staleHits + this.misses;
+    return {
+      backend,
+      entries,
+      hits: this.hits,
+      staleHits: this.staleHits,
+      misses: this.misses,
+      writes: this.writes,
+      hitRate: lookups > 0 ? ((this.hits + this.staleHits) / lookups) * 100 : 0,
+    };
+  }
+}
+
+/**
+ * In-memory cache store
+ */
+export class InMemoryCacheStore implements CacheStore {
+  readonly backend = "memory";
+  private entries: Map<string, string> = new Map();
+  private counters = new CacheCounters();
+
+  async get<T = any>(key: string, allowStale: boolean = false): Promise<CacheHit<T> | null> {
+    const stored = this.entries.get(key);
+    return this.counters.lookup<T>(stored ? JSON.parse(stored) : null, allowStale);
+  }
+
+  async set<T = any>(key: string, value: T, ttlMs: number, fetchedAt: number = Date.now()): Promise<void> {
+    this.entries.set(key, serialize({ value, fetchedAt, ttlMs }));
+    this.counters.written();
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(prefix: string = ""): Promise<void> {
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+
+  async stats(): Promise<CacheStats> {
+    return this.counters.stats(this.backend, this.entries.size);
+  }
+}
+
+/**
+ * File-backed cache store: <directory>/<sha256 of key>.json
+ */
+export class FileCacheStore implements CacheStore {
+  readonly backend = "file";
+  private directory: string;
+  private counters = new CacheCounters();
+
+  constructor(directory?: string) {
+    this.directory = directory || path.join(process.env.WORKFLOW_RUN_DIR || DEFAULT_RUN_DIRECTORY, "cache");
+  }
+
+  async get<T = any>(key: string, allowStale: boolean = false): Promise<CacheHit<T> | null> {
+    let stored: (CacheEntry<T> & { key: string }) | null = null;
+    try {
+      stored = JSON.parse(await fs.promises.readFile(this.fileFor(key), "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.warn(`Ignoring unreadable cache entry for ${key}: ${error}`);
+      }
+    }
+    const entry = stored && { value: stored.value, fetchedAt: stored.fetchedAt, ttlMs: stored.ttlMs };
+    return this.counters.lookup(entry, allowStale);
+  }
+
+  async set<T = any>(key: string, value: T, ttlMs: number, fetchedAt: number = Date.now()): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await writeFileAtomic(this.fileFor(key), serialize({ key, value, fetchedAt, ttlMs }));
+    this.counters.written();
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.fileFor(key), { force: true });
+  }
+
+  async clear(prefix: string = ""): Promise<void> {
+    for (const file of await this.files()) {
+      const filePath = path.join(this.directory, file);
+      if (prefix) {
+        try {
+          const { key } = JSON.parse(await fs.promises.readFile(filePath, "utf8"));
+          if (typeof key === "string" && !key.startsWith(prefix)) continue;
+        } catch {
+          // Unreadable entries are removed
+        }
+      }
+      await fs.promises.rm(filePath, { force: true });
+    }
+  }
+
+  async stats(): Promise<CacheStats> {
+    return this.counters.stats(this.backend, (await this.files()).length);
+  }
+
+  private async files(): Promise<string[]> {
+    try {
+      return (await fs.promises.readdir(this.directory)).filter((file) => file.endsWith(".json"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${createHash("sha256").update(key).digest("hex")}.json`);
+  }
+}
+
+/**
+ * SQLite cache store: a cache_entries table in <file>
+ */
+export class SqliteCacheStore implements CacheStore {
+  readonly backend = "sqlite";
+  private db: Database.Database;
+  private counters = new CacheCounters();
+
+  constructor(file?: string) {
+    const dbFile = file || path.join(process.env.WORKFLOW_RUN_DIR || DEFAULT_RUN_DIRECTORY, "cache.sqlite");
+    fs.mkdirSync(path.dirname(dbFile), { recursive: true });
+
+    this.db = new Database(dbFile);
+    this.db.exec(
+      "CREATE TABLE IF NOT EXISTS cache_entries (" +
+        "key TEXT PRIMARY KEY, value TEXT NOT NULL, fetched_at INTEGER NOT NULL, ttl_ms INTEGER NOT NULL)"
+    );
+  }
+
+  async get<T = any>(key: string, allowStale: boolean = false): Promise<CacheHit<T> | null> {
+    const row = this.db.prepare("SELECT value, fetched_at, ttl_ms FROM cache_entries WHERE key = ?").get(key) as
+      | { value: string; fetched_at: number; ttl_ms: number }
+      | undefined;
+    const entry = row ? { value: JSON.parse(row.value), fetchedAt: Number(row.fetched_at), ttlMs: Number(row.ttl_ms) } : null;
+    return this.counters.lookup<T>(entry, allowStale);
+  }
+
+  async set<T = any>(key: string, value: T, ttlMs: number, fetchedAt: number = Date.now()): Promise<void> {
+    this.db
+      .prepare(
+        "INSERT INTO cache_entries (key, value, fetched_at, ttl_ms) VALUES (?, ?, ?, ?) " +
+          "ON CONFLICT(key) DO UPDATE SET value = excluded.value, fetched_at = excluded.fetched_at, ttl_ms = excluded.ttl_ms"
+      )
+      .run(key, serialize(value), fetchedAt, ttlMs);
+    this.counters.written();
+  }
+
+  async delete(key: string): Promise<void> {
+    this.db.prepare("DELETE FROM cache_entries WHERE key = ?").run(key);
+  }
+
+  async clear(prefix: string = ""): Promise<void> {
+    this.db.prepare("DELETE FROM cache_entries WHERE substr(key, 1, ?) = ?").run(prefix.length, prefix);
+  }
+
+  async stats(): Promise<CacheStats> {
+    const { count } = this.db.prepare("SELECT COUNT(*) AS count FROM cache_entries").get() as { count: number };
+    return this.counters.stats(this.backend, Number(count));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Cache store from WORKFLOW_CACHE (file, the default; sqlite; or memory) and
+ * WORKFLOW_CACHE_PATH (the directory or database file; defaults to cache or
+ * cache.sqlite in WORKFLOW_RUN_DIR)
+ */
+export function cacheStoreFromEnv(env: NodeJS.ProcessEnv = process.env): CacheStore {
+  const backend = (env.WORKFLOW_CACHE || "file").toLowerCase();
+  const runDirectory = env.WORKFLOW_RUN_DIR || DEFAULT_RUN_DIRECTORY;
+
+  switch (backend) {
+    case "file":
+      return new FileCacheStore(env.WORKFLOW_CACHE_PATH || path.join(runDirectory, "cache"));
+    case "sqlite":
+      return new SqliteCacheStore(env.WORKFLOW_CACHE_PATH || path.join(runDirectory, "cache.sqlite"));
+    case "memory":
+      return new InMemoryCacheStore();
+    default:
+      throw new Error(`Unknown WORKFLOW_CACHE backend: ${env.WORKFLOW_CACHE} (expected file, sqlite or memory)`);
+  }
+}
+
+let defaultStore: { settings: string; store: CacheStore } | undefined;
+
+/**
+ * Process-wide cache store used by executeWorkflow and the scheduler, so its
+ * statistics add up across runs; recreated when the cache settings change
+ */
+export function defaultCacheStore(env: NodeJS.ProcessEnv = process.env): CacheStore {
+  const settings = JSON.stringify([env.WORKFLOW_CACHE, env.WORKFLOW_CACHE_PATH, env.WORKFLOW_RUN_DIR]);
+  if (defaultStore?.settings !== settings) {
+    defaultStore = { settings, store: cacheStoreFromEnv(env) };
+  }
+  return defaultStore.store;
+}
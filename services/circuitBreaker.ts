@@ -0,0 +1,166 @@
+/**
+ * Workflow Circuit Breaker
+ *
+ * Tracks consecutive failed executions per workflow across runs
+ * (error_handling.max_consecutive_failures). Once tripped, the orchestrator
+ * refuses to submit on-chain transactions until an operator resets it.
+ *
+ * Requirements:
+ * - 2.5: Log errors and continue operation
+ * - 13.3: Log transaction failures
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { writeFileAtomic } from "./atomicFile";
+import { CircuitBreakerState, WorkflowState } from "./types";
+
+export interface CircuitStateStore {
+  load(workflowId: string): Promise<CircuitBreakerState | null>;
+  save(state: CircuitBreakerState): Promise<void>;
+}
+
+export interface CircuitUpdate {
+  state: CircuitBreakerState;
+  /** True only on the execution that tripped the breaker */
+  tripped: boolean;
+  failed: boolean;
+}
+
+/**
+ * An execution counts as failed if the workflow failed or any step recorded an error
+ */
+export function isFailedExecution(state: WorkflowState): boolean {
+  return state.status === "failed" || state.errors.length > 0;
+}
+
+/**
+ * Breaker key for an execution: runs fanned out over properties each have
+ * their own breaker (<workflow_id>.<property_id>), so one failing property
+ * doesn't disable transactions for the others
+ */
+export function circuitId(state: Pick<WorkflowState, "workflow_id" | "property_id">): string {
+  return state.property_id ? `${state.workflow_id}.${state.property_id}` : state.workflow_id;
+}
+
+/**
+ * In-memory circuit state store
+ */
+export class InMemoryCircuitStateStore implements CircuitStateStore {
+  private states: Map<string, CircuitBreakerState> = new Map();
+
+  async load(workflowId: string): Promise<CircuitBreakerState | null> {
+    const state = this.states.get(workflowId);
+    return state ? { ...state } : null;
+  }
+
+  async save(state: CircuitBreakerState): Promise<void> {
+    this.states.set(state.workflow_id, { ...state });
+  }
+}
+
+/**
+ * File-backed circuit state store: <directory>/<workflow_id>.json
+ */
+export class FileCircuitStateStore implements CircuitStateStore {
+  private directory: string;
+
+  constructor(directory?: string) {
+    this.directory =
+      directory || path.join(process.env.WORKFLOW_RUN_DIR || ".workflow-runs", "circuit-breakers");
+  }
+
+  async load(workflowId: string): Promise<CircuitBreakerState | null> {
+    try {
+      const content = await fs.promises.readFile(this.fileFor(workflowId), "utf8");
+      return JSON.parse(content);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async save(state: CircuitBreakerState): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await writeFileAtomic(this.fileFor(state.workflow_id), JSON.stringify(state, null, 2));
+  }
+
+  private fileFor(workflowId: string): string {
+    if (!/^[\w.\-]+$/.test(workflowId)) {
+      throw new Error(`Invalid workflow id: ${workflowId}`);
+    }
+    return path.join(this.directory, `${workflowId}.json`);
+  }
+}
+
+export class CircuitBreaker {
+  constructor(private store: CircuitStateStore = new FileCircuitStateStore()) {}
+
+  /**
+   * Current breaker state (a closed breaker with no history if none is stored)
+   */
+  async getState(workflowId: string): Promise<CircuitBreakerState> {
+    const state = await this.store.load(workflowId);
+    return (
+      state || {
+        workflow_id: workflowId,
+        consecutive_failures: 0,
+        tripped: false,
+        updated_at: Date.now(),
+      }
+    );
+  }
+
+  async isOpen(workflowId: string): Promise<boolean> {
+    return (await this.getState(workflowId)).tripped;
+  }
+
+  /**
+   * Record the outcome of an execution. A success resets the failure count
+   * but never closes a tripped breaker; only reset() does that.
+   */
+  async recordExecution(
+    execution: WorkflowState,
+    maxConsecutiveFailures?: number
+  ): Promise<CircuitUpdate> {
+    const state = await this.getState(circuitId(execution));
+    const failed = isFailedExecution(execution);
+    let tripped = false;
+
+    state.last_execution_id = execution.execution_id;
+    state.updated_at = Date.now();
+
+    if (failed) {
+      state.consecutive_failures++;
+      const lastError = execution.errors[execution.errors.length - 1];
+      state.last_failure = lastError ? `${lastError.step_id}: ${lastError.error}` : "Workflow failed";
+
+      if (!state.tripped && maxConsecutiveFailures && state.consecutive_failures >= maxConsecutiveFailures) {
+        state.tripped = true;
+        state.tripped_at = state.updated_at;
+        tripped = true;
+      }
+    } else {
+      state.consecutive_failures = 0;
+    }
+
+    await this.store.save(state);
+    return { state, tripped, failed };
+  }
+
+  /**
+   * Operator reset: close the breaker and clear the failure count
+   */
+  async reset(workflowId: string): Promise<CircuitBreakerState> {
+    const state: CircuitBreakerState = {
+      workflow_id: workflowId,
+      consecutive_failures: 0,
+      tripped: false,
+      updated_at: Date.now(),
+    };
+    await this.store.save(state);
+    return state;
+  }
+}
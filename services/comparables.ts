@@ -0,0 +1,153 @@
+/**
+ * Comparables Engine
+ *
+ * Scores each comparable rental against the subject property and estimates
+ * the subject's rent from the comparables that resemble it most, rather than
+ * from the market median alone:
+ * - similarity (0-1) combines size, bedrooms, bathrooms and distance; a
+ *   factor only counts when both the subject and the comparable report it
+ * - the weighted rent averages the comparables' rents weighted by similarity
+ * - the rent per square foot, weighted the same way, times the subject's
+ *   size gives a size-adjusted rent
+ *
+ * Providers report a missing size, bedroom or bathroom count as 0, so 0 is
+ * read as not reported.
+ *
+ * Requirements:
+ * - 3.2: Include comparable properties and market metrics
+ * - 4.1: Analyze market data for pricing recommendation
+ */
+
+import { MarketData, PropertyDetails } from "./types";
+
+export type Comparable = MarketData["comparableProperties"][number];
+
+export interface ScoredComparable extends Comparable {
+  /** 0-1: how closely the comparable matches the subject property */
+  similarity: number;
+  /** Share of the weighted rent (the weights of the comparables used sum to 1) */
+  weight: number;
+}
+
+export interface ComparablesAnalysis {
+  /** Comparables' rents weighted by similarity */
+  weightedRent: number;
+  /** Similarity-weighted rent per square foot of the comparables with a size */
+  rentPerSqFt?: number;
+  /** rentPerSqFt times the subject's square feet */
+  sizeAdjustedRent?: number;
+  /** Mean of weightedRent and sizeAdjustedRent (weightedRent when there is no size) */
+  estimatedRent: number;
+  /** 0-100: weighted mean similarity of the comparables used */
+  similarity: number;
+  /** Comparables the estimate is based on */
+  used: number;
+  /** The most similar comparables, most similar first */
+  topComparables: ScoredComparable[];
+}
+
+export interface ComparablesOptions {
+  /** Comparables listed in topComparables (default 5) */
+  top?: number;
+  /** Comparables less similar than this are left out, unless none is more similar (default 0.25) */
+  minSimilarity?: number;
+}
+
+/** Relative importance of each factor in the similarity */
+const FACTOR_WEIGHTS = { size: 0.35, bedrooms: 0.25, bathrooms: 0.15, distance: 0.25 };
+
+/** Distance at which the distance factor falls to 1/e */
+const DISTANCE_SCALE_MILES = 2;
+
+const DEFAULT_TOP_COMPARABLES = 5;
+const DEFAULT_MIN_SIMILARITY = 0.25;
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * 0-1 similarity of a comparable to the subject
+ */
+export function comparableSimilarity(comparable: Comparable, subject: PropertyDetails): number {
+  const factors: Array<[number, number]> = [];
+
+  if (subject.squareFeet && comparable.squareFeet > 0) {
+    // A comparable twice (or half) the size or more scores 0 on size
+    const ratio = Math.max(comparable.squareFeet, subject.squareFeet) / Math.min(comparable.squareFeet, subject.squareFeet);
+    factors.push([FACTOR_WEIGHTS.size, Math.max(0, 2 - ratio)]);
+  }
+  if (subject.bedrooms !== undefined && comparable.bedrooms > 0) {
+    factors.push([FACTOR_WEIGHTS.bedrooms, Math.max(0, 1 - Math.abs(comparable.bedrooms - subject.bedrooms) / 2)]);
+  }
+  if (subject.bathrooms !== undefined && comparable.bathrooms > 0) {
+    factors.push([FACTOR_WEIGHTS.bathrooms, Math.max(0, 1 - Math.abs(comparable.bathrooms - subject.bathrooms) / 2)]);
+  }
+  factors.push([FACTOR_WEIGHTS.distance, Math.exp(-Math.max(0, comparable.distanceMiles || 0) / DISTANCE_SCALE_MILES)]);
+
+  const totalWeight = factors.reduce((sum, [weight]) => sum + weight, 0);
+  return factors.reduce((sum, [weight, score]) => sum + weight * score, 0) / totalWeight;
+}
+
+/**
+ * Similarity-weighted rent estimate for the subject property, or undefined
+ * when no comparable has a rent
+ */
+export function analyzeComparables(
+  comparables: Comparable[],
+  subject: PropertyDetails,
+  options: ComparablesOptions = {}
+): ComparablesAnalysis | undefined {
+  const scored = comparables
+    .filter((comparable) => comparable.monthlyRent > 0)
+    .map((comparable) => ({ comparable, similarity: comparableSimilarity(comparable, subject) }))
+    .sort((a, b) => b.similarity - a.similarity);
+  if (scored.length === 0) return undefined;
+
+  const minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+  const similar = scored.filter((entry) => entry.similarity >= minSimilarity);
+  const used = similar.length > 0 ? similar : scored;
+  const totalSimilarity = used.reduce((sum, entry) => sum + entry.similarity, 0);
+  const weighted = used.map((entry) => ({
+    ...entry,
+    // Equal weights when nothing is similar at all
+    weight: totalSimilarity > 0 ? entry.similarity / totalSimilarity : 1 / used.length,
+  }));
+
+  const weightedRent = weighted.reduce((sum, entry) => sum + entry.weight * entry.comparable.monthlyRent, 0);
+
+  const sized = weighted.filter((entry) => entry.comparable.squareFeet > 0);
+  const sizedWeight = sized.reduce((sum, entry) => sum + entry.weight, 0);
+  const rentPerSqFt =
+    sizedWeight > 0
+      ? sized.reduce((sum, entry) => sum + entry.weight * (entry.comparable.monthlyRent / entry.comparable.squareFeet), 0) /
+        sizedWeight
+      : undefined;
+  const sizeAdjustedRent = rentPerSqFt !== undefined && subject.squareFeet ? rentPerSqFt * subject.squareFeet : undefined;
+
+  return {
+    weightedRent: Math.round(weightedRent),
+    ...(rentPerSqFt !== undefined ? { rentPerSqFt: round(rentPerSqFt, 2) } : {}),
+    ...(sizeAdjustedRent !== undefined ? { sizeAdjustedRent: Math.round(sizeAdjustedRent) } : {}),
+    estimatedRent: Math.round(sizeAdjustedRent !== undefined ? (weightedRent + sizeAdjustedRent) / 2 : weightedRent),
+    similarity: Math.round(weighted.reduce((sum, entry) => sum + entry.weight * entry.similarity, 0) * 100),
+    used: weighted.length,
+    topComparables: weighted.slice(0, options.top ?? DEFAULT_TOP_COMPARABLES).map((entry) => ({
+      ...entry.comparable,
+      similarity: round(entry.similarity, 3),
+      weight: round(entry.weight, 3),
+    })),
+  };
+}
+
+/**
+ * One line per top comparable, for prompts and reasoning
+ */
+export function describeComparables(analysis: ComparablesAnalysis): string[] {
+  return analysis.topComparables.map(
+    (comparable) =>
+      `${comparable.address}: $${comparable.monthlyRent.toLocaleString()}/month, ` +
+      `similarity ${Math.round(comparable.similarity * 100)}%, weight ${Math.round(comparable.weight * 100)}%`
+  );
+}
@@ -0,0 +1,206 @@
+/**
+ * Cron Schedule
+ *
+ * Parses standard 5-field cron expressions (minute hour day-of-month month
+ * day-of-week) used by workflow `cron` triggers and computes fire times.
+ * Schedules are evaluated in UTC.
+ *
+ * Supported syntax: `*`, values, ranges (`1-5`), steps (`*\/15`, `0-30/10`),
+ * lists (`1,15`), month and weekday names (`JAN`, `MON`), `7` for Sunday, and
+ * the macros @yearly, @annually, @monthly, @weekly, @daily, @midnight, @hourly.
+ * As in standard cron, when both day-of-month and day-of-week are restricted
+ * a day matches if either does.
+ *
+ * Requirements:
+ * - 2.1: Fetch rental market data at scheduled intervals
+ * - 11.2: Execute via manual or scheduled trigger
+ */
+
+const MINUTE_MS = 60 * 1000;
+
+/** Give up searching for a matching time after this many years (e.g. "0 0 30 2 *") */
+const MAX_SEARCH_YEARS = 8;
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const DAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  /** Offset applied to name indexes (months are 1-based) */
+  nameOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day-of-month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: "day-of-week", min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 },
+];
+
+export class CronParseError extends Error {
+  constructor(
+    public expression: string,
+    message: string
+  ) {
+    super(`Invalid cron expression "${expression}": ${message}`);
+    this.name = "CronParseError";
+  }
+}
+
+function parseValue(token: string, spec: FieldSpec, expression: string): number {
+  const upper = token.toUpperCase();
+  if (spec.names && spec.names.includes(upper)) {
+    return spec.names.indexOf(upper) + (spec.nameOffset || 0);
+  }
+  if (!/^\d+$/.test(token)) {
+    throw new CronParseError(expression, `invalid ${spec.name} value '${token}'`);
+  }
+  const value = parseInt(token, 10);
+  if (value < spec.min || value > spec.max) {
+    throw new CronParseError(expression, `${spec.name} value ${value} out of range ${spec.min}-${spec.max}`);
+  }
+  return value;
+}
+
+function parseField(field: string, spec: FieldSpec, expression: string): { values: Set<number>; wildcard: boolean } {
+  const values = new Set<number>();
+  let wildcard = false;
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    let step = 1;
+    if (stepText !== undefined) {
+      if (!/^\d+$/.test(stepText) || parseInt(stepText, 10) === 0) {
+        throw new CronParseError(expression, `invalid ${spec.name} step '${stepText}'`);
+      }
+      step = parseInt(stepText, 10);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = spec.min;
+      end = spec.name === "day-of-week" ? 6 : spec.max;
+      if (stepText === undefined) wildcard = true;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from, spec, expression);
+      end = parseValue(to, spec, expression);
+      if (start > end) {
+        throw new CronParseError(expression, `${spec.name} range ${range} is reversed`);
+      }
+    } else {
+      start = parseValue(range, spec, expression);
+      // "5/15" means every 15 starting at 5
+      end = stepText !== undefined ? spec.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      // 7 is an alias for Sunday
+      values.add(spec.name === "day-of-week" && value === 7 ? 0 : value);
+    }
+  }
+
+  return { values, wildcard };
+}
+
+export class CronSchedule {
+  readonly expression: string;
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  private dayOfMonthWildcard: boolean;
+  private dayOfWeekWildcard: boolean;
+
+  constructor(expression: string) {
+    this.expression = expression.trim();
+    const source = MACROS[this.expression.toLowerCase()] || this.expression;
+    const fields = source.split(/\s+/);
+
+    if (fields.length !== 5) {
+      throw new CronParseError(expression, `expected 5 fields, got ${fields.length}`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+      parseField(field, FIELDS[i], expression)
+    );
+    this.minutes = minutes.values;
+    this.hours = hours.values;
+    this.daysOfMonth = daysOfMonth.values;
+    this.months = months.values;
+    this.daysOfWeek = daysOfWeek.values;
+    this.dayOfMonthWildcard = daysOfMonth.wildcard;
+    this.dayOfWeekWildcard = daysOfWeek.wildcard;
+  }
+
+  /**
+   * First fire time strictly after `after` (ms since epoch)
+   */
+  next(after: number): number {
+    const date = new Date(Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+    const limit = date.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+    while (date.getUTCFullYear() <= limit) {
+      if (!this.months.has(date.getUTCMonth() + 1)) {
+        date.setUTCMonth(date.getUTCMonth() + 1, 1);
+        date.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!this.matchesDay(date)) {
+        date.setUTCDate(date.getUTCDate() + 1);
+        date.setUTCHours(0, 0, 0, 0);
+        continue;
+      }
+      if (!this.hours.has(date.getUTCHours())) {
+        date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+        continue;
+      }
+      if (!this.minutes.has(date.getUTCMinutes())) {
+        date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+        continue;
+      }
+      return date.getTime();
+    }
+
+    throw new Error(`Cron expression "${this.expression}" never fires`);
+  }
+
+  /**
+   * Fire times in the half-open interval (from, to]
+   */
+  between(from: number, to: number, limit: number = Infinity): number[] {
+    const times: number[] = [];
+    let time = this.next(from);
+    while (time <= to && times.length < limit) {
+      times.push(time);
+      time = this.next(time);
+    }
+    return times;
+  }
+
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.has(date.getUTCDate());
+    const dayOfWeek = this.daysOfWeek.has(date.getUTCDay());
+
+    if (this.dayOfMonthWildcard || this.dayOfWeekWildcard) {
+      return dayOfMonth && dayOfWeek;
+    }
+    return dayOfMonth || dayOfWeek;
+  }
+}
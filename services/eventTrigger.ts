@@ -0,0 +1,448 @@
+/**
+ * Event Triggers
+ *
+ * Starts workflow runs from on-chain logs: each enabled `event` trigger in
+ * the workflow YAML watches one contract event (e.g. RentalPaymentReceived
+ * on YieldDistributor) and every matching log starts one run.
+ *
+ * - Logs are fetched with eth_getLogs, either on a poll interval or on every
+ *   new block pushed over a websocket subscription (transport: websocket).
+ * - A log starts a run once it has `confirmations` blocks.
+ * - The last processed block of each trigger is checkpointed with its hash,
+ *   so a restarted watcher resumes where it stopped. When that block is no
+ *   longer canonical the watcher rewinds REORG_DEPTH blocks and re-scans;
+ *   logs that already started a run are remembered and not delivered twice.
+ * - Runs share the scheduler's run lock; a log that arrives while another
+ *   run holds the lock is retried on the next poll.
+ *
+ * Requirements:
+ * - 2.6: Trigger yield distribution after rental payment collection
+ * - 11.2: Execute via manual or scheduled trigger
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as yaml from "yaml";
+import { ethers } from "ethers";
+import { writeFileAtomic } from "./atomicFile";
+import { FileRunLock, RunLock, SchedulerClock, systemClock } from "./scheduler";
+import { SecretsProvider, createSecretsProvider } from "./secretsProvider";
+import { toPlainValue } from "./transactionSimulator";
+import { Trigger, TriggeredEvent, WorkflowConfig, WorkflowState } from "./types";
+
+export const DEFAULT_POLL_INTERVAL = 15000;
+export const DEFAULT_MAX_BLOCK_RANGE = 2000;
+
+/** Blocks re-scanned when the last processed block was reorged out */
+export const REORG_DEPTH = 64;
+
+/** Delivered log keys kept per trigger to suppress duplicates after a re-scan */
+const MAX_DELIVERED = 1000;
+
+export type EventProvider = Pick<ethers.Provider, "getBlockNumber" | "getBlock" | "getLogs" | "on" | "off">;
+
+export interface EventTriggerCheckpoint {
+  workflow_id: string;
+  triggers: Record<
+    string,
+    {
+      last_block: number;
+      /** Hash of last_block when it was processed; absent until known */
+      last_block_hash?: string;
+      /** Keys of recently delivered logs */
+      delivered: string[];
+    }
+  >;
+  updated_at: number;
+}
+
+export interface EventCheckpointStore {
+  load(workflowId: string): Promise<EventTriggerCheckpoint | null>;
+  save(checkpoint: EventTriggerCheckpoint): Promise<void>;
+}
+
+function copyCheckpoint(checkpoint: EventTriggerCheckpoint): EventTriggerCheckpoint {
+  return JSON.parse(JSON.stringify(checkpoint));
+}
+
+export class InMemoryEventCheckpointStore implements EventCheckpointStore {
+  private checkpoints: Map<string, EventTriggerCheckpoint> = new Map();
+
+  async load(workflowId: string): Promise<EventTriggerCheckpoint | null> {
+    const checkpoint = this.checkpoints.get(workflowId);
+    return checkpoint ? copyCheckpoint(checkpoint) : null;
+  }
+
+  async save(checkpoint: EventTriggerCheckpoint): Promise<void> {
+    this.checkpoints.set(checkpoint.workflow_id, copyCheckpoint(checkpoint));
+  }
+}
+
+/**
+ * File-backed checkpoint store: <directory>/<workflow_id>.json
+ */
+export class FileEventCheckpointStore implements EventCheckpointStore {
+  private directory: string;
+
+  constructor(directory?: string) {
+    this.directory = directory || path.join(process.env.WORKFLOW_RUN_DIR || ".workflow-runs", "events");
+  }
+
+  async load(workflowId: string): Promise<EventTriggerCheckpoint | null> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.fileFor(workflowId), "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async save(checkpoint: EventTriggerCheckpoint): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await writeFileAtomic(this.fileFor(checkpoint.workflow_id), JSON.stringify(checkpoint, null, 2));
+  }
+
+  private fileFor(workflowId: string): string {
+    if (!/^[\w.\-]+$/.test(workflowId)) {
+      throw new Error(`Invalid workflow id: ${workflowId}`);
+    }
+    return path.join(this.directory, `${workflowId}.json`);
+  }
+}
+
+/**
+ * Parse an event signature such as
+ * "RentalPaymentReceived(uint256 amount, uint256 timestamp, address indexed payer)"
+ */
+export function parseEventSignature(signature: string): ethers.EventFragment {
+  const fragment = ethers.EventFragment.from(signature.trim().startsWith("event ") ? signature : `event ${signature}`);
+  if (fragment.inputs.some((input) => !input.name)) {
+    throw new Error(`Event ${fragment.name} needs a name for every parameter`);
+  }
+  return fragment;
+}
+
+/**
+ * Log topics for an event with its indexed parameters filtered by name
+ */
+export function eventTopics(fragment: ethers.EventFragment, filter: Record<string, string> = {}): Array<string | null> {
+  for (const name of Object.keys(filter)) {
+    const input = fragment.inputs.find((candidate) => candidate.name === name);
+    if (!input) {
+      throw new Error(`Event ${fragment.name} has no parameter ${name}`);
+    }
+    if (!input.indexed) {
+      throw new Error(`Event ${fragment.name} parameter ${name} is not indexed and cannot be filtered`);
+    }
+  }
+  const values = fragment.inputs.filter((input) => input.indexed).map((input) => filter[input.name] ?? null);
+  return new ethers.Interface([fragment]).encodeFilterTopics(fragment, values) as Array<string | null>;
+}
+
+/**
+ * Workflow variables describing the event that started a run:
+ * TRIGGER_EVENT, TRIGGER_CONTRACT_ADDRESS, TRIGGER_BLOCK_NUMBER,
+ * TRIGGER_TRANSACTION_HASH and TRIGGER_ARG_<PARAMETER> (e.g. TRIGGER_ARG_AMOUNT)
+ */
+export function eventVariables(event: TriggeredEvent): Record<string, string> {
+  const variables: Record<string, string> = {
+    TRIGGER_EVENT: event.event,
+    TRIGGER_CONTRACT_ADDRESS: event.contract_address,
+    TRIGGER_BLOCK_NUMBER: String(event.block_number),
+    TRIGGER_TRANSACTION_HASH: event.transaction_hash,
+  };
+  for (const [name, value] of Object.entries(event.args)) {
+    variables[`TRIGGER_ARG_${name.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase()}`] = value;
+  }
+  return variables;
+}
+
+export interface EventWatcherOptions {
+  provider: EventProvider;
+  clock?: SchedulerClock;
+  lock?: RunLock;
+  checkpoints?: EventCheckpointStore;
+  /** Resolves ${VAR} in contract addresses (defaults to the WORKFLOW_SECRETS chain) */
+  secrets?: SecretsProvider;
+  /** Executes one event-triggered run */
+  run: (event: TriggeredEvent) => Promise<WorkflowState | void>;
+}
+
+interface WatchedTrigger {
+  key: string;
+  trigger: Trigger;
+  address: string;
+  fragment: ethers.EventFragment;
+  iface: ethers.Interface;
+  topics: Array<string | null>;
+}
+
+export class EventTriggerWatcher {
+  private config: WorkflowConfig;
+  private triggers: WatchedTrigger[] = [];
+  private provider: EventProvider;
+  private clock: SchedulerClock;
+  private lock: RunLock;
+  private checkpoints: EventCheckpointStore;
+  private runWorkflow: EventWatcherOptions["run"];
+  private checkpoint?: EventTriggerCheckpoint;
+  private timer?: unknown;
+  private polling?: Promise<number>;
+  private pollAgain: boolean = false;
+  private blockListener?: () => void;
+  private stopped: boolean = true;
+
+  constructor(configPath: string, options: EventWatcherOptions) {
+    this.config = yaml.parse(fs.readFileSync(configPath, "utf8"));
+    this.provider = options.provider;
+    this.clock = options.clock || systemClock;
+    this.lock = options.lock || new FileRunLock();
+    this.checkpoints = options.checkpoints || new FileEventCheckpointStore();
+    this.runWorkflow = options.run;
+
+    // Resolve addresses and parse event signatures up front so bad config fails at startup
+    const secrets = options.secrets || createSecretsProvider();
+    for (const trigger of this.config.triggers || []) {
+      if (trigger.type !== "event") continue;
+      if (!trigger.enabled) {
+        this.log("info", `Event trigger "${trigger.description}" is disabled; ignoring`);
+        continue;
+      }
+      if (!trigger.contract_address || !trigger.event) {
+        throw new Error(`Event trigger "${trigger.description}" needs contract_address and event`);
+      }
+
+      const address = trigger.contract_address.replace(/\$\{([^}]+)\}/g, (match, name) => secrets.get(name.trim()) ?? match);
+      if (!ethers.isAddress(address)) {
+        throw new Error(`Event trigger "${trigger.description}": contract_address ${address} is not an address`);
+      }
+      const fragment = parseEventSignature(trigger.event);
+      this.triggers.push({
+        key: `${fragment.name}@${ethers.getAddress(address)}`,
+        trigger,
+        address: ethers.getAddress(address),
+        fragment,
+        iface: new ethers.Interface([fragment]),
+        topics: eventTopics(fragment, trigger.filter),
+      });
+    }
+  }
+
+  /**
+   * Load the checkpoint, process logs since it, then keep watching
+   */
+  async start(): Promise<void> {
+    if (!this.stopped) return;
+    this.stopped = false;
+
+    if (this.triggers.length === 0) {
+      this.log("warn", "No enabled event triggers; event watcher is idle");
+      return;
+    }
+
+    this.checkpoint = (await this.checkpoints.load(this.config.name)) || {
+      workflow_id: this.config.name,
+      triggers: {},
+      updated_at: this.clock.now(),
+    };
+
+    await this.poll();
+
+    if (this.triggers.some((watched) => watched.trigger.transport === "websocket")) {
+      this.blockListener = () => void this.poll();
+      await this.provider.on("block", this.blockListener);
+    }
+    if (this.triggers.some((watched) => watched.trigger.transport !== "websocket")) {
+      this.arm();
+    }
+    this.log("info", `Event watcher started with ${this.triggers.length} event trigger(s)`);
+  }
+
+  /**
+   * Stop watching and wait for an in-flight poll (and its runs) to finish
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer !== undefined) {
+      this.clock.clearTimer(this.timer);
+      this.timer = undefined;
+    }
+    if (this.blockListener) {
+      await this.provider.off("block", this.blockListener);
+      this.blockListener = undefined;
+    }
+    while (this.polling) {
+      await this.polling;
+    }
+  }
+
+  /**
+   * Process new logs for every trigger; returns the number of runs started.
+   * Concurrent calls are coalesced into one follow-up poll.
+   */
+  async poll(): Promise<number> {
+    if (this.polling) {
+      this.pollAgain = true;
+      return 0;
+    }
+
+    this.polling = (async () => {
+      let runs = 0;
+      do {
+        this.pollAgain = false;
+        for (const watched of this.triggers) {
+          if (this.stopped) break;
+          try {
+            runs += await this.pollTrigger(watched);
+          } catch (error) {
+            this.log("error", `Polling ${watched.key} failed: ${error instanceof Error ? error.message : error}`);
+          }
+        }
+      } while (this.pollAgain && !this.stopped);
+      return runs;
+    })();
+
+    try {
+      return await this.polling;
+    } finally {
+      this.polling = undefined;
+    }
+  }
+
+  private async pollTrigger(watched: WatchedTrigger): Promise<number> {
+    const confirmations = watched.trigger.confirmations ?? 1;
+    const safeHead = (await this.provider.getBlockNumber()) - confirmations + 1;
+    if (safeHead < 0) return 0;
+
+    let state = this.checkpoint!.triggers[watched.key];
+    if (!state) {
+      // First start: begin at from_block, or at the current block (nothing was missed)
+      const start = watched.trigger.from_block ?? safeHead + 1;
+      state = { last_block: start - 1, delivered: [] };
+      this.checkpoint!.triggers[watched.key] = state;
+      if (start > safeHead) {
+        await this.markProcessed(watched, safeHead);
+        return 0;
+      }
+    }
+
+    if (state.last_block_hash) {
+      const block = await this.provider.getBlock(state.last_block);
+      if (!block || block.hash !== state.last_block_hash) {
+        const rewindTo = Math.max(state.last_block - REORG_DEPTH, (watched.trigger.from_block ?? 0) - 1, -1);
+        this.log("warn", `Reorg: block ${state.last_block} of ${watched.key} is no longer canonical; re-scanning from block ${rewindTo + 1}`);
+        state.last_block = rewindTo;
+        state.last_block_hash = undefined;
+      }
+    }
+
+    let runs = 0;
+    const range = watched.trigger.max_block_range ?? DEFAULT_MAX_BLOCK_RANGE;
+    while (state.last_block < safeHead && !this.stopped) {
+      const fromBlock = state.last_block + 1;
+      const toBlock = Math.min(fromBlock + range - 1, safeHead);
+      const logs = (await this.provider.getLogs({ address: watched.address, topics: watched.topics, fromBlock, toBlock }))
+        .filter((log) => !log.removed)
+        .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+      const occurrences = new Map<string, number>();
+      for (const log of logs) {
+        // Keyed by transaction and position among the transaction's matching logs, which survive re-mining
+        const occurrence = occurrences.get(log.transactionHash) ?? 0;
+        occurrences.set(log.transactionHash, occurrence + 1);
+        const deliveryKey = `${log.transactionHash}:${occurrence}`;
+        if (state.delivered.includes(deliveryKey)) continue;
+
+        if (!(await this.lock.acquire(this.config.name))) {
+          this.log("warn", `Deferring ${watched.fragment.name} in block ${log.blockNumber}: workflow is locked by another run`);
+          await this.markProcessed(watched, log.blockNumber - 1);
+          return runs;
+        }
+        try {
+          await this.deliver(watched, log);
+          runs++;
+        } finally {
+          await this.lock.release(this.config.name);
+        }
+        state.delivered = [...state.delivered, deliveryKey].slice(-MAX_DELIVERED);
+        await this.saveCheckpoint();
+      }
+
+      await this.markProcessed(watched, toBlock);
+    }
+    return runs;
+  }
+
+  private async deliver(watched: WatchedTrigger, log: ethers.Log): Promise<void> {
+    const parsed = watched.iface.parseLog(log)!;
+    const args: Record<string, string> = {};
+    watched.fragment.inputs.forEach((input, i) => {
+      args[input.name] = String(toPlainValue(parsed.args[i]));
+    });
+    const event: TriggeredEvent = {
+      trigger: watched.key,
+      event: watched.fragment.name,
+      contract_address: watched.address,
+      block_number: log.blockNumber,
+      block_hash: log.blockHash,
+      transaction_hash: log.transactionHash,
+      log_index: log.index,
+      args,
+    };
+
+    this.log("info", `⚡ ${event.event} in block ${event.block_number} (${event.transaction_hash}); starting run`);
+    try {
+      const state = await this.runWorkflow(event);
+      if (state) {
+        this.log("info", `Event-triggered run ${state.execution_id} finished: ${state.status}`);
+      }
+    } catch (error) {
+      this.log("error", `Event-triggered run for ${event.transaction_hash} failed: ${error}`);
+    }
+  }
+
+  /**
+   * Advance a trigger's checkpoint to a block, recording its hash for reorg detection
+   */
+  private async markProcessed(watched: WatchedTrigger, blockNumber: number): Promise<void> {
+    const state = this.checkpoint!.triggers[watched.key];
+    state.last_block = blockNumber;
+    state.last_block_hash = blockNumber >= 0 ? (await this.provider.getBlock(blockNumber))?.hash ?? undefined : undefined;
+    await this.saveCheckpoint();
+  }
+
+  private arm(): void {
+    if (this.stopped) return;
+    const interval = Math.min(
+      ...this.triggers
+        .filter((watched) => watched.trigger.transport !== "websocket")
+        .map((watched) => watched.trigger.poll_interval ?? DEFAULT_POLL_INTERVAL)
+    );
+    this.timer = this.clock.setTimer(() => {
+      this.timer = undefined;
+      this.poll()
+        .catch((error) => this.log("error", `Event poll failed: ${error}`))
+        .finally(() => this.arm());
+    }, interval);
+  }
+
+  private async saveCheckpoint(): Promise<void> {
+    this.checkpoint!.updated_at = this.clock.now();
+    try {
+      await this.checkpoints.save(this.checkpoint!);
+    } catch (error) {
+      this.log("warn", `Failed to save event checkpoint: ${error}`);
+    }
+  }
+
+  private log(level: string, message: string): void {
+    const timestamp = new Date(this.clock.now()).toISOString();
+    if (this.config.logging?.format === "json") {
+      console.log(JSON.stringify({ timestamp, level, workflow: this.config.name, component: "events", message }));
+    } else {
+      console.log(`[${timestamp}] [${level.toUpperCase()}] [events] ${message}`);
+    }
+  }
+}
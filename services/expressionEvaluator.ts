@@ -0,0 +1,515 @@
+/**
+ * Expression Evaluator
+ *
+ * Small sandboxed expression language for workflow step conditions.
+ * Expressions are parsed into an AST and interpreted directly; nothing is
+ * ever passed to eval() or the Function constructor.
+ *
+ * Supported syntax:
+ * - Literals: numbers, 'single' or "double" quoted strings, true, false, null
+ * - References: ${steps.<id>.outputs.<path>}, ${ENV_VAR}, or bare
+ *   steps.<id>.outputs.<path> (wrap in ${} if a step ID could be read as subtraction)
+ * - Current-node references (@, @.field) for JSONPath filter expressions
+ * - Arithmetic: + - * / % and unary minus
+ * - Comparison: == != < <= > >=
+ * - Boolean: && || ! and parentheses
+ * - Functions: abs, min, max, round, floor, ceil
+ *
+ * A ${...} block that is not a plain reference is parsed as a nested
+ * expression, so the legacy form "${steps.a.outputs.b > 0}" still works.
+ *
+ * Requirements:
+ * - 11.1: Configurable via YAML workflow definition
+ */
+
+export class ExpressionError extends Error {
+  constructor(message: string, public readonly position?: number) {
+    super(position !== undefined ? `${message} (at position ${position})` : message);
+    this.name = "ExpressionError";
+  }
+}
+
+export type Expression =
+  | { kind: "literal"; value: unknown }
+  | { kind: "reference"; path: string }
+  | { kind: "unary"; operator: "!" | "-"; operand: Expression }
+  | { kind: "binary"; operator: string; left: Expression; right: Expression }
+  | { kind: "call"; name: string; args: Expression[] };
+
+/**
+ * Resolves a reference path (e.g. "steps.analyze-pricing.outputs.confidence_score")
+ * to a value. Returning undefined marks the reference as unresolved.
+ */
+export type ReferenceResolver = (path: string) => unknown;
+
+type TokenType = "number" | "string" | "identifier" | "reference" | "operator" | "paren" | "comma";
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const OPERATORS = ["&&", "||", "==", "!=", "<=", ">=", "<", ">", "+", "-", "*", "/", "%", "!"];
+
+const REFERENCE_PATTERN = /^\s*([A-Za-z_][\w\-]*(?:\.[\w\-]+)*)\s*$/;
+const PATH_PATTERN = /^[A-Za-z_]\w*(?:\.[A-Za-z_][\w\-]*)*/;
+const CURRENT_NODE_PATTERN = /^@(?:\.[A-Za-z_][\w\-]*)*/;
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  abs: (x) => Math.abs(x),
+  min: (...xs) => Math.min(...xs),
+  max: (...xs) => Math.max(...xs),
+  round: (x) => Math.round(x),
+  floor: (x) => Math.floor(x),
+  ceil: (x) => Math.ceil(x),
+};
+
+/**
+ * Split source into tokens. `offset` maps positions of nested ${...}
+ * blocks back to the original string for error messages.
+ */
+function tokenize(source: string, offset: number = 0): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    const position = offset + i;
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // ${...} reference or nested expression
+    if (char === "$" && source[i + 1] === "{") {
+      const end = findClosingBrace(source, i + 2);
+      if (end === -1) {
+        throw new ExpressionError("Unterminated ${ block", position);
+      }
+      const inner = source.slice(i + 2, end);
+      const match = inner.match(REFERENCE_PATTERN);
+      if (match) {
+        tokens.push({ type: "reference", value: match[1], position });
+      } else {
+        if (inner.trim() === "") {
+          throw new ExpressionError("Empty ${} block", position);
+        }
+        tokens.push({ type: "paren", value: "(", position });
+        tokens.push(...tokenize(inner, offset + i + 2));
+        tokens.push({ type: "paren", value: ")", position: offset + end });
+      }
+      i = end + 1;
+      continue;
+    }
+
+    if (/\d/.test(char) || (char === "." && /\d/.test(source[i + 1] || ""))) {
+      const match = source.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/)!;
+      tokens.push({ type: "number", value: match[0], position });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      let value = "";
+      let j = i + 1;
+      while (j < source.length && source[j] !== char) {
+        if (source[j] === "\\" && j + 1 < source.length) {
+          j++;
+        }
+        value += source[j];
+        j++;
+      }
+      if (j >= source.length) {
+        throw new ExpressionError("Unterminated string literal", position);
+      }
+      tokens.push({ type: "string", value, position });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = source.slice(i).match(PATH_PATTERN)!;
+      const isPath = match[0].includes(".");
+      tokens.push({ type: isPath ? "reference" : "identifier", value: match[0], position });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === "@") {
+      const match = source.slice(i).match(CURRENT_NODE_PATTERN)!;
+      tokens.push({ type: "reference", value: match[0], position });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === "(" || char === ")") {
+      tokens.push({ type: "paren", value: char, position });
+      i++;
+      continue;
+    }
+
+    if (char === ",") {
+      tokens.push({ type: "comma", value: char, position });
+      i++;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: "operator", value: operator, position });
+      i += operator.length;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${char}'`, position);
+  }
+
+  return tokens;
+}
+
+function findClosingBrace(source: string, start: number): number {
+  let depth = 1;
+  let quote: string | null = null;
+
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === "{") {
+      depth++;
+    } else if (char === "}") {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Recursive-descent parser, lowest precedence first:
+ * || , && , == != , < <= > >= , + - , * / % , unary ! -
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private source: string) {}
+
+  parse(): Expression {
+    if (this.tokens.length === 0) {
+      throw new ExpressionError("Empty expression");
+    }
+    const expression = this.parseBinary(0);
+    const extra = this.peek();
+    if (extra) {
+      throw new ExpressionError(`Unexpected token '${extra.value}'`, extra.position);
+    }
+    return expression;
+  }
+
+  private static readonly LEVELS: string[][] = [
+    ["||"],
+    ["&&"],
+    ["==", "!="],
+    ["<", "<=", ">", ">="],
+    ["+", "-"],
+    ["*", "/", "%"],
+  ];
+
+  private parseBinary(level: number): Expression {
+    if (level >= Parser.LEVELS.length) {
+      return this.parseUnary();
+    }
+
+    let left = this.parseBinary(level + 1);
+    while (true) {
+      const token = this.peek();
+      if (!token || token.type !== "operator" || !Parser.LEVELS[level].includes(token.value)) {
+        return left;
+      }
+      this.index++;
+      const right = this.parseBinary(level + 1);
+      left = { kind: "binary", operator: token.value, left, right };
+    }
+  }
+
+  private parseUnary(): Expression {
+    const token = this.peek();
+    if (token && token.type === "operator" && (token.value === "!" || token.value === "-")) {
+      this.index++;
+      return { kind: "unary", operator: token.value, operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.next();
+
+    switch (token.type) {
+      case "number":
+        return { kind: "literal", value: Number(token.value) };
+      case "string":
+        return { kind: "literal", value: token.value };
+      case "reference":
+        return { kind: "reference", path: token.value };
+      case "identifier":
+        return this.parseIdentifier(token);
+      case "paren":
+        if (token.value === "(") {
+          const inner = this.parseBinary(0);
+          this.expect(")");
+          return inner;
+        }
+        break;
+    }
+
+    throw new ExpressionError(`Unexpected token '${token.value}'`, token.position);
+  }
+
+  private parseIdentifier(token: Token): Expression {
+    switch (token.value) {
+      case "true":
+        return { kind: "literal", value: true };
+      case "false":
+        return { kind: "literal", value: false };
+      case "null":
+        return { kind: "literal", value: null };
+    }
+
+    const following = this.peek();
+    if (following && following.type === "paren" && following.value === "(") {
+      if (!(token.value in FUNCTIONS)) {
+        throw new ExpressionError(`Unknown function '${token.value}'`, token.position);
+      }
+      this.index++;
+      const args: Expression[] = [];
+      if (!this.isNext(")")) {
+        do {
+          args.push(this.parseBinary(0));
+        } while (this.consumeComma());
+      }
+      this.expect(")");
+      return { kind: "call", name: token.value, args };
+    }
+
+    // Bare single-segment identifiers resolve like ${NAME}
+    return { kind: "reference", path: token.value };
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index++];
+    if (!token) {
+      throw new ExpressionError("Unexpected end of expression", this.source.length);
+    }
+    return token;
+  }
+
+  private isNext(value: string): boolean {
+    return this.peek()?.value === value;
+  }
+
+  private consumeComma(): boolean {
+    if (this.peek()?.type === "comma") {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.value !== value) {
+      throw new ExpressionError(`Expected '${value}' but found '${token.value}'`, token.position);
+    }
+  }
+}
+
+/**
+ * Parse an expression string. Throws ExpressionError on syntax errors.
+ */
+export function parseExpression(source: string): Expression {
+  return new Parser(tokenize(source), source).parse();
+}
+
+/**
+ * Collect every reference path used by an expression
+ */
+export function collectReferences(expression: Expression): string[] {
+  switch (expression.kind) {
+    case "literal":
+      return [];
+    case "reference":
+      return [expression.path];
+    case "unary":
+      return collectReferences(expression.operand);
+    case "binary":
+      return [...collectReferences(expression.left), ...collectReferences(expression.right)];
+    case "call":
+      return expression.args.flatMap(collectReferences);
+  }
+}
+
+/**
+ * Evaluate a parsed expression (or source string) against a resolver
+ */
+export function evaluateExpression(expression: Expression | string, resolve: ReferenceResolver): unknown {
+  const ast = typeof expression === "string" ? parseExpression(expression) : expression;
+  return evaluate(ast, resolve);
+}
+
+/**
+ * Truthiness used for conditions: false, null, 0, NaN and "" are false
+ */
+export function isTruthy(value: unknown): boolean {
+  if (typeof value === "string") return value.length > 0 && value !== "false";
+  return Boolean(value);
+}
+
+function evaluate(expression: Expression, resolve: ReferenceResolver): unknown {
+  switch (expression.kind) {
+    case "literal":
+      return expression.value;
+
+    case "reference": {
+      const value = resolve(expression.path);
+      return value === undefined ? null : normalize(value);
+    }
+
+    case "unary": {
+      const operand = evaluate(expression.operand, resolve);
+      if (expression.operator === "!") {
+        return !isTruthy(operand);
+      }
+      return -toNumber(operand, "-");
+    }
+
+    case "call": {
+      const args = expression.args.map((arg) => toNumber(evaluate(arg, resolve), expression.name));
+      return FUNCTIONS[expression.name](...args);
+    }
+
+    case "binary":
+      return evaluateBinary(expression.operator, expression.left, expression.right, resolve);
+  }
+}
+
+function evaluateBinary(
+  operator: string,
+  leftExpr: Expression,
+  rightExpr: Expression,
+  resolve: ReferenceResolver
+): unknown {
+  // Short-circuit boolean operators
+  if (operator === "&&") {
+    return isTruthy(evaluate(leftExpr, resolve)) && isTruthy(evaluate(rightExpr, resolve));
+  }
+  if (operator === "||") {
+    return isTruthy(evaluate(leftExpr, resolve)) || isTruthy(evaluate(rightExpr, resolve));
+  }
+
+  const left = evaluate(leftExpr, resolve);
+  const right = evaluate(rightExpr, resolve);
+
+  switch (operator) {
+    case "==":
+      return looselyEqual(left, right);
+    case "!=":
+      return !looselyEqual(left, right);
+
+    case "<":
+    case "<=":
+    case ">":
+    case ">=":
+      return compare(operator, left, right);
+
+    case "+":
+      if (typeof left === "string" && typeof right === "string" && !(isNumeric(left) && isNumeric(right))) {
+        return left + right;
+      }
+      return toNumber(left, operator) + toNumber(right, operator);
+    case "-":
+      return toNumber(left, operator) - toNumber(right, operator);
+    case "*":
+      return toNumber(left, operator) * toNumber(right, operator);
+    case "/":
+    case "%": {
+      const divisor = toNumber(right, operator);
+      if (divisor === 0) {
+        throw new ExpressionError(`Division by zero in '${operator}'`);
+      }
+      const dividend = toNumber(left, operator);
+      return operator === "/" ? dividend / divisor : dividend % divisor;
+    }
+  }
+
+  throw new ExpressionError(`Unknown operator '${operator}'`);
+}
+
+/**
+ * Step outputs often carry numbers as strings (e.g. uint256 balances) or bigints
+ */
+function normalize(value: unknown): unknown {
+  if (typeof value === "bigint") return Number(value);
+  return value;
+}
+
+function isNumeric(value: unknown): boolean {
+  return typeof value === "string" && value.trim() !== "" && !isNaN(Number(value));
+}
+
+function toNumber(value: unknown, operator: string): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (isNumeric(value)) return Number(value);
+  throw new ExpressionError(
+    `Operator '${operator}' expects a number but got ${value === null ? "null" : typeof value} (${JSON.stringify(value)})`
+  );
+}
+
+function looselyEqual(left: unknown, right: unknown): boolean {
+  if (left === null || right === null) return left === right;
+  if (typeof left === typeof right) return left === right;
+  if (typeof left === "number" && isNumeric(right)) return left === Number(right);
+  if (typeof right === "number" && isNumeric(left)) return right === Number(left);
+  if (typeof left === "boolean" && typeof right === "string") return String(left) === right;
+  if (typeof right === "boolean" && typeof left === "string") return String(right) === left;
+  return false;
+}
+
+/**
+ * Relational comparison. An unresolved (null) operand makes the comparison
+ * false rather than throwing, so conditions on skipped steps simply don't match.
+ */
+function compare(operator: string, left: unknown, right: unknown): boolean {
+  if (left === null || right === null) return false;
+
+  let a: number | string;
+  let b: number | string;
+  if (typeof left === "string" && typeof right === "string" && !(isNumeric(left) && isNumeric(right))) {
+    a = left;
+    b = right;
+  } else {
+    a = toNumber(left, operator);
+    b = toNumber(right, operator);
+  }
+
+  switch (operator) {
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case ">":
+      return a > b;
+    default:
+      return a >= b;
+  }
+}
@@ -0,0 +1,347 @@
+/**
+ * JSONPath
+ *
+ * JSONPath queries for extracting step outputs from API responses and
+ * contract results.
+ *
+ * Supported syntax:
+ * - Root and children: $, $.a.b, $['a']['b']
+ * - Array indices and slices: [0], [-1], [1:3], [::2]
+ * - Unions: [0,2], ['a','b']
+ * - Wildcards: .*, [*]
+ * - Recursive descent: ..name, ..*
+ * - Filters: [?(@.price > 2000 && @.bedrooms == 3)] (see expressionEvaluator)
+ *
+ * Requirements:
+ * - 11.1: Configurable via YAML workflow definition
+ */
+
+import { Expression, evaluateExpression, isTruthy, parseExpression } from "./expressionEvaluator";
+
+export class JsonPathError extends Error {
+  constructor(message: string, public readonly path: string) {
+    super(`${message} in JSONPath '${path}'`);
+    this.name = "JsonPathError";
+  }
+}
+
+export type PathSegment =
+  | { kind: "child"; name: string }
+  | { kind: "index"; index: number }
+  | { kind: "wildcard" }
+  | { kind: "slice"; start?: number; end?: number; step?: number }
+  | { kind: "union"; keys: Array<string | number> }
+  | { kind: "recursive"; name: string | null }
+  | { kind: "filter"; expression: Expression };
+
+export interface JsonPath {
+  source: string;
+  segments: PathSegment[];
+  /** True when the path can match at most one node (children and indices only) */
+  definite: boolean;
+}
+
+export interface JsonPathOptions {
+  /**
+   * Called on a string node that the path needs to descend into,
+   * e.g. to JSON-parse an embedded document partway along the path
+   */
+  coerce?: (value: string) => unknown;
+}
+
+const NAME_PATTERN = /^[A-Za-z_$][\w\-$]*/;
+
+/**
+ * Parse a JSONPath expression. Throws JsonPathError on invalid syntax.
+ */
+export function parseJsonPath(source: string): JsonPath {
+  const path = source.trim();
+  if (!path.startsWith("$")) {
+    throw new JsonPathError("Path must start with '$'", source);
+  }
+
+  const segments: PathSegment[] = [];
+  let i = 1;
+
+  while (i < path.length) {
+    if (path.startsWith("..", i)) {
+      i += 2;
+      if (path[i] === "*") {
+        segments.push({ kind: "recursive", name: null });
+        i++;
+        continue;
+      }
+      const match = path.slice(i).match(NAME_PATTERN);
+      if (!match) {
+        throw new JsonPathError(`Expected a name after '..' at position ${i}`, source);
+      }
+      segments.push({ kind: "recursive", name: match[0] });
+      i += match[0].length;
+    } else if (path[i] === ".") {
+      i++;
+      if (path[i] === "*") {
+        segments.push({ kind: "wildcard" });
+        i++;
+        continue;
+      }
+      const match = path.slice(i).match(NAME_PATTERN);
+      if (!match) {
+        throw new JsonPathError(`Expected a name after '.' at position ${i}`, source);
+      }
+      segments.push({ kind: "child", name: match[0] });
+      i += match[0].length;
+    } else if (path[i] === "[") {
+      const end = findClosingBracket(path, i + 1);
+      if (end === -1) {
+        throw new JsonPathError(`Unterminated '[' at position ${i}`, source);
+      }
+      segments.push(parseBracket(path.slice(i + 1, end).trim(), source));
+      i = end + 1;
+    } else {
+      throw new JsonPathError(`Unexpected character '${path[i]}' at position ${i}`, source);
+    }
+  }
+
+  const definite = segments.every((s) => s.kind === "child" || s.kind === "index");
+  return { source, segments, definite };
+}
+
+function findClosingBracket(path: string, start: number): number {
+  let depth = 1;
+  let quote: string | null = null;
+
+  for (let i = start; i < path.length; i++) {
+    const char = path[i];
+    if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === "[" || char === "(") {
+      depth++;
+    } else if (char === ")") {
+      depth--;
+    } else if (char === "]") {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+
+  return -1;
+}
+
+function parseBracket(inner: string, source: string): PathSegment {
+  if (inner === "*") {
+    return { kind: "wildcard" };
+  }
+
+  if (inner.startsWith("?")) {
+    let filter = inner.slice(1).trim();
+    if (filter.startsWith("(") && filter.endsWith(")")) {
+      filter = filter.slice(1, -1);
+    }
+    try {
+      return { kind: "filter", expression: parseExpression(filter) };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new JsonPathError(`Invalid filter: ${errorMessage}`, source);
+    }
+  }
+
+  if (/^-?\d*:-?\d*(:-?\d*)?$/.test(inner)) {
+    const [start, end, step] = inner.split(":").map((part) => (part === "" ? undefined : Number(part)));
+    if (step === 0) {
+      throw new JsonPathError("Slice step cannot be zero", source);
+    }
+    return { kind: "slice", start, end, step };
+  }
+
+  const keys = splitUnion(inner).map((part) => parseKey(part, source));
+  if (keys.length === 1) {
+    const key = keys[0];
+    return typeof key === "number" ? { kind: "index", index: key } : { kind: "child", name: key };
+  }
+  return { kind: "union", keys };
+}
+
+function splitUnion(inner: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i];
+    if (quote) {
+      if (char === "\\" && i + 1 < inner.length) {
+        current += char + inner[++i];
+        continue;
+      }
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === ",") {
+      parts.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current.trim());
+
+  return parts;
+}
+
+function parseKey(part: string, source: string): string | number {
+  if (/^-?\d+$/.test(part)) {
+    return Number(part);
+  }
+  const quoted = part.match(/^(['"])(.*)\1$/);
+  if (quoted) {
+    return quoted[2].replace(/\\(.)/g, "$1");
+  }
+  throw new JsonPathError(`Invalid bracket selector '${part}'`, source);
+}
+
+/**
+ * Return every node matched by the path
+ */
+export function queryJsonPath(
+  root: unknown,
+  path: string | JsonPath,
+  options: JsonPathOptions = {}
+): unknown[] {
+  const parsed = typeof path === "string" ? parseJsonPath(path) : path;
+  let nodes: unknown[] = [root];
+
+  for (const segment of parsed.segments) {
+    const next: unknown[] = [];
+    for (const rawNode of nodes) {
+      const node = typeof rawNode === "string" && options.coerce ? options.coerce(rawNode) : rawNode;
+      applySegment(segment, node, next);
+    }
+    nodes = next;
+  }
+
+  return nodes;
+}
+
+/**
+ * Evaluate a path: definite paths return the matched value (or undefined),
+ * other paths return the array of matches.
+ */
+export function evaluateJsonPath(
+  root: unknown,
+  path: string | JsonPath,
+  options: JsonPathOptions = {}
+): unknown {
+  const parsed = typeof path === "string" ? parseJsonPath(path) : path;
+  const matches = queryJsonPath(root, parsed, options);
+  return parsed.definite ? matches[0] : matches;
+}
+
+function applySegment(segment: PathSegment, node: unknown, out: unknown[]): void {
+  switch (segment.kind) {
+    case "child":
+      if (isContainer(node) && !Array.isArray(node) && segment.name in node) {
+        out.push((node as Record<string, unknown>)[segment.name]);
+      }
+      return;
+
+    case "index":
+      if (Array.isArray(node)) {
+        const index = segment.index < 0 ? node.length + segment.index : segment.index;
+        if (index >= 0 && index < node.length) out.push(node[index]);
+      }
+      return;
+
+    case "wildcard":
+      out.push(...children(node));
+      return;
+
+    case "slice":
+      if (Array.isArray(node)) {
+        out.push(...slice(node, segment.start, segment.end, segment.step));
+      }
+      return;
+
+    case "union":
+      for (const key of segment.keys) {
+        applySegment(
+          typeof key === "number" ? { kind: "index", index: key } : { kind: "child", name: key },
+          node,
+          out
+        );
+      }
+      return;
+
+    case "recursive":
+      for (const descendant of descendants(node)) {
+        if (segment.name === null) {
+          out.push(...children(descendant));
+        } else {
+          applySegment({ kind: "child", name: segment.name }, descendant, out);
+        }
+      }
+      return;
+
+    case "filter":
+      for (const item of children(node)) {
+        const matched = evaluateExpression(segment.expression, (ref) => resolveCurrentNode(item, ref));
+        if (isTruthy(matched)) out.push(item);
+      }
+      return;
+  }
+}
+
+function isContainer(node: unknown): node is object {
+  return typeof node === "object" && node !== null;
+}
+
+function children(node: unknown): unknown[] {
+  if (Array.isArray(node)) return node;
+  if (isContainer(node)) return Object.values(node);
+  return [];
+}
+
+/**
+ * The node itself followed by all of its descendants, depth first
+ */
+function descendants(node: unknown): unknown[] {
+  const result: unknown[] = [node];
+  for (const child of children(node)) {
+    result.push(...descendants(child));
+  }
+  return result;
+}
+
+function slice(items: unknown[], start?: number, end?: number, step: number = 1): unknown[] {
+  const length = items.length;
+  const normalize = (value: number) => (value < 0 ? Math.max(length + value, 0) : Math.min(value, length));
+  const result: unknown[] = [];
+
+  if (step > 0) {
+    for (let i = normalize(start ?? 0); i < normalize(end ?? length); i += step) {
+      result.push(items[i]);
+    }
+  } else {
+    const from = start === undefined ? length - 1 : Math.min(normalize(start), length - 1);
+    const to = end === undefined ? -1 : normalize(end);
+    for (let i = from; i > to; i += step) {
+      result.push(items[i]);
+    }
+  }
+
+  return result;
+}
+
+function resolveCurrentNode(item: unknown, ref: string): unknown {
+  if (ref === "@") return item;
+  if (!ref.startsWith("@.")) return undefined;
+  return ref
+    .slice(2)
+    .split(".")
+    .reduce<unknown>(
+      (current, key) => (isContainer(current) ? (current as Record<string, unknown>)[key] : undefined),
+      item
+    );
+}
@@ -0,0 +1,167 @@
+/**
+ * Market Data Consensus
+ *
+ * Merges the answers of several market data providers into one MarketData,
+ * so a single bad feed cannot move the rent the pricing agent works from:
+ * - each source's median rent (reported, or from its comparables) is compared
+ *   with the others', and sources whose median is an outlier are dropped
+ * - comparables from the remaining sources are merged by normalized address
+ *   and comparables with outlier rents are dropped
+ * - the consensus median and average rents are the median of the sources'
+ *   figures, and the consensus confidence falls as the sources disagree
+ *
+ * Outliers are found with the median absolute deviation (MAD), using the
+ * modified z-score of Iglewicz and Hoaglin. With two sources there is no
+ * majority to tell which one is off, so both are kept: their comparables are
+ * still merged and screened, and the confidence shows how far they disagree.
+ *
+ * Requirements:
+ * - 3.2: Include comparable properties and market metrics
+ * - 3.5: Format data in standardized structure
+ */
+
+import { canonicalAddress } from "./addressParser";
+import {
+  MarketDataQuery,
+  ProviderComparable,
+  ProviderMarketData,
+  average,
+  median,
+  normalizeMarketData,
+} from "./marketDataProviders";
+import { MarketData, MarketDataSourceSummary } from "./types";
+
+/** Modified z-score above which a value is an outlier */
+const OUTLIER_THRESHOLD = 3.5;
+
+/** Dispersion (percent) at which the consensus confidence reaches zero */
+const MAX_DISPERSION_PERCENT = 25;
+
+/** Fewest values for which outliers are looked for */
+const MIN_VALUES_FOR_OUTLIERS = 3;
+
+export interface ProviderAnswer {
+  provider: string;
+  raw: ProviderMarketData;
+}
+
+/**
+ * For each value, whether it is an outlier: |0.6745 (x - median) / MAD| > threshold.
+ * When more than half the values are equal (MAD 0), the mean absolute
+ * deviation scaled by 1.2533 stands in for the MAD; when every value is equal
+ * nothing is an outlier.
+ */
+export function madOutliers(values: number[], threshold: number = OUTLIER_THRESHOLD): boolean[] {
+  if (values.length < MIN_VALUES_FOR_OUTLIERS) return values.map(() => false);
+
+  const center = median(values);
+  const deviations = values.map((value) => Math.abs(value - center));
+  const mad = median(deviations);
+  if (mad > 0) {
+    return deviations.map((deviation) => (0.6745 * deviation) / mad > threshold);
+  }
+
+  const meanDeviation = average(deviations);
+  if (meanDeviation === 0) return values.map(() => false);
+  return deviations.map((deviation) => deviation / (1.2533 * meanDeviation) > threshold);
+}
+
+/**
+ * Key that treats "12 Oak St." and "12 oak street" as the same address
+ */
+export function comparableKey(address: string): string {
+  return canonicalAddress(address)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Comparables merged by normalized address: the first source's details, the
+ * median of the rents reported for it
+ */
+function mergeComparables(comparables: ProviderComparable[]): { merged: ProviderComparable[]; duplicates: number } {
+  const byKey = new Map<string, { comparable: ProviderComparable; rents: number[] }>();
+  let duplicates = 0;
+
+  for (const comparable of comparables) {
+    const key = comparableKey(comparable.address);
+    const existing = key ? byKey.get(key) : undefined;
+    if (!existing) {
+      byKey.set(key || `#${byKey.size}`, { comparable: { ...comparable }, rents: [comparable.monthlyRent] });
+      continue;
+    }
+    duplicates++;
+    existing.rents.push(comparable.monthlyRent);
+    for (const field of ["bedrooms", "bathrooms", "squareFeet", "distanceMiles"] as const) {
+      if (existing.comparable[field] === undefined) existing.comparable[field] = comparable[field];
+    }
+  }
+
+  const merged = [...byKey.values()].map(({ comparable, rents }) => ({ ...comparable, monthlyRent: median(rents) }));
+  return { merged, duplicates };
+}
+
+function reported(answers: ProviderAnswer[], field: "occupancyRate" | "rentGrowthYoY"): number | undefined {
+  const values = answers.map((answer) => answer.raw[field]).filter((value): value is number => value !== undefined);
+  return values.length > 0 ? median(values) : undefined;
+}
+
+/**
+ * One MarketData from two or more providers' answers
+ */
+export function buildConsensus(answers: ProviderAnswer[], query: MarketDataQuery, fetchedAt: number = Date.now()): MarketData {
+  const sources: MarketDataSourceSummary[] = answers.map(({ provider, raw }) => {
+    const rents = raw.comparables.map((comparable) => comparable.monthlyRent);
+    return {
+      provider,
+      medianRent: raw.medianRent || median(rents),
+      averageRent: raw.averageRent || average(rents),
+      comparables: raw.comparables.length,
+      accepted: true,
+    };
+  });
+
+  madOutliers(sources.map((source) => source.medianRent)).forEach((outlier, i) => {
+    sources[i].accepted = !outlier;
+  });
+  const accepted = answers.filter((_, i) => sources[i].accepted);
+  const acceptedSources = sources.filter((source) => source.accepted);
+
+  const { merged, duplicates } = mergeComparables(accepted.flatMap((answer) => answer.raw.comparables));
+  const outliers = madOutliers(merged.map((comparable) => comparable.monthlyRent));
+  const comparables = merged.filter((_, i) => !outliers[i]);
+
+  const medianRent = median(acceptedSources.map((source) => source.medianRent));
+  const averageRent = median(acceptedSources.map((source) => source.averageRent));
+  const dispersion = medianRent > 0 ? (median(acceptedSources.map((source) => Math.abs(source.medianRent - medianRent))) / medianRent) * 100 : 0;
+  const closeness = Math.max(0, 1 - dispersion / MAX_DISPERSION_PERCENT);
+
+  const asOfs = accepted.map((answer) => answer.raw.asOf).filter((asOf): asOf is number => asOf !== undefined);
+
+  const data = normalizeMarketData(
+    {
+      comparables,
+      medianRent,
+      averageRent,
+      occupancyRate: reported(accepted, "occupancyRate"),
+      rentGrowthYoY: reported(accepted, "rentGrowthYoY"),
+      // The oldest source dates the consensus
+      asOf: asOfs.length > 0 ? Math.min(...asOfs) : undefined,
+    },
+    query,
+    "consensus",
+    fetchedAt
+  );
+
+  return {
+    ...data,
+    consensus: {
+      sources,
+      dispersion: Math.round(dispersion * 10) / 10,
+      confidence: Math.round((100 * closeness * acceptedSources.length) / sources.length),
+      duplicateComparables: duplicates,
+      rejectedComparables: merged.length - comparables.length,
+    },
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * Market Data Normalization
+ *
+ * The one path from a market data source's answer to the standard
+ * MarketData structure: parseJsonMarketData reads a JSON body (the RentCast
+ * shape by default), normalizeMarketData fills in averages and medians from
+ * the comparables when the source has none, default occupancy and growth and
+ * the parsed location. The providers, the consensus and the CRE workflow all
+ * go through it. The module uses no Node APIs so the CRE workflow can bundle
+ * it.
+ *
+ * Requirements:
+ * - 3.2: Include comparable properties and market metrics
+ * - 3.5: Format data in standardized structure
+ */
+
+import { formatStreetLine, parseUsAddress } from "./addressParser";
+import { evaluateJsonPath } from "./jsonPath";
+import { MarketData } from "./types";
+
+const DEFAULT_OCCUPANCY_RATE = 95;
+
+export interface MarketDataQuery {
+  address: string;
+  propertyType: string;
+  radius: number;
+}
+
+export interface ProviderComparable {
+  address: string;
+  monthlyRent: number;
+  bedrooms?: number;
+  bathrooms?: number;
+  squareFeet?: number;
+  distanceMiles?: number;
+}
+
+/**
+ * A provider's answer before normalization
+ */
+export interface ProviderMarketData {
+  comparables: ProviderComparable[];
+  averageRent?: number;
+  medianRent?: number;
+  occupancyRate?: number;
+  rentGrowthYoY?: number;
+  /** When the source data was current (ms since epoch); defaults to the fetch time */
+  asOf?: number;
+}
+
+/**
+ * Location components of a US address (see addressParser.ts); parts the
+ * address does not give are "Unknown" (ZIP "00000")
+ */
+export function parseLocation(address: string): MarketData["location"] {
+  const parsed = parseUsAddress(address);
+
+  return {
+    address: formatStreetLine(parsed) || address,
+    city: parsed.city || "Unknown",
+    state: parsed.state || "Unknown",
+    zipCode: parsed.zip || "00000",
+  };
+}
+
+export function average(numbers: number[]): number {
+  if (numbers.length === 0) return 0;
+  return numbers.reduce((sum, n) => sum + n, 0) / numbers.length;
+}
+
+export function median(numbers: number[]): number {
+  if (numbers.length === 0) return 0;
+  const sorted = [...numbers].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Standard MarketData from a provider's answer
+ */
+export function normalizeMarketData(
+  raw: ProviderMarketData,
+  query: MarketDataQuery,
+  provider: string,
+  fetchedAt: number = Date.now()
+): MarketData {
+  const comparableProperties = raw.comparables.map((comparable) => ({
+    address: comparable.address,
+    monthlyRent: comparable.monthlyRent,
+    bedrooms: comparable.bedrooms ?? 0,
+    bathrooms: comparable.bathrooms ?? 0,
+    squareFeet: comparable.squareFeet ?? 0,
+    distanceMiles: comparable.distanceMiles ?? 0,
+  }));
+  const rents = comparableProperties.map((comparable) => comparable.monthlyRent);
+
+  return {
+    location: parseLocation(query.address),
+    comparableProperties,
+    marketMetrics: {
+      averageRent: raw.averageRent || average(rents),
+      medianRent: raw.medianRent || median(rents),
+      occupancyRate: raw.occupancyRate || DEFAULT_OCCUPANCY_RATE,
+      rentGrowthYoY: raw.rentGrowthYoY || 0,
+    },
+    timestamp: fetchedAt,
+    isStale: false,
+    provider,
+    dataAsOf: raw.asOf ?? fetchedAt,
+    freshness: "live",
+  };
+}
+
+/**
+ * True when the answer has nothing to price from
+ */
+export function isEmptyMarketData(raw: ProviderMarketData): boolean {
+  return raw.comparables.length === 0 && !raw.averageRent && !raw.medianRent;
+}
+
+export function optionalNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const number = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+export function optionalTimestamp(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  if (typeof value === "number") return value < 1e12 ? value * 1000 : value;
+  const parsed = Date.parse(String(value));
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+// --- JSON bodies ---
+
+export interface HttpJsonPaths {
+  comparables: string;
+  averageRent: string;
+  medianRent: string;
+  occupancyRate: string;
+  rentGrowthYoY: string;
+  /** ISO date or epoch seconds/ms of the source data */
+  asOf: string;
+}
+
+/** Field names within each comparable */
+export interface HttpJsonComparableFields {
+  address: string;
+  monthlyRent: string;
+  bedrooms: string;
+  bathrooms: string;
+  squareFeet: string;
+  distanceMiles: string;
+}
+
+/** The RentCast response shape, also served by the dashboard's /api/market-data */
+export const RENTCAST_PATHS: HttpJsonPaths = {
+  comparables: "$.data.comparables",
+  averageRent: "$.data.averageRent",
+  medianRent: "$.data.medianRent",
+  occupancyRate: "$.data.occupancyRate",
+  rentGrowthYoY: "$.data.rentGrowth",
+  asOf: "$.meta.lastUpdated",
+};
+
+export const RENTCAST_COMPARABLE_FIELDS: HttpJsonComparableFields = {
+  address: "address",
+  monthlyRent: "price",
+  bedrooms: "bedrooms",
+  bathrooms: "bathrooms",
+  squareFeet: "squareFeet",
+  distanceMiles: "distance",
+};
+
+/**
+ * ProviderMarketData from a JSON body, read through JSONPaths and comparable
+ * field names (RentCast's by default)
+ */
+export function parseJsonMarketData(
+  body: unknown,
+  paths: HttpJsonPaths = RENTCAST_PATHS,
+  fields: HttpJsonComparableFields = RENTCAST_COMPARABLE_FIELDS
+): ProviderMarketData {
+  const read = (path: string) => evaluateJsonPath(body, path);
+  const comparables = read(paths.comparables);
+  const rows = Array.isArray(comparables) ? comparables : [];
+
+  return {
+    comparables: rows
+      .filter((row): row is Record<string, unknown> => typeof row === "object" && row !== null)
+      .map((row) => ({
+        address: String(row[fields.address] ?? ""),
+        monthlyRent: optionalNumber(row[fields.monthlyRent]) ?? 0,
+        bedrooms: optionalNumber(row[fields.bedrooms]),
+        bathrooms: optionalNumber(row[fields.bathrooms]),
+        squareFeet: optionalNumber(row[fields.squareFeet]),
+        distanceMiles: optionalNumber(row[fields.distanceMiles]),
+      })),
+    averageRent: optionalNumber(read(paths.averageRent)),
+    medianRent: optionalNumber(read(paths.medianRent)),
+    occupancyRate: optionalNumber(read(paths.occupancyRate)),
+    rentGrowthYoY: optionalNumber(read(paths.rentGrowthYoY)),
+    asOf: optionalTimestamp(read(paths.asOf)),
+  };
+}
@@ -1,22 +1,57 @@
 /**
  * Market Data Oracle Service
- * Fetches rental market data from RentCast API with caching and fallback mechanisms
+ * Fetches rental market data from a set of providers (RentCast by default, see
+ * marketDataProviders.ts) with caching and fallback mechanisms. With several
+ * providers it merges every answer into a consensus (marketDataConsensus.ts),
+ * or, with the fallback strategy, takes the first provider with data.
+ * Each result is tagged with the provider that answered and its freshness.
+ * Results are kept in a CacheStore (cacheStore.ts), which can be shared with
+ * the workflow orchestrator and persist across processes.
  * Requirements: 3.1, 3.2, 3.3, 3.4, 3.5
  */
 
-import { MarketData, CachedMarketData, RentCastResponse } from './types';
+import { MarketData, MarketDataStrategy } from './types';
+import { CacheStore, InMemoryCacheStore } from './cacheStore';
+import { canonicalAddress } from './addressParser';
+import {
+  MarketDataProvider,
+  MarketDataQuery,
+  ProviderMarketData,
+  RentCastProvider,
+  isEmptyMarketData,
+  normalizeMarketData,
+} from './marketDataProviders';
+import { ProviderAnswer, buildConsensus } from './marketDataConsensus';
 
 const CACHE_DURATION_MS = 24 * 60 * 60 * 1000; // 24 hours
-const API_TIMEOUT_MS = 10000; // 10 seconds
+const CACHE_KEY_PREFIX = 'market-data:';
 
 export class MarketDataOracle {
-  private cache: Map<string, CachedMarketData> = new Map();
-  private apiKey: string;
-  private apiUrl: string;
+  private providers: MarketDataProvider[];
 
-  constructor(apiKey?: string, apiUrl?: string) {
-    this.apiKey = apiKey || process.env.RENTCAST_API_KEY || '';
-    this.apiUrl = apiUrl || process.env.RENTCAST_API_URL || 'https://app.rentcast.io/app';
+  /**
+   * @param source Providers, or a RentCast API key (with apiUrl) for the
+   *   single-provider setup
+   * @param strategy How several providers are combined
+   * @param cache Where results are cached (in memory by default)
+   */
+  constructor(
+    source?: string | MarketDataProvider[],
+    apiUrl?: string,
+    private strategy: MarketDataStrategy = 'consensus',
+    private cache: CacheStore = new InMemoryCacheStore()
+  ) {
+    this.providers = Array.isArray(source) ? source : [new RentCastProvider(source, apiUrl)];
+    if (this.providers.length === 0) {
+      throw new Error('MarketDataOracle needs at least one provider');
+    }
+  }
+
+  /**
+   * Names of the providers, in configured order
+   */
+  get providerNames(): string[] {
+    return this.providers.map(provider => provider.name);
   }
 
   /**
@@ -31,34 +66,39 @@ export class MarketDataOracle {
     const cacheKey = this.getCacheKey(propertyAddress, propertyType, radius);
 
     // Check cache first
-    const cached = this.cache.get(cacheKey);
-    if (cached && !this.isCacheExpired(cached)) {
-      return cached.data;
+    const cached = await this.cache.get<MarketData>(cacheKey);
+    if (cached) {
+      return { ...cached.value, freshness: 'cached' };
     }
 
+    let data: MarketData;
     try {
-      // Attempt to fetch fresh data from API
-      const data = await this.fetchFromAPI(propertyAddress, propertyType, radius);
-
-      // Cache the fresh data
-      this.cacheData(cacheKey, data);
-
-      return data;
+      // Attempt to fetch fresh data from the providers
+      data = await this.fetchFromAPI(propertyAddress, propertyType, radius);
     } catch (error) {
       // Fallback to cached data if available (even if stale)
-      if (cached) {
-        console.warn('API fetch failed, using stale cached data:', error);
-        const staleData = { ...cached.data, isStale: true };
-        return staleData;
+      const stale = await this.cache.get<MarketData>(cacheKey, true);
+      if (stale) {
+        console.warn('Market data providers failed, using stale cached data:', error);
+        return { ...stale.value, isStale: true, freshness: 'stale' };
       }
 
       // If no cache available, throw error
       throw new Error(`Failed to fetch market data and no cache available: ${error}`);
     }
+
+    // Cache the fresh data; a cache failure does not lose the data
+    try {
+      await this.cache.set(cacheKey, data, CACHE_DURATION_MS, data.timestamp);
+    } catch (error) {
+      console.warn('Failed to cache market data:', error);
+    }
+    return data;
   }
 
   /**
-   * Fetches data from RentCast API
+   * Asks the providers for data: all of them for a consensus, or each in
+   * order until one has data
    * Requirement: 3.1
    */
   protected async fetchFromAPI(
@@ -66,175 +106,93 @@ export class MarketDataOracle {
     propertyType: string,
     radius: number
   ): Promise<MarketData> {
-    if (!this.apiKey) {
-      throw new Error('RentCast API key not configured');
+    const query: MarketDataQuery = { address: propertyAddress, propertyType, radius };
+    if (this.strategy === 'consensus' && this.providers.length > 1) {
+      return await this.fetchConsensus(query);
     }
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), API_TIMEOUT_MS);
-
-    try {
-      const url = new URL(`${this.apiUrl}/properties/comparable`);
-      url.searchParams.append('address', propertyAddress);
-      url.searchParams.append('radius', radius.toString());
-      url.searchParams.append('propertyType', propertyType);
-
-      const response = await fetch(url.toString(), {
-        method: 'GET',
-        headers: {
-          'X-API-Key': this.apiKey,
-          'Content-Type': 'application/json',
-        },
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        throw new Error(`API request failed with status ${response.status}`);
-      }
-
-      const apiResponse: RentCastResponse = await response.json();
-
-      // Format data into standardized structure
-      return this.formatMarketData(apiResponse, propertyAddress);
-    } catch (error) {
-      clearTimeout(timeoutId);
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error('API request timed out');
+    const failures: string[] = [];
+    for (const provider of this.providers) {
+      try {
+        const raw = await this.fetchFrom(provider, query);
+        if (failures.length > 0) {
+          console.warn(`Market data from ${provider.name} after failures: ${failures.join('; ')}`);
+        }
+        return normalizeMarketData(raw, query, provider.name);
+      } catch (error) {
+        failures.push(`${provider.name}: ${error instanceof Error ? error.message : error}`);
       }
-      throw error;
     }
-  }
 
-  /**
-   * Formats API response into standardized MarketData structure
-   * Requirements: 3.2, 3.5
-   */
-  private formatMarketData(
-    apiResponse: RentCastResponse,
-    propertyAddress: string
-  ): MarketData {
-    const { data } = apiResponse;
-
-    // Parse address components
-    const addressParts = this.parseAddress(propertyAddress);
-
-    // Format comparable properties
-    const comparableProperties = (data.comparables || []).map(comp => ({
-      address: comp.address,
-      monthlyRent: comp.price,
-      bedrooms: comp.bedrooms,
-      bathrooms: comp.bathrooms,
-      squareFeet: comp.squareFeet,
-      distanceMiles: comp.distance,
-    }));
-
-    // Calculate market metrics
-    const marketMetrics = {
-      averageRent: data.averageRent || this.calculateAverage(comparableProperties.map(p => p.monthlyRent)),
-      medianRent: data.medianRent || this.calculateMedian(comparableProperties.map(p => p.monthlyRent)),
-      occupancyRate: data.occupancyRate || 95, // Default to 95% if not provided
-      rentGrowthYoY: data.rentGrowth || 0,
-    };
-
-    return {
-      location: addressParts,
-      comparableProperties,
-      marketMetrics,
-      timestamp: Date.now(),
-      isStale: false,
-    };
-  }
-
-  /**
-   * Parses address string into components
-   */
-  private parseAddress(address: string): {
-    address: string;
-    city: string;
-    state: string;
-    zipCode: string;
-  } {
-    // Simple parsing - in production, use a proper address parsing library
-    const parts = address.split(',').map(p => p.trim());
-
-    return {
-      address: parts[0] || address,
-      city: parts[1] || 'Unknown',
-      state: parts[2]?.split(' ')[0] || 'Unknown',
-      zipCode: parts[2]?.split(' ')[1] || '00000',
-    };
-  }
-
-  /**
-   * Calculates average of numbers
-   */
-  private calculateAverage(numbers: number[]): number {
-    if (numbers.length === 0) return 0;
-    return numbers.reduce((sum, n) => sum + n, 0) / numbers.length;
+    throw new Error(`All market data providers failed: ${failures.join('; ')}`);
   }
 
   /**
-   * Calculates median of numbers
+   * Queries every provider at once and merges the answers that have data
    */
-  private calculateMedian(numbers: number[]): number {
-    if (numbers.length === 0) return 0;
-    const sorted = [...numbers].sort((a, b) => a - b);
-    const mid = Math.floor(sorted.length / 2);
-    return sorted.length % 2 === 0
-      ? (sorted[mid - 1] + sorted[mid]) / 2
-      : sorted[mid];
-  }
-
-  /**
-   * Caches market data with expiration
-   * Requirement: 3.3
-   */
-  private cacheData(key: string, data: MarketData): void {
-    const now = Date.now();
-    this.cache.set(key, {
-      data,
-      fetchedAt: now,
-      expiresAt: now + CACHE_DURATION_MS,
-      isStale: false,
-    });
+  private async fetchConsensus(query: MarketDataQuery): Promise<MarketData> {
+    const results = await Promise.all(
+      this.providers.map(async (provider): Promise<ProviderAnswer | string> => {
+        try {
+          return { provider: provider.name, raw: await this.fetchFrom(provider, query) };
+        } catch (error) {
+          return `${provider.name}: ${error instanceof Error ? error.message : error}`;
+        }
+      })
+    );
+    const answered = results.filter((result): result is ProviderAnswer => typeof result !== 'string');
+    const failures = results.filter((result): result is string => typeof result === 'string');
+
+    if (answered.length === 0) {
+      throw new Error(`All market data providers failed: ${failures.join('; ')}`);
+    }
+    if (failures.length > 0) {
+      console.warn(`Market data consensus without ${failures.join('; ')}`);
+    }
+    if (answered.length === 1) {
+      return normalizeMarketData(answered[0].raw, query, answered[0].provider);
+    }
+    return buildConsensus(answered, query);
   }
 
   /**
-   * Checks if cached data is expired
-   * Requirement: 3.4
+   * One provider's answer; an answer with nothing to price from is a failure
    */
-  private isCacheExpired(cached: CachedMarketData): boolean {
-    return Date.now() > cached.expiresAt;
+  private async fetchFrom(provider: MarketDataProvider, query: MarketDataQuery): Promise<ProviderMarketData> {
+    const raw = await provider.fetch(query);
+    if (isEmptyMarketData(raw)) {
+      throw new Error('no comparables or market metrics');
+    }
+    return raw;
   }
 
   /**
-   * Generates cache key from parameters
+   * Generates cache key from parameters; different provider sets and
+   * strategies never share an entry, and every spelling of an address
+   * (canonicalAddress) shares one
    */
   private getCacheKey(address: string, type: string, radius: number): string {
-    return `${address}:${type}:${radius}`;
+    const location = canonicalAddress(address);
+    return `${CACHE_KEY_PREFIX}${this.providerNames.join(',')}:${this.strategy}:${location}:${type}:${radius}`;
   }
 
   /**
-   * Clears all cached data
+   * Clears all cached market data
    */
-  clearCache(): void {
-    this.cache.clear();
+  async clearCache(): Promise<void> {
+    await this.cache.clear(CACHE_KEY_PREFIX);
   }
 
   /**
-   * Gets cached data for a property (if exists)
+   * Gets cached data for a property (if exists, even if expired)
    */
-  getCachedData(
+  async getCachedData(
     propertyAddress: string,
     propertyType: string,
     radius: number = 5
-  ): MarketData | null {
+  ): Promise<MarketData | null> {
     const cacheKey = this.getCacheKey(propertyAddress, propertyType, radius);
-    const cached = this.cache.get(cacheKey);
-    return cached ? cached.data : null;
+    const cached = await this.cache.get<MarketData>(cacheKey, true);
+    return cached ? cached.value : null;
   }
 }
-
-
@@ -0,0 +1,300 @@
+/**
+ * Market Data Providers
+ *
+ * Sources of comparable rentals and market metrics for MarketDataOracle.
+ * A MarketDataProvider returns raw comparables and whatever metrics its
+ * source publishes; normalizeMarketData (marketDataNormalization.ts) turns
+ * that into the standard MarketData structure (averages and medians from the
+ * comparables when the source has none, default occupancy and growth, parsed
+ * location), so every provider goes through the same normalization.
+ *
+ * Built-in providers:
+ * - RentCastProvider: RentCast /properties/comparable
+ * - HttpJsonProvider: any JSON API, mapped with JSONPaths; the defaults read
+ *   the RentCast-shaped body the dashboard's /api/market-data serves
+ * - CsvFileProvider: comparables from a CSV file
+ * - ReferenceTableProvider: median rents by metro and property type
+ *   (Redfin Data Center, referenceRents.ts), for when no API is reachable
+ *
+ * Requirements:
+ * - 3.1: Fetch rental market data from external API
+ * - 3.2: Include comparable properties and market metrics
+ * - 3.5: Format data in standardized structure
+ */
+
+import * as fs from "fs";
+import {
+  HttpJsonComparableFields,
+  HttpJsonPaths,
+  MarketDataQuery,
+  ProviderMarketData,
+  RENTCAST_COMPARABLE_FIELDS,
+  RENTCAST_PATHS,
+  optionalNumber,
+  parseJsonMarketData,
+  parseLocation,
+} from "./marketDataNormalization";
+import { REDFIN_REFERENCE_TABLE, ReferenceTable, lookupReferenceRent, referenceMetro } from "./referenceRents";
+import { MarketDataProviderConfig } from "./types";
+
+export {
+  average,
+  isEmptyMarketData,
+  median,
+  normalizeMarketData,
+  parseJsonMarketData,
+  parseLocation,
+} from "./marketDataNormalization";
+export type {
+  HttpJsonComparableFields,
+  HttpJsonPaths,
+  MarketDataQuery,
+  ProviderComparable,
+  ProviderMarketData,
+} from "./marketDataNormalization";
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+export interface MarketDataProvider {
+  /** Recorded on MarketData.provider */
+  readonly name: string;
+  fetch(query: MarketDataQuery): Promise<ProviderMarketData>;
+}
+
+// --- HTTP JSON ---
+
+export interface HttpJsonProviderOptions {
+  /** Defaults to "http-json" */
+  name?: string;
+  /** address, radius and propertyType are appended as query parameters */
+  url: string;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  paths?: Partial<HttpJsonPaths>;
+  comparableFields?: Partial<HttpJsonComparableFields>;
+}
+
+/**
+ * Market data from a JSON API
+ */
+export class HttpJsonProvider implements MarketDataProvider {
+  readonly name: string;
+  private paths: HttpJsonPaths;
+  private fields: HttpJsonComparableFields;
+
+  constructor(private options: HttpJsonProviderOptions) {
+    this.name = options.name || "http-json";
+    this.paths = { ...RENTCAST_PATHS, ...options.paths };
+    this.fields = { ...RENTCAST_COMPARABLE_FIELDS, ...options.comparableFields };
+  }
+
+  async fetch(query: MarketDataQuery): Promise<ProviderMarketData> {
+    const url = new URL(this.options.url);
+    url.searchParams.append("address", query.address);
+    url.searchParams.append("radius", query.radius.toString());
+    url.searchParams.append("propertyType", query.propertyType);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    let body: unknown;
+    try {
+      const response = await fetch(url.toString(), {
+        method: "GET",
+        headers: { "Content-Type": "application/json", ...this.options.headers },
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`API request failed with status ${response.status}`);
+      }
+      body = await response.json();
+    } catch (error) {
+      if (error instanceof Error && error.name === "AbortError") {
+        throw new Error("API request timed out");
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    return this.parse(body);
+  }
+
+  /**
+   * Map a response body through the configured paths
+   */
+  parse(body: unknown): ProviderMarketData {
+    return parseJsonMarketData(body, this.paths, this.fields);
+  }
+}
+
+// --- RentCast ---
+
+/**
+ * RentCast comparables; the key and URL default to RENTCAST_API_KEY and
+ * RENTCAST_API_URL
+ */
+export class RentCastProvider extends HttpJsonProvider {
+  private apiKey: string;
+
+  constructor(apiKey?: string, apiUrl?: string, timeoutMs?: number) {
+    const key = apiKey || process.env.RENTCAST_API_KEY || "";
+    const baseUrl = apiUrl || process.env.RENTCAST_API_URL || "https://app.rentcast.io/app";
+    super({ name: "rentcast", url: `${baseUrl}/properties/comparable`, headers: { "X-API-Key": key }, timeoutMs });
+    this.apiKey = key;
+  }
+
+  async fetch(query: MarketDataQuery): Promise<ProviderMarketData> {
+    if (!this.apiKey) {
+      throw new Error("RentCast API key not configured");
+    }
+    return await super.fetch(query);
+  }
+}
+
+// --- CSV file ---
+
+/**
+ * Rows of a CSV document; quoted fields may contain commas, quotes ("") and newlines
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+/**
+ * Comparables from a CSV file with a header row. Required columns: address,
+ * monthly_rent. Optional: bedrooms, bathrooms, square_feet, distance_miles,
+ * and property_type, zip_code and city, which filter rows to the query when
+ * present. The file's modification time is the data's as-of time.
+ */
+export class CsvFileProvider implements MarketDataProvider {
+  readonly name: string;
+
+  constructor(private filePath: string, name: string = "csv") {
+    this.name = name;
+  }
+
+  async fetch(query: MarketDataQuery): Promise<ProviderMarketData> {
+    const [text, stat] = await Promise.all([fs.promises.readFile(this.filePath, "utf8"), fs.promises.stat(this.filePath)]);
+    const [header, ...rows] = parseCsv(text);
+    if (!header) {
+      throw new Error(`${this.filePath} is empty`);
+    }
+
+    const columns = header.map((name) => name.trim().toLowerCase());
+    for (const required of ["address", "monthly_rent"]) {
+      if (!columns.includes(required)) {
+        throw new Error(`${this.filePath} has no ${required} column`);
+      }
+    }
+
+    const location = parseLocation(query.address);
+    const wanted: Record<string, string> = {
+      property_type: query.propertyType,
+      ...(location.zipCode !== "00000" ? { zip_code: location.zipCode } : {}),
+      ...(location.city !== "Unknown" ? { city: location.city } : {}),
+    };
+
+    const records = rows.map((cells) => Object.fromEntries(columns.map((column, i) => [column, (cells[i] ?? "").trim()])));
+    const matching = records.filter((record) =>
+      Object.entries(wanted).every(
+        ([column, value]) => !columns.includes(column) || record[column].toLowerCase() === value.toLowerCase()
+      )
+    );
+
+    return {
+      comparables: matching.map((record) => ({
+        address: record.address,
+        monthlyRent: optionalNumber(record.monthly_rent) ?? 0,
+        bedrooms: optionalNumber(record.bedrooms),
+        bathrooms: optionalNumber(record.bathrooms),
+        squareFeet: optionalNumber(record.square_feet),
+        distanceMiles: optionalNumber(record.distance_miles),
+      })),
+      asOf: stat.mtimeMs,
+    };
+  }
+}
+
+// --- Reference table ---
+
+/**
+ * Market-level rents from a reference table; no comparables
+ */
+export class ReferenceTableProvider implements MarketDataProvider {
+  readonly name = "reference";
+
+  constructor(private table: ReferenceTable = REDFIN_REFERENCE_TABLE) {}
+
+  /** Metro whose aliases appear in the address, or "default" */
+  metroFor(address: string): string {
+    return referenceMetro(address, this.table);
+  }
+
+  async fetch(query: MarketDataQuery): Promise<ProviderMarketData> {
+    const rents = lookupReferenceRent(query.address, query.propertyType, this.table);
+    if (!rents) {
+      throw new Error(`No reference rents for ${query.propertyType}`);
+    }
+    return { comparables: [], ...rents, asOf: this.table.asOf };
+  }
+}
+
+// --- Configuration ---
+
+/**
+ * Provider for one entry of a market-data step's providers list
+ */
+export function createMarketDataProvider(config: MarketDataProviderConfig): MarketDataProvider {
+  switch (config.type) {
+    case "rentcast":
+      return new RentCastProvider(config.api_key || undefined, config.api_url || undefined);
+    case "http-json":
+      return new HttpJsonProvider({
+        name: config.name,
+        url: config.url,
+        headers: config.headers,
+        paths: config.paths as Partial<HttpJsonPaths>,
+        comparableFields: config.comparable_fields as Partial<HttpJsonComparableFields>,
+      });
+    case "csv":
+      return new CsvFileProvider(config.file, config.name);
+    case "reference":
+      return new ReferenceTableProvider();
+  }
+}
@@ -0,0 +1,295 @@
+/**
+ * Workflow Metrics
+ *
+ * Collects per-run metrics from a finished WorkflowState (execution time,
+ * step durations, cache hit rate, recommendation price and confidence,
+ * pool balance, gas used) and exposes them in Prometheus text format.
+ *
+ * Run metrics are also stored on WorkflowState.metrics so alert conditions
+ * can reference them by name and compare them across runs. Cache store
+ * statistics are exposed alongside them.
+ *
+ * Requirements:
+ * - 11.3: Log each step execution with timestamps and results
+ */
+
+import * as http from "http";
+import { MetricConfig, WorkflowState, WorkflowStep } from "./types";
+import { CacheStats } from "./cacheStore";
+
+export type MetricType = "gauge" | "counter";
+export type MetricLabels = Record<string, string>;
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: MetricType;
+  samples: Map<string, { labels: MetricLabels; value: number }>;
+}
+
+/**
+ * Built-in descriptions for run metrics not declared in monitoring.metrics
+ */
+const RUN_METRIC_DESCRIPTIONS: Record<string, string> = {
+  workflow_execution_time: "Total time to execute workflow (milliseconds)",
+  step_failure_count: "Number of steps that failed in the run",
+  step_success_rate: "Share of executed steps that completed (percentage)",
+  step_duration: "Step execution time (milliseconds)",
+  cache_hit_rate: "Share of cacheable steps served from cache (percentage)",
+  recommendation_price: "Recommended monthly rent (USD)",
+  recommendation_confidence: "AI recommendation confidence score (percentage)",
+  pool_balance: "Distribution pool balance (token base units)",
+  pool_balance_usd: "Distribution pool balance (USD)",
+  transaction_gas_used: "Gas used by transactions in the run",
+  workflow_runs_total: "Workflow runs by final status",
+};
+
+/**
+ * Cache store statistics (counts since the process started) and their descriptions
+ */
+const CACHE_METRICS: Array<{ name: string; help: string; type: MetricType; value: (stats: CacheStats) => number }> = [
+  { name: "cache_store_entries", help: "Entries in the cache store", type: "gauge", value: (stats) => stats.entries },
+  { name: "cache_store_hits_total", help: "Fresh cache entries returned", type: "counter", value: (stats) => stats.hits },
+  {
+    name: "cache_store_stale_hits_total",
+    help: "Expired cache entries returned after a source failed",
+    type: "counter",
+    value: (stats) => stats.staleHits,
+  },
+  { name: "cache_store_misses_total", help: "Cache lookups without a usable entry", type: "counter", value: (stats) => stats.misses },
+  { name: "cache_store_writes_total", help: "Cache entries written", type: "counter", value: (stats) => stats.writes },
+  {
+    name: "cache_store_hit_rate",
+    help: "Share of cache lookups answered, fresh or stale (percentage)",
+    type: "gauge",
+    value: (stats) => stats.hitRate,
+  },
+];
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return isFinite(value) ? value : undefined;
+  if (typeof value === "bigint") return Number(value);
+  if (typeof value === "string" && value.trim() !== "" && !isNaN(Number(value))) return Number(value);
+  return undefined;
+}
+
+/**
+ * Find the first step output with the given key, in step order
+ */
+function findOutput(state: WorkflowState, key: string): number | undefined {
+  for (const outputs of Object.values(state.step_outputs)) {
+    const value = toNumber(outputs?.[key]);
+    if (value !== undefined) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Compute the metrics for one run. Scalar metrics are keyed by name;
+ * step_duration is keyed by step id.
+ */
+export function collectRunMetrics(state: WorkflowState, steps: WorkflowStep[]): Record<string, any> {
+  const metrics: Record<string, any> = {};
+  const results = Object.entries(state.step_results);
+
+  if (state.end_time !== undefined) {
+    metrics.workflow_execution_time = state.end_time - state.start_time;
+  }
+
+  const executed = results.filter(([, result]) => result.status === "completed" || result.status === "failed");
+  const failed = executed.filter(([, result]) => result.status === "failed").length;
+  metrics.step_failure_count = failed;
+  if (executed.length > 0) {
+    metrics.step_success_rate = ((executed.length - failed) / executed.length) * 100;
+  }
+
+  const durations: Record<string, number> = {};
+  for (const [stepId, result] of results) {
+    if (result.duration !== undefined && !result.reused) {
+      durations[stepId] = result.duration;
+    }
+  }
+  metrics.step_duration = durations;
+
+  // A step is cacheable if it has a cache configured or reports is_cached
+  let cacheable = 0;
+  let hits = 0;
+  for (const step of steps) {
+    const outputs = state.step_outputs[step.id];
+    if (state.step_results[step.id]?.status !== "completed") continue;
+    if (!step.config.cache?.enabled && typeof outputs?.is_cached !== "boolean") continue;
+
+    cacheable++;
+    if (state.step_results[step.id].cached || outputs?.is_cached === true) {
+      hits++;
+    }
+  }
+  if (cacheable > 0) {
+    metrics.cache_hit_rate = (hits / cacheable) * 100;
+  }
+
+  const outputMetrics: Array<[string, string]> = [
+    ["recommendation_price", "recommended_price"],
+    ["recommendation_confidence", "confidence_score"],
+    ["pool_balance", "pool_balance"],
+    ["pool_balance_usd", "pool_balance_usd"],
+  ];
+  for (const [metric, outputKey] of outputMetrics) {
+    const value = findOutput(state, outputKey);
+    if (value !== undefined) metrics[metric] = value;
+  }
+
+  let gasUsed = 0;
+  let transactions = 0;
+  for (const outputs of Object.values(state.step_outputs)) {
+    const gas = toNumber(outputs?.gas_used);
+    if (gas !== undefined) {
+      gasUsed += gas;
+      transactions++;
+    }
+  }
+  if (transactions > 0) {
+    metrics.transaction_gas_used = gasUsed;
+  }
+
+  return metrics;
+}
+
+function sanitizeName(name: string): string {
+  const sanitized = name.replace(/[^a-zA-Z0-9_:]/g, "_");
+  return /^[0-9]/.test(sanitized) ? `_${sanitized}` : sanitized;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function labelKey(labels: MetricLabels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((key) => `${key}=${labels[key]}`)
+    .join(",");
+}
+
+/**
+ * In-process metric registry rendered in Prometheus text exposition format
+ */
+export class MetricsRegistry {
+  private families: Map<string, MetricFamily> = new Map();
+
+  describe(name: string, help: string, type: MetricType = "gauge"): void {
+    const metricName = sanitizeName(name);
+    const family = this.families.get(metricName);
+    if (family) {
+      family.help = help;
+      family.type = type;
+    } else {
+      this.families.set(metricName, { name: metricName, help, type, samples: new Map() });
+    }
+  }
+
+  set(name: string, value: number, labels: MetricLabels = {}): void {
+    this.family(name, "gauge").samples.set(labelKey(labels), { labels, value });
+  }
+
+  inc(name: string, value: number = 1, labels: MetricLabels = {}): void {
+    const family = this.family(name, "counter");
+    const key = labelKey(labels);
+    const current = family.samples.get(key)?.value || 0;
+    family.samples.set(key, { labels, value: current + value });
+  }
+
+  get(name: string, labels: MetricLabels = {}): number | undefined {
+    return this.families.get(sanitizeName(name))?.samples.get(labelKey(labels))?.value;
+  }
+
+  render(): string {
+    const lines: string[] = [];
+    for (const family of this.families.values()) {
+      if (family.samples.size === 0) continue;
+
+      lines.push(`# HELP ${family.name} ${family.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`);
+      lines.push(`# TYPE ${family.name} ${family.type}`);
+      for (const { labels, value } of family.samples.values()) {
+        const labelText = Object.entries(labels)
+          .map(([key, labelValue]) => `${sanitizeName(key)}="${escapeLabelValue(labelValue)}"`)
+          .join(",");
+        lines.push(`${family.name}${labelText ? `{${labelText}}` : ""} ${value}`);
+      }
+    }
+    return lines.length > 0 ? `${lines.join("\n")}\n` : "";
+  }
+
+  private family(name: string, type: MetricType): MetricFamily {
+    const metricName = sanitizeName(name);
+    if (!this.families.has(metricName)) {
+      this.describe(metricName, RUN_METRIC_DESCRIPTIONS[name] || name, type);
+    }
+    return this.families.get(metricName)!;
+  }
+}
+
+/**
+ * Record a run's metrics as gauges labelled by workflow, property (for
+ * multi-property runs) and step, plus a run counter labelled by status.
+ * Descriptions from monitoring.metrics replace the built-in ones.
+ */
+export function recordRunMetrics(
+  registry: MetricsRegistry,
+  state: WorkflowState,
+  runMetrics: Record<string, any>,
+  metricConfigs: MetricConfig[] = []
+): void {
+  const labels: MetricLabels = {
+    workflow: state.workflow_id,
+    ...(state.property_id ? { property: state.property_id } : {}),
+  };
+
+  for (const [name, value] of Object.entries(runMetrics)) {
+    const config = metricConfigs.find((metric) => metric.name === name);
+    if (config) {
+      registry.describe(name, `${config.description} (${config.unit})`, "gauge");
+    }
+
+    if (name === "step_duration") {
+      for (const [step, duration] of Object.entries(value as Record<string, number>)) {
+        registry.set(name, duration, { ...labels, step });
+      }
+    } else if (typeof value === "number") {
+      registry.set(name, value, labels);
+    }
+  }
+
+  registry.inc("workflow_runs_total", 1, { ...labels, status: state.status });
+}
+
+/**
+ * Record a cache store's statistics, labelled by backend
+ */
+export function recordCacheMetrics(registry: MetricsRegistry, stats: CacheStats): void {
+  for (const metric of CACHE_METRICS) {
+    registry.describe(metric.name, metric.help, metric.type);
+    registry.set(metric.name, metric.value(stats), { backend: stats.backend });
+  }
+}
+
+/**
+ * Process-wide registry used by executeWorkflow and the metrics endpoint
+ */
+export const defaultMetricsRegistry = new MetricsRegistry();
+
+/**
+ * Serve GET /metrics in Prometheus text format
+ */
+export function serveMetrics(registry: MetricsRegistry, port: number): http.Server {
+  const server = http.createServer((req, res) => {
+    if (req.method === "GET" && req.url?.split("?")[0] === "/metrics") {
+      res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+      res.end(registry.render());
+    } else {
+      res.writeHead(404, { "Content-Type": "text/plain" });
+      res.end("Not found\n");
+    }
+  });
+  return server.listen(port);
+}
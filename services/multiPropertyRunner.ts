@@ -0,0 +1,173 @@
+/**
+ * Multi-Property Runner
+ *
+ * Runs a workflow's step graph once per property from a property registry
+ * (see services/propertyRegistry.ts). Each property gets its own
+ * orchestrator, so step outputs, errors and run records never mix; its
+ * registry fields override the matching workflow variables. Properties run
+ * with bounded concurrency, share one provider and nonce tracker so
+ * transactions from the same wallet don't collide, and a failing property
+ * never stops the others. The result is an aggregated report.
+ *
+ * Requirements:
+ * - 2.5: Log errors and continue operation
+ * - 11.3: Log each step execution with timestamps
+ */
+
+import * as fs from "fs";
+import * as yaml from "yaml";
+import { ethers } from "ethers";
+import { OrchestratorOptions, WorkflowOrchestrator, dryRunFromEnv } from "./workflowOrchestrator";
+import { PropertyEntry, loadPropertyRegistry, propertyVariables } from "./propertyRegistry";
+import { createSecretsProvider } from "./secretsProvider";
+import { NonceTracker } from "./transactionManager";
+import { FileRunStore, RunStore } from "./runStore";
+import { InMemoryCacheStore, defaultCacheStore } from "./cacheStore";
+import { CircuitBreaker, isFailedExecution } from "./circuitBreaker";
+import { createDefaultNotifier } from "./notifier";
+import { defaultMetricsRegistry } from "./metrics";
+import { MultiPropertyReport, PropertyRunSummary, WorkflowState } from "./types";
+
+export const DEFAULT_PROPERTY_CONCURRENCY = 2;
+
+export interface MultiPropertyOptions extends Omit<OrchestratorOptions, "propertyId" | "nonces" | "variables"> {
+  /** Properties run at the same time (default DEFAULT_PROPERTY_CONCURRENCY) */
+  concurrency?: number;
+}
+
+export interface MultiPropertyRun {
+  report: MultiPropertyReport;
+  /** Final state per property that started, in registry order */
+  states: WorkflowState[];
+}
+
+/**
+ * Run the workflow for every property
+ */
+export async function executeForProperties(
+  configPath: string,
+  properties: PropertyEntry[],
+  options: MultiPropertyOptions = {}
+): Promise<MultiPropertyRun> {
+  const { concurrency = DEFAULT_PROPERTY_CONCURRENCY, ...orchestratorOptions } = options;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Concurrency must be a positive integer (got ${concurrency})`);
+  }
+
+  const startedAt = Date.now();
+  const workflowId = String(yaml.parse(fs.readFileSync(configPath, "utf8"))?.name ?? configPath);
+
+  // One provider and nonce tracker for every property: they sign with the same wallet
+  const secrets = orchestratorOptions.secrets || createSecretsProvider();
+  let provider = orchestratorOptions.provider;
+  const rpcUrl = secrets.get("ETHEREUM_RPC_URL");
+  if (!provider && rpcUrl && (secrets.get("PRIVATE_KEY") || orchestratorOptions.dryRun)) {
+    provider = new ethers.JsonRpcProvider(rpcUrl);
+  }
+  const nonces = provider ? new NonceTracker(provider) : undefined;
+  // One cache, so properties in the same market reuse each other's market data
+  const cache = orchestratorOptions.cache || new InMemoryCacheStore();
+
+  const summaries: PropertyRunSummary[] = new Array(properties.length);
+  const states: Array<WorkflowState | undefined> = new Array(properties.length);
+
+  const runProperty = async (index: number): Promise<void> => {
+    const property = properties[index];
+    const propertyStart = Date.now();
+    try {
+      const orchestrator = new WorkflowOrchestrator(configPath, {
+        ...orchestratorOptions,
+        provider,
+        nonces,
+        cache,
+        propertyId: property.id,
+        secrets,
+        variables: propertyVariables(property),
+      });
+      const state = await orchestrator.execute();
+      states[index] = state;
+      summaries[index] = {
+        property_id: property.id,
+        property_name: property.name,
+        execution_id: state.execution_id,
+        status: isFailedExecution(state) ? "failed" : "completed",
+        duration: Date.now() - propertyStart,
+        steps: Object.fromEntries(Object.entries(state.step_results).map(([stepId, result]) => [stepId, result.status])),
+        errors: state.errors.map((error) => `${error.step_id}: ${error.error}`),
+      };
+    } catch (error) {
+      summaries[index] = {
+        property_id: property.id,
+        property_name: property.name,
+        status: "failed",
+        duration: Date.now() - propertyStart,
+        steps: {},
+        errors: [error instanceof Error ? error.message : String(error)],
+      };
+    }
+  };
+
+  let next = 0;
+  const workers = Array.from({ length: Math.min(concurrency, properties.length) }, async () => {
+    while (next < properties.length) {
+      await runProperty(next++);
+    }
+  });
+  await Promise.all(workers);
+
+  const finishedAt = Date.now();
+  const failed = summaries.filter((summary) => summary.status === "failed").length;
+  const report: MultiPropertyReport = {
+    workflow_id: workflowId,
+    started_at: startedAt,
+    finished_at: finishedAt,
+    duration: finishedAt - startedAt,
+    concurrency,
+    status: failed === 0 ? "completed" : failed === summaries.length ? "failed" : "partial",
+    total: summaries.length,
+    completed: summaries.length - failed,
+    failed,
+    properties: summaries,
+  };
+
+  return { report, states: states.filter((state): state is WorkflowState => state !== undefined) };
+}
+
+/**
+ * Human-readable summary of a report, one line per property
+ */
+export function formatPropertyReport(report: MultiPropertyReport): string {
+  const lines = [
+    `${report.workflow_id}: ${report.completed}/${report.total} properties completed (${report.status}) in ${report.duration}ms`,
+  ];
+  for (const property of report.properties) {
+    const marker = property.status === "completed" ? "✅" : "❌";
+    const execution = property.execution_id ? ` ${property.execution_id}` : "";
+    lines.push(`  ${marker} ${property.property_id} (${property.property_name})${execution} ${property.duration}ms`);
+    for (const error of property.errors) {
+      lines.push(`      ${error}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Execute the workflow for every property in a registry file, with the same
+ * run store, circuit breaker, notifier and metrics as executeWorkflow
+ */
+export async function executeWorkflowForProperties(
+  configPath: string,
+  registryPath: string,
+  runStore: RunStore = new FileRunStore(),
+  concurrency?: number
+): Promise<MultiPropertyRun> {
+  return await executeForProperties(configPath, loadPropertyRegistry(registryPath), {
+    runStore,
+    circuitBreaker: new CircuitBreaker(),
+    notifier: createDefaultNotifier(),
+    metrics: defaultMetricsRegistry,
+    cache: defaultCacheStore(),
+    dryRun: dryRunFromEnv(),
+    concurrency,
+  });
+}
@@ -0,0 +1,150 @@
+/**
+ * Multicall
+ *
+ * Batches read-only contract calls into one eth_call through Multicall3's
+ * tryBlockAndAggregate, so every result comes from the same block. On
+ * networks without Multicall3 (such as a fresh Hardhat node) the calls are
+ * sent individually, pinned to one block number, which keeps the results
+ * consistent at the cost of one round trip per call.
+ *
+ * Requirements:
+ * - 2.6: Check rental payment before distributing yields
+ * - 3.5: Format data in standardized structure
+ */
+
+import { ethers } from "ethers";
+import { ContractCallRequest, ContractCallRevertError, callContract, decodeCall, encodeCall } from "./abiCodec";
+import { DecodedRevert, decodeRevert } from "./transactionSimulator";
+
+/** Multicall3 is deployed at the same address on most EVM networks */
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const MULTICALL3_ABI = [
+  "function tryBlockAndAggregate(bool requireSuccess, tuple(address target, bytes callData)[] calls) payable returns (uint256 blockNumber, bytes32 blockHash, tuple(bool success, bytes returnData)[] returnData)",
+];
+
+export class MulticallRevertError extends ContractCallRevertError {
+  constructor(public readonly callId: string, functionName: string, revert?: DecodedRevert) {
+    super(functionName, revert);
+    this.message = `Call ${callId} (${functionName}) reverted: ${revert?.reason ?? "no revert data"}`;
+    this.name = "MulticallRevertError";
+  }
+}
+
+export type MulticallProvider = Pick<ethers.Provider, "call" | "getCode" | "getBlock">;
+
+export interface MulticallRequest extends ContractCallRequest {
+  /** Key of the call's result */
+  id: string;
+  /** A revert yields a null result instead of failing the batch */
+  allowFailure?: boolean;
+}
+
+export interface MulticallOptions {
+  /** Multicall3 deployment (defaults to MULTICALL3_ADDRESS) */
+  address?: string;
+  blockTag?: ethers.BlockTag;
+}
+
+export interface MulticallResult {
+  blockNumber: number;
+  blockHash?: string;
+  /** False when the calls were sent individually because Multicall3 is not deployed */
+  batched: boolean;
+  /** Decoded result per call id; null for an allowed failure */
+  results: Record<string, unknown>;
+  /** Revert reason per failed call id */
+  errors: Record<string, string>;
+}
+
+/**
+ * Run several read-only calls at one block height
+ */
+export async function multicall(
+  provider: MulticallProvider,
+  requests: MulticallRequest[],
+  options: MulticallOptions = {}
+): Promise<MulticallResult> {
+  const address = options.address || MULTICALL3_ADDRESS;
+  const blockTag = options.blockTag ?? "latest";
+
+  const code = await provider.getCode(address, blockTag);
+  if (code === "0x") {
+    return callIndividually(provider, requests, blockTag);
+  }
+
+  const calls = requests.map((request) => encodeCall(request));
+  const multicall3 = new ethers.Interface(MULTICALL3_ABI);
+  const fragment = multicall3.getFunction("tryBlockAndAggregate")!;
+  const data = multicall3.encodeFunctionData(fragment, [
+    false,
+    requests.map((request, i) => [request.to, calls[i].data]),
+  ]);
+
+  const [blockNumber, blockHash, returnData] = multicall3.decodeFunctionResult(
+    fragment,
+    await provider.call({ to: address, data, blockTag })
+  );
+
+  const outcome: MulticallResult = {
+    blockNumber: Number(blockNumber),
+    blockHash,
+    batched: true,
+    results: {},
+    errors: {},
+  };
+  requests.forEach((request, i) => {
+    const [success, bytes] = returnData[i];
+    if (success) {
+      outcome.results[request.id] = decodeCall(request, calls[i], bytes);
+      return;
+    }
+    const revert = ethers.dataLength(bytes) >= 4 ? decodeRevert(request.abi, bytes) : undefined;
+    recordFailure(outcome, request, new ContractCallRevertError(calls[i].fragment.name, revert));
+  });
+  return outcome;
+}
+
+/**
+ * Stand-in for networks without Multicall3: resolve the block once, then
+ * read every call at that block number
+ */
+async function callIndividually(
+  provider: MulticallProvider,
+  requests: MulticallRequest[],
+  blockTag: ethers.BlockTag
+): Promise<MulticallResult> {
+  const block = await provider.getBlock(blockTag);
+  if (!block) {
+    throw new Error(`Block ${blockTag} not found`);
+  }
+
+  const outcome: MulticallResult = {
+    blockNumber: block.number,
+    blockHash: block.hash ?? undefined,
+    batched: false,
+    results: {},
+    errors: {},
+  };
+  const settled = await Promise.allSettled(
+    requests.map((request) => callContract(provider, { ...request, blockTag: block.number }))
+  );
+  settled.forEach((result, i) => {
+    if (result.status === "fulfilled") {
+      outcome.results[requests[i].id] = result.value;
+    } else if (result.reason instanceof ContractCallRevertError) {
+      recordFailure(outcome, requests[i], result.reason);
+    } else {
+      throw result.reason;
+    }
+  });
+  return outcome;
+}
+
+function recordFailure(outcome: MulticallResult, request: MulticallRequest, error: ContractCallRevertError): void {
+  if (!request.allowFailure) {
+    throw new MulticallRevertError(request.id, error.functionName, error.revert);
+  }
+  outcome.results[request.id] = null;
+  outcome.errors[request.id] = error.revert?.reason ?? "no revert data";
+}
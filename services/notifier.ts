@@ -0,0 +1,115 @@
+/**
+ * Workflow Notifiers
+ *
+ * Pluggable delivery for workflow notifications (failed runs, tripped
+ * circuit breakers). Delivery failures are logged and never thrown, so a
+ * broken webhook cannot fail a workflow run.
+ *
+ * Requirements:
+ * - 2.5: Log errors and continue operation
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { WorkflowNotification } from "./types";
+
+export interface Notifier {
+  notify(notification: WorkflowNotification): Promise<void>;
+}
+
+/**
+ * Writes notifications to the console as JSON lines
+ */
+export class LogNotifier implements Notifier {
+  async notify(notification: WorkflowNotification): Promise<void> {
+    const line = JSON.stringify({
+      ...notification,
+      timestamp: new Date(notification.timestamp).toISOString(),
+      level: notification.severity === "info" ? "info" : "warn",
+      type: "notification",
+    });
+    if (notification.severity === "info") {
+      console.log(line);
+    } else {
+      console.warn(line);
+    }
+  }
+}
+
+/**
+ * POSTs notifications as JSON to a webhook URL (Slack-compatible `text` field included)
+ */
+export class WebhookNotifier implements Notifier {
+  constructor(
+    private url: string,
+    private timeoutMs: number = 10000
+  ) {}
+
+  async notify(notification: WorkflowNotification): Promise<void> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(this.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          text: `[${notification.severity.toUpperCase()}] ${notification.title}: ${notification.message}`,
+          ...notification,
+        }),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Webhook responded with status ${response.status}`);
+      }
+    } catch (error) {
+      console.warn(`Failed to deliver notification to webhook: ${error}`);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+/**
+ * Appends notifications to a file as JSON lines
+ */
+export class FileNotifier implements Notifier {
+  constructor(private file: string) {}
+
+  async notify(notification: WorkflowNotification): Promise<void> {
+    try {
+      await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+      await fs.promises.appendFile(this.file, `${JSON.stringify(notification)}\n`);
+    } catch (error) {
+      console.warn(`Failed to write notification to ${this.file}: ${error}`);
+    }
+  }
+}
+
+/**
+ * Fans a notification out to several notifiers
+ */
+export class CompositeNotifier implements Notifier {
+  constructor(private notifiers: Notifier[]) {}
+
+  async notify(notification: WorkflowNotification): Promise<void> {
+    await Promise.all(
+      this.notifiers.map((notifier) =>
+        notifier.notify(notification).catch((error) => {
+          console.warn(`Notifier failed: ${error}`);
+        })
+      )
+    );
+  }
+}
+
+/**
+ * Default notifier: console, plus a webhook when WORKFLOW_NOTIFY_WEBHOOK_URL is set
+ */
+export function createDefaultNotifier(): Notifier {
+  const webhookUrl = process.env.WORKFLOW_NOTIFY_WEBHOOK_URL;
+  return webhookUrl
+    ? new CompositeNotifier([new LogNotifier(), new WebhookNotifier(webhookUrl)])
+    : new LogNotifier();
+}
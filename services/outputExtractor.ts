@@ -0,0 +1,180 @@
+/**
+ * Output Extractor
+ *
+ * Extracts step outputs from raw step results using JSONPath, applies
+ * transforms and enforces OutputConfig.validate rules.
+ *
+ * A path may be a pipeline of JSONPath queries and transforms, e.g.
+ *   "$.choices[0].message.content | json_parse | $.recommended_price"
+ * When an output declares `transform: json_parse` and its path descends into
+ * a string, the string is parsed at that point, so
+ *   "$.choices[0].message.content.recommended_price"
+ * also works.
+ *
+ * Requirements:
+ * - 3.5: Format data in standardized structure
+ * - 4.2, 4.3: Parse and validate AI response
+ */
+
+import { evaluateJsonPath } from "./jsonPath";
+import { OutputConfig, ValidationConfig } from "./types";
+
+export class OutputValidationError extends Error {
+  constructor(public readonly output: string, message: string) {
+    super(`Output ${output} failed validation: ${message}`);
+    this.name = "OutputValidationError";
+  }
+}
+
+const TRANSFORMS: Record<string, (value: any) => any> = {
+  json_parse: (value) => (typeof value === "string" ? JSON.parse(value) : value),
+  divide_by_1e6: (value) => Number(value) / 1e6,
+  divide_by_1e18: (value) => Number(value) / 1e18,
+  to_number: (value) => Number(value),
+  to_string: (value) => String(value),
+};
+
+/**
+ * Apply a named transform. Throws on unknown transform names.
+ */
+export function applyTransform(name: string, value: unknown): unknown {
+  const transform = TRANSFORMS[name];
+  if (!transform) {
+    throw new Error(`Unknown output transform: ${name}`);
+  }
+  return transform(value);
+}
+
+/**
+ * Check whether a transform name is registered
+ */
+export function isKnownTransform(name: string): boolean {
+  return name in TRANSFORMS;
+}
+
+/**
+ * Split a path pipeline on top-level "|" (ignoring "||" and pipes inside brackets or quotes)
+ */
+export function splitPipeline(path: string): string[] {
+  const stages: string[] = [];
+  let current = "";
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = 0; i < path.length; i++) {
+    const char = path[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === "[" || char === "(") {
+      depth++;
+    } else if (char === "]" || char === ")") {
+      depth--;
+    } else if (char === "|" && depth === 0 && path[i + 1] !== "|" && path[i - 1] !== "|") {
+      stages.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  stages.push(current.trim());
+
+  return stages;
+}
+
+/**
+ * Extract a single output value from a step result
+ */
+export function extractOutput(response: unknown, config: OutputConfig): unknown {
+  let transformApplied = false;
+  const coerce =
+    config.transform === "json_parse"
+      ? (value: string) => {
+          transformApplied = true;
+          return JSON.parse(value);
+        }
+      : undefined;
+
+  let value: unknown = response;
+  for (const stage of splitPipeline(config.path)) {
+    if (stage.startsWith("$")) {
+      value = evaluateJsonPath(value, stage, { coerce });
+    } else {
+      value = applyTransform(stage, value);
+    }
+  }
+
+  // A json_parse already applied partway along the path must not run again
+  if (config.transform && value !== undefined && !(config.transform === "json_parse" && transformApplied)) {
+    value = applyTransform(config.transform, value);
+  }
+
+  if (value === undefined && config.default !== undefined) {
+    value = config.default;
+  }
+
+  return value;
+}
+
+/**
+ * Enforce ValidationConfig rules on an output value
+ */
+export function validateOutput(name: string, value: unknown, rules: ValidationConfig): void {
+  const actualType = Array.isArray(value) ? "array" : value === null ? "null" : typeof value;
+
+  switch (rules.type) {
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        throw new OutputValidationError(name, `expected number but got ${actualType}`);
+      }
+      break;
+    case "integer":
+      if (typeof value !== "number" || !Number.isInteger(value)) {
+        throw new OutputValidationError(name, `expected integer but got ${JSON.stringify(value)}`);
+      }
+      break;
+    case "string":
+    case "boolean":
+    case "object":
+    case "array":
+      if (actualType !== rules.type) {
+        throw new OutputValidationError(name, `expected ${rules.type} but got ${actualType}`);
+      }
+      break;
+    default:
+      throw new OutputValidationError(name, `unknown validation type '${rules.type}'`);
+  }
+
+  if (typeof value === "number") {
+    if (rules.min !== undefined && value < rules.min) {
+      throw new OutputValidationError(name, `${value} is below minimum ${rules.min}`);
+    }
+    if (rules.max !== undefined && value > rules.max) {
+      throw new OutputValidationError(name, `${value} is above maximum ${rules.max}`);
+    }
+  }
+
+  if (rules.min_length !== undefined && (typeof value === "string" || Array.isArray(value))) {
+    if (value.length < rules.min_length) {
+      throw new OutputValidationError(
+        name,
+        `length ${value.length} is below minimum length ${rules.min_length}`
+      );
+    }
+  }
+}
+
+/**
+ * Validate every output that declares `validate` rules
+ */
+export function validateOutputs(
+  outputs: Record<string, unknown>,
+  outputConfigs: Record<string, OutputConfig>
+): void {
+  for (const [key, config] of Object.entries(outputConfigs || {})) {
+    if (config.validate) {
+      validateOutput(key, outputs[key], config.validate);
+    }
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Property Registry
+ *
+ * Loads the properties a workflow is fanned out over. Accepts the
+ * deployment files written by scripts/deploy.ts (deployments/*.json, with a
+ * `properties` array) and the JSON array format of the dashboard's
+ * NEXT_PUBLIC_PROPERTIES_JSON. Each property maps to the workflow variables
+ * it overrides (PROPERTY_ADDRESS, PRICE_MANAGER_ADDRESS, ...).
+ *
+ * Requirements:
+ * - 11.1: Workflow configurable via YAML
+ */
+
+import * as fs from "fs";
+
+export interface PropertyContracts {
+  PropertyToken?: string;
+  PriceManager?: string;
+  YieldDistributor?: string;
+  PropertySale?: string;
+  MockUSDC?: string;
+}
+
+export interface PropertyEntry {
+  id: string;
+  name: string;
+  /** Street address */
+  address?: string;
+  propertyType?: string;
+  /** Valuation in USD */
+  valuation?: string;
+  contracts: PropertyContracts;
+  /** Further workflow variables for this property (e.g. PROPERTY_CURRENT_RENT) */
+  variables?: Record<string, string>;
+}
+
+export class PropertyRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PropertyRegistryError";
+  }
+}
+
+/** Property ids name circuit breaker state files, so they are limited to file-name characters */
+const PROPERTY_ID = /^[\w.\-]+$/;
+
+function optionalText(value: unknown, field: string, id: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "string" && typeof value !== "number") {
+    throw new PropertyRegistryError(`Property ${id}: ${field} must be a string`);
+  }
+  return String(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function stringMap(value: unknown, field: string, id: string): Record<string, string> {
+  if (!isRecord(value) || Object.values(value).some((item) => typeof item !== "string")) {
+    throw new PropertyRegistryError(`Property ${id}: ${field} must map names to strings`);
+  }
+  return value as Record<string, string>;
+}
+
+/**
+ * Parse a deployments file or a property array into registry entries
+ */
+export function parsePropertyRegistry(json: unknown): PropertyEntry[] {
+  const deployment = isRecord(json) ? json : undefined;
+  const entries = deployment ? deployment.properties : json;
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new PropertyRegistryError("Property registry must be a non-empty array or a deployment with a properties array");
+  }
+  const sharedUsdc = deployment?.MockUSDC;
+  if (sharedUsdc !== undefined && typeof sharedUsdc !== "string") {
+    throw new PropertyRegistryError("Deployment MockUSDC must be a string");
+  }
+
+  const seen = new Set<string>();
+  return entries.map((entry: unknown, index: number) => {
+    if (!isRecord(entry) || typeof entry.id !== "string" || entry.id === "") {
+      throw new PropertyRegistryError(`Property at index ${index} has no id`);
+    }
+    const id = entry.id;
+    if (!PROPERTY_ID.test(id)) {
+      throw new PropertyRegistryError(`Property id ${JSON.stringify(id)} may only contain letters, digits, "_", "." and "-"`);
+    }
+    if (seen.has(id)) {
+      throw new PropertyRegistryError(`Duplicate property id: ${id}`);
+    }
+    seen.add(id);
+
+    const contracts = stringMap(entry.contracts ?? {}, "contracts", id);
+    const variables =
+      entry.variables === undefined || entry.variables === null ? undefined : stringMap(entry.variables, "variables", id);
+
+    return {
+      id,
+      name: optionalText(entry.name, "name", id) ?? id,
+      address: optionalText(entry.address, "address", id),
+      propertyType: optionalText(entry.propertyType, "propertyType", id),
+      valuation: optionalText(entry.valuation, "valuation", id),
+      // Deployment files keep the shared stablecoin at the top level
+      contracts: { ...(sharedUsdc ? { MockUSDC: sharedUsdc } : {}), ...contracts },
+      ...(variables ? { variables } : {}),
+    };
+  });
+}
+
+export function loadPropertyRegistry(filePath: string): PropertyEntry[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new PropertyRegistryError(
+      `Cannot read property registry ${filePath}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+  return parsePropertyRegistry(json);
+}
+
+/**
+ * Workflow variables a property overrides; unset fields fall back to the
+ * environment
+ */
+export function propertyVariables(property: PropertyEntry): Record<string, string> {
+  const variables: Record<string, string | undefined> = {
+    PROPERTY_ID: property.id,
+    PROPERTY_NAME: property.name,
+    PROPERTY_ADDRESS: property.address,
+    PROPERTY_TYPE: property.propertyType,
+    PROPERTY_VALUATION: property.valuation,
+    PROPERTY_TOKEN_ADDRESS: property.contracts.PropertyToken,
+    PRICE_MANAGER_ADDRESS: property.contracts.PriceManager,
+    YIELD_DISTRIBUTOR_ADDRESS: property.contracts.YieldDistributor,
+    ...property.variables,
+  };
+
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(variables)) {
+    if (value !== undefined) result[key] = value;
+  }
+  return result;
+}
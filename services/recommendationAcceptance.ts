@@ -0,0 +1,169 @@
+/**
+ * Recommendation Auto-Accept Policy
+ *
+ * Decides whether a price recommendation submitted to PriceManager can be
+ * accepted without a property manager: its confidence score must reach a
+ * threshold, the recommended price must be within a percentage of the
+ * current rent, and it must be the only pending recommendation. The inputs
+ * of every check are kept on the decision so the run history shows why a
+ * recommendation was or was not accepted. Used by the
+ * recommendation-acceptance step.
+ *
+ * Requirements:
+ * - 2.3: Submit Price_Recommendation to on-chain smart contract
+ * - 11.3: Log each step execution with timestamps
+ */
+
+import { ethers } from "ethers";
+import { MulticallProvider, multicall } from "./multicall";
+import { AcceptanceCheck, AutoAcceptPolicyConfig } from "./types";
+
+export const PRICE_MANAGER_ABI = [
+  "function getCurrentRentalPrice() view returns (uint256)",
+  "function getPendingRecommendations() view returns (tuple(uint256 id, uint256 recommendedPrice, uint256 confidenceScore, string reasoning, uint256 timestamp, bool accepted, bool rejected, address submitter)[])",
+  "function acceptRecommendation(uint256 recommendationId)",
+  "event RecommendationSubmitted(uint256 indexed id, uint256 price, uint256 confidence, string reasoning, address indexed submitter)",
+  "error InvalidRecommendationId()",
+  "error RecommendationAlreadyProcessed()",
+];
+
+/** Prices are held in USDC */
+const USDC_DECIMALS = 6;
+
+export interface PendingRecommendation {
+  id: number;
+  price: bigint;
+  confidence: number;
+  /** ms since epoch */
+  timestamp: number;
+}
+
+export interface RecommendationSnapshot {
+  blockNumber: number;
+  currentRent: bigint;
+  /** Pending recommendations in id order */
+  pending: PendingRecommendation[];
+}
+
+export interface AcceptanceDecision {
+  accept: boolean;
+  reason: string;
+  recommendation_id: number;
+  confidence: number;
+  recommended_price_usd: number;
+  current_rent_usd: number;
+  change_percent: number;
+  other_pending_ids: number[];
+  checks: AcceptanceCheck[];
+}
+
+/**
+ * Read the current rent and the pending recommendations at one block
+ */
+export async function readRecommendationSnapshot(
+  provider: MulticallProvider,
+  priceManager: string,
+  options: { multicallAddress?: string; blockTag?: ethers.BlockTag } = {}
+): Promise<RecommendationSnapshot> {
+  const outcome = await multicall(
+    provider,
+    [
+      { id: "rent", to: priceManager, abi: PRICE_MANAGER_ABI, functionName: "getCurrentRentalPrice" },
+      { id: "pending", to: priceManager, abi: PRICE_MANAGER_ABI, functionName: "getPendingRecommendations" },
+    ],
+    { address: options.multicallAddress, blockTag: options.blockTag }
+  );
+
+  const pending = outcome.results.pending as Array<Record<string, string>>;
+  return {
+    blockNumber: outcome.blockNumber,
+    currentRent: BigInt(outcome.results.rent as string),
+    pending: pending.map((recommendation) => ({
+      id: Number(recommendation.id),
+      price: BigInt(recommendation.recommendedPrice),
+      confidence: Number(recommendation.confidenceScore),
+      timestamp: Number(recommendation.timestamp) * 1000,
+    })),
+  };
+}
+
+/**
+ * Id of the recommendation created by a submitRecommendation transaction
+ */
+export async function submittedRecommendationId(
+  provider: Pick<ethers.Provider, "getTransactionReceipt">,
+  priceManager: string,
+  transactionHash: string
+): Promise<number> {
+  const receipt = await provider.getTransactionReceipt(transactionHash);
+  if (!receipt) {
+    throw new Error(`Transaction ${transactionHash} not found`);
+  }
+
+  const iface = new ethers.Interface(PRICE_MANAGER_ABI);
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== priceManager.toLowerCase()) continue;
+    const parsed = iface.parseLog(log);
+    if (parsed?.name === "RecommendationSubmitted") {
+      return Number(parsed.args.id);
+    }
+  }
+  throw new Error(`Transaction ${transactionHash} did not submit a recommendation to ${priceManager}`);
+}
+
+function usd(amount: bigint): number {
+  return Number(ethers.formatUnits(amount, USDC_DECIMALS));
+}
+
+/**
+ * Apply the policy to one pending recommendation
+ */
+export function evaluateAutoAcceptPolicy(
+  policy: AutoAcceptPolicyConfig,
+  snapshot: RecommendationSnapshot,
+  recommendation: PendingRecommendation
+): AcceptanceDecision {
+  const currentRent = usd(snapshot.currentRent);
+  const price = usd(recommendation.price);
+  const changePercent = currentRent > 0 ? ((price - currentRent) / currentRent) * 100 : Infinity;
+  const otherPending = snapshot.pending.filter((other) => other.id !== recommendation.id).map((other) => other.id);
+
+  const checks: AcceptanceCheck[] = [
+    {
+      name: "confidence",
+      passed: recommendation.confidence >= policy.min_confidence,
+      detail: `confidence ${recommendation.confidence} ${recommendation.confidence >= policy.min_confidence ? ">=" : "<"} ${policy.min_confidence}`,
+    },
+    {
+      name: "price_change",
+      passed: Math.abs(changePercent) <= policy.max_change_percent,
+      detail:
+        `price $${price.toFixed(2)} is ${changePercent >= 0 ? "+" : ""}${changePercent.toFixed(2)}% from $${currentRent.toFixed(2)} ` +
+        `(limit ±${policy.max_change_percent}%)`,
+    },
+    {
+      name: "no_other_pending",
+      passed: otherPending.length === 0,
+      detail:
+        otherPending.length === 0
+          ? "no other pending recommendations"
+          : `other pending recommendation(s): ${otherPending.map((id) => `#${id}`).join(", ")}`,
+    },
+  ];
+
+  const failed = checks.filter((check) => !check.passed);
+  return {
+    accept: failed.length === 0,
+    reason:
+      failed.length === 0
+        ? `Recommendation #${recommendation.id} meets the auto-accept policy`
+        : `Recommendation #${recommendation.id} left for manual review: ${failed.map((check) => check.detail).join("; ")}`,
+    recommendation_id: recommendation.id,
+    confidence: recommendation.confidence,
+    recommended_price_usd: price,
+    current_rent_usd: currentRent,
+    change_percent: Number(changePercent.toFixed(4)),
+    other_pending_ids: otherPending,
+    checks,
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Retry Policy
+ *
+ * Classifies step failures (HTTP status, timeout, transient RPC error,
+ * nonce conflict, contract revert) and decides from the step's RetryConfig
+ * whether another attempt is worthwhile. Deterministic failures such as a
+ * PriceOutOfBounds revert or an HTTP 401 fail immediately instead of
+ * burning the retry budget.
+ *
+ * Requirements:
+ * - 13.2: Retry with exponential backoff
+ * - 13.3: Log transaction failures
+ */
+
+import { ethers } from "ethers";
+import { FailureKind, RetryConfig } from "./types";
+
+/** Statuses retried when a step's policy does not list retry_on_status */
+export const DEFAULT_RETRY_STATUS = [408, 429, 500, 502, 503, 504];
+
+export class HttpStatusError extends Error {
+  constructor(public readonly status: number, statusText: string) {
+    super(`HTTP ${status}: ${statusText}`);
+    this.name = "HttpStatusError";
+  }
+}
+
+export class StepTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`);
+    this.name = "StepTimeoutError";
+  }
+}
+
+export class RetryExhaustedError extends Error {
+  constructor(public readonly attempts: number, public readonly lastError: Error) {
+    super(`Failed after ${attempts} attempts: ${lastError.message}`);
+    this.name = "RetryExhaustedError";
+  }
+}
+
+export interface ClassifiedFailure {
+  kind: FailureKind;
+  /** HTTP status for http_status failures */
+  status?: number;
+}
+
+/**
+ * Fields that ethers errors and the JSON-RPC errors they wrap may carry.
+ * Any value can be thrown, so every field is optional.
+ */
+export interface ErrorFields {
+  code?: string | number;
+  name?: string;
+  message?: string;
+  shortMessage?: string;
+  data?: unknown;
+  /** JSON-RPC error payload wrapped by ethers */
+  info?: { error?: ErrorFields };
+  /** Nested provider error (Hardhat, older ethers) */
+  error?: ErrorFields;
+  /** Underlying fetch/socket error */
+  cause?: ErrorFields;
+}
+
+/**
+ * Read a thrown value's error fields; non-objects have none
+ */
+export function errorFields(error: unknown): ErrorFields {
+  return typeof error === "object" && error !== null ? (error as ErrorFields) : {};
+}
+
+const NONCE_PATTERN = /nonce (too low|too high|has already been used)|replacement (transaction )?underpriced|already known/i;
+const TRANSIENT_RPC_PATTERN =
+  /rate limit|too many requests|\b(429|502|503|504)\b|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|header not found|missing trie node|fetch failed/i;
+
+/**
+ * Classify an error thrown by fetch or ethers
+ */
+export function classifyError(error: unknown): ClassifiedFailure {
+  if (error instanceof HttpStatusError) {
+    return { kind: "http_status", status: error.status };
+  }
+  if (error instanceof StepTimeoutError) {
+    return { kind: "timeout" };
+  }
+
+  const fields = errorFields(error);
+  const message = [fields.shortMessage, fields.message, fields.info?.error?.message].filter(Boolean).join(" ");
+
+  if (fields.name === "AbortError" || fields.name === "TimeoutError" || ethers.isError(error, "TIMEOUT")) {
+    return { kind: "timeout" };
+  }
+  if (ethers.isCallException(error) || /execution reverted/i.test(message)) {
+    return { kind: "revert" };
+  }
+  if (ethers.isError(error, "NONCE_EXPIRED") || ethers.isError(error, "REPLACEMENT_UNDERPRICED") || NONCE_PATTERN.test(message)) {
+    return { kind: "nonce" };
+  }
+  if (
+    ethers.isError(error, "NETWORK_ERROR") ||
+    ethers.isError(error, "SERVER_ERROR") ||
+    TRANSIENT_RPC_PATTERN.test(message) ||
+    TRANSIENT_RPC_PATTERN.test(String(fields.cause?.code ?? ""))
+  ) {
+    return { kind: "rpc_transient" };
+  }
+  return { kind: "unknown" };
+}
+
+/**
+ * Whether a failure is worth another attempt under the step's policy.
+ * Timeouts retry unless retry_on_timeout is false; reverts only with
+ * retry_on_revert; nonce conflicts and transient RPC errors always (a fresh
+ * attempt re-reads the pending nonce); unclassified errors never.
+ */
+export function isRetryable(failure: ClassifiedFailure, policy: RetryConfig): boolean {
+  switch (failure.kind) {
+    case "http_status":
+      return (policy.retry_on_status ?? DEFAULT_RETRY_STATUS).includes(failure.status!);
+    case "timeout":
+      return policy.retry_on_timeout !== false;
+    case "revert":
+      return policy.retry_on_revert === true;
+    case "nonce":
+    case "rpc_transient":
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Backoff before the given retry (1 = first retry), with equal jitter:
+ * half the exponential delay is fixed, half is random, capped at max_delay.
+ */
+export function retryDelay(policy: RetryConfig, retry: number, random: () => number = Math.random): number {
+  const base = Math.min(policy.initial_delay * Math.pow(policy.backoff_multiplier, retry - 1), policy.max_delay);
+  return Math.round(base / 2 + (base / 2) * random());
+}
+
+/**
+ * Run one attempt with an AbortSignal that fires after timeoutMs.
+ * Work that ignores the signal is still abandoned when the timer fires.
+ */
+export async function withTimeout<T>(fn: (signal?: AbortSignal) => Promise<T>, timeoutMs?: number): Promise<T> {
+  if (!timeoutMs) {
+    return await fn();
+  }
+
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new StepTimeoutError(timeoutMs);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([fn(controller.signal), timeout]);
+  } catch (error) {
+    throw controller.signal.aborted ? controller.signal.reason : error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Workflow Run Store
+ *
+ * Persists WorkflowState (step outputs, step results, errors, durations)
+ * so past runs can be inspected and failed runs resumed.
+ *
+ * RunStore is the extension point; FileRunStore keeps one JSON document per
+ * execution in a directory, InMemoryRunStore is used for tests and embedding.
+ *
+ * Requirements:
+ * - 11.3: Log each step execution with timestamps and results
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { writeFileAtomic } from "./atomicFile";
+import { WorkflowState } from "./types";
+
+export interface RunQuery {
+  workflowId?: string;
+  /** Only runs for this property (multi-property runs) */
+  propertyId?: string;
+  status?: WorkflowState["status"];
+  /** Only runs started at or after this time (ms since epoch) */
+  since?: number;
+  /** Only runs started before this time (ms since epoch) */
+  until?: number;
+  limit?: number;
+}
+
+export interface RunStore {
+  save(state: WorkflowState): Promise<void>;
+  get(executionId: string): Promise<WorkflowState | null>;
+  /** Runs matching the query, newest first */
+  list(query?: RunQuery): Promise<WorkflowState[]>;
+}
+
+const DEFAULT_RUN_DIRECTORY = ".workflow-runs";
+
+function matches(state: WorkflowState, query: RunQuery): boolean {
+  if (query.workflowId && state.workflow_id !== query.workflowId) return false;
+  if (query.propertyId && state.property_id !== query.propertyId) return false;
+  if (query.status && state.status !== query.status) return false;
+  if (query.since !== undefined && state.start_time < query.since) return false;
+  if (query.until !== undefined && state.start_time >= query.until) return false;
+  return true;
+}
+
+function applyQuery(states: WorkflowState[], query: RunQuery = {}): WorkflowState[] {
+  const result = states
+    .filter((state) => matches(state, query))
+    .sort((a, b) => b.start_time - a.start_time);
+  return query.limit !== undefined ? result.slice(0, query.limit) : result;
+}
+
+/**
+ * Deep copy through JSON so stored runs never alias live orchestrator state
+ * (bigints are stored as strings)
+ */
+function snapshot(state: WorkflowState): WorkflowState {
+  return JSON.parse(
+    JSON.stringify(state, (_key, value) => (typeof value === "bigint" ? value.toString() : value))
+  );
+}
+
+/**
+ * In-memory run store
+ */
+export class InMemoryRunStore implements RunStore {
+  private runs: Map<string, WorkflowState> = new Map();
+
+  async save(state: WorkflowState): Promise<void> {
+    this.runs.set(state.execution_id, snapshot(state));
+  }
+
+  async get(executionId: string): Promise<WorkflowState | null> {
+    const state = this.runs.get(executionId);
+    return state ? snapshot(state) : null;
+  }
+
+  async list(query?: RunQuery): Promise<WorkflowState[]> {
+    return applyQuery([...this.runs.values()].map(snapshot), query);
+  }
+}
+
+/**
+ * File-backed run store: <directory>/<execution_id>.json
+ */
+export class FileRunStore implements RunStore {
+  private directory: string;
+
+  constructor(directory?: string) {
+    this.directory = directory || process.env.WORKFLOW_RUN_DIR || DEFAULT_RUN_DIRECTORY;
+  }
+
+  async save(state: WorkflowState): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    // Saves of one execution are applied in order; a crash never leaves a half-written run
+    await writeFileAtomic(this.fileFor(state.execution_id), JSON.stringify(snapshot(state), null, 2));
+  }
+
+  async get(executionId: string): Promise<WorkflowState | null> {
+    try {
+      const content = await fs.promises.readFile(this.fileFor(executionId), "utf8");
+      return JSON.parse(content);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async list(query?: RunQuery): Promise<WorkflowState[]> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const states: WorkflowState[] = [];
+    for (const file of files.filter((f) => f.endsWith(".json"))) {
+      try {
+        const content = await fs.promises.readFile(path.join(this.directory, file), "utf8");
+        states.push(JSON.parse(content));
+      } catch (error) {
+        console.warn(`Skipping unreadable run record ${file}: ${error}`);
+      }
+    }
+
+    return applyQuery(states, query);
+  }
+
+  private fileFor(executionId: string): string {
+    if (!/^[\w.\-]+$/.test(executionId)) {
+      throw new Error(`Invalid execution id: ${executionId}`);
+    }
+    return path.join(this.directory, `${executionId}.json`);
+  }
+}
@@ -0,0 +1,507 @@
+/**
+ * Workflow Scheduler
+ *
+ * Long-running scheduler that reads `cron` triggers from a workflow YAML and
+ * executes the workflow on schedule. Replaces the fixed-interval loop in
+ * cre-workflow/run-workflow-cron.sh for the TypeScript orchestrator.
+ *
+ * - Overlapping runs are prevented with a run lock (in-process, plus a file
+ *   lock shared between scheduler processes by default); a tick that fires
+ *   while this scheduler's previous run is in progress is skipped, a tick that
+ *   finds the lock held elsewhere (another scheduler, the event watcher) is
+ *   retried until the lock is free or the trigger's next tick is due.
+ * - Each trigger's checkpoint advances to a tick once its run has started, so
+ *   ticks missed while the scheduler was down, or never started, are handled
+ *   by the trigger's catch-up policy: `skip`, `run_once` (one run for all
+ *   missed ticks) or `run_all` (one run per missed tick, capped by
+ *   max_catch_up).
+ * - Triggers with `enabled: false` are ignored.
+ * - Time and timers come from an injectable clock.
+ *
+ * Requirements:
+ * - 2.1: Fetch rental market data at scheduled intervals
+ * - 11.2: Execute via manual or scheduled trigger
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as yaml from "yaml";
+import { writeFileAtomic } from "./atomicFile";
+import { CronSchedule } from "./cronSchedule";
+import { CatchUpPolicy, Trigger, WorkflowConfig, WorkflowState } from "./types";
+
+/** setTimeout cannot wait longer than this; longer waits are re-armed */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+const DEFAULT_MAX_CATCH_UP = 10;
+
+/** Wait before retrying a tick that found the workflow locked */
+const DEFAULT_LOCK_RETRY_MS = 60 * 1000;
+
+export interface SchedulerClock {
+  now(): number;
+  setTimer(callback: () => void, delayMs: number): unknown;
+  clearTimer(handle: unknown): void;
+}
+
+export const systemClock: SchedulerClock = {
+  now: () => Date.now(),
+  setTimer: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimer: (handle) => clearTimeout(handle as NodeJS.Timeout),
+};
+
+/**
+ * Mutual exclusion for workflow runs
+ */
+export interface RunLock {
+  /** Returns false if the lock is already held */
+  acquire(workflowId: string): Promise<boolean>;
+  release(workflowId: string): Promise<void>;
+}
+
+export class InMemoryRunLock implements RunLock {
+  private held: Set<string> = new Set();
+
+  async acquire(workflowId: string): Promise<boolean> {
+    if (this.held.has(workflowId)) return false;
+    this.held.add(workflowId);
+    return true;
+  }
+
+  async release(workflowId: string): Promise<void> {
+    this.held.delete(workflowId);
+  }
+}
+
+/**
+ * Lock file per workflow (<directory>/<workflow_id>.lock), created exclusively.
+ * A lock left behind by a dead process on this host, or older than
+ * staleAfterMs, is taken over.
+ */
+export class FileRunLock implements RunLock {
+  private directory: string;
+
+  constructor(
+    directory?: string,
+    private staleAfterMs: number = 6 * 60 * 60 * 1000
+  ) {
+    this.directory = directory || path.join(process.env.WORKFLOW_RUN_DIR || ".workflow-runs", "locks");
+  }
+
+  async acquire(workflowId: string): Promise<boolean> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const file = this.fileFor(workflowId);
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      try {
+        const contents = JSON.stringify({ pid: process.pid, hostname: os.hostname(), acquired_at: Date.now() });
+        await fs.promises.writeFile(file, contents, { flag: "wx" });
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+        if (attempt > 0 || !(await this.isStale(file))) return false;
+        await fs.promises.rm(file, { force: true });
+      }
+    }
+    return false;
+  }
+
+  async release(workflowId: string): Promise<void> {
+    await fs.promises.rm(this.fileFor(workflowId), { force: true });
+  }
+
+  private async isStale(file: string): Promise<boolean> {
+    let lock: { pid?: number; hostname?: string; acquired_at?: number };
+    try {
+      lock = JSON.parse(await fs.promises.readFile(file, "utf8"));
+    } catch {
+      // Unreadable or half-written lock file
+      return true;
+    }
+
+    if (!lock.acquired_at || Date.now() - lock.acquired_at > this.staleAfterMs) {
+      return true;
+    }
+    if (lock.hostname === os.hostname() && lock.pid) {
+      try {
+        process.kill(lock.pid, 0);
+      } catch (error) {
+        return (error as NodeJS.ErrnoException).code === "ESRCH";
+      }
+    }
+    return false;
+  }
+
+  private fileFor(workflowId: string): string {
+    if (!/^[\w.\-]+$/.test(workflowId)) {
+      throw new Error(`Invalid workflow id: ${workflowId}`);
+    }
+    return path.join(this.directory, `${workflowId}.lock`);
+  }
+}
+
+export interface SchedulerCheckpoint {
+  workflow_id: string;
+  /** Last processed tick (ms since epoch) per cron schedule */
+  last_ticks: Record<string, number>;
+  updated_at: number;
+}
+
+export interface SchedulerCheckpointStore {
+  load(workflowId: string): Promise<SchedulerCheckpoint | null>;
+  save(checkpoint: SchedulerCheckpoint): Promise<void>;
+}
+
+export class InMemorySchedulerCheckpointStore implements SchedulerCheckpointStore {
+  private checkpoints: Map<string, SchedulerCheckpoint> = new Map();
+
+  async load(workflowId: string): Promise<SchedulerCheckpoint | null> {
+    const checkpoint = this.checkpoints.get(workflowId);
+    return checkpoint ? { ...checkpoint, last_ticks: { ...checkpoint.last_ticks } } : null;
+  }
+
+  async save(checkpoint: SchedulerCheckpoint): Promise<void> {
+    this.checkpoints.set(checkpoint.workflow_id, { ...checkpoint, last_ticks: { ...checkpoint.last_ticks } });
+  }
+}
+
+/**
+ * File-backed checkpoint store: <directory>/<workflow_id>.json
+ */
+export class FileSchedulerCheckpointStore implements SchedulerCheckpointStore {
+  private directory: string;
+
+  constructor(directory?: string) {
+    this.directory = directory || path.join(process.env.WORKFLOW_RUN_DIR || ".workflow-runs", "scheduler");
+  }
+
+  async load(workflowId: string): Promise<SchedulerCheckpoint | null> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.fileFor(workflowId), "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async save(checkpoint: SchedulerCheckpoint): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await writeFileAtomic(this.fileFor(checkpoint.workflow_id), JSON.stringify(checkpoint, null, 2));
+  }
+
+  private fileFor(workflowId: string): string {
+    if (!/^[\w.\-]+$/.test(workflowId)) {
+      throw new Error(`Invalid workflow id: ${workflowId}`);
+    }
+    return path.join(this.directory, `${workflowId}.json`);
+  }
+}
+
+export interface ScheduledRun {
+  schedule: string;
+  /** Scheduled fire time (ms since epoch) */
+  tick: number;
+  /** True for runs that make up for ticks missed while the scheduler was down */
+  catch_up: boolean;
+}
+
+export interface SchedulerOptions {
+  clock?: SchedulerClock;
+  lock?: RunLock;
+  checkpoints?: SchedulerCheckpointStore;
+  /** Catch-up policy for triggers that don't set catch_up (default run_once) */
+  catchUp?: CatchUpPolicy;
+  /** Wait before retrying a tick that found the workflow locked (default 1 minute) */
+  lockRetryMs?: number;
+  /** Executes one scheduled run (the scheduler daemon passes executeWorkflow) */
+  run: (run: ScheduledRun) => Promise<WorkflowState | void>;
+}
+
+interface ScheduledTrigger {
+  trigger: Trigger;
+  schedule: CronSchedule;
+  catchUp: CatchUpPolicy;
+  maxCatchUp: number;
+}
+
+/** started: the run began; busy: this scheduler's previous run is in progress; locked: the lock is held elsewhere */
+type TickOutcome = "started" | "busy" | "locked";
+
+export class WorkflowScheduler {
+  private config: WorkflowConfig;
+  private triggers: ScheduledTrigger[];
+  private clock: SchedulerClock;
+  private lock: RunLock;
+  private checkpoints: SchedulerCheckpointStore;
+  private runWorkflow: SchedulerOptions["run"];
+  private checkpoint?: SchedulerCheckpoint;
+  /** Latest tick handed to a run per schedule; the checkpoint only follows once the run starts */
+  private cursors: Record<string, number> = {};
+  private lockRetryMs: number;
+  private timer?: unknown;
+  private retryTimers: Set<unknown> = new Set();
+  private inFlight?: Promise<void>;
+  private stopped: boolean = true;
+
+  constructor(configPath: string, options: SchedulerOptions) {
+    this.config = yaml.parse(fs.readFileSync(configPath, "utf8"));
+    this.clock = options.clock || systemClock;
+    this.lock = options.lock || new FileRunLock();
+    this.checkpoints = options.checkpoints || new FileSchedulerCheckpointStore();
+    this.runWorkflow = options.run;
+    this.lockRetryMs = options.lockRetryMs ?? DEFAULT_LOCK_RETRY_MS;
+
+    // Parse schedules up front so a bad expression fails at startup
+    this.triggers = [];
+    for (const trigger of this.config.triggers || []) {
+      if (trigger.type !== "cron") continue;
+      if (!trigger.enabled) {
+        this.log("info", `Cron trigger "${trigger.schedule}" is disabled; ignoring`);
+        continue;
+      }
+      if (!trigger.schedule) {
+        throw new Error(`Cron trigger "${trigger.description}" has no schedule`);
+      }
+
+      const catchUp = trigger.catch_up || options.catchUp || "run_once";
+      if (!["skip", "run_once", "run_all"].includes(catchUp)) {
+        throw new Error(`Cron trigger "${trigger.schedule}": unknown catch_up policy ${catchUp}`);
+      }
+      this.triggers.push({
+        trigger,
+        schedule: new CronSchedule(trigger.schedule),
+        catchUp,
+        maxCatchUp: trigger.max_catch_up ?? DEFAULT_MAX_CATCH_UP,
+      });
+    }
+  }
+
+  /**
+   * Handle ticks missed since the last checkpoint, then arm the timer for the next tick.
+   * Catch-up runs execute one at a time before start() resolves.
+   */
+  async start(): Promise<void> {
+    if (!this.stopped) return;
+    this.stopped = false;
+
+    if (this.triggers.length === 0) {
+      this.log("warn", "No enabled cron triggers; scheduler is idle");
+      return;
+    }
+
+    const now = this.clock.now();
+    this.checkpoint = (await this.checkpoints.load(this.config.name)) || {
+      workflow_id: this.config.name,
+      last_ticks: {},
+      updated_at: now,
+    };
+
+    for (const scheduled of this.triggers) {
+      const key = scheduled.schedule.expression;
+      const lastTick = this.checkpoint.last_ticks[key];
+
+      if (lastTick === undefined) {
+        // First start: nothing was missed
+        this.checkpoint.last_ticks[key] = now;
+        this.cursors[key] = now;
+        continue;
+      }
+
+      const missed = scheduled.schedule.between(lastTick, now);
+      this.cursors[key] = missed.length > 0 ? missed[missed.length - 1] : lastTick;
+      if (missed.length === 0) continue;
+
+      const runs = this.catchUpTicks(scheduled, missed);
+      if (runs.length === 0) {
+        this.checkpoint.last_ticks[key] = missed[missed.length - 1];
+      }
+      this.log(
+        "info",
+        `Missed ${missed.length} tick(s) of "${key}" while stopped; catch_up=${scheduled.catchUp}, running ${runs.length}`
+      );
+      for (const tick of runs) {
+        if (this.stopped) break;
+        await this.runTick(scheduled, { schedule: key, tick, catch_up: true });
+      }
+    }
+
+    await this.saveCheckpoint();
+    this.arm();
+    this.log("info", `Scheduler started with ${this.triggers.length} cron trigger(s)`);
+  }
+
+  /**
+   * Stop scheduling and wait for an in-flight run to finish
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer !== undefined) {
+      this.clock.clearTimer(this.timer);
+      this.timer = undefined;
+    }
+    for (const timer of this.retryTimers) {
+      this.clock.clearTimer(timer);
+    }
+    this.retryTimers.clear();
+    await this.whenIdle();
+  }
+
+  /**
+   * Resolves once no run is in progress
+   */
+  async whenIdle(): Promise<void> {
+    while (this.inFlight) {
+      await this.inFlight;
+    }
+  }
+
+  /**
+   * Next scheduled fire time, or undefined when idle
+   */
+  nextTick(): number | undefined {
+    if (this.stopped || !this.checkpoint) return undefined;
+    return this.nextFire()?.tick;
+  }
+
+  private catchUpTicks(scheduled: ScheduledTrigger, missed: number[]): number[] {
+    switch (scheduled.catchUp) {
+      case "skip":
+        return [];
+      case "run_once":
+        return [missed[missed.length - 1]];
+      case "run_all":
+        if (missed.length > scheduled.maxCatchUp) {
+          this.log("warn", `Dropping ${missed.length - scheduled.maxCatchUp} missed tick(s) beyond max_catch_up`);
+        }
+        return missed.slice(-scheduled.maxCatchUp);
+    }
+  }
+
+  private nextFire(): { scheduled: ScheduledTrigger; tick: number } | undefined {
+    let next: { scheduled: ScheduledTrigger; tick: number } | undefined;
+    for (const scheduled of this.triggers) {
+      const tick = scheduled.schedule.next(this.cursors[scheduled.schedule.expression]);
+      if (!next || tick < next.tick) {
+        next = { scheduled, tick };
+      }
+    }
+    return next;
+  }
+
+  private arm(): void {
+    if (this.stopped) return;
+
+    const next = this.nextFire();
+    if (!next) return;
+
+    const delay = Math.max(0, next.tick - this.clock.now());
+    this.timer = this.clock.setTimer(() => {
+      this.timer = undefined;
+      if (this.clock.now() < next.tick) {
+        // Timer capped at MAX_TIMER_DELAY (or fired early); wait again
+        this.arm();
+        return;
+      }
+      this.fire(next.scheduled, next.tick).catch((error) => {
+        this.log("error", `Scheduler tick failed: ${error}`);
+      });
+    }, Math.min(delay, MAX_TIMER_DELAY));
+  }
+
+  private async fire(scheduled: ScheduledTrigger, tick: number): Promise<void> {
+    this.cursors[scheduled.schedule.expression] = tick;
+
+    // Arm the next tick before running so a long run cannot delay the schedule;
+    // a tick that fires while this run is still going is skipped
+    const run = this.runTick(scheduled, { schedule: scheduled.schedule.expression, tick, catch_up: false });
+    this.arm();
+    await run;
+  }
+
+  /**
+   * Run a tick; when the workflow is locked by another run, try again after
+   * lockRetryMs unless the trigger's next tick is due by then
+   */
+  private async runTick(scheduled: ScheduledTrigger, run: ScheduledRun): Promise<void> {
+    if ((await this.runExclusive(run)) !== "locked" || this.stopped) return;
+
+    const tickTime = new Date(run.tick).toISOString();
+    if (this.clock.now() + this.lockRetryMs >= scheduled.schedule.next(run.tick)) {
+      this.log("warn", `Skipping tick ${tickTime}: workflow is locked by another run until the next tick`);
+      return;
+    }
+
+    this.log("warn", `Tick ${tickTime}: workflow is locked by another run; retrying in ${this.lockRetryMs}ms`);
+    const timer = this.clock.setTimer(() => {
+      this.retryTimers.delete(timer);
+      // A later tick of the trigger may have started in the meantime
+      if ((this.checkpoint!.last_ticks[run.schedule] ?? -Infinity) >= run.tick) return;
+      this.runTick(scheduled, run).catch((error) => {
+        this.log("error", `Scheduler tick failed: ${error}`);
+      });
+    }, this.lockRetryMs);
+    this.retryTimers.add(timer);
+  }
+
+  private async runExclusive(run: ScheduledRun): Promise<TickOutcome> {
+    const tickTime = new Date(run.tick).toISOString();
+
+    if (this.inFlight) {
+      this.log("warn", `Skipping tick ${tickTime}: previous run still in progress`);
+      return "busy";
+    }
+
+    const execution = (async (): Promise<TickOutcome> => {
+      if (!(await this.lock.acquire(this.config.name))) {
+        return "locked";
+      }
+
+      try {
+        // The tick counts as processed once its run has started
+        if ((this.checkpoint!.last_ticks[run.schedule] ?? -Infinity) < run.tick) {
+          this.checkpoint!.last_ticks[run.schedule] = run.tick;
+          await this.saveCheckpoint();
+        }
+
+        this.log("info", `⏰ Running scheduled tick ${tickTime}${run.catch_up ? " (catch-up)" : ""}`);
+        const state = await this.runWorkflow(run);
+        if (state) {
+          this.log("info", `Scheduled run ${state.execution_id} finished: ${state.status}`);
+        }
+      } catch (error) {
+        this.log("error", `Scheduled run for tick ${tickTime} failed: ${error}`);
+      } finally {
+        await this.lock.release(this.config.name);
+      }
+      return "started";
+    })();
+
+    this.inFlight = execution.then(() => undefined);
+    try {
+      return await execution;
+    } finally {
+      this.inFlight = undefined;
+    }
+  }
+
+  private async saveCheckpoint(): Promise<void> {
+    this.checkpoint!.updated_at = this.clock.now();
+    try {
+      await this.checkpoints.save(this.checkpoint!);
+    } catch (error) {
+      this.log("warn", `Failed to save scheduler checkpoint: ${error}`);
+    }
+  }
+
+  private log(level: string, message: string): void {
+    const timestamp = new Date(this.clock.now()).toISOString();
+    if (this.config.logging?.format === "json") {
+      console.log(JSON.stringify({ timestamp, level, workflow: this.config.name, component: "scheduler", message }));
+    } else {
+      console.log(`[${timestamp}] [${level.toUpperCase()}] [scheduler] ${message}`);
+    }
+  }
+}
@@ -0,0 +1,354 @@
+/**
+ * Secrets Providers
+ *
+ * Resolve ${VAR} references and blockchain credentials from pluggable
+ * backends instead of reading process.env directly: the environment, a
+ * dotenv file, an encrypted local keystore, or an external command (e.g.
+ * `pass`, `op read`, `vault kv get`). Backends are chained; the first one
+ * that has a value wins.
+ *
+ * WORKFLOW_SECRETS selects the chain as a comma-separated list:
+ *   env                      process environment (the default)
+ *   dotenv:<file>            KEY=value file
+ *   keystore:<file>          AES-256-GCM keystore, passphrase in WORKFLOW_KEYSTORE_PASSPHRASE
+ *   command:<cmd> <args...>  run a command; {name} in the args is replaced by the
+ *                            variable name (appended when absent), stdout is the value
+ *
+ * Requirements:
+ * - 11.1: Workflow configurable via YAML
+ * - 11.3: Log each step execution with timestamps
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs";
+import { execFileSync } from "child_process";
+import * as dotenv from "dotenv";
+
+export interface SecretsProvider {
+  /** Backend description for logs (never includes secret values) */
+  readonly name: string;
+  /** The value, or undefined when this backend does not have it */
+  get(key: string): string | undefined;
+}
+
+export class SecretsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SecretsError";
+  }
+}
+
+export class EnvSecretsProvider implements SecretsProvider {
+  readonly name = "env";
+
+  constructor(private env: Record<string, string | undefined> = process.env) {}
+
+  get(key: string): string | undefined {
+    return this.env[key];
+  }
+}
+
+/**
+ * KEY=value file, read once on first use
+ */
+export class DotenvSecretsProvider implements SecretsProvider {
+  readonly name: string;
+  private values?: Record<string, string>;
+
+  constructor(private filePath: string) {
+    this.name = `dotenv:${filePath}`;
+  }
+
+  get(key: string): string | undefined {
+    if (!this.values) {
+      try {
+        this.values = dotenv.parse(fs.readFileSync(this.filePath));
+      } catch (error) {
+        throw new SecretsError(`Cannot read dotenv file ${this.filePath}: ${(error as Error).message}`);
+      }
+    }
+    return this.values[key];
+  }
+}
+
+/**
+ * On-disk keystore format: one AES-256-GCM encrypted JSON object of name -> value,
+ * keyed with scrypt from a passphrase
+ */
+export interface KeystoreFile {
+  version: 1;
+  kdf: "scrypt";
+  salt: string;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+const KEYSTORE_KEY_LENGTH = 32;
+
+function keystoreKey(passphrase: string, salt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase, salt, KEYSTORE_KEY_LENGTH);
+}
+
+/**
+ * Encrypt secrets into the keystore format
+ */
+export function encryptKeystore(secrets: Record<string, string>, passphrase: string): KeystoreFile {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", keystoreKey(passphrase, salt), iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(secrets), "utf8"), cipher.final()]);
+
+  return {
+    version: 1,
+    kdf: "scrypt",
+    salt: salt.toString("base64"),
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    ciphertext: ciphertext.toString("base64"),
+  };
+}
+
+/**
+ * Decrypt a keystore; a wrong passphrase fails the GCM authentication check
+ */
+export function decryptKeystore(keystore: KeystoreFile, passphrase: string): Record<string, string> {
+  if (keystore.version !== 1 || keystore.kdf !== "scrypt") {
+    throw new SecretsError(`Unsupported keystore format (version ${keystore.version}, kdf ${keystore.kdf})`);
+  }
+
+  const decipher = crypto.createDecipheriv(
+    "aes-256-gcm",
+    keystoreKey(passphrase, Buffer.from(keystore.salt, "base64")),
+    Buffer.from(keystore.iv, "base64")
+  );
+  decipher.setAuthTag(Buffer.from(keystore.tag, "base64"));
+
+  try {
+    const plaintext = Buffer.concat([decipher.update(Buffer.from(keystore.ciphertext, "base64")), decipher.final()]);
+    return JSON.parse(plaintext.toString("utf8"));
+  } catch {
+    throw new SecretsError("Cannot decrypt keystore: wrong passphrase or corrupted file");
+  }
+}
+
+/**
+ * Encrypted local keystore, decrypted once on first use
+ */
+export class KeystoreSecretsProvider implements SecretsProvider {
+  readonly name: string;
+  private values?: Record<string, string>;
+
+  constructor(private filePath: string, private passphrase: string) {
+    this.name = `keystore:${filePath}`;
+  }
+
+  get(key: string): string | undefined {
+    if (!this.values) {
+      let keystore: KeystoreFile;
+      try {
+        keystore = JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+      } catch (error) {
+        throw new SecretsError(`Cannot read keystore ${this.filePath}: ${(error as Error).message}`);
+      }
+      this.values = decryptKeystore(keystore, this.passphrase);
+    }
+    return this.values[key];
+  }
+
+  /**
+   * Add or replace secrets in a keystore file, creating it if needed
+   */
+  static write(filePath: string, passphrase: string, secrets: Record<string, string>): void {
+    const existing = fs.existsSync(filePath)
+      ? decryptKeystore(JSON.parse(fs.readFileSync(filePath, "utf8")), passphrase)
+      : {};
+    const keystore = encryptKeystore({ ...existing, ...secrets }, passphrase);
+    fs.writeFileSync(filePath, JSON.stringify(keystore, null, 2), { mode: 0o600 });
+  }
+}
+
+/**
+ * Run an external command per variable and use its stdout as the value.
+ * A non-zero exit means the command does not have the variable. Results
+ * (including misses) are cached for the life of the provider.
+ */
+export class CommandSecretsProvider implements SecretsProvider {
+  readonly name: string;
+  private values = new Map<string, string | undefined>();
+
+  constructor(private command: string, private args: string[] = [], private timeoutMs: number = 10000) {
+    this.name = `command:${command}`;
+  }
+
+  get(key: string): string | undefined {
+    if (this.values.has(key)) {
+      return this.values.get(key);
+    }
+
+    const args = this.args.some((arg) => arg.includes("{name}"))
+      ? this.args.map((arg) => arg.split("{name}").join(key))
+      : [...this.args, key];
+
+    let value: string | undefined;
+    try {
+      const stdout = execFileSync(this.command, args, {
+        encoding: "utf8",
+        timeout: this.timeoutMs,
+        stdio: ["ignore", "pipe", "ignore"],
+      });
+      value = stdout.replace(/\r?\n$/, "");
+    } catch (error) {
+      // execFileSync's errors also carry the signal that ended the command
+      const failure = error as NodeJS.ErrnoException & { signal?: NodeJS.Signals | null };
+      if (failure.code === "ENOENT") {
+        throw new SecretsError(`Secrets command not found: ${this.command}`);
+      }
+      if (failure.signal) {
+        throw new SecretsError(`Secrets command ${this.command} did not finish for ${key} (${failure.signal})`);
+      }
+      value = undefined;
+    }
+
+    this.values.set(key, value);
+    return value;
+  }
+}
+
+/**
+ * Try backends in order; the first defined value wins
+ */
+export class ChainedSecretsProvider implements SecretsProvider {
+  readonly name: string;
+
+  constructor(private providers: SecretsProvider[]) {
+    this.name = providers.map((provider) => provider.name).join(",");
+  }
+
+  get(key: string): string | undefined {
+    for (const provider of this.providers) {
+      const value = provider.get(key);
+      if (value !== undefined) {
+        return value;
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Build the provider chain described by WORKFLOW_SECRETS (see the header)
+ */
+export function createSecretsProvider(env: NodeJS.ProcessEnv = process.env): SecretsProvider {
+  const spec = env.WORKFLOW_SECRETS?.trim();
+  if (!spec) {
+    return new EnvSecretsProvider(env);
+  }
+
+  const providers = spec.split(",").map((entry): SecretsProvider => {
+    const separator = entry.indexOf(":");
+    const kind = (separator === -1 ? entry : entry.slice(0, separator)).trim();
+    const argument = separator === -1 ? "" : entry.slice(separator + 1).trim();
+
+    switch (kind) {
+      case "env":
+        return new EnvSecretsProvider(env);
+      case "dotenv":
+        return new DotenvSecretsProvider(argument || ".env");
+      case "keystore": {
+        const passphrase = env.WORKFLOW_KEYSTORE_PASSPHRASE;
+        if (!passphrase) {
+          throw new SecretsError("WORKFLOW_KEYSTORE_PASSPHRASE is required for the keystore secrets backend");
+        }
+        return new KeystoreSecretsProvider(argument, passphrase);
+      }
+      case "command": {
+        const [command, ...args] = argument.split(/\s+/).filter(Boolean);
+        if (!command) {
+          throw new SecretsError("The command secrets backend needs a command (command:<cmd> <args...>)");
+        }
+        return new CommandSecretsProvider(command, args);
+      }
+      default:
+        throw new SecretsError(`Unknown secrets backend "${kind}" in WORKFLOW_SECRETS (expected env, dotenv, keystore or command)`);
+    }
+  });
+
+  return providers.length === 1 ? providers[0] : new ChainedSecretsProvider(providers);
+}
+
+/** Replacement for redacted secret values */
+export const REDACTED = "[REDACTED]";
+
+/** Values shorter than this are not redacted (they would mangle unrelated text) */
+const MIN_REDACTED_LENGTH = 4;
+
+/**
+ * Replaces known secret values in strings and (recursively) in arrays and
+ * plain objects
+ */
+export class SecretRedactor {
+  private values: string[];
+
+  constructor(values: Array<string | undefined>) {
+    const unique = new Set<string>();
+    for (const value of values) {
+      if (value && value.length >= MIN_REDACTED_LENGTH) {
+        unique.add(value);
+        // Private keys are often written with and without the 0x prefix
+        if (/^0x[0-9a-fA-F]{16,}$/.test(value)) {
+          unique.add(value.slice(2));
+        }
+      }
+    }
+    // Longest first, so a secret containing another is replaced whole
+    this.values = [...unique].sort((a, b) => b.length - a.length);
+  }
+
+  get empty(): boolean {
+    return this.values.length === 0;
+  }
+
+  redactString(text: string): string {
+    let result = text;
+    for (const value of this.values) {
+      if (result.includes(value)) {
+        result = result.split(value).join(REDACTED);
+      }
+    }
+    return result;
+  }
+
+  redact<T>(value: T): T {
+    if (this.values.length === 0) {
+      return value;
+    }
+    if (typeof value === "string") {
+      return this.redactString(value) as unknown as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redact(item)) as unknown as T;
+    }
+    if (value !== null && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+      const result: Record<string, any> = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = this.redact(item);
+      }
+      return result as T;
+    }
+    return value;
+  }
+}
+
+/**
+ * Redactor for the values of environment variables marked sensitive: true
+ */
+export function sensitiveRedactor(
+  environment: Record<string, { sensitive?: boolean }>,
+  secrets: SecretsProvider
+): SecretRedactor {
+  const values = Object.entries(environment)
+    .filter(([, variable]) => variable.sensitive)
+    .map(([name]) => secrets.get(name));
+  return new SecretRedactor(values);
+}
@@ -0,0 +1,1194 @@
+/**
+ * Built-in Step Handlers
+ *
+ * Handlers for the step types every workflow can use: http-request,
+ * ethereum-transaction, ethereum-call, ethereum-multicall, yield-distribution,
+ * recommendation-acceptance, market-data (MarketDataOracle providers) and
+ * ai-pricing (AIPricingAgent). They are registered in services/stepRegistry.ts.
+ *
+ * Requirements:
+ * - 2.1: Fetch rental market data at scheduled intervals
+ * - 2.2: Call AI_Pricing_Agent with market data payload
+ * - 2.3: Submit Price_Recommendation to on-chain smart contract
+ * - 2.6: Trigger yield distribution after rental payment collection
+ * - 13.1: Use cached data on API failure
+ * - 13.2: Retry with exponential backoff
+ * - 13.3: Log transaction failures
+ */
+
+import { ethers } from "ethers";
+import { MarketDataOracle } from "./marketDataOracle";
+import { MarketDataProvider, RentCastProvider, createMarketDataProvider } from "./marketDataProviders";
+import { CacheStore } from "./cacheStore";
+import { AIPricingAgent } from "./aiPricingAgent";
+import { HttpStatusError } from "./retryPolicy";
+import { simulateTransaction } from "./transactionSimulator";
+import { callContract, encodeArgs, parseBlockTag } from "./abiCodec";
+import { multicall } from "./multicall";
+import { TransactionResult } from "./transactionManager";
+import {
+  PRICE_MANAGER_ABI,
+  evaluateAutoAcceptPolicy,
+  readRecommendationSnapshot,
+  submittedRecommendationId,
+} from "./recommendationAcceptance";
+import {
+  YIELD_DISTRIBUTOR_ABI,
+  evaluateDistributionPolicy,
+  parseDistributionReceipt,
+  readDistributionSnapshot,
+} from "./yieldDistribution";
+import { JsonSchema, cacheSchema, retrySchema, stringMapSchema, timeoutSchema } from "./workflowSchema";
+import { ConfigIssue, StepContext, StepHandler } from "./stepRegistry";
+import {
+  AcceptanceReport,
+  AiPricingConfig,
+  DistributionReport,
+  EthereumCallConfig,
+  EthereumMulticallConfig,
+  EthereumTransactionConfig,
+  HttpRequestConfig,
+  MarketDataConfig,
+  MarketDataProviderConfig,
+  MarketDataStrategy,
+  RecommendationAcceptanceConfig,
+  StepExecutionResult,
+  YieldDistributionConfig,
+} from "./types";
+
+/**
+ * A value still containing ${...} after substitution refers to an unset variable
+ */
+function isUnresolved(value: unknown): boolean {
+  return typeof value === "string" && /\$\{[^}]+\}/.test(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return value === undefined || value === "" || isUnresolved(value) ? undefined : String(value);
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  if (value === undefined || isUnresolved(value)) return undefined;
+  const number = typeof value === "number" ? value : parseFloat(String(value));
+  return isNaN(number) ? undefined : number;
+}
+
+function optionalWei(value: unknown): bigint | undefined {
+  const number = optionalNumber(value);
+  return number === undefined ? undefined : BigInt(Math.round(number));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// --- http-request ---
+
+/**
+ * Generic HTTP request; declared outputs are extracted from the JSON response
+ * Requirement 13.1: Use cached data on failure
+ * Requirement 13.2: Retry with exponential backoff
+ */
+export const httpRequestHandler: StepHandler<HttpRequestConfig> = {
+  type: "http-request",
+  configSchema: {
+    type: "object",
+    required: ["url"],
+    properties: {
+      method: { type: "string", enum: ["GET", "POST", "PUT", "PATCH", "DELETE"] },
+      url: { type: "string" },
+      headers: stringMapSchema,
+      query_params: { type: "object" },
+      body: {},
+      timeout: timeoutSchema,
+      cache: cacheSchema,
+      retry: retrySchema,
+    },
+    additionalProperties: false,
+  },
+  implicitOutputs: ["cached", "stale"],
+
+  async execute(context: StepContext<HttpRequestConfig>): Promise<StepExecutionResult> {
+    const startTime = Date.now();
+    const { step, config } = context;
+    const url = new URL(config.url);
+    for (const [name, value] of Object.entries(config.query_params || {})) {
+      url.searchParams.set(name, String(value));
+    }
+    // The request itself by default, so runs for different properties never share an entry
+    const cacheKey = `http-request:${config.cache?.key || `${config.method || "GET"} ${url}${config.body ? ` ${JSON.stringify(config.body)}` : ""}`}`;
+
+    try {
+      // Check cache first
+      if (config.cache?.enabled) {
+        const cached = await context.cache.get(cacheKey);
+        if (cached) {
+          context.log("info", `Using cached data for ${step.id}`);
+          return {
+            success: true,
+            outputs: { ...context.extractOutputs(cached.value), cached: true },
+            duration: Date.now() - startTime,
+            cached: true,
+          };
+        }
+      }
+
+      // Execute with retry; each attempt is aborted after config.timeout
+      const response = await context.retry(
+        async (signal) => {
+          const response = await fetch(url.toString(), {
+            method: config.method || "GET",
+            headers: config.headers as HeadersInit,
+            body: config.body ? JSON.stringify(config.body) : undefined,
+            signal,
+          });
+
+          if (!response.ok) {
+            throw new HttpStatusError(response.status, response.statusText);
+          }
+
+          return await response.json();
+        },
+        config.retry,
+        config.timeout
+      );
+
+      // Cache response if configured
+      if (config.cache?.enabled) {
+        // ttl is in seconds
+        await context.cache.set(cacheKey, response, config.cache.ttl * 1000);
+      }
+
+      return {
+        success: true,
+        outputs: context.extractOutputs(response),
+        duration: Date.now() - startTime,
+      };
+    } catch (error) {
+      // Try to use cached data on error
+      if (config.cache?.use_on_error) {
+        const cached = await context.cache.get(cacheKey, true);
+        if (cached) {
+          context.log("warn", `Using stale cached data for ${step.id} due to error`);
+          return {
+            success: true,
+            outputs: { ...context.extractOutputs(cached.value), cached: true, stale: true },
+            duration: Date.now() - startTime,
+            cached: true,
+          };
+        }
+      }
+
+      throw error;
+    }
+  },
+};
+
+// --- ethereum-call / ethereum-transaction ---
+
+const contractProperties: Record<string, JsonSchema> = {
+  rpc_url: { type: "string" },
+  chain_id: { type: "integer", minimum: 1 },
+  contract_address: { type: "string" },
+  function_name: { type: "string" },
+  abi: { type: "string" },
+  function_args: { type: "array" },
+  retry: retrySchema,
+};
+
+const transactionPolicySchema: JsonSchema = {
+  type: "object",
+  properties: {
+    confirmations: { type: "integer", minimum: 1 },
+    timeout: { type: "integer", minimum: 1 },
+    replace_after: { type: "integer", minimum: 1 },
+    fee_bump_percent: { type: "number", minimum: 10 },
+    max_replacements: { type: "integer", minimum: 0 },
+    fee_history_blocks: { type: "integer", minimum: 1, maximum: 1024 },
+    priority_fee_percentile: { type: "number", minimum: 0, maximum: 100 },
+    poll_interval: { type: "integer", minimum: 1 },
+  },
+  additionalProperties: false,
+};
+
+/**
+ * The ABI must be a JSON array that defines the configured function (by
+ * name or signature) with as many inputs as there are function_args
+ */
+function validateAbi(config: EthereumCallConfig): ConfigIssue[] {
+  let abi: unknown;
+  try {
+    abi = JSON.parse(config.abi);
+  } catch (error) {
+    return [{ path: ["abi"], message: `ABI is not valid JSON: ${errorMessage(error)}` }];
+  }
+
+  if (!Array.isArray(abi)) {
+    return [{ path: ["abi"], message: "ABI must be a JSON array" }];
+  }
+
+  const functionName = config.function_name;
+  const candidates: ethers.FunctionFragment[] = [];
+  for (const entry of abi) {
+    if (entry?.type !== "function") continue;
+    try {
+      const fragment = ethers.FunctionFragment.from(entry);
+      if (fragment.name === functionName || fragment.format("sighash") === functionName) {
+        candidates.push(fragment);
+      }
+    } catch (error) {
+      return [{ path: ["abi"], message: `Invalid ABI entry ${entry?.name ?? ""}: ${errorMessage(error)}` }];
+    }
+  }
+  if (candidates.length === 0) {
+    return [{ path: ["abi"], message: `ABI does not define function ${functionName}` }];
+  }
+
+  const args = config.function_args || [];
+  if (Array.isArray(args) && !candidates.some((fragment) => fragment.inputs.length === args.length)) {
+    const expected = candidates.map((fragment) => fragment.inputs.length).join(" or ");
+    return [{ path: ["function_args"], message: `${functionName} takes ${expected} argument(s), got ${args.length}` }];
+  }
+  return [];
+}
+
+/**
+ * Standard outputs for a mined transaction
+ */
+export function transactionOutputs(receipt: ethers.TransactionReceipt): Record<string, any> {
+  return {
+    transaction_hash: receipt.hash,
+    block_number: receipt.blockNumber,
+    gas_used: receipt.gasUsed.toString(),
+  };
+}
+
+/**
+ * Read-only contract call. Arguments are coerced to the ABI input types and
+ * the return value is decoded into named JSON (see services/abiCodec.ts);
+ * declared outputs are extracted from { result }, e.g. "$.result.recommendedPrice".
+ * A dry run reads at its pinned block unless the step sets block_tag.
+ * Requirement 2.6: Check rental payment
+ */
+export const ethereumCallHandler: StepHandler<EthereumCallConfig> = {
+  type: "ethereum-call",
+  configSchema: {
+    type: "object",
+    required: ["contract_address", "function_name", "abi"],
+    properties: { ...contractProperties, block_tag: { type: ["integer", "string"] }, timeout: timeoutSchema },
+    additionalProperties: false,
+  },
+  implicitOutputs: ["result"],
+  validateConfig: validateAbi,
+
+  async execute(context: StepContext<EthereumCallConfig>): Promise<StepExecutionResult> {
+    const startTime = Date.now();
+    const { config } = context;
+
+    if (!context.provider) {
+      throw new Error("Blockchain provider not initialized");
+    }
+
+    const provider = context.provider;
+    const request = {
+      to: config.contract_address,
+      abi: JSON.parse(config.abi),
+      functionName: config.function_name,
+      args: config.function_args || [],
+      blockTag: parseBlockTag(config.block_tag) ?? context.dryRun?.blockTag,
+    };
+    const result = await context.retry(() => callContract(provider, request), config.retry, config.timeout);
+
+    return {
+      success: true,
+      outputs: { result, ...context.extractOutputs({ result }) },
+      duration: Date.now() - startTime,
+    };
+  },
+};
+
+/**
+ * Several read-only calls at one block height, batched through Multicall3
+ * (see services/multicall.ts). Results are keyed by call id under { result },
+ * e.g. "$.result.pool_balance"; block_number is the block they were read at.
+ */
+export const ethereumMulticallHandler: StepHandler<EthereumMulticallConfig> = {
+  type: "ethereum-multicall",
+  configSchema: {
+    type: "object",
+    required: ["calls"],
+    properties: {
+      rpc_url: { type: "string" },
+      chain_id: { type: "integer", minimum: 1 },
+      multicall_address: { type: "string" },
+      abi: { type: "string" },
+      calls: {
+        type: "array",
+        minItems: 1,
+        items: {
+          type: "object",
+          required: ["id", "contract_address", "function_name"],
+          properties: {
+            id: { type: "string", pattern: "^[A-Za-z_]\\w*$" },
+            contract_address: { type: "string" },
+            function_name: { type: "string" },
+            abi: { type: "string" },
+            function_args: { type: "array" },
+            allow_failure: { type: "boolean" },
+          },
+          additionalProperties: false,
+        },
+      },
+      block_tag: { type: ["integer", "string"] },
+      timeout: timeoutSchema,
+      retry: retrySchema,
+    },
+    additionalProperties: false,
+  },
+  implicitOutputs: ["result", "block_number"],
+
+  validateConfig(config: EthereumMulticallConfig): ConfigIssue[] {
+    const issues: ConfigIssue[] = [];
+    const ids = new Set<string>();
+    config.calls.forEach((call, index) => {
+      if (ids.has(call.id)) {
+        issues.push({ path: ["calls", index, "id"], message: `Duplicate call id: ${call.id}` });
+      }
+      ids.add(call.id);
+
+      const abi = call.abi ?? config.abi;
+      if (abi === undefined) {
+        issues.push({ path: ["calls", index], message: "Call has no abi and the step sets none" });
+        return;
+      }
+      for (const issue of validateAbi({ ...call, abi })) {
+        issues.push({ path: ["calls", index, ...issue.path], message: issue.message });
+      }
+    });
+    return issues;
+  },
+
+  async execute(context: StepContext<EthereumMulticallConfig>): Promise<StepExecutionResult> {
+    const startTime = Date.now();
+    const { config } = context;
+
+    if (!context.provider) {
+      throw new Error("Blockchain provider not initialized");
+    }
+
+    const provider = context.provider;
+    const requests = config.calls.map((call) => ({
+      id: call.id,
+      to: call.contract_address,
+      abi: JSON.parse((call.abi ?? config.abi)!),
+      functionName: call.function_name,
+      args: call.function_args || [],
+      allowFailure: call.allow_failure,
+    }));
+    const options = {
+      address: optionalString(config.multicall_address),
+      blockTag: parseBlockTag(config.block_tag) ?? context.dryRun?.blockTag,
+    };
+    const outcome = await context.retry(() => multicall(provider, requests, options), config.retry, config.timeout);
+
+    if (!outcome.batched) {
+      context.log("debug", `Multicall3 not deployed; read ${requests.length} call(s) individually at block ${outcome.blockNumber}`);
+    }
+    for (const [id, reason] of Object.entries(outcome.errors)) {
+      context.log("warn", `Call ${id} reverted (allowed): ${reason}`);
+    }
+
+    const response = { result: outcome.results, block_number: outcome.blockNumber, errors: outcome.errors };
+    return {
+      success: true,
+      outputs: { result: outcome.results, block_number: outcome.blockNumber, ...context.extractOutputs(response) },
+      duration: Date.now() - startTime,
+    };
+  },
+};
+
+/**
+ * State-changing contract call; simulated instead of sent in dry-run mode
+ * Requirement 2.3: Submit recommendation to contract
+ * Requirement 2.6: Distribute yields
+ * Requirement 13.3: Log transaction failures
+ */
+export const ethereumTransactionHandler: StepHandler<EthereumTransactionConfig> = {
+  type: "ethereum-transaction",
+  configSchema: {
+    type: "object",
+    required: ["contract_address", "function_name", "abi"],
+    properties: {
+      ...contractProperties,
+      private_key: { type: "string" },
+      gas_limit: { type: "integer", minimum: 21000 },
+      max_fee_per_gas: { type: "number", minimum: 0 },
+      max_priority_fee_per_gas: { type: "number", minimum: 0 },
+      transaction: transactionPolicySchema,
+    },
+    additionalProperties: false,
+  },
+  // The last five are only set by dry runs
+  implicitOutputs: [
+    "transaction_hash",
+    "block_number",
+    "gas_used",
+    "dry_run",
+    "would_revert",
+    "revert_reason",
+    "estimated_gas",
+    "return_value",
+  ],
+  validateConfig: validateAbi,
+
+  async execute(context: StepContext<EthereumTransactionConfig>): Promise<StepExecutionResult> {
+    const startTime = Date.now();
+    const { step, config } = context;
+
+    if (context.circuitOpen) {
+      throw new Error(
+        `Circuit breaker open for workflow ${context.workflow.name}: transaction not submitted until an operator resets it`
+      );
+    }
+
+    if (!context.provider || (!context.transactions && !context.dryRun)) {
+      throw new Error("Blockchain provider not initialized");
+    }
+
+    const abi = JSON.parse(config.abi);
+    const functionName = config.function_name;
+    let args = config.function_args || [];
+
+    // PriceManager.submitRecommendation expects price in USDC (6 decimals)
+    if (functionName === "submitRecommendation" && args.length >= 1) {
+      const priceUsd = typeof args[0] === "number" ? args[0] : parseFloat(String(args[0]));
+      if (!isNaN(priceUsd)) {
+        args = [ethers.parseUnits(String(priceUsd), 6), ...args.slice(1)];
+      }
+    }
+
+    const fragment = new ethers.Interface(abi).getFunction(functionName);
+    if (!fragment) {
+      throw new Error(`ABI does not define function ${functionName}`);
+    }
+    args = encodeArgs(fragment, args);
+
+    if (context.dryRun) {
+      return await simulateStep(context, abi, args, startTime);
+    }
+
+    try {
+      const result = await sendTransaction(context, config.contract_address, abi, functionName, args);
+      return {
+        success: true,
+        outputs: transactionOutputs(result.receipt),
+        duration: Date.now() - startTime,
+      };
+    } catch (error) {
+      context.log("error", `Transaction failed for ${step.id}: ${errorMessage(error)}`);
+      throw error;
+    }
+  },
+};
+
+type TransactionSettings = Pick<
+  EthereumTransactionConfig,
+  "gas_limit" | "max_fee_per_gas" | "max_priority_fee_per_gas" | "transaction" | "retry"
+>;
+
+/**
+ * Broadcast a contract call through the wallet's transaction manager and wait
+ * for its confirmations
+ */
+async function sendTransaction(
+  context: StepContext<TransactionSettings>,
+  to: string,
+  abi: ethers.InterfaceAbi,
+  functionName: string,
+  args: unknown[]
+): Promise<TransactionResult> {
+  const { config } = context;
+  const transactions = context.transactions!;
+  const contract = new ethers.Contract(to, abi, context.wallet);
+  const request = await contract[functionName].populateTransaction(...args);
+  if (config.gas_limit) {
+    request.gasLimit = BigInt(config.gas_limit);
+  }
+  const caps = {
+    maxFeePerGas: optionalWei(config.max_fee_per_gas),
+    maxPriorityFeePerGas: optionalWei(config.max_priority_fee_per_gas),
+  };
+
+  // Sign once; every retry rebroadcasts the same transaction with the same
+  // nonce, so a broadcast whose reply was lost is never sent twice
+  const pending = await transactions.prepare(request, { policy: config.transaction, caps });
+
+  // Record the hash before broadcasting so a resumed run can find it even if
+  // the process dies before the node replies
+  const recorded = pending.hashes[0];
+  if (recorded) {
+    await context.recordTransaction(recorded);
+  }
+
+  // Broadcast with retry (no timeout: an abandoned broadcast may still land)
+  try {
+    await context.retry(() => transactions.broadcast(pending), config.retry);
+  } catch (error) {
+    transactions.release(pending);
+    throw error;
+  }
+  // Signers that only sign inside the node learn the hash from the broadcast
+  if (pending.hashes[0] !== recorded) {
+    await context.recordTransaction(pending.hashes[0]);
+  }
+
+  // Wait for confirmations, replacing the transaction if it gets stuck
+  const result = await transactions.wait(pending, { onReplace: (hash) => context.recordTransaction(hash) });
+
+  context.log(
+    "info",
+    `Transaction mined: ${result.hash} (${result.confirmations} confirmation(s)` +
+      `${result.replacements > 0 ? `, ${result.replacements} replacement(s)` : ""})`
+  );
+  return result;
+}
+
+/**
+ * Dry run: simulate the transaction with eth_call and report the outcome.
+ * A would-be revert is reported in the outputs rather than failing the step,
+ * so downstream conditions can branch on would_revert.
+ */
+async function simulateStep(
+  context: StepContext<EthereumTransactionConfig>,
+  abi: ethers.InterfaceAbi,
+  args: unknown[],
+  startTime: number
+): Promise<StepExecutionResult> {
+  const { step, config } = context;
+  const from = context.dryRun!.from || context.wallet?.address;
+  if (!from) {
+    context.log("warn", `Dry run of ${step.id} has no sender; role-gated functions will revert`);
+  }
+
+  const report = await simulateTransaction(context.provider!, {
+    to: config.contract_address,
+    abi,
+    functionName: config.function_name,
+    args,
+    from,
+    blockTag: context.dryRun!.blockTag,
+  });
+
+  if (report.would_revert) {
+    context.log("warn", `🧪 Dry run: ${step.id} would revert: ${report.revert_reason}`);
+  } else {
+    context.log("info", `🧪 Dry run: ${step.id} would succeed (estimated gas ${report.estimated_gas ?? "unknown"})`);
+  }
+  if (report.error) {
+    context.log("warn", `Dry run of ${step.id}: ${report.error}`);
+  }
+
+  return {
+    success: true,
+    outputs: {
+      dry_run: true,
+      would_revert: report.would_revert,
+      revert_reason: report.revert_reason ?? null,
+      estimated_gas: report.estimated_gas ?? null,
+      return_value: report.return_value ?? null,
+    },
+    duration: Date.now() - startTime,
+    dry_run: report,
+  };
+}
+
+// --- yield-distribution ---
+
+/**
+ * YieldDistributor.distributeYields() when the step's policy says a
+ * distribution is due (see services/yieldDistribution.ts). The call is
+ * simulated first and not sent if it would revert; in dry-run mode it is only
+ * simulated. The decision is recorded on the step result either way.
+ * Requirement 2.6: Trigger yield distribution after rental payment collection
+ * Requirement 7.5: Skip distribution if pool is empty
+ */
+export const yieldDistributionHandler: StepHandler<YieldDistributionConfig> = {
+  type: "yield-distribution",
+  configSchema: {
+    type: "object",
+    required: ["contract_address"],
+    properties: {
+      rpc_url: { type: "string" },
+      chain_id: { type: "integer", minimum: 1 },
+      private_key: { type: "string" },
+      contract_address: { type: "string" },
+      price_manager_address: { type: "string" },
+      multicall_address: { type: "string" },
+      policy: {
+        type: "object",
+        properties: {
+          min_pool_usd: { type: "number", minimum: 0 },
+          min_rent_multiple: { type: "number", minimum: 0 },
+          min_interval_hours: { type: "number", minimum: 0 },
+        },
+        additionalProperties: false,
+      },
+      gas_limit: { type: "integer", minimum: 21000 },
+      max_fee_per_gas: { type: "number", minimum: 0 },
+      max_priority_fee_per_gas: { type: "number", minimum: 0 },
+      transaction: transactionPolicySchema,
+      timeout: timeoutSchema,
+      retry: retrySchema,
+    },
+    additionalProperties: false,
+  },
+  implicitOutputs: [
+    "distributed",
+    "status",
+    "reason",
+    "pool_usd",
+    "rent_usd",
+    "threshold_usd",
+    "last_distribution_id",
+    "last_distribution_at",
+    "next_eligible_at",
+    "block_number",
+    "simulation",
+    "transaction_hash",
+    "gas_used",
+    "distribution_id",
+    "distributed_usd",
+    "recipient_count",
+  ],
+
+  async execute(context: StepContext<YieldDistributionConfig>): Promise<StepExecutionResult> {
+    const startTime = Date.now();
+    const { step, config } = context;
+
+    if (!context.provider) {
+      throw new Error("Blockchain provider not initialized");
+    }
+
+    const provider = context.provider;
+    const snapshot = await context.retry(
+      () =>
+        readDistributionSnapshot(provider, config.contract_address, {
+          priceManager: optionalString(config.price_manager_address),
+          multicallAddress: optionalString(config.multicall_address),
+          blockTag: context.dryRun?.blockTag,
+        }),
+      config.retry,
+      config.timeout
+    );
+    const { eligible, ...decision } = evaluateDistributionPolicy(config.policy || {}, snapshot);
+    const report: DistributionReport = { status: "skipped", ...decision, block_number: snapshot.blockNumber };
+
+    if (!eligible) {
+      context.log("info", `Skipping yield distribution: ${report.reason}`);
+      return distributionResult(context, report, startTime);
+    }
+
+    if (context.circuitOpen && !context.dryRun) {
+      throw new Error(
+        `Circuit breaker open for workflow ${context.workflow.name}: transaction not submitted until an operator resets it`
+      );
+    }
+    if (!context.transactions && !context.dryRun) {
+      throw new Error("Blockchain provider not initialized");
+    }
+
+    // Simulate before sending so a distribution that would revert costs no gas
+    const from = context.dryRun?.from || context.wallet?.address;
+    report.simulation = await simulateTransaction(provider, {
+      to: config.contract_address,
+      abi: YIELD_DISTRIBUTOR_ABI,
+      functionName: "distributeYields",
+      args: [],
+      from,
+      blockTag: context.dryRun?.blockTag,
+    });
+
+    if (context.dryRun) {
+      report.status = "simulated";
+      const outcome = report.simulation.would_revert ? `would revert: ${report.simulation.revert_reason}` : "would succeed";
+      context.log("info", `🧪 Dry run: ${step.id} ${outcome} (${report.reason})`);
+      return distributionResult(context, report, startTime);
+    }
+    if (report.simulation.would_revert) {
+      throw new Error(`distributeYields would revert: ${report.simulation.revert_reason}; not sent`);
+    }
+
+    context.log("info", `Distributing yields: ${report.reason}`);
+    const result = await sendTransaction(context, config.contract_address, YIELD_DISTRIBUTOR_ABI, "distributeYields", []);
+    Object.assign(report, { status: "distributed", transaction_hash: result.hash, ...parseDistributionReceipt(result.receipt) });
+    return distributionResult(context, report, startTime, transactionOutputs(result.receipt));
+  },
+};
+
+function distributionResult(
+  context: StepContext<YieldDistributionConfig>,
+  report: DistributionReport,
+  startTime: number,
+  transaction: Record<string, any> = {}
+): StepExecutionResult {
+  const response = { distributed: report.status === "distributed", ...report, ...transaction };
+  return {
+    success: true,
+    outputs: { ...response, ...context.extractOutputs(response) },
+    duration: Date.now() - startTime,
+    distribution: report,
+    ...(report.status === "simulated" ? { dry_run: report.simulation } : {}),
+  };
+}
+
+// --- recommendation-acceptance ---
+
+/**
+ * PriceManager.acceptRecommendation() for a recommendation that meets the
+ * step's auto-accept policy (see services/recommendationAcceptance.ts);
+ * otherwise the recommendation stays pending and a notification asks a
+ * property manager to review it. The decision, its inputs and the outcome of
+ * each check are recorded on the step result. Dry runs only simulate the accept.
+ * Requirement 2.3: Submit Price_Recommendation to on-chain smart contract
+ */
+export const recommendationAcceptanceHandler: StepHandler<RecommendationAcceptanceConfig> = {
+  type: "recommendation-acceptance",
+  configSchema: {
+    type: "object",
+    required: ["contract_address", "policy"],
+    properties: {
+      rpc_url: { type: "string" },
+      chain_id: { type: "integer", minimum: 1 },
+      private_key: { type: "string" },
+      contract_address: { type: "string" },
+      transaction_hash: { type: "string" },
+      multicall_address: { type: "string" },
+      policy: {
+        type: "object",
+        required: ["min_confidence", "max_change_percent"],
+        properties: {
+          min_confidence: { type: "number", minimum: 0, maximum: 100 },
+          max_change_percent: { type: "number", minimum: 0 },
+        },
+        additionalProperties: false,
+      },
+      gas_limit: { type: "integer", minimum: 21000 },
+      max_fee_per_gas: { type: "number", minimum: 0 },
+      max_priority_fee_per_gas: { type: "number", minimum: 0 },
+      transaction: transactionPolicySchema,
+      timeout: timeoutSchema,
+      retry: retrySchema,
+    },
+    additionalProperties: false,
+  },
+  implicitOutputs: [
+    "accepted",
+    "status",
+    "reason",
+    "recommendation_id",
+    "confidence",
+    "recommended_price_usd",
+    "current_rent_usd",
+    "change_percent",
+    "other_pending_ids",
+    "checks",
+    "policy",
+    "block_number",
+    "simulation",
+    "transaction_hash",
+    "gas_used",
+  ],
+
+  async execute(context: StepContext<RecommendationAcceptanceConfig>): Promise<StepExecutionResult> {
+    const startTime = Date.now();
+    const { step, config } = context;
+    const policy = config.policy;
+
+    if (!context.provider) {
+      throw new Error("Blockchain provider not initialized");
+    }
+
+    const provider = context.provider;
+    let recommendationId: number | undefined;
+    if (config.transaction_hash !== undefined) {
+      // An unresolved reference means the submission step did not send a transaction
+      const hash = optionalString(config.transaction_hash);
+      if (!hash) {
+        return acceptanceResult(context, { status: "none", reason: "No recommendation was submitted in this run", policy }, startTime);
+      }
+      recommendationId = await context.retry(
+        () => submittedRecommendationId(provider, config.contract_address, hash),
+        config.retry,
+        config.timeout
+      );
+    }
+
+    const snapshot = await context.retry(
+      () =>
+        readRecommendationSnapshot(provider, config.contract_address, {
+          multicallAddress: optionalString(config.multicall_address),
+          blockTag: context.dryRun?.blockTag,
+        }),
+      config.retry,
+      config.timeout
+    );
+    const recommendation =
+      recommendationId === undefined
+        ? snapshot.pending[snapshot.pending.length - 1]
+        : snapshot.pending.find((pending) => pending.id === recommendationId);
+    if (!recommendation) {
+      const reason =
+        recommendationId === undefined ? "No pending recommendations" : `Recommendation #${recommendationId} is no longer pending`;
+      context.log("info", reason);
+      return acceptanceResult(
+        context,
+        { status: "none", reason, policy, block_number: snapshot.blockNumber, recommendation_id: recommendationId },
+        startTime
+      );
+    }
+
+    const { accept, ...decision } = evaluateAutoAcceptPolicy(policy, snapshot, recommendation);
+    const report: AcceptanceReport = { status: "pending", ...decision, policy, block_number: snapshot.blockNumber };
+
+    if (!accept) {
+      context.log("info", report.reason);
+      if (!context.dryRun) {
+        await context.notify({
+          severity: "warning",
+          title: "Price recommendation awaiting review",
+          message: report.reason,
+          details: {
+            recommendation_id: report.recommendation_id,
+            recommended_price_usd: report.recommended_price_usd,
+            current_rent_usd: report.current_rent_usd,
+            confidence: report.confidence,
+            checks: report.checks,
+          },
+        });
+      }
+      return acceptanceResult(context, report, startTime);
+    }
+
+    if (context.circuitOpen && !context.dryRun) {
+      throw new Error(
+        `Circuit breaker open for workflow ${context.workflow.name}: transaction not submitted until an operator resets it`
+      );
+    }
+    if (!context.transactions && !context.dryRun) {
+      throw new Error("Blockchain provider not initialized");
+    }
+
+    if (context.dryRun) {
+      report.status = "simulated";
+      report.simulation = await simulateTransaction(provider, {
+        to: config.contract_address,
+        abi: PRICE_MANAGER_ABI,
+        functionName: "acceptRecommendation",
+        args: [recommendation.id],
+        from: context.dryRun.from || context.wallet?.address,
+        blockTag: context.dryRun.blockTag,
+      });
+      const outcome = report.simulation.would_revert ? `would revert: ${report.simulation.revert_reason}` : "would succeed";
+      context.log("info", `🧪 Dry run: ${step.id} ${outcome} (${report.reason})`);
+      return acceptanceResult(context, report, startTime);
+    }
+
+    context.log("info", `Auto-accepting: ${report.reason}`);
+    const result = await sendTransaction(context, config.contract_address, PRICE_MANAGER_ABI, "acceptRecommendation", [
+      recommendation.id,
+    ]);
+    Object.assign(report, { status: "accepted", transaction_hash: result.hash });
+    return acceptanceResult(context, report, startTime, transactionOutputs(result.receipt));
+  },
+};
+
+function acceptanceResult(
+  context: StepContext<RecommendationAcceptanceConfig>,
+  report: AcceptanceReport,
+  startTime: number,
+  transaction: Record<string, any> = {}
+): StepExecutionResult {
+  const response = { accepted: report.status === "accepted", ...report, ...transaction };
+  return {
+    success: true,
+    outputs: { ...response, ...context.extractOutputs(response) },
+    duration: Date.now() - startTime,
+    acceptance: report,
+    ...(report.status === "simulated" ? { dry_run: report.simulation } : {}),
+  };
+}
+
+// --- market-data ---
+
+const MARKET_DATA_PROVIDER_TYPES = ["rentcast", "http-json", "csv", "reference"];
+
+/** Fields each provider type requires */
+const MARKET_DATA_PROVIDER_FIELDS: Record<string, string[]> = { "http-json": ["url"], csv: ["file"] };
+
+/**
+ * Providers whose required fields resolved; unset optional fields are dropped,
+ * so a provider can be left in the chain for variables that are not always set
+ */
+function usableProviderConfigs(
+  providers: MarketDataProviderConfig[],
+  log: StepContext["log"]
+): MarketDataProviderConfig[] {
+  const usable: MarketDataProviderConfig[] = [];
+  for (const provider of providers) {
+    const unset = (MARKET_DATA_PROVIDER_FIELDS[provider.type] || []).filter((field) =>
+      isUnresolved((provider as Record<string, unknown>)[field])
+    );
+    if (unset.length > 0) {
+      log("warn", `Skipping ${provider.type} market data provider: ${unset.join(", ")} not set`);
+      continue;
+    }
+    usable.push(
+      Object.fromEntries(
+        Object.entries(provider).filter(([, value]) => optionalString(value) !== undefined || typeof value === "object")
+      ) as MarketDataProviderConfig
+    );
+  }
+  return usable;
+}
+
+/**
+ * Comparable rentals and market metrics from the step's providers (RentCast
+ * when none are listed), merged into a consensus or, with strategy fallback,
+ * tried in order. Results are cached in the run's cache store, and the
+ * oracle falls back to stale cached data when every provider fails
+ * (is_cached is then true).
+ * Requirement 2.1: Fetch market data
+ */
+export function createMarketDataHandler(
+  createOracle: (providers: MarketDataProvider[], strategy: MarketDataStrategy, cache: CacheStore) => MarketDataOracle = (
+    providers,
+    strategy,
+    cache
+  ) => new MarketDataOracle(providers, undefined, strategy, cache)
+): StepHandler<MarketDataConfig> {
+  return {
+    type: "market-data",
+    configSchema: {
+      type: "object",
+      required: ["address", "property_type"],
+      properties: {
+        address: { type: "string" },
+        property_type: { type: "string" },
+        radius_miles: { type: ["number", "string"] },
+        api_url: { type: "string" },
+        api_key: { type: "string" },
+        providers: {
+          type: "array",
+          minItems: 1,
+          items: {
+            type: "object",
+            required: ["type"],
+            properties: {
+              type: { type: "string", enum: MARKET_DATA_PROVIDER_TYPES },
+              name: { type: "string" },
+              api_url: { type: "string" },
+              api_key: { type: "string" },
+              url: { type: "string" },
+              headers: stringMapSchema,
+              paths: {
+                type: "object",
+                properties: Object.fromEntries(
+                  ["comparables", "averageRent", "medianRent", "occupancyRate", "rentGrowthYoY", "asOf"].map((key) => [
+                    key,
+                    { type: "string" },
+                  ])
+                ),
+                additionalProperties: false,
+              },
+              comparable_fields: {
+                type: "object",
+                properties: Object.fromEntries(
+                  ["address", "monthlyRent", "bedrooms", "bathrooms", "squareFeet", "distanceMiles"].map((key) => [
+                    key,
+                    { type: "string" },
+                  ])
+                ),
+                additionalProperties: false,
+              },
+              file: { type: "string" },
+            },
+            additionalProperties: false,
+          },
+        },
+        strategy: { type: "string", enum: ["consensus", "fallback"] },
+      },
+      additionalProperties: false,
+    },
+    implicitOutputs: ["market_data", "is_cached", "timestamp", "provider", "freshness", "consensus"],
+
+    validateConfig(config: MarketDataConfig): ConfigIssue[] {
+      const issues: ConfigIssue[] = [];
+      if (config.providers && (config.api_url !== undefined || config.api_key !== undefined)) {
+        issues.push({ path: ["providers"], message: "Set api_url and api_key on the rentcast provider when providers is used" });
+      }
+      (config.providers || []).forEach((provider, index) => {
+        for (const field of MARKET_DATA_PROVIDER_FIELDS[provider.type] || []) {
+          if ((provider as Record<string, unknown>)[field] === undefined) {
+            issues.push({ path: ["providers", index], message: `${provider.type} provider requires ${field}` });
+          }
+        }
+      });
+      return issues;
+    },
+
+    async execute(context: StepContext<MarketDataConfig>): Promise<StepExecutionResult> {
+      const startTime = Date.now();
+      const { config } = context;
+      const apiKey = optionalString(config.api_key);
+      const apiUrl = optionalString(config.api_url);
+
+      const providerConfigs = config.providers && usableProviderConfigs(config.providers, context.log);
+      if (providerConfigs?.length === 0) {
+        throw new Error("No market data provider is configured");
+      }
+
+      const providers = providerConfigs
+        ? providerConfigs.map((provider) => createMarketDataProvider(provider))
+        : [new RentCastProvider(apiKey, apiUrl)];
+      const oracle = createOracle(providers, config.strategy ?? "consensus", context.cache);
+
+      const marketData = await oracle.fetchMarketData(
+        optionalString(config.address) || "",
+        optionalString(config.property_type) || "",
+        optionalNumber(config.radius_miles) ?? 5
+      );
+
+      const result = {
+        market_data: marketData,
+        is_cached: marketData.isStale || false,
+        timestamp: marketData.timestamp,
+        provider: marketData.provider,
+        freshness: marketData.freshness,
+        consensus: marketData.consensus ?? null,
+      };
+
+      return {
+        success: true,
+        outputs: { ...result, ...context.extractOutputs(result) },
+        duration: Date.now() - startTime,
+      };
+    },
+  };
+}
+
+export const marketDataHandler = createMarketDataHandler();
+
+// --- ai-pricing ---
+
+/**
+ * Price recommendation from AIPricingAgent, which falls back to a rule-based
+ * recommendation when OpenAI is unavailable (is_fallback is then true and the
+ * run counts as failed for the circuit breaker)
+ * Requirement 2.2: Call AI agent
+ */
+export function createAiPricingHandler(
+  createAgent: (apiKey?: string, model?: string) => AIPricingAgent = (apiKey, model) => new AIPricingAgent(apiKey, model)
+): StepHandler<AiPricingConfig> {
+  return {
+    type: "ai-pricing",
+    configSchema: {
+      type: "object",
+      required: ["market_data", "property"],
+      properties: {
+        market_data: {},
+        property: {
+          type: "object",
+          required: ["address", "property_type", "valuation"],
+          properties: {
+            address: { type: "string" },
+            property_type: { type: "string" },
+            valuation: { type: ["number", "string"] },
+            bedrooms: { type: ["number", "string"] },
+            bathrooms: { type: ["number", "string"] },
+            square_feet: { type: ["number", "string"] },
+          },
+          additionalProperties: false,
+        },
+        price_manager_address: { type: "string" },
+        current_rent: { type: ["number", "string"] },
+        model: { type: "string" },
+        api_key: { type: "string" },
+      },
+      additionalProperties: false,
+    },
+    implicitOutputs: ["recommendation", "recommended_price", "confidence_score", "reasoning", "is_fallback"],
+
+    async execute(context: StepContext<AiPricingConfig>): Promise<StepExecutionResult> {
+      const startTime = Date.now();
+      const { config } = context;
+
+      const marketData = config.market_data;
+      if (!marketData || typeof marketData !== "object") {
+        throw new Error("Market data not available from previous step");
+      }
+
+      // Fetch current rental price: on-chain from PriceManager, or config fallback
+      let currentPrice: number | undefined;
+      const priceManagerAddress = optionalString(config.price_manager_address);
+
+      if (context.provider && priceManagerAddress) {
+        try {
+          const abi = ["function getCurrentRentalPrice() view returns (uint256)"];
+          const contract = new ethers.Contract(priceManagerAddress, abi, context.provider);
+          const rawPrice = await contract.getCurrentRentalPrice();
+          // PriceManager uses USDC decimals (6)
+          currentPrice = Number(ethers.formatUnits(rawPrice, 6));
+        } catch (err) {
+          context.log("warn", `Could not fetch current price from PriceManager: ${err}`);
+        }
+      }
+
+      if (currentPrice === undefined) {
+        currentPrice = optionalNumber(config.current_rent);
+      }
+
+      // Property details including currentPrice for accurate AI analysis
+      const propertyDetails = {
+        address: optionalString(config.property.address) || "",
+        propertyType: optionalString(config.property.property_type) || "",
+        valuation: optionalNumber(config.property.valuation) ?? 0,
+        ...(currentPrice !== undefined && currentPrice > 0 ? { currentPrice } : {}),
+        // Size and layout let the agent weigh the comparables most like the property
+        bedrooms: optionalNumber(config.property.bedrooms),
+        bathrooms: optionalNumber(config.property.bathrooms),
+        squareFeet: optionalNumber(config.property.square_feet),
+      };
+
+      // Call AI pricing agent (with fallback to rule-based on API failure)
+      const agent = createAgent(optionalString(config.api_key), optionalString(config.model));
+      const recommendation = await agent.analyzePricing({
+        marketData,
+        propertyDetails,
+        currentMonth: new Date().getMonth() + 1,
+      });
+
+      // A fallback recommendation is usable but counts against the circuit breaker
+      if (recommendation.isFallback) {
+        const message = "AI pricing unavailable; used rule-based fallback recommendation";
+        context.log("warn", message);
+        context.recordError(message);
+      }
+
+      const result = {
+        recommendation,
+        recommended_price: recommendation.price,
+        confidence_score: recommendation.confidence,
+        reasoning: recommendation.reasoning,
+        is_fallback: recommendation.isFallback === true,
+      };
+
+      return {
+        success: true,
+        outputs: { ...result, ...context.extractOutputs(result) },
+        duration: Date.now() - startTime,
+      };
+    },
+  };
+}
+
+export const aiPricingHandler = createAiPricingHandler();
@@ -0,0 +1,144 @@
+/**
+ * Step Registry
+ *
+ * Maps workflow step type names (the `type` of a step in YAML) to handlers.
+ * A handler declares its config schema and the outputs it always sets, so
+ * the validator can check steps of any registered type, and executes the
+ * step through a StepContext supplied by the orchestrator. New step types
+ * are added by registering a handler, without editing the orchestrator.
+ *
+ * Requirements:
+ * - 11.1: Workflow configurable via YAML
+ */
+
+import { ethers } from "ethers";
+import { JsonSchema, SchemaPath } from "./workflowSchema";
+import { TransactionManager } from "./transactionManager";
+import { CacheStore } from "./cacheStore";
+import {
+  DryRunOptions,
+  RetryConfig,
+  StepConfig,
+  StepExecutionResult,
+  WorkflowConfig,
+  WorkflowNotification,
+  WorkflowState,
+  WorkflowStep,
+} from "./types";
+import {
+  aiPricingHandler,
+  ethereumCallHandler,
+  ethereumMulticallHandler,
+  ethereumTransactionHandler,
+  httpRequestHandler,
+  marketDataHandler,
+  recommendationAcceptanceHandler,
+  yieldDistributionHandler,
+} from "./stepHandlers";
+
+/**
+ * What the orchestrator exposes to a step handler for one execution
+ */
+export interface StepContext<C = StepConfig> {
+  step: WorkflowStep;
+  /** The step's config with ${...} references resolved */
+  config: C;
+  workflow: WorkflowConfig;
+  state: Readonly<WorkflowState>;
+  provider?: ethers.Provider;
+  /** Signer for transactions (absent without PRIVATE_KEY) */
+  wallet?: ethers.Wallet;
+  /** Sends the wallet's transactions with shared nonce tracking (absent without PRIVATE_KEY) */
+  transactions?: TransactionManager;
+  /** Set when transactions must be simulated instead of broadcast */
+  dryRun?: DryRunOptions;
+  /** The circuit breaker is open: on-chain transactions are disabled */
+  circuitOpen: boolean;
+  /** Cache shared with other runs (and processes, when the store persists) */
+  cache: CacheStore;
+  /** Resolve ${VAR} and ${steps.X.outputs.Y} references in a value */
+  substitute<T>(value: T): T;
+  /** Run fn under the step's retry policy and per-attempt timeout, recording attempts */
+  retry<T>(fn: (signal?: AbortSignal) => Promise<T>, policy?: RetryConfig, timeoutMs?: number): Promise<T>;
+  /** Extract the step's declared outputs from a response */
+  extractOutputs(response: unknown): Record<string, any>;
+  /** Record each broadcast transaction (and replacement) before waiting for it, so a resumed run can find it */
+  recordTransaction(hash: string): Promise<void>;
+  /** Record a non-fatal error against the run (counts as a failed run for the circuit breaker) */
+  recordError(message: string): void;
+  /** Send a notification through the run's notifier (delivery failures are logged, not thrown) */
+  notify(notification: Pick<WorkflowNotification, "severity" | "title" | "message" | "details">): Promise<void>;
+  log(level: string, message: string): void;
+}
+
+export interface ConfigIssue {
+  /** Path relative to the step's config */
+  path: SchemaPath;
+  message: string;
+}
+
+export interface StepHandler<C = StepConfig> {
+  /** Type name used in workflow YAML */
+  type: string;
+  /** JSON Schema for the step's config, checked when the workflow is loaded */
+  configSchema: JsonSchema;
+  /** Outputs the handler sets in addition to the step's declared outputs */
+  implicitOutputs?: string[];
+  /** Load-time checks beyond the schema (e.g. the ABI parses) */
+  validateConfig?(config: C): ConfigIssue[];
+  execute(context: StepContext<C>): Promise<StepExecutionResult>;
+}
+
+export class StepRegistry {
+  private handlers = new Map<string, StepHandler<any>>();
+
+  /**
+   * Register a handler; a type name can only be registered once
+   */
+  register<C>(handler: StepHandler<C>): this {
+    if (this.handlers.has(handler.type)) {
+      throw new Error(`Step type already registered: ${handler.type}`);
+    }
+    this.handlers.set(handler.type, handler);
+    return this;
+  }
+
+  get(type: string): StepHandler | undefined {
+    return this.handlers.get(type);
+  }
+
+  /**
+   * Look up a handler, throwing for unregistered types
+   */
+  resolve(type: string): StepHandler {
+    const handler = this.handlers.get(type);
+    if (!handler) {
+      throw new Error(`Unknown step type: ${type} (registered: ${this.types().join(", ")})`);
+    }
+    return handler;
+  }
+
+  types(): string[] {
+    return [...this.handlers.keys()];
+  }
+}
+
+/**
+ * A registry with the built-in step types
+ */
+export function createStepRegistry(): StepRegistry {
+  return new StepRegistry()
+    .register(httpRequestHandler)
+    .register(ethereumTransactionHandler)
+    .register(ethereumCallHandler)
+    .register(ethereumMulticallHandler)
+    .register(yieldDistributionHandler)
+    .register(recommendationAcceptanceHandler)
+    .register(marketDataHandler)
+    .register(aiPricingHandler);
+}
+
+/**
+ * Process-wide registry used when a workflow is loaded without an explicit one
+ */
+export const defaultStepRegistry = createStepRegistry();
@@ -0,0 +1,539 @@
+/**
+ * Transaction Manager
+ *
+ * Sends transactions for one signer with locally tracked nonces, EIP-1559
+ * fees estimated from recent blocks (eth_feeHistory) under configurable
+ * caps, and waits for a configurable number of confirmations. A transaction
+ * is signed once and every retry rebroadcasts the same signed bytes, so a
+ * broadcast whose reply was lost can never turn into a second transaction. A
+ * transaction
+ * still pending after replace_after is replaced with the same nonce and
+ * bumped fees; a transaction that leaves the mempool, or whose nonce is
+ * taken by another transaction, is reported as dropped, and a receipt that
+ * disappears or moves to another block is treated as a reorg and waited out.
+ *
+ * Used by ethereum-transaction steps and by the deploy scripts.
+ *
+ * Requirements:
+ * - 2.3: Submit Price_Recommendation to on-chain smart contract
+ * - 2.6: Trigger yield distribution after rental payment collection
+ * - 13.3: Log transaction failures
+ */
+
+import { ethers } from "ethers";
+import { TransactionPolicy } from "./types";
+
+export const DEFAULT_TRANSACTION_POLICY: Required<TransactionPolicy> = {
+  confirmations: 1,
+  timeout: 600000,
+  replace_after: 60000,
+  fee_bump_percent: 15,
+  max_replacements: 3,
+  fee_history_blocks: 10,
+  priority_fee_percentile: 50,
+  poll_interval: 4000,
+};
+
+/** Nodes reject a replacement unless both fees rise by at least 10% */
+const MIN_REPLACEMENT_BUMP_PERCENT = 10n;
+
+/** Priority fee used when recent blocks carry no tips (e.g. a quiet testnet) */
+const FALLBACK_PRIORITY_FEE = ethers.parseUnits("1", "gwei");
+
+/** The node already has this transaction, or has already mined its nonce */
+const ALREADY_SENT_PATTERN = /already known|known transaction|nonce too low/i;
+
+export interface FeeCaps {
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+}
+
+export interface Eip1559Fees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  /** Base fee of the next block, when known */
+  baseFeePerGas?: bigint;
+}
+
+export class TransactionRevertedError extends Error {
+  constructor(public readonly receipt: ethers.TransactionReceipt) {
+    super(`Transaction ${receipt.hash} reverted in block ${receipt.blockNumber}`);
+    this.name = "TransactionRevertedError";
+  }
+}
+
+export class TransactionDroppedError extends Error {
+  constructor(public readonly hashes: string[], public readonly nonce: number, reason: string) {
+    super(`Transaction ${hashes[hashes.length - 1]} (nonce ${nonce}) was dropped: ${reason}`);
+    this.name = "TransactionDroppedError";
+  }
+}
+
+export class TransactionTimeoutError extends Error {
+  constructor(public readonly hashes: string[], timeoutMs: number) {
+    super(`Transaction ${hashes[hashes.length - 1]} not confirmed after ${timeoutMs}ms`);
+    this.name = "TransactionTimeoutError";
+  }
+}
+
+/**
+ * Merge settings left to right, ignoring undefined values
+ */
+function merge<T extends object>(...sources: Array<T | undefined>): T {
+  const result: Record<string, unknown> = {};
+  for (const source of sources) {
+    for (const [key, value] of Object.entries(source || {})) {
+      if (value !== undefined) {
+        result[key] = value;
+      }
+    }
+  }
+  return result as T;
+}
+
+function gwei(value: bigint): string {
+  return `${ethers.formatUnits(value, "gwei")} gwei`;
+}
+
+function minBigInt(value: bigint, cap?: bigint): bigint {
+  return cap !== undefined && cap < value ? cap : value;
+}
+
+function maxBigInt(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+function errorText(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** A provider that accepts raw JSON-RPC calls (JsonRpcProvider, Hardhat's provider) */
+type RpcProvider = ethers.Provider & Pick<ethers.JsonRpcApiProvider, "send">;
+
+function hasRpcSend(provider: ethers.Provider): provider is RpcProvider {
+  return provider instanceof ethers.JsonRpcApiProvider || ("send" in provider && typeof provider.send === "function");
+}
+
+/**
+ * Estimate EIP-1559 fees: the priority fee is the median of the chosen reward
+ * percentile over recent blocks, and the max fee leaves room for the base fee
+ * to double. Providers without eth_feeHistory fall back to getFeeData().
+ */
+export async function estimateFees(
+  provider: ethers.Provider,
+  policy: TransactionPolicy = {},
+  caps: FeeCaps = {}
+): Promise<Eip1559Fees> {
+  const blocks = policy.fee_history_blocks ?? DEFAULT_TRANSACTION_POLICY.fee_history_blocks;
+  const percentile = policy.priority_fee_percentile ?? DEFAULT_TRANSACTION_POLICY.priority_fee_percentile;
+
+  let baseFee: bigint | undefined;
+  let priorityFee: bigint | undefined;
+
+  if (hasRpcSend(provider)) {
+    try {
+      const history = await provider.send("eth_feeHistory", [ethers.toQuantity(blocks), "latest", [percentile]]);
+      // The last entry is the base fee of the next block
+      baseFee = BigInt(history.baseFeePerGas[history.baseFeePerGas.length - 1]);
+      const rewards = ((history.reward || []) as string[][])
+        .map((reward) => BigInt(reward[0]))
+        .filter((reward) => reward > 0n)
+        .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+      if (rewards.length > 0) {
+        priorityFee = rewards[Math.floor(rewards.length / 2)];
+      }
+    } catch {
+      baseFee = undefined;
+    }
+  }
+
+  if (baseFee === undefined) {
+    const [feeData, block] = await Promise.all([provider.getFeeData(), provider.getBlock("latest")]);
+    baseFee = block?.baseFeePerGas ?? undefined;
+    priorityFee = feeData.maxPriorityFeePerGas ?? undefined;
+    if (baseFee === undefined) {
+      throw new Error("Network does not support EIP-1559 fees (no base fee)");
+    }
+  }
+
+  let maxPriorityFeePerGas = minBigInt(priorityFee ?? FALLBACK_PRIORITY_FEE, caps.maxPriorityFeePerGas);
+  const maxFeePerGas = minBigInt(baseFee * 2n + maxPriorityFeePerGas, caps.maxFeePerGas);
+  if (maxPriorityFeePerGas > maxFeePerGas) {
+    maxPriorityFeePerGas = maxFeePerGas;
+  }
+
+  return { maxFeePerGas, maxPriorityFeePerGas, baseFeePerGas: baseFee };
+}
+
+/**
+ * Hands out nonces per sender. Each allocation re-reads the node's pending
+ * count, so transactions sent outside the tracker are never reused, and
+ * allocations are serialized so concurrent sends get distinct nonces.
+ */
+export class NonceTracker {
+  private next = new Map<string, number>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private provider: ethers.Provider) {}
+
+  allocate(address: string): Promise<number> {
+    const allocation = this.queue.then(async () => {
+      const key = address.toLowerCase();
+      const pending = await this.provider.getTransactionCount(address, "pending");
+      const nonce = Math.max(pending, this.next.get(key) ?? 0);
+      this.next.set(key, nonce + 1);
+      return nonce;
+    });
+    this.queue = allocation.catch(() => undefined);
+    return allocation;
+  }
+
+  /**
+   * Forget the local nonce (after a transaction that was never broadcast),
+   * so the next allocation follows the node again
+   */
+  reset(address: string): void {
+    this.next.delete(address.toLowerCase());
+  }
+}
+
+export interface SendOptions {
+  policy?: TransactionPolicy;
+  caps?: FeeCaps;
+}
+
+export interface PendingTransaction {
+  from: string;
+  nonce: number;
+  /** The signed request, reused with higher fees for replacements */
+  request: ethers.TransactionRequest;
+  /**
+   * The serialized signed transaction, rebroadcast as-is on retries; absent
+   * for signers that only sign inside the node (JSON-RPC accounts), which
+   * are resent with the same nonce and fees instead
+   */
+  raw?: string;
+  fees: Eip1559Fees;
+  /** Every hash for this nonce, oldest first (known before the first broadcast when raw is set) */
+  hashes: string[];
+  replacements: number;
+  startedAt: number;
+  sentAt: number;
+  policy: Required<TransactionPolicy>;
+  caps: FeeCaps;
+}
+
+export interface WaitOptions {
+  /** Called with the hash of each replacement after it is broadcast */
+  onReplace?: (hash: string) => void | Promise<void>;
+}
+
+export interface TransactionResult {
+  hash: string;
+  receipt: ethers.TransactionReceipt;
+  hashes: string[];
+  nonce: number;
+  replacements: number;
+  confirmations: number;
+}
+
+export interface TransactionManagerOptions {
+  /** Defaults for every transaction (per-send policy overrides) */
+  policy?: TransactionPolicy;
+  caps?: FeeCaps;
+  nonces?: NonceTracker;
+  log?: (level: string, message: string) => void;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+}
+
+export class TransactionManager {
+  private provider: ethers.Provider;
+  private nonces: NonceTracker;
+  private log: (level: string, message: string) => void;
+  private sleep: (ms: number) => Promise<void>;
+  private now: () => number;
+
+  constructor(private signer: ethers.Signer, private options: TransactionManagerOptions = {}) {
+    if (!signer.provider) {
+      throw new Error("Transaction manager needs a signer connected to a provider");
+    }
+    this.provider = signer.provider;
+    this.nonces = options.nonces || new NonceTracker(this.provider);
+    this.log = options.log || ((level, message) => console.log(`[${level.toUpperCase()}] ${message}`));
+    this.sleep = options.sleep || ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+    this.now = options.now || Date.now;
+  }
+
+  /**
+   * Fill in nonce, gas limit and fees and broadcast the transaction once;
+   * the nonce is released if the broadcast fails
+   */
+  async send(request: ethers.TransactionRequest, options: SendOptions = {}): Promise<PendingTransaction> {
+    const pending = await this.prepare(request, options);
+    try {
+      return await this.broadcast(pending);
+    } catch (error) {
+      this.release(pending);
+      throw error;
+    }
+  }
+
+  /**
+   * Fill in nonce, gas limit and fees and sign the transaction, without
+   * broadcasting it
+   */
+  async prepare(request: ethers.TransactionRequest, options: SendOptions = {}): Promise<PendingTransaction> {
+    const policy = merge<TransactionPolicy>(DEFAULT_TRANSACTION_POLICY, this.options.policy, options.policy) as Required<TransactionPolicy>;
+    const caps = merge<FeeCaps>(this.options.caps, options.caps);
+    const from = await this.signer.getAddress();
+
+    // Estimate once: replacements must keep the same gas limit
+    const gasLimit =
+      request.gasLimit !== undefined && request.gasLimit !== null
+        ? BigInt(request.gasLimit)
+        : ((await this.signer.estimateGas({ ...request, from })) * 120n) / 100n;
+    const fees = await estimateFees(this.provider, policy, caps);
+    const { chainId } = await this.provider.getNetwork();
+    const nonce = await this.nonces.allocate(from);
+
+    const signed: ethers.TransactionRequest = {
+      ...request,
+      from,
+      nonce,
+      chainId,
+      gasLimit,
+      type: 2,
+      gasPrice: undefined,
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+    };
+
+    let raw: string | undefined;
+    try {
+      raw = await this.signer.signTransaction(signed);
+    } catch {
+      // The signer only signs inside the node (e.g. a JSON-RPC account)
+      raw = undefined;
+    }
+
+    const now = this.now();
+    return {
+      from,
+      nonce,
+      request: signed,
+      ...(raw ? { raw } : {}),
+      fees,
+      hashes: raw ? [ethers.keccak256(raw)] : [],
+      replacements: 0,
+      startedAt: now,
+      sentAt: now,
+      policy,
+      caps,
+    };
+  }
+
+  /**
+   * Broadcast a prepared transaction. Safe to call again after a failure:
+   * the same signed transaction is sent, and a node that already has it (or
+   * has already mined its nonce) counts as a successful broadcast, leaving
+   * wait() to find the receipt or report the nonce taken.
+   */
+  async broadcast(pending: PendingTransaction): Promise<PendingTransaction> {
+    try {
+      if (pending.raw) {
+        await this.provider.broadcastTransaction(pending.raw);
+      } else {
+        const response = await this.signer.sendTransaction(pending.request);
+        pending.hashes = [response.hash];
+      }
+    } catch (error) {
+      if (!pending.raw || !(ethers.isError(error, "NONCE_EXPIRED") || ALREADY_SENT_PATTERN.test(errorText(error)))) {
+        throw error;
+      }
+      this.log("warn", `Transaction ${pending.hashes[0]} (nonce ${pending.nonce}) was already broadcast: ${errorText(error)}`);
+    }
+
+    pending.sentAt = this.now();
+    this.log(
+      "info",
+      `Sent transaction ${pending.hashes[0]} (nonce ${pending.nonce}, max fee ${gwei(pending.fees.maxFeePerGas)}, ` +
+        `priority fee ${gwei(pending.fees.maxPriorityFeePerGas)})`
+    );
+    return pending;
+  }
+
+  /**
+   * Give up a prepared transaction that may never have been broadcast, so the
+   * next nonce allocation follows the node again
+   */
+  release(pending: PendingTransaction): void {
+    this.nonces.reset(pending.from);
+  }
+
+  /**
+   * Wait until one of the transaction's hashes has the required confirmations
+   * on the canonical chain, replacing it while it is stuck
+   */
+  async wait(pending: PendingTransaction, options: WaitOptions = {}): Promise<TransactionResult> {
+    const { policy } = pending;
+    let seen: ethers.TransactionReceipt | undefined;
+
+    while (true) {
+      if (this.now() - pending.startedAt >= policy.timeout) {
+        throw new TransactionTimeoutError(pending.hashes, policy.timeout);
+      }
+
+      const receipt = await this.findReceipt(pending.hashes);
+      if (receipt) {
+        if (seen && seen.blockHash !== receipt.blockHash) {
+          this.log("warn", `Reorg: transaction ${receipt.hash} moved from block ${seen.blockNumber} to ${receipt.blockNumber}`);
+        }
+        seen = receipt;
+
+        if (receipt.status === 0) {
+          throw new TransactionRevertedError(receipt);
+        }
+
+        const confirmations = (await this.provider.getBlockNumber()) - receipt.blockNumber + 1;
+        if (confirmations >= policy.confirmations) {
+          // Make sure the block is still canonical before reporting success
+          const block = await this.provider.getBlock(receipt.blockNumber);
+          if (block?.hash === receipt.blockHash) {
+            return {
+              hash: receipt.hash,
+              receipt,
+              hashes: pending.hashes,
+              nonce: pending.nonce,
+              replacements: pending.replacements,
+              confirmations,
+            };
+          }
+          this.log("warn", `Reorg: block ${receipt.blockNumber} no longer contains transaction ${receipt.hash}`);
+        }
+      } else {
+        if (seen) {
+          this.log("warn", `Reorg: transaction ${seen.hash} was removed from block ${seen.blockNumber}; waiting for re-inclusion`);
+          seen = undefined;
+        }
+
+        const confirmedNonce = await this.provider.getTransactionCount(pending.from, "latest");
+        if (confirmedNonce > pending.nonce) {
+          // One of ours may have been mined since the receipt check
+          if (!(await this.findReceipt(pending.hashes))) {
+            throw new TransactionDroppedError(pending.hashes, pending.nonce, "nonce was used by another transaction");
+          }
+          continue;
+        }
+
+        if (this.now() - pending.sentAt >= policy.replace_after) {
+          if (pending.replacements < policy.max_replacements) {
+            await this.replace(pending, options);
+          } else if (!(await this.inMempool(pending.hashes))) {
+            throw new TransactionDroppedError(pending.hashes, pending.nonce, "no longer in the mempool");
+          }
+        }
+      }
+
+      await this.sleep(policy.poll_interval);
+    }
+  }
+
+  /**
+   * Send and wait for confirmations
+   */
+  async sendAndWait(
+    request: ethers.TransactionRequest,
+    options: SendOptions & WaitOptions & { onBroadcast?: (hash: string) => void | Promise<void> } = {}
+  ): Promise<TransactionResult> {
+    const pending = await this.send(request, options);
+    await options.onBroadcast?.(pending.hashes[0]);
+    return await this.wait(pending, options);
+  }
+
+  /**
+   * Re-send a stuck transaction with the same nonce and bumped fees
+   * (at least the node's 10% minimum, or the current estimate if higher)
+   */
+  private async replace(pending: PendingTransaction, options: WaitOptions): Promise<void> {
+    const { policy, caps, fees } = pending;
+    const bump = (value: bigint) => (value * BigInt(Math.round(10000 + policy.fee_bump_percent * 100))) / 10000n;
+    const minimum = (value: bigint) => (value * (100n + MIN_REPLACEMENT_BUMP_PERCENT)) / 100n;
+    const current = await estimateFees(this.provider, policy, caps);
+
+    const maxPriorityFeePerGas = minBigInt(
+      maxBigInt(bump(fees.maxPriorityFeePerGas), current.maxPriorityFeePerGas),
+      caps.maxPriorityFeePerGas
+    );
+    const maxFeePerGas = minBigInt(maxBigInt(bump(fees.maxFeePerGas), current.maxFeePerGas), caps.maxFeePerGas);
+
+    if (maxFeePerGas < minimum(fees.maxFeePerGas) || maxPriorityFeePerGas < minimum(fees.maxPriorityFeePerGas)) {
+      this.log("warn", `Transaction ${pending.hashes[pending.hashes.length - 1]} is stuck but fee caps leave no room to replace it`);
+      pending.replacements = policy.max_replacements;
+      return;
+    }
+
+    let response: ethers.TransactionResponse;
+    try {
+      response = await this.signer.sendTransaction({ ...pending.request, maxFeePerGas, maxPriorityFeePerGas });
+    } catch (error) {
+      // e.g. the original was mined in the meantime (nonce too low); the next poll finds it
+      this.log("warn", `Replacement for nonce ${pending.nonce} not accepted: ${errorText(error)}`);
+      pending.sentAt = this.now();
+      return;
+    }
+
+    pending.hashes.push(response.hash);
+    pending.replacements++;
+    pending.sentAt = this.now();
+    pending.fees = { ...current, maxFeePerGas, maxPriorityFeePerGas };
+    this.log(
+      "warn",
+      `Replaced stuck transaction ${pending.hashes[pending.hashes.length - 2]} with ${response.hash} ` +
+        `(max fee ${gwei(maxFeePerGas)}, priority fee ${gwei(maxPriorityFeePerGas)})`
+    );
+    await options.onReplace?.(response.hash);
+  }
+
+  /**
+   * The receipt of whichever hash was mined (newest first)
+   */
+  private async findReceipt(hashes: string[]): Promise<ethers.TransactionReceipt | null> {
+    for (const hash of [...hashes].reverse()) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (receipt) {
+        return receipt;
+      }
+    }
+    return null;
+  }
+
+  private async inMempool(hashes: string[]): Promise<boolean> {
+    for (const hash of hashes) {
+      if (await this.provider.getTransaction(hash)) {
+        return true;
+      }
+    }
+    return false;
+  }
+}
+
+/**
+ * Policy and fee caps for scripts from TX_CONFIRMATIONS, TX_TIMEOUT_MS,
+ * TX_REPLACE_AFTER_MS, TX_MAX_FEE_GWEI and TX_MAX_PRIORITY_FEE_GWEI
+ */
+export function transactionOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): { policy: TransactionPolicy; caps: FeeCaps } {
+  const int = (value?: string) => (value ? parseInt(value, 10) : undefined);
+  const gweiCap = (value?: string) => (value ? ethers.parseUnits(value, "gwei") : undefined);
+  return {
+    policy: {
+      confirmations: int(env.TX_CONFIRMATIONS),
+      timeout: int(env.TX_TIMEOUT_MS),
+      replace_after: int(env.TX_REPLACE_AFTER_MS),
+    },
+    caps: {
+      maxFeePerGas: gweiCap(env.TX_MAX_FEE_GWEI),
+      maxPriorityFeePerGas: gweiCap(env.TX_MAX_PRIORITY_FEE_GWEI),
+    },
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Transaction Simulator
+ *
+ * Dry-run support for ethereum-transaction steps: encodes the call,
+ * executes it with eth_call against a block, estimates gas, and decodes
+ * return values and revert reasons (custom errors such as PriceManager's
+ * PriceOutOfBounds, Error(string) and Panic(uint256)) without broadcasting.
+ *
+ * Requirements:
+ * - 2.3: Submit Price_Recommendation to on-chain smart contract
+ * - 13.3: Log transaction failures
+ */
+
+import { ethers } from "ethers";
+import { errorFields } from "./retryPolicy";
+import { DryRunReport } from "./types";
+
+/**
+ * Errors from inherited OpenZeppelin contracts, decoded even when the step ABI omits them
+ */
+const COMMON_ERRORS = [
+  "error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)",
+  "error AccessControlBadConfirmation()",
+  "error ReentrancyGuardReentrantCall()",
+  "error EnforcedPause()",
+];
+
+export interface SimulationRequest {
+  to: string;
+  abi: ethers.InterfaceAbi;
+  functionName: string;
+  args: unknown[];
+  from?: string;
+  blockTag?: ethers.BlockTag;
+}
+
+export type SimulationProvider = Pick<ethers.Provider, "call" | "estimateGas">;
+
+export interface DecodedRevert {
+  name: string;
+  signature?: string;
+  args: Record<string, string>;
+  /** Human-readable form, e.g. PriceOutOfBounds(price=4000000000, lowerBound=..., upperBound=...) */
+  reason: string;
+}
+
+/**
+ * Convert decoded ABI values to JSON-safe values (bigints become strings)
+ */
+export function toPlainValue(value: unknown): unknown {
+  if (typeof value === "bigint") return value.toString();
+  if (value instanceof ethers.Result) return value.toArray().map(toPlainValue);
+  if (Array.isArray(value)) return value.map(toPlainValue);
+  return value;
+}
+
+/**
+ * Find revert data on an ethers or JSON-RPC error
+ */
+export function extractRevertData(error: unknown): string | undefined {
+  const fields = errorFields(error);
+  const candidates = [fields, fields.info?.error, fields.error].flatMap((source) => [source?.data, errorFields(source?.data).data]);
+  return candidates.find(
+    (data): data is string => typeof data === "string" && /^0x[0-9a-fA-F]*$/.test(data) && data.length >= 10
+  );
+}
+
+/**
+ * Decode revert data using the contract ABI plus common OpenZeppelin errors
+ */
+export function decodeRevert(abi: ethers.InterfaceAbi, data: string): DecodedRevert {
+  const fragments = [...new ethers.Interface(abi).fragments, ...new ethers.Interface(COMMON_ERRORS).fragments];
+  const iface = new ethers.Interface(fragments);
+
+  let parsed: ethers.ErrorDescription | null = null;
+  try {
+    parsed = iface.parseError(data);
+  } catch {
+    parsed = null;
+  }
+
+  if (!parsed) {
+    return { name: "UnknownError", args: {}, reason: `Unknown revert (selector ${data.slice(0, 10)})` };
+  }
+
+  const args: Record<string, string> = {};
+  parsed.fragment.inputs.forEach((input, i) => {
+    args[input.name || String(i)] = String(toPlainValue(parsed!.args[i]));
+  });
+
+  const argText = Object.entries(args)
+    .map(([name, value]) => (/^\d+$/.test(name) ? value : `${name}=${value}`))
+    .join(", ");
+
+  return {
+    name: parsed.name,
+    signature: parsed.signature,
+    args,
+    reason: parsed.name === "Error" ? args.message ?? argText : `${parsed.name}(${argText})`,
+  };
+}
+
+/**
+ * Simulate a contract call without broadcasting it
+ */
+export async function simulateTransaction(
+  provider: SimulationProvider,
+  request: SimulationRequest
+): Promise<DryRunReport> {
+  const iface = new ethers.Interface(request.abi);
+  const calldata = iface.encodeFunctionData(request.functionName, request.args);
+  const blockTag = request.blockTag ?? "latest";
+  const tx: ethers.TransactionRequest = { to: request.to, from: request.from, data: calldata, blockTag };
+
+  const report: DryRunReport = {
+    to: request.to,
+    ...(request.from ? { from: request.from } : {}),
+    function_name: request.functionName,
+    calldata,
+    block_tag: typeof blockTag === "bigint" ? Number(blockTag) : blockTag,
+    would_revert: false,
+  };
+
+  try {
+    const returnData = await provider.call(tx);
+    const decoded = iface.decodeFunctionResult(request.functionName, returnData);
+    const values = toPlainValue(decoded) as unknown[];
+    if (values.length > 0) {
+      report.return_value = values.length === 1 ? values[0] : values;
+    }
+  } catch (error) {
+    const data = extractRevertData(error);
+    if (data === undefined && !ethers.isCallException(error)) {
+      throw error;
+    }
+
+    const revert = data !== undefined ? decodeRevert(request.abi, data) : undefined;
+    report.would_revert = true;
+    report.revert_reason = revert?.reason ?? errorFields(error).shortMessage ?? "execution reverted";
+    if (revert) {
+      report.revert_error = { name: revert.name, ...(revert.signature ? { signature: revert.signature } : {}), args: revert.args };
+    }
+    return report;
+  }
+
+  try {
+    report.estimated_gas = (await provider.estimateGas(tx)).toString();
+  } catch (error) {
+    report.error = `Gas estimation failed: ${errorFields(error).shortMessage || (error instanceof Error ? error.message : String(error))}`;
+  }
+
+  return report;
+}
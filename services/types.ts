@@ -27,6 +27,36 @@ export interface MarketData {
   };
   timestamp: number;
   isStale?: boolean;
+  /** Provider that produced the data (see services/marketDataProviders.ts) */
+  provider?: string;
+  /** When the provider's source data was current (ms since epoch), e.g. a reference table's publication date */
+  dataAsOf?: number;
+  /** live: fetched for this request; cached: from the oracle cache; stale: expired cache used after every provider failed */
+  freshness?: "live" | "cached" | "stale";
+  /** How the sources agreed, when more than one provider answered (provider is then "consensus") */
+  consensus?: MarketDataConsensus;
+}
+
+/** One provider's contribution to a consensus */
+export interface MarketDataSourceSummary {
+  provider: string;
+  medianRent: number;
+  averageRent: number;
+  comparables: number;
+  /** False when the source's median rent was an outlier among the sources */
+  accepted: boolean;
+}
+
+export interface MarketDataConsensus {
+  sources: MarketDataSourceSummary[];
+  /** Median absolute deviation of the accepted sources' median rents, as a percent of the consensus median */
+  dispersion: number;
+  /** 0-100: share of sources accepted, scaled down as their median rents spread apart */
+  confidence: number;
+  /** Comparables reported by more than one source, merged by normalized address */
+  duplicateComparables: number;
+  /** Comparables dropped because their rent was an outlier among all comparables */
+  rejectedComparables: number;
 }
 
 export interface CachedMarketData {
@@ -60,6 +90,7 @@ export interface PricingRecommendation {
   price: number;
   confidence: number;
   reasoning: string;
+  isFallback?: boolean;
 }
 
 /**
@@ -100,12 +131,50 @@ export interface WorkflowConfig {
 }
 
 export interface Trigger {
-  type: "cron" | "manual";
+  type: "cron" | "manual" | "event";
   schedule?: string;
   description: string;
   enabled: boolean;
+  /** How the scheduler handles ticks missed while it was down (default run_once) */
+  catch_up?: CatchUpPolicy;
+  /** Cap on missed ticks replayed with catch_up: run_all (default 10) */
+  max_catch_up?: number;
+  /** Event triggers (see services/eventTrigger.ts): contract emitting the event (supports ${ENV_VAR}) */
+  contract_address?: string;
+  /** Event signature with parameter names, e.g. "RentalPaymentReceived(uint256 amount, uint256 timestamp, address indexed payer)" */
+  event?: string;
+  /** Values the event's indexed parameters must match, by name */
+  filter?: Record<string, string>;
+  /** poll: on an interval (default); websocket: on every new block pushed by the node */
+  transport?: "poll" | "websocket";
+  /** Milliseconds between polls (default 15000) */
+  poll_interval?: number;
+  /** Blocks a log needs before it starts a run (default 1: included in the latest block) */
+  confirmations?: number;
+  /** First block to scan when there is no checkpoint (default: the current block) */
+  from_block?: number;
+  /** Blocks per eth_getLogs request (default 2000) */
+  max_block_range?: number;
+}
+
+/**
+ * The on-chain log that started an event-triggered run
+ */
+export interface TriggeredEvent {
+  /** Trigger key: <event name>@<contract address> */
+  trigger: string;
+  event: string;
+  contract_address: string;
+  block_number: number;
+  block_hash: string;
+  transaction_hash: string;
+  log_index: number;
+  /** Decoded event parameters (bigints as strings) */
+  args: Record<string, string>;
 }
 
+export type CatchUpPolicy = "skip" | "run_once" | "run_all";
+
 export interface EnvironmentVariable {
   required: boolean;
   default?: string;
@@ -116,7 +185,8 @@ export interface EnvironmentVariable {
 export interface WorkflowStep {
   id: string;
   name: string;
-  type: "http-request" | "ethereum-transaction" | "ethereum-call";
+  /** Step type name, resolved through the step registry (see services/stepRegistry.ts) */
+  type: string;
   description: string;
   depends_on?: string[];
   condition?: string;
@@ -125,7 +195,13 @@ export interface WorkflowStep {
   on_error: ErrorConfig;
 }
 
+/**
+ * Config keys used by the built-in step types. Each step type's handler
+ * validates and narrows its own config (e.g. HttpRequestConfig); custom
+ * step types may add keys of their own.
+ */
 export interface StepConfig {
+  [key: string]: any;
   method?: string;
   url?: string;
   headers?: Record<string, string>;
@@ -146,10 +222,227 @@ export interface StepConfig {
   max_priority_fee_per_gas?: number;
 }
 
+export interface HttpRequestConfig {
+  method?: string;
+  url: string;
+  headers?: Record<string, string>;
+  query_params?: Record<string, any>;
+  body?: any;
+  timeout?: number;
+  cache?: CacheConfig;
+  retry?: RetryConfig;
+}
+
+export interface EthereumCallConfig {
+  rpc_url?: string;
+  chain_id?: number;
+  contract_address: string;
+  /** Function name, or signature for overloaded functions */
+  function_name: string;
+  abi: string;
+  function_args?: any[];
+  /** Block to read at: a number or a tag such as latest, safe or finalized (calls only) */
+  block_tag?: number | string;
+  timeout?: number;
+  retry?: RetryConfig;
+}
+
+/**
+ * Reads batched into one eth_call through Multicall3 (see services/multicall.ts)
+ */
+export interface EthereumMulticallConfig {
+  rpc_url?: string;
+  chain_id?: number;
+  /** Multicall3 deployment (defaults to the canonical address) */
+  multicall_address?: string;
+  /** ABI for calls that do not set their own */
+  abi?: string;
+  calls: MulticallCallConfig[];
+  block_tag?: number | string;
+  timeout?: number;
+  retry?: RetryConfig;
+}
+
+export interface MulticallCallConfig {
+  /** Key of the call's result under $.result */
+  id: string;
+  contract_address: string;
+  function_name: string;
+  abi?: string;
+  function_args?: any[];
+  /** A revert yields null instead of failing the step */
+  allow_failure?: boolean;
+}
+
+export interface EthereumTransactionConfig extends EthereumCallConfig {
+  private_key?: string;
+  gas_limit?: number;
+  /** Caps on the estimated EIP-1559 fees, in wei */
+  max_fee_per_gas?: number;
+  max_priority_fee_per_gas?: number;
+  transaction?: TransactionPolicy;
+}
+
+/**
+ * Submission policy for ethereum-transaction steps and deploy scripts
+ * (see services/transactionManager.ts)
+ */
+export interface TransactionPolicy {
+  /** Blocks to wait for, counting the inclusion block (default 1) */
+  confirmations?: number;
+  /** Give up waiting after this many ms (default 600000) */
+  timeout?: number;
+  /** Replace a transaction still pending after this many ms (default 60000) */
+  replace_after?: number;
+  /** Fee increase per replacement in percent (default 15; nodes require at least 10) */
+  fee_bump_percent?: number;
+  /** Replacements before waiting out the timeout (default 3) */
+  max_replacements?: number;
+  /** Recent blocks sampled for the priority fee (default 10) */
+  fee_history_blocks?: number;
+  /** Reward percentile taken from each sampled block (default 50) */
+  priority_fee_percentile?: number;
+  /** Receipt polling interval in ms (default 4000) */
+  poll_interval?: number;
+}
+
+/**
+ * Policy-driven YieldDistributor.distributeYields() (see services/yieldDistribution.ts)
+ */
+export interface YieldDistributionConfig {
+  rpc_url?: string;
+  chain_id?: number;
+  private_key?: string;
+  /** YieldDistributor contract */
+  contract_address: string;
+  /** PriceManager to read the current rent from (defaults to the YieldDistributor's) */
+  price_manager_address?: string;
+  multicall_address?: string;
+  policy?: DistributionPolicyConfig;
+  gas_limit?: number;
+  max_fee_per_gas?: number;
+  max_priority_fee_per_gas?: number;
+  transaction?: TransactionPolicy;
+  timeout?: number;
+  retry?: RetryConfig;
+}
+
+/**
+ * When a distribution is due. With both thresholds set the lower one applies;
+ * with neither, any non-empty pool is distributed.
+ */
+export interface DistributionPolicyConfig {
+  /** Pool balance in USD */
+  min_pool_usd?: number;
+  /** Pool balance as a multiple of the current monthly rent */
+  min_rent_multiple?: number;
+  /** Hours since the last Distribution.timestamp */
+  min_interval_hours?: number;
+}
+
+/**
+ * Auto-accept for recommendations submitted to PriceManager
+ * (see services/recommendationAcceptance.ts)
+ */
+export interface RecommendationAcceptanceConfig {
+  rpc_url?: string;
+  chain_id?: number;
+  private_key?: string;
+  /** PriceManager contract */
+  contract_address: string;
+  /**
+   * submitRecommendation transaction whose recommendation is evaluated;
+   * when omitted the latest pending recommendation is
+   */
+  transaction_hash?: string;
+  multicall_address?: string;
+  policy: AutoAcceptPolicyConfig;
+  gas_limit?: number;
+  max_fee_per_gas?: number;
+  max_priority_fee_per_gas?: number;
+  transaction?: TransactionPolicy;
+  timeout?: number;
+  retry?: RetryConfig;
+}
+
+/**
+ * A recommendation is accepted only when every condition holds, and only if
+ * no other recommendation is pending
+ */
+export interface AutoAcceptPolicyConfig {
+  /** Minimum confidence score (0-100) */
+  min_confidence: number;
+  /** Largest change from the current rent, in percent either way */
+  max_change_percent: number;
+}
+
+export interface MarketDataConfig {
+  address: string;
+  property_type: string;
+  radius_miles?: number | string;
+  /** RentCast endpoint and key, used when providers is not set */
+  api_url?: string;
+  api_key?: string;
+  providers?: MarketDataProviderConfig[];
+  /**
+   * consensus (default): query every provider and merge their answers;
+   * fallback: try providers in order, the first with data wins
+   */
+  strategy?: MarketDataStrategy;
+}
+
+export type MarketDataStrategy = "consensus" | "fallback";
+
+export type MarketDataProviderConfig =
+  | { type: "rentcast"; api_key?: string; api_url?: string }
+  | {
+      type: "http-json";
+      name?: string;
+      /** address, radius and propertyType are appended as query parameters */
+      url: string;
+      headers?: Record<string, string>;
+      /** JSONPaths for comparables, averageRent, medianRent, occupancyRate, rentGrowthYoY, asOf */
+      paths?: Record<string, string>;
+      /** Field names within each comparable */
+      comparable_fields?: Record<string, string>;
+    }
+  | { type: "csv"; file: string; name?: string }
+  | { type: "reference" };
+
+export interface AiPricingConfig {
+  /** Market data from an upstream market-data step */
+  market_data: MarketData;
+  property: {
+    address: string;
+    property_type: string;
+    valuation: number | string;
+    /** Compared with the comparables' bedrooms, bathrooms and size (see services/comparables.ts) */
+    bedrooms?: number | string;
+    bathrooms?: number | string;
+    square_feet?: number | string;
+  };
+  /** Read the current rent from PriceManager.getCurrentRentalPrice() when set */
+  price_manager_address?: string;
+  /** Current monthly rent when it cannot be read on-chain */
+  current_rent?: number | string;
+  model?: string;
+  api_key?: string;
+}
+
+export interface DryRunOptions {
+  /** Block to simulate against (default "latest") */
+  blockTag?: string | number;
+  /** Sender for simulated calls (defaults to the PRIVATE_KEY wallet) */
+  from?: string;
+}
+
 export interface CacheConfig {
   enabled: boolean;
+  /** Seconds a cached response stays fresh */
   ttl: number;
+  /** Serve the cached response, however old, when the request fails */
   use_on_error: boolean;
+  /** Cache entry name (defaults to the method, URL and body of the request) */
   key?: string;
 }
 
@@ -204,6 +497,8 @@ export interface MonitoringConfig {
   enabled: boolean;
   metrics: MetricConfig[];
   alerts: AlertConfig[];
+  /** Where fired alerts are delivered (defaults to a single log sink) */
+  sinks?: AlertSinkConfig[];
 }
 
 export interface MetricConfig {
@@ -216,6 +511,19 @@ export interface AlertConfig {
   condition: string;
   severity?: string;
   message: string;
+  /** Fire only when the condition held for this many consecutive runs (default 1) */
+  for_runs?: number;
+  /** Names of the sinks to route to (default: all sinks) */
+  sinks?: string[];
+}
+
+export interface AlertSinkConfig {
+  name: string;
+  type: "log" | "webhook" | "file";
+  /** Webhook URL (supports ${ENV_VAR}) */
+  url?: string;
+  /** File path for JSON-lines output (supports ${ENV_VAR}) */
+  path?: string;
 }
 
 export interface WorkflowMetadata {
@@ -237,8 +545,56 @@ export interface WorkflowState {
   status: "running" | "completed" | "failed";
   current_step?: string;
   step_outputs: Record<string, any>;
+  step_results: Record<string, StepResult>;
   errors: WorkflowError[];
   metrics: Record<string, any>;
+  alerts?: FiredAlert[];
+  resumed_from?: string;
+  /** Transactions were simulated, not broadcast */
+  dry_run?: boolean;
+  /** Property the run was fanned out for (see services/multiPropertyRunner.ts) */
+  property_id?: string;
+  /** Set for runs started by an event trigger */
+  trigger_event?: TriggeredEvent;
+  /** Run inputs that overrode workflow variables (sensitive ones are not recorded) */
+  variables?: Record<string, string>;
+  /** Set for runs of one step with injected upstream outputs */
+  single_step?: string;
+  /** Execution this run replayed */
+  replayed_from?: string;
+}
+
+export interface StepResult {
+  status: "running" | "completed" | "skipped" | "failed";
+  started_at: number;
+  finished_at?: number;
+  duration?: number;
+  error?: string;
+  cached?: boolean;
+  /** Latest broadcast transaction */
+  transaction_hash?: string;
+  /** Every hash broadcast for the step, including fee-bumped replacements */
+  transaction_hashes?: string[];
+  reused?: boolean;
+  dry_run?: DryRunReport;
+  distribution?: DistributionReport;
+  acceptance?: AcceptanceReport;
+  /** One entry per attempt made through the step's retry policy */
+  attempts?: AttemptRecord[];
+}
+
+export type FailureKind = "http_status" | "timeout" | "rpc_transient" | "nonce" | "revert" | "unknown";
+
+export interface AttemptRecord {
+  attempt: number;
+  started_at: number;
+  duration: number;
+  error?: string;
+  failure_kind?: FailureKind;
+  status?: number;
+  retryable?: boolean;
+  /** Backoff before the next attempt, when one follows */
+  delay?: number;
 }
 
 export interface WorkflowError {
@@ -254,4 +610,130 @@ export interface StepExecutionResult {
   error?: string;
   duration: number;
   cached?: boolean;
+  /** Simulation report for ethereum-transaction steps run in dry-run mode */
+  dry_run?: DryRunReport;
+  /** Policy decision and outcome of yield-distribution steps */
+  distribution?: DistributionReport;
+  /** Auto-accept decision of recommendation-acceptance steps */
+  acceptance?: AcceptanceReport;
+}
+
+export interface DryRunReport {
+  to: string;
+  from?: string;
+  function_name: string;
+  calldata: string;
+  block_tag: string | number;
+  would_revert: boolean;
+  /** Decoded return value (bigints as strings) */
+  return_value?: any;
+  estimated_gas?: string;
+  revert_reason?: string;
+  revert_error?: { name: string; signature?: string; args: Record<string, string> };
+  /** Non-revert simulation problems, e.g. gas estimation failure */
+  error?: string;
+}
+
+export interface DistributionReport {
+  /** simulated: dry run; the simulation is attached */
+  status: "distributed" | "skipped" | "simulated";
+  reason: string;
+  /** Block the policy was evaluated at */
+  block_number: number;
+  pool_usd: number;
+  rent_usd?: number;
+  threshold_usd?: number;
+  last_distribution_id?: number;
+  last_distribution_at?: number;
+  next_eligible_at?: number;
+  simulation?: DryRunReport;
+  transaction_hash?: string;
+  distribution_id?: number;
+  distributed_usd?: number;
+  recipient_count?: number;
+}
+
+/**
+ * Audit record of an auto-accept decision: the policy, its inputs and the
+ * outcome of each check
+ */
+export interface AcceptanceReport {
+  /** pending: left for a property manager; none: nothing to evaluate; simulated: dry run */
+  status: "accepted" | "pending" | "none" | "simulated";
+  reason: string;
+  policy: AutoAcceptPolicyConfig;
+  /** Block the policy was evaluated at */
+  block_number?: number;
+  recommendation_id?: number;
+  confidence?: number;
+  recommended_price_usd?: number;
+  current_rent_usd?: number;
+  change_percent?: number;
+  other_pending_ids?: number[];
+  checks?: AcceptanceCheck[];
+  simulation?: DryRunReport;
+  transaction_hash?: string;
+}
+
+export interface AcceptanceCheck {
+  name: "confidence" | "price_change" | "no_other_pending";
+  passed: boolean;
+  detail: string;
+}
+
+export interface PropertyRunSummary {
+  property_id: string;
+  property_name: string;
+  /** Absent when the run could not start (e.g. invalid workflow) */
+  execution_id?: string;
+  status: "completed" | "failed";
+  duration: number;
+  /** Final status of each step */
+  steps: Record<string, StepResult["status"]>;
+  errors: string[];
+}
+
+/**
+ * Aggregated report for one workflow run fanned out over several properties
+ */
+export interface MultiPropertyReport {
+  workflow_id: string;
+  started_at: number;
+  finished_at: number;
+  duration: number;
+  concurrency: number;
+  /** partial: some properties failed */
+  status: "completed" | "partial" | "failed";
+  total: number;
+  completed: number;
+  failed: number;
+  properties: PropertyRunSummary[];
+}
+
+export interface CircuitBreakerState {
+  workflow_id: string;
+  consecutive_failures: number;
+  tripped: boolean;
+  tripped_at?: number;
+  last_execution_id?: string;
+  last_failure?: string;
+  updated_at: number;
+}
+
+export interface FiredAlert {
+  condition: string;
+  severity: WorkflowNotification["severity"];
+  message: string;
+  timestamp: number;
+  sinks: string[];
+}
+
+export interface WorkflowNotification {
+  workflow_id: string;
+  execution_id?: string;
+  severity: "info" | "warning" | "error" | "critical";
+  title: string;
+  message: string;
+  timestamp: number;
+  details?: Record<string, any>;
 }
@@ -0,0 +1,419 @@
+/**
+ * Workflow Command Line Interface
+ *
+ * One entry point for running and operating workflows (scripts/workflow.ts):
+ *
+ *   run [workflow.yaml]                      Execute the workflow
+ *   run [workflow.yaml] --step <id>          Run one step; its dependencies' outputs come
+ *       [--input <file.json>] [--from-run <execution_id>]
+ *                                            from a JSON file ({"<step-id>": {outputs}})
+ *                                            and/or a recorded run (the file wins)
+ *   validate [workflow.yaml ...] [--no-env]  Check workflow files
+ *   history [--workflow <id>] [--status <status>] [--limit <n>]
+ *                                            List recorded runs, newest first
+ *   inspect <execution_id>                   Show one recorded run
+ *   replay <execution_id> [workflow.yaml] [--step <id>]
+ *                                            Re-run with the recorded trigger, property and
+ *                                            variables (--step: one step, with the recorded
+ *                                            upstream outputs)
+ *
+ * --json prints a machine-readable result on stdout (run logs go to stderr);
+ * --dry-run simulates transactions instead of sending them. Runs are
+ * recorded in WORKFLOW_RUN_DIR (default .workflow-runs), and responses are
+ * cached in the WORKFLOW_CACHE backend (see services/cacheStore.ts).
+ *
+ * Exit codes: 0 success, 1 failed run, invalid workflow or error, 2 usage.
+ *
+ * Requirements:
+ * - 11.2: Execute via manual or scheduled trigger
+ * - 11.3: Log each step execution with timestamps
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { FileRunStore, RunQuery } from "./runStore";
+import { createSecretsProvider } from "./secretsProvider";
+import { isFailedExecution } from "./circuitBreaker";
+import { ValidationResult, formatIssue, validateWorkflowFile } from "./workflowValidator";
+import {
+  CommandLineOptions,
+  dryRunFromEnv,
+  executeWorkflow,
+  executeWorkflowStep,
+  replayWorkflow,
+} from "./workflowOrchestrator";
+import { WorkflowState } from "./types";
+
+export const EXIT_OK = 0;
+export const EXIT_FAILED = 1;
+export const EXIT_USAGE = 2;
+
+export const DEFAULT_WORKFLOW = path.join(__dirname, "..", "workflows", "yieldprop-optimization.yaml");
+
+const USAGE = `Usage: workflow <command> [options]
+
+Commands:
+  run [workflow.yaml] [--step <id> [--input <file.json>] [--from-run <execution_id>]]
+  validate [workflow.yaml ...] [--no-env]
+  history [--workflow <id>] [--status running|completed|failed] [--limit <n>]
+  inspect <execution_id>
+  replay <execution_id> [workflow.yaml] [--step <id>]
+
+Options:
+  --json      Print a machine-readable result on stdout
+  --dry-run   Simulate transactions instead of sending them`;
+
+const VALUE_FLAGS = ["--step", "--input", "--from-run", "--workflow", "--status", "--limit"];
+const BOOLEAN_FLAGS = ["--json", "--dry-run", "--no-env", "--help"];
+
+export interface CliOutput {
+  out(text: string): void;
+  err(text: string): void;
+}
+
+const processOutput: CliOutput = {
+  out: (text) => process.stdout.write(`${text}\n`),
+  err: (text) => process.stderr.write(`${text}\n`),
+};
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+interface ParsedArgs {
+  command?: string;
+  positionals: string[];
+  flags: Map<string, string | true>;
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const [command, ...rest] = argv;
+  const positionals: string[] = [];
+  const flags = new Map<string, string | true>();
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (VALUE_FLAGS.includes(arg)) {
+      const value = rest[++i];
+      if (value === undefined || value.startsWith("--")) {
+        throw new UsageError(`${arg} needs a value`);
+      }
+      flags.set(arg, value);
+    } else if (BOOLEAN_FLAGS.includes(arg)) {
+      flags.set(arg, true);
+    } else if (arg.startsWith("--")) {
+      throw new UsageError(`Unknown option ${arg}`);
+    } else {
+      positionals.push(arg);
+    }
+  }
+
+  return { command, positionals, flags };
+}
+
+function stringFlag(args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags.get(name);
+  return typeof value === "string" ? value : undefined;
+}
+
+function maxPositionals(args: ParsedArgs, count: number): void {
+  if (args.positionals.length > count) {
+    throw new UsageError(`Unexpected argument ${args.positionals[count]}`);
+  }
+}
+
+/**
+ * Run the CLI; resolves to the process exit code
+ */
+export async function runCli(argv: string[], output: CliOutput = processOutput): Promise<number> {
+  let args: ParsedArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (error) {
+    output.err(`${(error as Error).message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  const json = args.flags.has("--json");
+  if (!args.command) {
+    output.err(USAGE);
+    return EXIT_USAGE;
+  }
+  if (args.command === "help" || args.flags.has("--help")) {
+    output.out(USAGE);
+    return EXIT_OK;
+  }
+
+  // Run logs must not mix with the JSON result on stdout
+  const originalLog = console.log;
+  if (json) {
+    console.log = (...items: unknown[]) => output.err(items.map(String).join(" "));
+  }
+
+  try {
+    switch (args.command) {
+      case "run":
+        return await runCommand(args, output);
+      case "validate":
+        return validateCommand(args, output);
+      case "history":
+        return await historyCommand(args, output);
+      case "inspect":
+        return await inspectCommand(args, output);
+      case "replay":
+        return await replayCommand(args, output);
+      default:
+        throw new UsageError(`Unknown command ${args.command}`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      output.err(`${error.message}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    if (json) {
+      output.out(JSON.stringify({ error: message }, null, 2));
+    } else {
+      output.err(`❌ ${message}`);
+    }
+    return EXIT_FAILED;
+  } finally {
+    console.log = originalLog;
+  }
+}
+
+function runOptions(args: ParsedArgs): CommandLineOptions {
+  return args.flags.has("--dry-run") ? { dryRun: dryRunFromEnv({ ...process.env, WORKFLOW_DRY_RUN: "true" }) } : {};
+}
+
+async function runCommand(args: ParsedArgs, output: CliOutput): Promise<number> {
+  maxPositionals(args, 1);
+  const configPath = args.positionals[0] || DEFAULT_WORKFLOW;
+  const stepId = stringFlag(args, "--step");
+  const inputFile = stringFlag(args, "--input");
+  const fromRun = stringFlag(args, "--from-run");
+  if (!stepId && (inputFile || fromRun)) {
+    throw new UsageError("--input and --from-run need --step");
+  }
+
+  const runStore = new FileRunStore();
+  let state: WorkflowState;
+  if (stepId) {
+    let upstreamOutputs: Record<string, Record<string, any>> = {};
+    if (fromRun) {
+      const recorded = await runStore.get(fromRun);
+      if (!recorded) {
+        throw new Error(`Run not found: ${fromRun}`);
+      }
+      upstreamOutputs = { ...recorded.step_outputs };
+    }
+    if (inputFile) {
+      upstreamOutputs = { ...upstreamOutputs, ...readInputFile(inputFile) };
+    }
+    state = await executeWorkflowStep(configPath, stepId, upstreamOutputs, runStore, runOptions(args));
+  } else {
+    state = await executeWorkflow(configPath, runStore, runOptions(args));
+  }
+
+  return reportRun(state, args, output);
+}
+
+async function replayCommand(args: ParsedArgs, output: CliOutput): Promise<number> {
+  maxPositionals(args, 2);
+  const [executionId, configPath = DEFAULT_WORKFLOW] = args.positionals;
+  if (!executionId) {
+    throw new UsageError("replay needs an execution id");
+  }
+
+  const state = await replayWorkflow(configPath, executionId, new FileRunStore(), {
+    ...runOptions(args),
+    stepId: stringFlag(args, "--step"),
+  });
+  return reportRun(state, args, output);
+}
+
+/**
+ * Upstream outputs keyed by step id
+ */
+function readInputFile(file: string): Record<string, Record<string, any>> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(`Cannot read step outputs from ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`${file} must map step ids to their outputs`);
+  }
+  for (const [stepId, outputs] of Object.entries(parsed)) {
+    if (typeof outputs !== "object" || outputs === null || Array.isArray(outputs)) {
+      throw new Error(`${file}: outputs of ${stepId} must be an object`);
+    }
+  }
+  return parsed as Record<string, Record<string, any>>;
+}
+
+function reportRun(state: WorkflowState, args: ParsedArgs, output: CliOutput): number {
+  const failed = isFailedExecution(state);
+  if (args.flags.has("--json")) {
+    output.out(JSON.stringify(state, null, 2));
+  } else {
+    output.out(formatRun(state));
+  }
+  return failed ? EXIT_FAILED : EXIT_OK;
+}
+
+function validateCommand(args: ParsedArgs, output: CliOutput): number {
+  const checkEnvironment = !args.flags.has("--no-env");
+  const json = args.flags.has("--json");
+  const files = args.positionals.length > 0 ? args.positionals : [DEFAULT_WORKFLOW];
+
+  const secrets = checkEnvironment ? createSecretsProvider() : undefined;
+  let failed = false;
+  const results: Array<{ file: string } & Omit<ValidationResult, "config">> = [];
+
+  for (const file of files) {
+    let result: ValidationResult;
+    try {
+      result = validateWorkflowFile(file, { checkEnvironment, secrets });
+    } catch (error) {
+      result = { valid: false, issues: [{ severity: "error", message: String(error), path: "" }] };
+    }
+    failed = failed || !result.valid;
+    results.push({ file, valid: result.valid, issues: result.issues });
+
+    if (!json) {
+      for (const issue of result.issues) {
+        output.out(formatIssue(issue, path.relative(process.cwd(), file)));
+      }
+      const errors = result.issues.filter((issue) => issue.severity === "error").length;
+      const warnings = result.issues.length - errors;
+      output.out(`${result.valid ? "✅" : "❌"} ${file}: ${errors} error(s), ${warnings} warning(s)`);
+    }
+  }
+
+  if (json) {
+    output.out(JSON.stringify(results, null, 2));
+  }
+
+  return failed ? EXIT_FAILED : EXIT_OK;
+}
+
+async function historyCommand(args: ParsedArgs, output: CliOutput): Promise<number> {
+  maxPositionals(args, 0);
+  const status = stringFlag(args, "--status");
+  if (status && !["running", "completed", "failed"].includes(status)) {
+    throw new UsageError(`--status must be running, completed or failed (got ${status})`);
+  }
+  const limit = stringFlag(args, "--limit");
+  if (limit !== undefined && !/^\d+$/.test(limit)) {
+    throw new UsageError(`--limit must be a non-negative integer (got ${limit})`);
+  }
+
+  const query: RunQuery = {
+    workflowId: stringFlag(args, "--workflow"),
+    status: status as RunQuery["status"],
+    limit: limit !== undefined ? parseInt(limit, 10) : 20,
+  };
+  const runs = await new FileRunStore().list(query);
+
+  if (args.flags.has("--json")) {
+    output.out(JSON.stringify(runs.map(runSummary), null, 2));
+  } else if (runs.length === 0) {
+    output.out("No recorded runs");
+  } else {
+    for (const run of runs) {
+      output.out(formatRunLine(run));
+    }
+  }
+  return EXIT_OK;
+}
+
+async function inspectCommand(args: ParsedArgs, output: CliOutput): Promise<number> {
+  maxPositionals(args, 1);
+  const [executionId] = args.positionals;
+  if (!executionId) {
+    throw new UsageError("inspect needs an execution id");
+  }
+
+  const state = await new FileRunStore().get(executionId);
+  if (!state) {
+    throw new Error(`Run not found: ${executionId}`);
+  }
+
+  output.out(args.flags.has("--json") ? JSON.stringify(state, null, 2) : formatRun(state));
+  return EXIT_OK;
+}
+
+/**
+ * One history entry
+ */
+export function runSummary(state: WorkflowState) {
+  return {
+    execution_id: state.execution_id,
+    workflow_id: state.workflow_id,
+    status: state.status,
+    failed: isFailedExecution(state),
+    start_time: state.start_time,
+    end_time: state.end_time,
+    duration: state.end_time !== undefined ? state.end_time - state.start_time : undefined,
+    errors: state.errors.length,
+    ...(state.property_id ? { property_id: state.property_id } : {}),
+    ...(state.dry_run ? { dry_run: true } : {}),
+    ...(state.single_step ? { single_step: state.single_step } : {}),
+    ...(state.resumed_from ? { resumed_from: state.resumed_from } : {}),
+    ...(state.replayed_from ? { replayed_from: state.replayed_from } : {}),
+  };
+}
+
+function formatRunLine(state: WorkflowState): string {
+  const marker = isFailedExecution(state) ? "❌" : state.status === "running" ? "⏳" : "✅";
+  const duration = state.end_time !== undefined ? ` ${state.end_time - state.start_time}ms` : "";
+  const notes = [
+    state.property_id && `property ${state.property_id}`,
+    state.dry_run && "dry run",
+    state.single_step && `step ${state.single_step}`,
+    state.resumed_from && `resumed from ${state.resumed_from}`,
+    state.replayed_from && `replay of ${state.replayed_from}`,
+    state.errors.length > 0 && `${state.errors.length} error(s)`,
+  ].filter(Boolean);
+  return (
+    `${marker} ${state.execution_id} ${state.workflow_id} ${state.status} ` +
+    `${new Date(state.start_time).toISOString()}${duration}${notes.length > 0 ? ` (${notes.join(", ")})` : ""}`
+  );
+}
+
+/**
+ * Human-readable run: a summary line, then one line per step
+ */
+export function formatRun(state: WorkflowState): string {
+  const lines = [formatRunLine(state)];
+  if (state.trigger_event) {
+    const event = state.trigger_event;
+    lines.push(`  Triggered by ${event.event} in block ${event.block_number} (${event.transaction_hash})`);
+  }
+
+  for (const [stepId, result] of Object.entries(state.step_results)) {
+    const duration = result.duration !== undefined ? ` ${result.duration}ms` : "";
+    const flags = [result.cached && "cached", result.reused && "reused"].filter(Boolean);
+    lines.push(`  ${stepId}: ${result.status}${duration}${flags.length > 0 ? ` (${flags.join(", ")})` : ""}`);
+    if (result.error) lines.push(`    error: ${result.error}`);
+    if (result.transaction_hash) lines.push(`    transaction: ${result.transaction_hash}`);
+    if (result.distribution) lines.push(`    distribution ${result.distribution.status}: ${result.distribution.reason}`);
+    if (result.acceptance) lines.push(`    recommendation ${result.acceptance.status}: ${result.acceptance.reason}`);
+    if (result.dry_run) {
+      const report = result.dry_run;
+      lines.push(
+        `    dry run: ${report.function_name} ${report.would_revert ? `would revert: ${report.revert_reason}` : "would succeed"}`
+      );
+    }
+  }
+
+  for (const error of state.errors.filter((error) => !state.step_results[error.step_id]?.error)) {
+    lines.push(`  ${error.step_id}: ${error.error}`);
+  }
+  return lines.join("\n");
+}
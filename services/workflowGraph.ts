@@ -0,0 +1,96 @@
+/**
+ * Workflow Step Graph
+ *
+ * Builds a dependency graph (DAG) from WorkflowStep.depends_on so the
+ * orchestrator can run steps as soon as their dependencies finish,
+ * independent of their order in the YAML file.
+ *
+ * Requirements:
+ * - 11.1: Configurable via YAML workflow definition
+ */
+
+import { WorkflowStep } from "./types";
+
+export interface StepGraph {
+  /** Step IDs in a deterministic topological order (file order breaks ties) */
+  order: string[];
+  /** Steps keyed by ID */
+  steps: Map<string, WorkflowStep>;
+  /** Direct dependencies of each step */
+  dependencies: Map<string, string[]>;
+  /** Steps that directly depend on each step */
+  dependents: Map<string, string[]>;
+}
+
+/**
+ * Build and validate the step dependency graph.
+ * Throws on duplicate step IDs, unknown dependencies and cycles.
+ */
+export function buildStepGraph(steps: WorkflowStep[]): StepGraph {
+  const stepMap = new Map<string, WorkflowStep>();
+  const dependencies = new Map<string, string[]>();
+  const dependents = new Map<string, string[]>();
+
+  for (const step of steps) {
+    if (stepMap.has(step.id)) {
+      throw new Error(`Duplicate step id: ${step.id}`);
+    }
+    stepMap.set(step.id, step);
+    dependents.set(step.id, []);
+  }
+
+  for (const step of steps) {
+    const deps = step.depends_on || [];
+    for (const depId of deps) {
+      if (!stepMap.has(depId)) {
+        throw new Error(`Step ${step.id} depends on unknown step: ${depId}`);
+      }
+      if (depId === step.id) {
+        throw new Error(`Step ${step.id} depends on itself`);
+      }
+      dependents.get(depId)!.push(step.id);
+    }
+    dependencies.set(step.id, [...new Set(deps)]);
+  }
+
+  const order = topologicalOrder(steps, dependencies);
+
+  return { order, steps: stepMap, dependencies, dependents };
+}
+
+/**
+ * Kahn's algorithm, always picking the earliest ready step in file order
+ * so the resulting order is stable across runs.
+ */
+function topologicalOrder(
+  steps: WorkflowStep[],
+  dependencies: Map<string, string[]>
+): string[] {
+  const remaining = new Map<string, number>();
+  for (const step of steps) {
+    remaining.set(step.id, dependencies.get(step.id)!.length);
+  }
+
+  const order: string[] = [];
+  const done = new Set<string>();
+
+  while (order.length < steps.length) {
+    const next = steps.find((s) => !done.has(s.id) && remaining.get(s.id) === 0);
+
+    if (!next) {
+      const cycle = steps.filter((s) => !done.has(s.id)).map((s) => s.id);
+      throw new Error(`Circular step dependency detected among: ${cycle.join(", ")}`);
+    }
+
+    order.push(next.id);
+    done.add(next.id);
+
+    for (const step of steps) {
+      if (!done.has(step.id) && dependencies.get(step.id)!.includes(next.id)) {
+        remaining.set(step.id, remaining.get(step.id)! - 1);
+      }
+    }
+  }
+
+  return order;
+}
@@ -15,75 +15,217 @@
  * - 13.3: Log transaction failures
  */
 
+import * as crypto from "crypto";
 import * as fs from "fs";
-import * as yaml from "yaml";
 import { ethers } from "ethers";
-import { MarketDataOracle } from "./marketDataOracle";
-import { AIPricingAgent } from "./aiPricingAgent";
+import { StepGraph, buildStepGraph } from "./workflowGraph";
+import { Expression, parseExpression, evaluateExpression, isTruthy } from "./expressionEvaluator";
+import { extractOutput, validateOutputs } from "./outputExtractor";
+import { RunStore, FileRunStore } from "./runStore";
+import { CacheStore, InMemoryCacheStore, defaultCacheStore } from "./cacheStore";
+import { CircuitBreaker, CircuitUpdate, circuitId } from "./circuitBreaker";
+import { Notifier, createDefaultNotifier } from "./notifier";
+import { MetricsRegistry, collectRunMetrics, defaultMetricsRegistry, recordCacheMetrics, recordRunMetrics } from "./metrics";
+import { AlertEngine, createAlertSink } from "./alerts";
+import { WorkflowValidationError, formatIssue, validateWorkflow } from "./workflowValidator";
+import { RetryExhaustedError, classifyError, isRetryable, retryDelay, withTimeout } from "./retryPolicy";
+import { StepContext, StepRegistry, defaultStepRegistry } from "./stepRegistry";
+import { transactionOutputs } from "./stepHandlers";
+import {
+  ChainedSecretsProvider,
+  EnvSecretsProvider,
+  SecretRedactor,
+  SecretsProvider,
+  createSecretsProvider,
+  sensitiveRedactor,
+} from "./secretsProvider";
+import { NonceTracker, TransactionManager } from "./transactionManager";
 
 import {
   WorkflowConfig,
   WorkflowState,
   WorkflowStep,
   StepExecutionResult,
+  StepResult,
+  AttemptRecord,
+  DryRunOptions,
+  WorkflowNotification,
   RetryConfig,
-  OutputConfig
+  OutputConfig,
+  TriggeredEvent
 } from "./types";
 
+type StepOutcome = "completed" | "skipped" | "failed";
+
+export interface OrchestratorOptions {
+  /** Persist run state after every step (disabled when omitted) */
+  runStore?: RunStore;
+  /** Enforce error_handling.max_consecutive_failures across runs (disabled when omitted) */
+  circuitBreaker?: CircuitBreaker;
+  /** Delivery for failure and circuit breaker notifications */
+  notifier?: Notifier;
+  /** Registry that receives run metrics when monitoring is enabled */
+  metrics?: MetricsRegistry;
+  /** Simulate ethereum-transaction steps with eth_call instead of broadcasting them */
+  dryRun?: boolean | DryRunOptions;
+  /** Blockchain provider (defaults to one for ETHEREUM_RPC_URL) */
+  provider?: ethers.Provider;
+  /** Handlers for step types (defaults to the built-in types) */
+  stepRegistry?: StepRegistry;
+  /** Source for ${VAR} references and blockchain credentials (defaults to the WORKFLOW_SECRETS chain) */
+  secrets?: SecretsProvider;
+  /** Property this run is for; recorded on the state and in log entries */
+  propertyId?: string;
+  /** Nonce tracker shared with other orchestrators sending from the same wallet */
+  nonces?: NonceTracker;
+  /** On-chain log that started this run; recorded on the state */
+  trigger?: TriggeredEvent;
+  /**
+   * Run inputs (e.g. property or trigger variables) that take precedence over
+   * the secrets provider; recorded on the state, except sensitive ones, so the
+   * run can be replayed
+   */
+  variables?: Record<string, string>;
+  /** Execution this run replays; recorded on the state */
+  replayOf?: string;
+  /** Cache for http-request and market-data steps (in memory when omitted) */
+  cache?: CacheStore;
+}
+
 /**
  * Workflow Orchestrator Class
  * Manages workflow execution, state, and error handling
  */
 export class WorkflowOrchestrator {
   private config: WorkflowConfig;
+  private graph: StepGraph;
   private state: WorkflowState;
-  private cache: Map<string, { data: any; timestamp: number }>;
+  private stepOutcomes: Map<string, StepOutcome>;
+  private conditions: Map<string, Expression>;
+  private cache: CacheStore;
   private provider?: ethers.Provider;
   private wallet?: ethers.Wallet;
-  private marketDataOracle: MarketDataOracle;
-  private aiPricingAgent: AIPricingAgent;
-
-  constructor(configPath: string) {
-    // Load workflow configuration
+  private transactions?: TransactionManager;
+  private stepRegistry: StepRegistry;
+  private secrets: SecretsProvider;
+  private redactor: SecretRedactor;
+  private runStore?: RunStore;
+  private circuitBreaker?: CircuitBreaker;
+  private circuitOpen: boolean = false;
+  private notifier?: Notifier;
+  private metricsRegistry?: MetricsRegistry;
+  private alertEngine?: AlertEngine;
+  private dryRun?: DryRunOptions;
+  /** Steps this run is limited to (runStep); all steps when unset */
+  private selectedSteps?: Set<string>;
+
+  constructor(configPath: string, options: OrchestratorOptions = {}) {
+    // Load and validate workflow configuration (structure, references, expressions)
     const configContent = fs.readFileSync(configPath, "utf8");
-    this.config = yaml.parse(configContent);
+    this.stepRegistry = options.stepRegistry || defaultStepRegistry;
+    const validation = validateWorkflow(configContent, { checkEnvironment: false, registry: this.stepRegistry });
+    if (!validation.valid) {
+      throw new WorkflowValidationError(configPath, validation.issues);
+    }
+    this.config = validation.config!;
+
+    // Values of variables marked sensitive are redacted from logs, outputs and errors
+    this.secrets = options.secrets || createSecretsProvider();
+    if (options.variables) {
+      this.secrets = new ChainedSecretsProvider([new EnvSecretsProvider(options.variables), this.secrets]);
+    }
+    this.redactor = sensitiveRedactor(this.config.environment, this.secrets);
+
+    // Validate step dependencies up front (unknown IDs, cycles)
+    this.graph = buildStepGraph(this.config.steps);
+
+    // Parse step conditions up front so syntax errors fail at load time
+    this.conditions = new Map();
+    for (const step of this.config.steps) {
+      if (step.condition) {
+        try {
+          this.conditions.set(step.id, parseExpression(step.condition));
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          throw new Error(`Invalid condition for step ${step.id}: ${errorMessage}`);
+        }
+      }
+    }
 
     // Initialize state
     this.state = {
       workflow_id: this.config.name,
-      execution_id: `exec-${Date.now()}`,
+      execution_id: `exec-${Date.now()}-${crypto.randomBytes(3).toString("hex")}`,
       start_time: Date.now(),
       status: "running",
       step_outputs: {},
+      step_results: {},
       errors: [],
       metrics: {},
     };
+    if (options.propertyId) {
+      this.state.property_id = options.propertyId;
+    }
+    if (options.trigger) {
+      this.state.trigger_event = options.trigger;
+    }
+    if (options.variables) {
+      this.state.variables = Object.fromEntries(
+        Object.entries(options.variables).filter(([name]) => !this.config.environment[name]?.sensitive)
+      );
+    }
+    if (options.replayOf) {
+      this.state.replayed_from = options.replayOf;
+    }
+    this.stepOutcomes = new Map();
+    this.runStore = options.runStore;
+    this.circuitBreaker = options.circuitBreaker;
+    this.notifier = options.notifier;
+    this.metricsRegistry = options.metrics;
+    if (options.dryRun) {
+      this.dryRun = options.dryRun === true ? {} : options.dryRun;
+      this.state.dry_run = true;
+    }
 
-    // Initialize cache
-    this.cache = new Map();
+    // Parse alert rules and sinks up front so configuration errors fail at load time
+    if (this.config.monitoring?.enabled) {
+      this.alertEngine = new AlertEngine(this.config.monitoring, createAlertSink, this.secrets);
+    }
 
-    // Initialize services
-    this.marketDataOracle = new MarketDataOracle();
-    this.aiPricingAgent = new AIPricingAgent();
+    this.cache = options.cache || new InMemoryCacheStore();
 
     // Initialize blockchain provider if needed
-    this.initializeBlockchain();
+    this.initializeBlockchain(options.provider, options.nonces);
+
+    for (const issue of validation.issues) {
+      this.log("warn", `Workflow configuration: ${formatIssue(issue)}`);
+    }
 
     this.log("info", `Workflow orchestrator initialized: ${this.config.name} v${this.config.version}`);
   }
 
   /**
-   * Initialize blockchain provider and wallet
+   * Initialize blockchain provider and wallet.
+   * A dry run only needs the provider; transactions are simulated, never signed.
    */
-  private initializeBlockchain(): void {
-    const rpcUrl = process.env.ETHEREUM_RPC_URL;
-    const privateKey = process.env.PRIVATE_KEY;
+  private initializeBlockchain(provider?: ethers.Provider, nonces?: NonceTracker): void {
+    const rpcUrl = this.secrets.get("ETHEREUM_RPC_URL");
+    const privateKey = this.secrets.get("PRIVATE_KEY");
+
+    if (!provider && rpcUrl && (privateKey || this.dryRun)) {
+      provider = new ethers.JsonRpcProvider(rpcUrl);
+    }
+    if (!provider) return;
 
-    if (rpcUrl && privateKey) {
-      this.provider = new ethers.JsonRpcProvider(rpcUrl);
+    this.provider = provider;
+    if (privateKey) {
       this.wallet = new ethers.Wallet(privateKey, this.provider);
-      this.log("info", "Blockchain provider initialized");
+      this.transactions = new TransactionManager(this.wallet, {
+        nonces,
+        log: (level, message) => this.log(level, message),
+      });
     }
+    this.log("info", `Blockchain provider initialized${this.dryRun ? " (dry run: transactions are simulated)" : ""}`);
   }
 
   /**
@@ -91,14 +233,24 @@ export class WorkflowOrchestrator {
    * Requirement 11.3: Log each step execution with timestamps
    */
   async execute(): Promise<WorkflowState> {
-    this.log("info", `🚀 Starting workflow execution: ${this.state.execution_id}`);
+    this.log("info", `🚀 Starting workflow execution: ${this.state.execution_id}${this.dryRun ? " (dry run)" : ""}`);
+    if (this.state.trigger_event) {
+      const event = this.state.trigger_event;
+      this.log("info", `Triggered by ${event.event} in block ${event.block_number} (${event.transaction_hash})`);
+    }
 
     try {
-      // Execute steps in order, respecting dependencies
-      for (const step of this.config.steps) {
-        await this.executeStep(step);
+      // A circuit state that cannot be read fails the run like any other error
+      if (this.circuitBreaker && !this.dryRun) {
+        this.circuitOpen = await this.circuitBreaker.isOpen(circuitId(this.state));
+        if (this.circuitOpen) {
+          this.log("warn", "⛔ Circuit breaker is open: on-chain transactions are disabled until an operator resets it");
+        }
       }
 
+      // Execute steps as their dependencies complete
+      await this.executeGraph();
+
       // Mark workflow as completed
       this.state.status = "completed";
       this.state.end_time = Date.now();
@@ -110,14 +262,14 @@ export class WorkflowOrchestrator {
       this.state.status = "failed";
       this.state.end_time = Date.now();
 
-      const errorMessage = error instanceof Error ? error.message : String(error);
+      const errorMessage = this.redactor.redactString(error instanceof Error ? error.message : String(error));
       this.log("error", `❌ Workflow failed: ${errorMessage}`);
 
       this.state.errors.push({
         step_id: "workflow",
         timestamp: Date.now(),
         error: errorMessage,
-        stack: error instanceof Error ? error.stack : undefined,
+        stack: this.redactor.redact(error instanceof Error ? error.stack : undefined),
       });
 
       // Requirement 2.5: Continue operation (don't throw)
@@ -126,437 +278,555 @@ export class WorkflowOrchestrator {
       }
     }
 
+    await this.recordMonitoring();
+    await this.updateCircuitBreaker();
+    await this.persistState();
+
     return this.state;
   }
 
   /**
-   * Execute a single workflow step
-   * Requirement 2.5: Log errors and continue operation
+   * Record run metrics and evaluate alert rules (monitoring.enabled).
+   * Alerts with for_runs > 1 are evaluated against earlier runs from the run store.
    */
-  private async executeStep(step: WorkflowStep): Promise<void> {
-    const startTime = Date.now();
-    this.state.current_step = step.id;
-
-    this.log("info", `📍 Executing step: ${step.id} - ${step.name}`);
+  private async recordMonitoring(): Promise<void> {
+    const monitoring = this.config.monitoring;
+    if (!monitoring?.enabled || !this.alertEngine || this.state.single_step) return;
 
-    try {
-      // Check dependencies
-      if (step.depends_on) {
-        for (const depId of step.depends_on) {
-          if (!this.state.step_outputs[depId]) {
-            throw new Error(`Dependency not met: ${depId}`);
-          }
-        }
-      }
-
-      // Check condition
-      if (step.condition && !this.evaluateCondition(step.condition)) {
-        this.log("info", `⏭️  Skipping step ${step.id}: condition not met`);
-        return;
+    this.state.metrics = collectRunMetrics(this.state, this.config.steps);
+    if (this.metricsRegistry) {
+      recordRunMetrics(this.metricsRegistry, this.state, this.state.metrics, monitoring.metrics);
+      try {
+        recordCacheMetrics(this.metricsRegistry, await this.cache.stats());
+      } catch (error) {
+        this.log("warn", `Failed to read cache statistics: ${error}`);
       }
+    }
 
-      // Execute step based on type
-      let result: StepExecutionResult;
-
-      switch (step.type) {
-        case "http-request":
-          result = await this.executeHttpRequest(step);
-          break;
-        case "ethereum-transaction":
-          result = await this.executeEthereumTransaction(step);
-          break;
-        case "ethereum-call":
-          result = await this.executeEthereumCall(step);
-          break;
-        default:
-          throw new Error(`Unknown step type: ${step.type}`);
+    let history: WorkflowState[] = [];
+    const depth = this.alertEngine.historyDepth;
+    if (depth > 0 && this.runStore) {
+      try {
+        // A resumed run and the run it resumed are the same cycle; dry runs only compare with dry runs
+        // and a property's runs only with runs for the same property
+        const excluded = new Set([this.state.execution_id, this.state.resumed_from]);
+        const propertyId = this.state.property_id;
+        const runs = await this.runStore.list({ workflowId: this.config.name, propertyId, limit: depth + 2 });
+        history = runs
+          .filter(
+            (run) =>
+              !excluded.has(run.execution_id) &&
+              !run.single_step &&
+              !!run.dry_run === !!this.state.dry_run &&
+              run.property_id === propertyId
+          )
+          .slice(0, depth);
+      } catch (error) {
+        this.log("warn", `Failed to load run history for alerts: ${error}`);
       }
+    }
 
-      // Store step outputs
-      this.state.step_outputs[step.id] = result.outputs;
+    const alerts = this.alertEngine.evaluate(this.state, history);
+    this.state.alerts = alerts;
+    for (const alert of alerts) {
+      this.log("warn", `🔔 Alert (${alert.severity}): ${alert.message}`);
+    }
+    await this.alertEngine.dispatch(alerts, this.state);
+  }
 
-      const duration = Date.now() - startTime;
-      this.log("info", `✓ Step ${step.id} completed in ${duration}ms`);
+  /**
+   * Record this execution with the circuit breaker and send notifications
+   * for failed runs (notify_on_failure) and for a newly tripped breaker.
+   * Dry runs and single-step runs never count towards the breaker.
+   */
+  private async updateCircuitBreaker(): Promise<void> {
+    const errorHandling = this.config.error_handling;
+    let update: CircuitUpdate | undefined;
 
-      // Log outputs if configured
-      if (this.config.logging.include_step_outputs) {
-        this.log("debug", `Step outputs: ${JSON.stringify(result.outputs, null, 2)}`);
+    if (this.circuitBreaker && !this.dryRun && !this.state.single_step) {
+      try {
+        update = await this.circuitBreaker.recordExecution(this.state, errorHandling.max_consecutive_failures);
+      } catch (error) {
+        this.log("warn", `Failed to update circuit breaker: ${error}`);
       }
+    }
 
-    } catch (error) {
-      const duration = Date.now() - startTime;
-      const errorMessage = error instanceof Error ? error.message : String(error);
+    if (update?.tripped) {
+      this.log("error", `⛔ Circuit breaker tripped after ${update.state.consecutive_failures} consecutive failed runs`);
+      await this.notify({
+        severity: "critical",
+        title: "Workflow circuit breaker tripped",
+        message:
+          `${update.state.consecutive_failures} consecutive runs failed; on-chain transactions are disabled ` +
+          `until the breaker is reset. Last failure: ${update.state.last_failure}`,
+        details: { consecutive_failures: update.state.consecutive_failures, last_failure: update.state.last_failure },
+      });
+    } else if (errorHandling.notify_on_failure && this.state.errors.length > 0) {
+      await this.notify({
+        severity: "error",
+        title: "Workflow run failed",
+        message: this.state.errors.map((e) => `${e.step_id}: ${e.error}`).join("; "),
+        details: {
+          status: this.state.status,
+          ...(update ? { consecutive_failures: update.state.consecutive_failures } : {}),
+        },
+      });
+    }
+  }
 
-      this.log("error", `✗ Step ${step.id} failed after ${duration}ms: ${errorMessage}`);
+  private async notify(notification: Omit<WorkflowNotification, "workflow_id" | "execution_id" | "timestamp">): Promise<void> {
+    if (!this.notifier) return;
 
-      // Record error
-      this.state.errors.push({
-        step_id: step.id,
+    try {
+      await this.notifier.notify({
+        workflow_id: this.config.name,
+        execution_id: this.state.execution_id,
         timestamp: Date.now(),
-        error: errorMessage,
-        stack: error instanceof Error ? error.stack : undefined,
+        ...notification,
       });
-
-      // Handle error based on configuration
-      if (step.on_error.action === "halt") {
-        throw error;
-      } else {
-        this.log("info", `Continuing workflow despite step failure: ${step.id}`);
-      }
+    } catch (error) {
+      this.log("warn", `Failed to send notification: ${error}`);
     }
   }
 
   /**
-   * Execute HTTP request step
-   * Requirement 2.1: Fetch market data
-   * Requirement 2.2: Call AI agent
-   * Requirement 13.1: Use cached data on failure
-   * Requirement 13.2: Retry with exponential backoff
+   * Resume a previous run from its first failed step.
+   * Completed and skipped steps are carried over with their outputs; a
+   * transaction step that failed after broadcasting is carried over if its
+   * transaction landed, so it is never submitted twice. A run whose
+   * transaction is still pending is refused until the transaction is mined or
+   * dropped.
    */
-  private async executeHttpRequest(step: WorkflowStep): Promise<StepExecutionResult> {
-    const startTime = Date.now();
+  async resume(executionId: string): Promise<WorkflowState> {
+    if (!this.runStore) {
+      throw new Error("Cannot resume without a run store");
+    }
 
-    // Special handling for known endpoints
-    if (step.id === "fetch-market-data") {
-      return await this.executeFetchMarketData(step);
-    } else if (step.id === "analyze-pricing") {
-      return await this.executeAnalyzePricing(step);
+    const previous = await this.runStore.get(executionId);
+    if (!previous) {
+      throw new Error(`Run not found: ${executionId}`);
+    }
+    if (previous.workflow_id !== this.config.name) {
+      throw new Error(`Run ${executionId} belongs to workflow ${previous.workflow_id}, not ${this.config.name}`);
+    }
+    if (!!previous.dry_run !== !!this.dryRun) {
+      throw new Error(`Run ${executionId} was ${previous.dry_run ? "a dry run" : "a live run"}; resume it in the same mode`);
+    }
+    if (previous.single_step) {
+      throw new Error(`Run ${executionId} only ran step ${previous.single_step}; replay it instead`);
     }
 
-    // Generic HTTP request handling
-    const config = step.config;
-    const url = this.substituteVariables(config.url!);
-    const method = config.method || "GET";
+    const previousResults = previous.step_results || {};
+    const finished = this.graph.order.every((stepId) => {
+      const status = previousResults[stepId]?.status;
+      return status === "completed" || status === "skipped";
+    });
+    if (finished) {
+      throw new Error(`Run ${executionId} completed without failures; nothing to resume`);
+    }
 
-    try {
-      // Check cache first
-      if (config.cache?.enabled) {
-        const cached = this.getFromCache(config.cache.key || step.id);
-        if (cached) {
-          this.log("info", `Using cached data for ${step.id}`);
-          return {
-            success: true,
-            outputs: { data: cached, cached: true },
-            duration: Date.now() - startTime,
-            cached: true,
-          };
+    this.state.resumed_from = executionId;
+    let reused = 0;
+
+    for (const stepId of this.graph.order) {
+      const result = previousResults[stepId];
+      if (!result) continue;
+
+      if (result.status === "completed" || result.status === "skipped") {
+        this.reuseStepResult(stepId, result, previous.step_outputs[stepId]);
+        reused++;
+      } else if (result.transaction_hash) {
+        const receipt = await this.findLandedTransaction(stepId, result.transaction_hashes || [result.transaction_hash]);
+        if (receipt) {
+          this.log("info", `Transaction ${receipt.hash} for step ${stepId} already landed; not resubmitting`);
+          this.reuseStepResult(stepId, { ...result, status: "completed", error: undefined }, transactionOutputs(receipt));
+          reused++;
         }
       }
+    }
 
-      // Execute with retry
-      const response = await this.executeWithRetry(
-        async () => {
-          const headers = this.substituteVariables(config.headers || {});
-          const body = config.body ? this.substituteVariables(config.body) : undefined;
+    this.log("info", `Resuming run ${executionId}: reusing ${reused} of ${this.graph.order.length} steps`);
 
-          const fetchOptions: RequestInit = {
-            method,
-            headers: headers as HeadersInit,
-            body: body ? JSON.stringify(body) : undefined,
-          };
+    return await this.execute();
+  }
 
-          const response = await fetch(url, fetchOptions);
+  /**
+   * Carry a step result from a previous run into this one
+   */
+  private reuseStepResult(stepId: string, result: StepResult, outputs: Record<string, any> | undefined): void {
+    this.stepOutcomes.set(stepId, result.status === "skipped" ? "skipped" : "completed");
+    this.state.step_results[stepId] = { ...result, reused: true };
+    if (outputs !== undefined) {
+      this.storeStepOutputs(stepId, outputs);
+    }
+  }
 
-          if (!response.ok) {
-            throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-          }
+  /**
+   * Run one step on its own. The outputs of its dependencies are injected
+   * instead of produced, e.g. from a file or a recorded run; outputs of other
+   * steps are ignored. Conditions and output validation apply as usual.
+   */
+  async runStep(stepId: string, upstreamOutputs: Record<string, Record<string, any>> = {}): Promise<WorkflowState> {
+    if (!this.graph.steps.has(stepId)) {
+      throw new Error(`Unknown step: ${stepId}`);
+    }
 
-          return await response.json();
-        },
-        config.retry
-      );
+    const dependencies = this.graph.dependencies.get(stepId)!;
+    const missing = dependencies.filter((depId) => upstreamOutputs[depId] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`Step ${stepId} needs the outputs of ${missing.join(", ")}`);
+    }
 
-      // Cache response if configured
-      if (config.cache?.enabled) {
-        this.setCache(config.cache.key || step.id, response, config.cache.ttl);
-      }
+    this.state.single_step = stepId;
+    this.selectedSteps = new Set([stepId]);
+    for (const depId of dependencies) {
+      this.stepOutcomes.set(depId, "completed");
+      this.storeStepOutputs(depId, upstreamOutputs[depId]);
+    }
 
-      // Extract outputs
-      const outputs = this.extractOutputs(response, step.outputs);
+    this.log("info", `Running step ${stepId} alone${dependencies.length > 0 ? ` with injected outputs of ${dependencies.join(", ")}` : ""}`);
 
-      return {
-        success: true,
-        outputs,
-        duration: Date.now() - startTime,
-      };
+    return await this.execute();
+  }
 
-    } catch (error) {
-      // Try to use cached data on error
-      if (config.cache?.use_on_error) {
-        const cached = this.getFromCache(config.cache.key || step.id, true);
-        if (cached) {
-          this.log("warn", `Using stale cached data for ${step.id} due to error`);
-          return {
-            success: true,
-            outputs: { data: cached, cached: true, stale: true },
-            duration: Date.now() - startTime,
-            cached: true,
-          };
-        }
-      }
+  /**
+   * Look up a previously broadcast transaction and its replacements; returns
+   * the receipt of the one that was mined successfully, if any. Throws while
+   * one of them is still in the mempool, since re-running the step would
+   * submit it a second time.
+   */
+  private async findLandedTransaction(stepId: string, hashes: string[]): Promise<ethers.TransactionReceipt | null> {
+    if (!this.provider) {
+      this.log("warn", `Cannot check transaction ${hashes.join(", ")}: blockchain provider not initialized`);
+      return null;
+    }
 
-      throw error;
+    const pending: string[] = [];
+    for (const hash of hashes) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (receipt && receipt.status === 1) {
+        return receipt;
+      }
+      if (!receipt && (await this.provider.getTransaction(hash))) {
+        pending.push(hash);
+      }
+    }
+    if (pending.length > 0) {
+      throw new Error(
+        `Transaction ${pending.join(", ")} for step ${stepId} is still pending; resume once it is mined or dropped`
+      );
     }
+    return null;
   }
 
   /**
-   * Execute market data fetch step
+   * Save the current state to the run store, if one is configured.
+   * Persistence failures are logged but never fail the workflow.
    */
-  private async executeFetchMarketData(step: WorkflowStep): Promise<StepExecutionResult> {
-    const startTime = Date.now();
+  private async persistState(): Promise<void> {
+    if (!this.runStore) return;
 
     try {
-      const marketData = await this.marketDataOracle.fetchMarketData(
-        process.env.PROPERTY_ADDRESS || "",
-        process.env.PROPERTY_TYPE || "",
-        parseInt(process.env.MARKET_DATA_RADIUS_MILES || "5")
-      );
-
-      return {
-        success: true,
-        outputs: {
-          market_data: marketData,
-          is_cached: marketData.isStale || false,
-          timestamp: marketData.timestamp,
-        },
-        duration: Date.now() - startTime,
-      };
+      await this.runStore.save(this.state);
     } catch (error) {
-      throw error;
+      this.log("warn", `Failed to persist run state: ${error}`);
     }
   }
 
   /**
-   * Execute AI pricing analysis step
+   * Execute the step graph, running independent steps concurrently.
+   * A halting step failure stops new steps from starting; in-flight steps
+   * are allowed to finish before the error is rethrown.
    */
-  private async executeAnalyzePricing(step: WorkflowStep): Promise<StepExecutionResult> {
-    const startTime = Date.now();
-
-    try {
-      // Get market data from previous step
-      const marketData = this.state.step_outputs["fetch-market-data"]?.market_data;
-
-      if (!marketData) {
-        throw new Error("Market data not available from previous step");
-      }
-
-      // Fetch current rental price: on-chain from PriceManager, or env fallback
-      let currentPrice: number | undefined;
-      const priceManagerAddr = process.env.PRICE_MANAGER_ADDRESS;
-
-      if (this.provider && priceManagerAddr) {
-        try {
-          const abi = ["function getCurrentRentalPrice() view returns (uint256)"];
-          const contract = new ethers.Contract(priceManagerAddr, abi, this.provider);
-          const rawPrice = await contract.getCurrentRentalPrice();
-          // PriceManager uses USDC decimals (6)
-          currentPrice = Number(ethers.formatUnits(rawPrice, 6));
-        } catch (err) {
-          this.log("warn", `Could not fetch current price from PriceManager: ${err}`);
+  private async executeGraph(): Promise<void> {
+    const running = new Map<string, Promise<void>>();
+    let haltError: unknown;
+
+    while (true) {
+      if (haltError === undefined) {
+        for (const stepId of this.graph.order) {
+          if (this.stepOutcomes.has(stepId) || running.has(stepId)) continue;
+          if (this.selectedSteps && !this.selectedSteps.has(stepId)) continue;
+
+          const deps = this.graph.dependencies.get(stepId)!;
+          if (!deps.every((depId) => this.stepOutcomes.has(depId))) continue;
+
+          const step = this.graph.steps.get(stepId)!;
+          const execution = this.executeStep(step)
+            .then(
+              (outcome) => {
+                this.stepOutcomes.set(stepId, outcome);
+              },
+              (error) => {
+                this.stepOutcomes.set(stepId, "failed");
+                if (haltError === undefined) haltError = error;
+              }
+            )
+            .finally(() => {
+              running.delete(stepId);
+            });
+          running.set(stepId, execution);
         }
       }
 
-      if (currentPrice === undefined && process.env.PROPERTY_CURRENT_RENT) {
-        currentPrice = parseInt(process.env.PROPERTY_CURRENT_RENT, 10);
-      }
+      if (running.size === 0) break;
+      await Promise.race(running.values());
+    }
 
-      // Build property details including currentPrice for accurate AI analysis
-      const propertyDetails = {
-        address: process.env.PROPERTY_ADDRESS || "",
-        propertyType: process.env.PROPERTY_TYPE || "",
-        valuation: parseInt(process.env.PROPERTY_VALUATION || "0"),
-        ...(currentPrice !== undefined && !isNaN(currentPrice) && currentPrice > 0
-          ? { currentPrice }
-          : {}),
-      };
-
-      // Build pricing analysis request
-      const request = {
-        marketData,
-        propertyDetails,
-        currentMonth: new Date().getMonth() + 1,
-      };
-
-      // Call AI pricing agent (with fallback to rule-based on API failure)
-      const recommendation = await this.aiPricingAgent.analyzePricing(request);
-
-      return {
-        success: true,
-        outputs: {
-          recommendation,
-          recommended_price: recommendation.price,
-          confidence_score: recommendation.confidence,
-          reasoning: recommendation.reasoning,
-        },
-        duration: Date.now() - startTime,
-      };
-    } catch (error) {
-      throw error;
+    if (haltError !== undefined) {
+      throw haltError;
     }
   }
 
   /**
-   * Execute Ethereum transaction step
-   * Requirement 2.3: Submit recommendation to contract
-   * Requirement 2.6: Distribute yields
-   * Requirement 13.3: Log transaction failures
+   * Execute a single workflow step
+   * Requirement 2.5: Log errors and continue operation
    */
-  private async executeEthereumTransaction(step: WorkflowStep): Promise<StepExecutionResult> {
+  private async executeStep(step: WorkflowStep): Promise<StepOutcome> {
     const startTime = Date.now();
+    this.state.current_step = step.id;
+    this.state.step_results[step.id] = { status: "running", started_at: startTime };
 
-    if (!this.wallet || !this.provider) {
-      throw new Error("Blockchain provider not initialized");
-    }
+    this.log("info", `📍 Executing step: ${step.id} - ${step.name}`);
 
-    const config = step.config;
-    const contractAddress = this.substituteVariables(config.contract_address!);
-    const abi = JSON.parse(config.abi!);
-    const functionName = config.function_name!;
-    let args = config.function_args ? this.substituteVariables(config.function_args) : [];
+    try {
+      // Check dependencies (skipped dependencies still count as resolved)
+      for (const depId of this.graph.dependencies.get(step.id) || []) {
+        if (this.stepOutcomes.get(depId) === "failed") {
+          throw new Error(`Dependency not met: ${depId}`);
+        }
+      }
 
-    // PriceManager.submitRecommendation expects price in USDC (6 decimals)
-    if (functionName === "submitRecommendation" && args.length >= 1) {
-      const priceUsd = typeof args[0] === "number" ? args[0] : parseFloat(String(args[0]));
-      if (!isNaN(priceUsd)) {
-        args = [ethers.parseUnits(String(priceUsd), 6), ...args.slice(1)];
+      // Check condition
+      if (step.condition && !this.evaluateCondition(step)) {
+        this.log("info", `⏭️  Skipping step ${step.id}: condition not met`);
+        this.finishStepResult(step.id, "skipped");
+        await this.persistState();
+        return "skipped";
       }
-    }
 
-    try {
-      // Create contract instance
-      const contract = new ethers.Contract(contractAddress, abi, this.wallet);
-
-      // Execute transaction with retry
-      const tx = await this.executeWithRetry(
-        async () => {
-          return await contract[functionName](...args, {
-            gasLimit: config.gas_limit,
-            maxFeePerGas: config.max_fee_per_gas,
-            maxPriorityFeePerGas: config.max_priority_fee_per_gas,
-          });
-        },
-        config.retry
-      );
+      // Execute step with the handler registered for its type
+      const handler = this.stepRegistry.resolve(step.type);
+      const result: StepExecutionResult = await handler.execute(this.stepContext(step));
 
-      // Wait for transaction to be mined
-      const receipt = await tx.wait();
+      // Enforce declared output validation rules (violations fail the step)
+      validateOutputs(result.outputs, step.outputs);
 
-      this.log("info", `Transaction mined: ${receipt.hash}`);
+      // Store step outputs
+      this.storeStepOutputs(step.id, result.outputs);
 
-      return {
-        success: true,
-        outputs: {
-          transaction_hash: receipt.hash,
-          block_number: receipt.blockNumber,
-          gas_used: receipt.gasUsed.toString(),
-        },
-        duration: Date.now() - startTime,
-      };
+      const duration = Date.now() - startTime;
+      this.finishStepResult(step.id, "completed", {
+        cached: result.cached,
+        dry_run: result.dry_run,
+        distribution: result.distribution,
+        acceptance: result.acceptance,
+      });
+      this.log("info", `✓ Step ${step.id} completed in ${duration}ms`);
 
+      // Log outputs if configured
+      if (this.config.logging.include_step_outputs) {
+        this.log("debug", `Step outputs: ${JSON.stringify(result.outputs, null, 2)}`);
+      }
+
+      await this.persistState();
+
+      return "completed";
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      this.log("error", `Transaction failed: ${errorMessage}`);
-      throw error;
+      const duration = Date.now() - startTime;
+      const errorMessage = this.redactor.redactString(error instanceof Error ? error.message : String(error));
+
+      this.log("error", `✗ Step ${step.id} failed after ${duration}ms: ${errorMessage}`);
+
+      // Record error
+      this.state.errors.push({
+        step_id: step.id,
+        timestamp: Date.now(),
+        error: errorMessage,
+        stack: this.redactor.redact(error instanceof Error ? error.stack : undefined),
+      });
+      this.finishStepResult(step.id, "failed", { error: errorMessage });
+      await this.persistState();
+
+      // Handle error based on configuration
+      if (step.on_error.action === "halt") {
+        throw error;
+      } else {
+        this.log("info", `Continuing workflow despite step failure: ${step.id}`);
+      }
+
+      return "failed";
     }
   }
 
   /**
-   * Execute Ethereum contract call (read-only)
-   * Requirement 2.6: Check rental payment
+   * Mark a step result as finished and record its duration
    */
-  private async executeEthereumCall(step: WorkflowStep): Promise<StepExecutionResult> {
-    const startTime = Date.now();
+  private finishStepResult(
+    stepId: string,
+    status: StepResult["status"],
+    details: Partial<StepResult> = {}
+  ): void {
+    const result = this.state.step_results[stepId];
+    const finishedAt = Date.now();
+    this.state.step_results[stepId] = {
+      ...result,
+      ...details,
+      status,
+      finished_at: finishedAt,
+      duration: finishedAt - result.started_at,
+    };
+  }
 
-    if (!this.provider) {
-      throw new Error("Blockchain provider not initialized");
+  /**
+   * Store step outputs, keeping step_outputs keyed in graph order
+   * regardless of which concurrent step finished first.
+   * Sensitive values (e.g. an API key echoed in a response) are redacted.
+   */
+  private storeStepOutputs(stepId: string, outputs: Record<string, any>): void {
+    const stepOutputs: Record<string, any> = {};
+    for (const id of this.graph.order) {
+      if (id === stepId) {
+        stepOutputs[id] = this.redactor.redact(outputs);
+      } else if (id in this.state.step_outputs) {
+        stepOutputs[id] = this.state.step_outputs[id];
+      }
     }
+    this.state.step_outputs = stepOutputs;
+  }
 
-    const config = step.config;
-    const contractAddress = this.substituteVariables(config.contract_address!);
-    const abi = JSON.parse(config.abi!);
-    const functionName = config.function_name!;
-
-    try {
-      // Create contract instance
-      const contract = new ethers.Contract(contractAddress, abi, this.provider);
-
-      // Execute call
-      const result = await contract[functionName]();
-
-      return {
-        success: true,
-        outputs: {
-          result: result.toString(),
-          pool_balance: result.toString(),
-          pool_balance_usd: Number(result) / 1e6, // Assuming USDC (6 decimals)
-        },
-        duration: Date.now() - startTime,
-      };
-
-    } catch (error) {
-      throw error;
-    }
+  /**
+   * Build the context a step handler executes with
+   */
+  private stepContext(step: WorkflowStep): StepContext {
+    return {
+      step,
+      config: this.substituteVariables(step.config),
+      workflow: this.config,
+      state: this.state,
+      provider: this.provider,
+      wallet: this.wallet,
+      transactions: this.transactions,
+      dryRun: this.dryRun,
+      circuitOpen: this.circuitOpen,
+      cache: this.cache,
+      substitute: (value) => this.substituteVariables(value),
+      retry: (fn, policy, timeoutMs) => this.executeWithRetry(step.id, fn, policy, timeoutMs),
+      extractOutputs: (response) => this.extractOutputs(response, step.outputs),
+      recordTransaction: async (hash) => {
+        const result = this.state.step_results[step.id];
+        result.transaction_hash = hash;
+        result.transaction_hashes = [...(result.transaction_hashes || []), hash];
+        await this.persistState();
+      },
+      recordError: (message) => {
+        this.state.errors.push({ step_id: step.id, timestamp: Date.now(), error: this.redactor.redactString(message) });
+      },
+      notify: (notification) => this.notify(notification),
+      log: (level, message) => this.log(level, message),
+    };
   }
 
   /**
    * Execute function with retry logic
    * Requirement 13.2: Retry with exponential backoff
+   *
+   * Failures are classified and only retried when the step's policy allows
+   * (retry_on_status, retry_on_timeout, retry_on_revert); backoff is jittered.
+   * Each attempt gets its own timeout and is recorded in the step result.
    */
   private async executeWithRetry<T>(
-    fn: () => Promise<T>,
-    retryConfig?: RetryConfig
+    stepId: string,
+    fn: (signal?: AbortSignal) => Promise<T>,
+    retryConfig?: RetryConfig,
+    timeoutMs?: number
   ): Promise<T> {
-    if (!retryConfig) {
-      return await fn();
+    const maxAttempts = retryConfig?.max_attempts ?? 1;
+    const attempts: AttemptRecord[] = [];
+    const stepResult = this.state.step_results[stepId];
+    if (stepResult) {
+      stepResult.attempts = attempts;
     }
 
-    let lastError: Error;
-    let delay = retryConfig.initial_delay;
-
-    for (let attempt = 1; attempt <= retryConfig.max_attempts; attempt++) {
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = Date.now();
       try {
-        return await fn();
+        const result = await withTimeout(fn, timeoutMs);
+        attempts.push({ attempt, started_at: startedAt, duration: Date.now() - startedAt });
+        return result;
       } catch (error) {
-        lastError = error as Error;
-
-        if (attempt < retryConfig.max_attempts) {
-          this.log("warn", `Attempt ${attempt} failed, retrying in ${delay}ms...`);
-          await new Promise((resolve) => setTimeout(resolve, delay));
-          delay = Math.min(delay * retryConfig.backoff_multiplier, retryConfig.max_delay);
+        const failure = classifyError(error);
+        const retryable = retryConfig !== undefined && isRetryable(failure, retryConfig);
+        const record: AttemptRecord = {
+          attempt,
+          started_at: startedAt,
+          duration: Date.now() - startedAt,
+          error: this.redactor.redactString(error instanceof Error ? error.message : String(error)),
+          failure_kind: failure.kind,
+          ...(failure.status !== undefined ? { status: failure.status } : {}),
+          retryable,
+        };
+        attempts.push(record);
+
+        if (!retryable) {
+          if (attempt > 1) {
+            this.log("warn", `Attempt ${attempt} failed with non-retryable ${failure.kind} error; giving up`);
+          }
+          throw error;
         }
+        if (attempt >= maxAttempts) {
+          throw attempt > 1 ? new RetryExhaustedError(attempt, error as Error) : error;
+        }
+
+        record.delay = retryDelay(retryConfig!, attempt);
+        this.log("warn", `Attempt ${attempt} failed (${failure.kind}), retrying in ${record.delay}ms...`);
+        await new Promise((resolve) => setTimeout(resolve, record.delay));
       }
     }
+  }
 
-    throw new Error(`Failed after ${retryConfig.max_attempts} attempts: ${lastError!.message}`);
+  /**
+   * Evaluate a step's condition expression.
+   * Type errors (e.g. comparing a string to a number) propagate as step failures.
+   */
+  private evaluateCondition(step: WorkflowStep): boolean {
+    const expression = this.conditions.get(step.id)!;
+    const result = evaluateExpression(expression, (path) => this.resolveReference(path));
+    return isTruthy(result);
   }
 
   /**
-   * Evaluate conditional expression
+   * Resolve a typed reference: steps.<id>.outputs.<path> or a variable from the secrets provider
    */
-  private evaluateCondition(condition: string): boolean {
-    try {
-      // Substitute variables in condition
-      const evaluatedCondition = this.substituteVariables(condition);
-
-      // Simple evaluation (in production, use a safe expression evaluator)
-      // For now, just check if it contains ">" and evaluate
-      if (evaluatedCondition.includes(">")) {
-        const [left, right] = evaluatedCondition.split(">").map((s: string) => s.trim());
-        return Number(left) > Number(right);
+  private resolveReference(path: string): unknown {
+    if (path.startsWith("steps.")) {
+      const parts = path.split(".");
+      const stepOutput = this.state.step_outputs[parts[1]];
+      if (!stepOutput) {
+        return undefined;
       }
-
-      return Boolean(evaluatedCondition);
-    } catch (error) {
-      this.log("warn", `Failed to evaluate condition: ${condition}`);
-      return false;
+      const outputPath = parts.slice(3).join(".");
+      return outputPath ? this.getNestedValue(stepOutput, outputPath) : stepOutput;
     }
+
+    return this.secrets.get(path);
   }
 
   /**
-   * Substitute variables in strings
+   * Substitute variables in strings.
+   * A string that is exactly one step output reference ("${steps.X.outputs.Y}")
+   * is replaced by the value itself, so objects and numbers keep their type.
    */
   private substituteVariables(value: any): any {
     if (typeof value === "string") {
+      const whole = /^\$\{\s*(steps\.[^}]+?)\s*\}$/.exec(value);
+      if (whole) {
+        const resolved = this.resolveReference(whole[1]);
+        if (resolved !== undefined) {
+          return resolved;
+        }
+      }
+
       // Substitute environment variables
       let result = value.replace(/\$\{([^}]+)\}/g, (match, varName) => {
         // Check if it's a step output reference
@@ -571,8 +841,8 @@ export class WorkflowOrchestrator {
           }
         }
 
-        // Otherwise, it's an environment variable
-        return process.env[varName] || match;
+        // Otherwise, it's a variable from the secrets provider
+        return this.secrets.get(varName) || match;
       });
 
       return result;
@@ -597,33 +867,14 @@ export class WorkflowOrchestrator {
   }
 
   /**
-   * Extract outputs from response based on output configuration
+   * Extract outputs from response based on output configuration (JSONPath + transforms)
    */
   private extractOutputs(response: any, outputConfigs: Record<string, OutputConfig>): Record<string, any> {
     const outputs: Record<string, any> = {};
 
     for (const [key, config] of Object.entries(outputConfigs)) {
       try {
-        // Extract value using path (simplified JSONPath)
-        let value = response;
-        if (config.path.startsWith("$.")) {
-          const path = config.path.substring(2);
-          value = this.getNestedValue(response, path);
-        }
-
-        // Apply transform if specified
-        if (config.transform === "json_parse" && typeof value === "string") {
-          value = JSON.parse(value);
-        } else if (config.transform === "divide_by_1e6") {
-          value = Number(value) / 1e6;
-        }
-
-        // Use default if value is undefined
-        if (value === undefined && config.default !== undefined) {
-          value = config.default;
-        }
-
-        outputs[key] = value;
+        outputs[key] = extractOutput(response, config);
       } catch (error) {
         this.log("warn", `Failed to extract output ${key}: ${error}`);
         if (config.default !== undefined) {
@@ -636,50 +887,26 @@ export class WorkflowOrchestrator {
   }
 
   /**
-   * Cache management
-   */
-  private getFromCache(key: string, allowStale: boolean = false): any | null {
-    const cached = this.cache.get(key);
-
-    if (!cached) {
-      return null;
-    }
-
-    const age = Date.now() - cached.timestamp;
-    const ttl = 86400000; // 24 hours in ms
-
-    if (age < ttl || allowStale) {
-      return cached.data;
-    }
-
-    return null;
-  }
-
-  private setCache(key: string, data: any, ttl: number): void {
-    this.cache.set(key, {
-      data,
-      timestamp: Date.now(),
-    });
-  }
-
-  /**
-   * Logging with timestamps
+   * Logging with timestamps; sensitive values are redacted
    * Requirement 11.3: Log each step execution with timestamps
    */
   private log(level: string, message: string): void {
     const timestamp = new Date().toISOString();
+    message = this.redactor.redactString(message);
     const logEntry = {
       timestamp,
       level,
       workflow: this.config.name,
       execution_id: this.state.execution_id,
+      ...(this.state.property_id ? { property: this.state.property_id } : {}),
       message,
     };
 
     if (this.config.logging.format === "json") {
       console.log(JSON.stringify(logEntry));
     } else {
-      console.log(`[${timestamp}] [${level.toUpperCase()}] ${message}`);
+      const property = this.state.property_id ? ` [${this.state.property_id}]` : "";
+      console.log(`[${timestamp}] [${level.toUpperCase()}]${property} ${message}`);
     }
   }
 
@@ -691,10 +918,133 @@ export class WorkflowOrchestrator {
   }
 }
 
+/**
+ * Dry-run settings from WORKFLOW_DRY_RUN, WORKFLOW_DRY_RUN_BLOCK and WORKFLOW_DRY_RUN_FROM
+ */
+export function dryRunFromEnv(env: NodeJS.ProcessEnv = process.env): DryRunOptions | undefined {
+  if (!["1", "true", "yes"].includes((env.WORKFLOW_DRY_RUN || "").toLowerCase())) {
+    return undefined;
+  }
+
+  const block = env.WORKFLOW_DRY_RUN_BLOCK;
+  return {
+    blockTag: block ? (/^\d+$/.test(block) ? parseInt(block, 10) : block) : undefined,
+    from: env.WORKFLOW_DRY_RUN_FROM || undefined,
+  };
+}
+
 /**
  * Execute workflow from command line
  */
-export async function executeWorkflow(configPath: string): Promise<WorkflowState> {
-  const orchestrator = new WorkflowOrchestrator(configPath);
-  return await orchestrator.execute();
+export async function executeWorkflow(
+  configPath: string,
+  runStore: RunStore = new FileRunStore(),
+  options: CommandLineOptions = {}
+): Promise<WorkflowState> {
+  return await commandLineOrchestrator(configPath, runStore, options).execute();
+}
+
+/**
+ * Options callers of the command line entry points may set; the rest are
+ * the defaults every command line run uses
+ */
+export type CommandLineOptions = Pick<OrchestratorOptions, "secrets" | "trigger" | "provider" | "variables" | "dryRun">;
+
+function commandLineOrchestrator(
+  configPath: string,
+  runStore: RunStore,
+  options: CommandLineOptions & Pick<OrchestratorOptions, "propertyId" | "replayOf">
+): WorkflowOrchestrator {
+  return new WorkflowOrchestrator(configPath, {
+    ...options,
+    runStore,
+    circuitBreaker: new CircuitBreaker(),
+    notifier: createDefaultNotifier(),
+    metrics: defaultMetricsRegistry,
+    cache: defaultCacheStore(),
+    dryRun: options.dryRun ?? dryRunFromEnv(),
+  });
+}
+
+/**
+ * Run one step with the given outputs for its dependencies
+ */
+export async function executeWorkflowStep(
+  configPath: string,
+  stepId: string,
+  upstreamOutputs: Record<string, Record<string, any>>,
+  runStore: RunStore = new FileRunStore(),
+  options: CommandLineOptions = {}
+): Promise<WorkflowState> {
+  return await commandLineOrchestrator(configPath, runStore, options).runStep(stepId, upstreamOutputs);
+}
+
+/**
+ * Re-run a recorded run with its recorded inputs: trigger event, property
+ * and variables. With `stepId`, only that step runs, with the outputs its
+ * dependencies produced in the recorded run. A replay of a live run sends
+ * its transactions again unless it is a dry run.
+ */
+export async function replayWorkflow(
+  configPath: string,
+  executionId: string,
+  runStore: RunStore = new FileRunStore(),
+  options: Pick<CommandLineOptions, "secrets" | "provider" | "dryRun"> & { stepId?: string } = {}
+): Promise<WorkflowState> {
+  const previous = await runStore.get(executionId);
+  if (!previous) {
+    throw new Error(`Run not found: ${executionId}`);
+  }
+
+  const { stepId, ...orchestratorOptions } = options;
+  const orchestrator = commandLineOrchestrator(configPath, runStore, {
+    ...orchestratorOptions,
+    trigger: previous.trigger_event,
+    propertyId: previous.property_id,
+    variables: previous.variables,
+    replayOf: executionId,
+  });
+  const workflowId = orchestrator.getState().workflow_id;
+  if (previous.workflow_id !== workflowId) {
+    throw new Error(`Run ${executionId} belongs to workflow ${previous.workflow_id}, not ${workflowId}`);
+  }
+
+  if (!stepId) {
+    return await orchestrator.execute();
+  }
+
+  // Skipped dependencies produced no outputs but still count as resolved
+  const upstreamOutputs: Record<string, Record<string, any>> = { ...previous.step_outputs };
+  for (const [id, result] of Object.entries(previous.step_results)) {
+    if (result.status === "skipped" && upstreamOutputs[id] === undefined) {
+      upstreamOutputs[id] = {};
+    }
+  }
+  return await orchestrator.runStep(stepId, upstreamOutputs);
+}
+
+/**
+ * Resume a failed run from its first failed step
+ */
+export async function resumeWorkflow(
+  configPath: string,
+  executionId: string,
+  runStore: RunStore = new FileRunStore()
+): Promise<WorkflowState> {
+  const orchestrator = new WorkflowOrchestrator(configPath, {
+    runStore,
+    circuitBreaker: new CircuitBreaker(),
+    notifier: createDefaultNotifier(),
+    metrics: defaultMetricsRegistry,
+    cache: defaultCacheStore(),
+    dryRun: dryRunFromEnv(),
+  });
+  return await orchestrator.resume(executionId);
+}
+
+/**
+ * Operator reset for a tripped circuit breaker
+ */
+export async function resetCircuitBreaker(workflowId: string): Promise<void> {
+  await new CircuitBreaker().reset(workflowId);
 }
@@ -0,0 +1,357 @@
+/**
+ * Workflow Schema
+ *
+ * JSON Schema for workflow YAML files, derived from WorkflowConfig and the
+ * related types in services/types.ts (keep the two in sync), plus a small
+ * validator for the subset of JSON Schema it uses: type, properties,
+ * required, additionalProperties, items, enum, minimum, maximum, minItems, pattern.
+ * Step config is validated separately against the schema of the step
+ * type's handler (services/stepRegistry.ts).
+ *
+ * Requirements:
+ * - 11.1: Workflow configurable via YAML
+ */
+
+export type SchemaType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null";
+
+export interface JsonSchema {
+  type?: SchemaType | SchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  /** false rejects unknown keys; a schema validates their values */
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  pattern?: string;
+}
+
+export type SchemaPath = Array<string | number>;
+
+export interface SchemaIssue {
+  path: SchemaPath;
+  message: string;
+  /** The issue concerns the key at `path` (e.g. an unknown property), not its value */
+  atKey?: boolean;
+}
+
+export const stringMapSchema: JsonSchema = { type: "object", additionalProperties: { type: "string" } };
+
+export const retrySchema: JsonSchema = {
+  type: "object",
+  required: ["max_attempts", "initial_delay", "backoff_multiplier", "max_delay"],
+  properties: {
+    max_attempts: { type: "integer", minimum: 1 },
+    initial_delay: { type: "number", minimum: 0 },
+    backoff_multiplier: { type: "number", minimum: 1 },
+    max_delay: { type: "number", minimum: 0 },
+    retry_on_status: { type: "array", items: { type: "integer", minimum: 100 } },
+    retry_on_timeout: { type: "boolean" },
+    retry_on_revert: { type: "boolean" },
+  },
+  additionalProperties: false,
+};
+
+export const cacheSchema: JsonSchema = {
+  type: "object",
+  required: ["enabled", "ttl", "use_on_error"],
+  properties: {
+    enabled: { type: "boolean" },
+    ttl: { type: "number", minimum: 0 },
+    use_on_error: { type: "boolean" },
+    key: { type: "string" },
+  },
+  additionalProperties: false,
+};
+
+export const timeoutSchema: JsonSchema = { type: "number", minimum: 0 };
+
+const outputSchema: JsonSchema = {
+  type: "object",
+  required: ["path", "description"],
+  properties: {
+    path: { type: "string" },
+    transform: { type: "string" },
+    validate: {
+      type: "object",
+      required: ["type"],
+      properties: {
+        type: { type: "string", enum: ["number", "integer", "string", "boolean", "object", "array"] },
+        min: { type: "number" },
+        max: { type: "number" },
+        min_length: { type: "integer", minimum: 0 },
+      },
+      additionalProperties: false,
+    },
+    default: {},
+    description: { type: "string" },
+  },
+  additionalProperties: false,
+};
+
+const stepSchema: JsonSchema = {
+  type: "object",
+  required: ["id", "name", "type", "description", "config", "outputs", "on_error"],
+  properties: {
+    id: { type: "string", pattern: "^[A-Za-z_][\\w\\-]*$" },
+    name: { type: "string" },
+    type: { type: "string" },
+    description: { type: "string" },
+    depends_on: { type: "array", items: { type: "string" } },
+    condition: { type: "string" },
+    config: { type: "object" },
+    outputs: { type: "object", additionalProperties: outputSchema },
+    on_error: {
+      type: "object",
+      required: ["action", "log"],
+      properties: {
+        action: { type: "string", enum: ["continue", "halt"] },
+        log: { type: "boolean" },
+        message: { type: "string" },
+      },
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+};
+
+const triggerSchema: JsonSchema = {
+  type: "object",
+  required: ["type", "description", "enabled"],
+  properties: {
+    type: { type: "string", enum: ["cron", "manual", "event"] },
+    schedule: { type: "string" },
+    description: { type: "string" },
+    enabled: { type: "boolean" },
+    catch_up: { type: "string", enum: ["skip", "run_once", "run_all"] },
+    max_catch_up: { type: "integer", minimum: 1 },
+    contract_address: { type: "string" },
+    event: { type: "string" },
+    filter: stringMapSchema,
+    transport: { type: "string", enum: ["poll", "websocket"] },
+    poll_interval: { type: "integer", minimum: 1 },
+    confirmations: { type: "integer", minimum: 1 },
+    from_block: { type: "integer", minimum: 0 },
+    max_block_range: { type: "integer", minimum: 1 },
+  },
+  additionalProperties: false,
+};
+
+const monitoringSchema: JsonSchema = {
+  type: "object",
+  required: ["enabled", "metrics", "alerts"],
+  properties: {
+    enabled: { type: "boolean" },
+    metrics: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["name", "description", "unit"],
+        properties: { name: { type: "string" }, description: { type: "string" }, unit: { type: "string" } },
+        additionalProperties: false,
+      },
+    },
+    alerts: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["condition", "message"],
+        properties: {
+          condition: { type: "string" },
+          severity: { type: "string", enum: ["info", "warn", "warning", "error", "critical"] },
+          message: { type: "string" },
+          for_runs: { type: "integer", minimum: 1 },
+          sinks: { type: "array", items: { type: "string" } },
+        },
+        additionalProperties: false,
+      },
+    },
+    sinks: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["name", "type"],
+        properties: {
+          name: { type: "string" },
+          type: { type: "string", enum: ["log", "webhook", "file"] },
+          url: { type: "string" },
+          path: { type: "string" },
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+  additionalProperties: false,
+};
+
+export const WORKFLOW_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["name", "version", "description", "triggers", "environment", "steps", "error_handling", "logging", "metadata"],
+  properties: {
+    name: { type: "string", pattern: "^[\\w.\\-]+$" },
+    version: { type: "string" },
+    description: { type: "string" },
+    triggers: { type: "array", items: triggerSchema },
+    environment: {
+      type: "object",
+      additionalProperties: {
+        type: "object",
+        required: ["required", "description"],
+        properties: {
+          required: { type: "boolean" },
+          default: { type: ["string", "number", "boolean"] },
+          description: { type: "string" },
+          sensitive: { type: "boolean" },
+        },
+        additionalProperties: false,
+      },
+    },
+    steps: { type: "array", minItems: 1, items: stepSchema },
+    error_handling: {
+      type: "object",
+      required: ["strategy", "log_errors", "notify_on_failure"],
+      properties: {
+        strategy: { type: "string", enum: ["continue", "halt"] },
+        log_errors: { type: "boolean" },
+        notify_on_failure: { type: "boolean" },
+        max_consecutive_failures: { type: "integer", minimum: 1 },
+      },
+      additionalProperties: false,
+    },
+    logging: {
+      type: "object",
+      required: ["level", "include_timestamps", "include_step_outputs", "format", "destination"],
+      properties: {
+        level: { type: "string", enum: ["debug", "info", "warn", "error"] },
+        include_timestamps: { type: "boolean" },
+        include_step_outputs: { type: "boolean" },
+        include_step_duration: { type: "boolean" },
+        format: { type: "string", enum: ["json", "text"] },
+        destination: { type: "string" },
+      },
+      additionalProperties: false,
+    },
+    monitoring: monitoringSchema,
+    metadata: {
+      type: "object",
+      required: ["author", "created", "version", "category", "tags"],
+      properties: {
+        author: { type: "string" },
+        created: { type: "string" },
+        updated: { type: "string" },
+        version: { type: "string" },
+        hackathon: { type: "string" },
+        category: { type: "string" },
+        tags: { type: "array", items: { type: "string" } },
+        requirements_validated: { type: "array", items: { type: "string" } },
+      },
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+};
+
+function typeOf(value: unknown): SchemaType | "undefined" {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  if (typeof value === "object") return "object";
+  return typeof value as SchemaType | "undefined";
+}
+
+function matchesType(value: unknown, type: SchemaType): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+/**
+ * Edit distance, for "did you mean" hints on unknown keys
+ */
+function distance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+function suggestion(key: string, candidates: string[]): string {
+  const best = candidates
+    .map((candidate) => ({ candidate, score: distance(key.toLowerCase(), candidate.toLowerCase()) }))
+    .sort((a, b) => a.score - b.score)[0];
+  return best && best.score <= 2 ? ` (did you mean "${best.candidate}"?)` : "";
+}
+
+/**
+ * Validate a value against a schema, collecting every issue
+ */
+export function validateSchema(value: unknown, schema: JsonSchema, path: SchemaPath = []): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      const article = /^[aeiou]/.test(types[0]) ? "an" : "a";
+      issues.push({ path, message: `expected ${article} ${types.join(" or ")}, got ${typeOf(value)}` });
+      return issues;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({ path, message: `must be one of: ${schema.enum.join(", ")} (got ${JSON.stringify(value)})` });
+  }
+
+  if (typeof value === "number" && schema.minimum !== undefined && value < schema.minimum) {
+    issues.push({ path, message: `must be >= ${schema.minimum} (got ${value})` });
+  }
+  if (typeof value === "number" && schema.maximum !== undefined && value > schema.maximum) {
+    issues.push({ path, message: `must be <= ${schema.maximum} (got ${value})` });
+  }
+
+  if (typeof value === "string" && schema.pattern && !new RegExp(schema.pattern).test(value)) {
+    issues.push({ path, message: `"${value}" does not match pattern ${schema.pattern}` });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, message: `must have at least ${schema.minItems} item(s)` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => issues.push(...validateSchema(item, schema.items!, [...path, index])));
+    }
+  } else if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) {
+        issues.push({ path, message: `missing required property "${key}"` });
+      }
+    }
+
+    for (const [key, child] of Object.entries(object)) {
+      if (properties[key]) {
+        issues.push(...validateSchema(child, properties[key], [...path, key]));
+      } else if (schema.additionalProperties === false) {
+        issues.push({
+          path: [...path, key],
+          message: `unknown property "${key}"${suggestion(key, Object.keys(properties))}`,
+          atKey: true,
+        });
+      } else if (typeof schema.additionalProperties === "object") {
+        issues.push(...validateSchema(child, schema.additionalProperties, [...path, key]));
+      }
+    }
+  }
+
+  return issues;
+}
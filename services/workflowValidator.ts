@@ -0,0 +1,435 @@
+/**
+ * Workflow Validator
+ *
+ * Validates a workflow YAML file before it is run: YAML syntax, structure
+ * (WORKFLOW_SCHEMA), step types and config (the step registry), step dependencies, condition and alert expressions,
+ * output paths and transforms, cron schedules, event trigger signatures, `${steps.X.outputs.Y}`
+ * references against declared outputs, and required environment variables.
+ * Every issue carries the line and column of the offending YAML node.
+ *
+ * Requirements:
+ * - 11.1: Workflow configurable via YAML
+ */
+
+import * as fs from "fs";
+import { ethers } from "ethers";
+import { LineCounter, Document, isMap, isSeq, isPair, isScalar, parseDocument } from "yaml";
+import { WORKFLOW_SCHEMA, SchemaIssue, SchemaPath, validateSchema } from "./workflowSchema";
+import { buildStepGraph } from "./workflowGraph";
+import { collectReferences, parseExpression } from "./expressionEvaluator";
+import { isKnownTransform, splitPipeline } from "./outputExtractor";
+import { parseJsonPath } from "./jsonPath";
+import { CronSchedule } from "./cronSchedule";
+import { eventTopics, parseEventSignature } from "./eventTrigger";
+import { StepRegistry, defaultStepRegistry } from "./stepRegistry";
+import { SecretsProvider } from "./secretsProvider";
+import { Trigger, WorkflowConfig } from "./types";
+
+export interface ValidationIssue {
+  severity: "error" | "warning";
+  message: string;
+  /** Location in the document, e.g. steps[1].depends_on */
+  path: string;
+  line?: number;
+  column?: number;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  issues: ValidationIssue[];
+  /** The parsed configuration (present when the YAML parsed) */
+  config?: WorkflowConfig;
+}
+
+export interface ValidateOptions {
+  /** Verify that required environment variables are set (default true) */
+  checkEnvironment?: boolean;
+  env?: Record<string, string | undefined>;
+  /** Where variables are looked up when env is not given (default: process.env) */
+  secrets?: SecretsProvider;
+  /** Step types the workflow may use (default: the built-in types) */
+  registry?: StepRegistry;
+}
+
+export class WorkflowValidationError extends Error {
+  constructor(
+    public file: string,
+    public issues: ValidationIssue[]
+  ) {
+    const errors = issues.filter((issue) => issue.severity === "error");
+    super(`Invalid workflow ${file}:\n${errors.map((issue) => `  ${formatIssue(issue)}`).join("\n")}`);
+    this.name = "WorkflowValidationError";
+  }
+}
+
+/**
+ * Format an issue as "[file:]line:column: severity: message (path)"
+ */
+export function formatIssue(issue: ValidationIssue, file?: string): string {
+  const location = [file, issue.line, issue.column].filter((part) => part !== undefined).join(":");
+  const where = issue.path ? ` (${issue.path})` : "";
+  return `${location ? `${location}: ` : ""}${issue.severity}: ${issue.message}${where}`;
+}
+
+function formatPath(path: SchemaPath): string {
+  return path
+    .map((segment, i) => (typeof segment === "number" ? `[${segment}]` : i === 0 ? segment : `.${segment}`))
+    .join("");
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Collects issues and resolves document paths to line/column positions
+ */
+class IssueCollector {
+  issues: ValidationIssue[] = [];
+
+  constructor(
+    private document: Document,
+    private lineCounter: LineCounter
+  ) {}
+
+  add(severity: ValidationIssue["severity"], path: SchemaPath, message: string, atKey: boolean = false): void {
+    const offset = this.offsetOf(path, atKey);
+    const position = offset !== undefined ? this.lineCounter.linePos(offset) : undefined;
+    this.issues.push({
+      severity,
+      message,
+      path: formatPath(path),
+      ...(position ? { line: position.line, column: position.col } : {}),
+    });
+  }
+
+  error(path: SchemaPath, message: string, atKey?: boolean): void {
+    this.add("error", path, message, atKey);
+  }
+
+  warning(path: SchemaPath, message: string): void {
+    this.add("warning", path, message);
+  }
+
+  /**
+   * Start offset of the deepest node along the path that exists
+   */
+  private offsetOf(path: SchemaPath, atKey: boolean): number | undefined {
+    let node: unknown = this.document.contents;
+    let offset = (node as { range?: [number, number, number] })?.range?.[0];
+
+    for (let i = 0; i < path.length; i++) {
+      const segment = path[i];
+      let next: unknown;
+
+      if (isMap(node)) {
+        const pair = node.items.find((item) => isPair(item) && isScalar(item.key) && item.key.value === segment);
+        if (!pair) break;
+        const keyOffset = (pair.key as { range?: [number, number, number] })?.range?.[0];
+        if (atKey && i === path.length - 1) return keyOffset;
+        next = pair.value;
+        offset = (next as { range?: [number, number, number] })?.range?.[0] ?? keyOffset;
+      } else if (isSeq(node) && typeof segment === "number") {
+        next = node.items[segment];
+        if (next === undefined) break;
+        offset = (next as { range?: [number, number, number] })?.range?.[0] ?? offset;
+      } else {
+        break;
+      }
+      node = next;
+    }
+
+    return offset;
+  }
+}
+
+/**
+ * Validate workflow YAML source
+ */
+export function validateWorkflow(source: string, options: ValidateOptions = {}): ValidationResult {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(source, { lineCounter });
+  const collector = new IssueCollector(document, lineCounter);
+
+  for (const error of document.errors) {
+    const position = lineCounter.linePos(error.pos[0]);
+    collector.issues.push({
+      severity: "error",
+      message: error.message.split("\n")[0],
+      path: "",
+      line: position.line,
+      column: position.col,
+    });
+  }
+  if (document.errors.length > 0) {
+    return { valid: false, issues: collector.issues };
+  }
+
+  const config = document.toJS() as WorkflowConfig;
+
+  const registry = options.registry || defaultStepRegistry;
+  const schemaIssues = validateSchema(config, WORKFLOW_SCHEMA);
+  if (schemaIssues.length === 0) {
+    schemaIssues.push(...checkStepTypes(config, registry));
+  }
+  for (const issue of schemaIssues) {
+    collector.error(issue.path, issue.message, issue.atKey);
+  }
+
+  // Semantic checks need a structurally valid document
+  if (schemaIssues.length === 0) {
+    checkSteps(config, registry, collector);
+    checkTriggers(config, collector);
+    checkMonitoring(config, registry, collector);
+    if (options.checkEnvironment !== false) {
+      const lookup = options.env
+        ? (name: string) => options.env![name]
+        : (name: string) => (options.secrets ? options.secrets.get(name) : process.env[name]);
+      checkEnvironment(config, collector, lookup);
+    }
+  }
+
+  return {
+    valid: !collector.issues.some((issue) => issue.severity === "error"),
+    issues: collector.issues,
+    config,
+  };
+}
+
+/**
+ * Validate a workflow file from disk
+ */
+export function validateWorkflowFile(file: string, options: ValidateOptions = {}): ValidationResult {
+  return validateWorkflow(fs.readFileSync(file, "utf8"), options);
+}
+
+/**
+ * Check each step's type is registered and its config matches the handler's schema
+ */
+function checkStepTypes(config: WorkflowConfig, registry: StepRegistry): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+
+  config.steps.forEach((step, index) => {
+    const handler = registry.get(step.type);
+    if (!handler) {
+      issues.push({
+        path: ["steps", index, "type"],
+        message: `must be one of: ${registry.types().join(", ")} (got ${JSON.stringify(step.type)})`,
+      });
+      return;
+    }
+
+    const configPath: SchemaPath = ["steps", index, "config"];
+    const configIssues = validateSchema(step.config, handler.configSchema, configPath);
+    issues.push(...configIssues);
+    if (configIssues.length === 0 && handler.validateConfig) {
+      for (const issue of handler.validateConfig(step.config)) {
+        issues.push({ path: [...configPath, ...issue.path], message: issue.message });
+      }
+    }
+  });
+
+  return issues;
+}
+
+function checkSteps(config: WorkflowConfig, registry: StepRegistry, collector: IssueCollector): void {
+  const stepIndex = new Map(config.steps.map((step, index) => [step.id, index]));
+
+  let ancestors: Map<string, Set<string>> | undefined;
+  try {
+    const graph = buildStepGraph(config.steps);
+    ancestors = new Map();
+    for (const stepId of graph.order) {
+      const set = new Set<string>();
+      for (const depId of graph.dependencies.get(stepId)!) {
+        set.add(depId);
+        ancestors.get(depId)!.forEach((id) => set.add(id));
+      }
+      ancestors.set(stepId, set);
+    }
+  } catch (error) {
+    const message = errorMessage(error);
+    const stepId = /^(?:Duplicate step id: |Step )([\w\-]+)/.exec(message)?.[1];
+    const index = stepId !== undefined ? stepIndex.get(stepId) : undefined;
+    collector.error(index !== undefined ? ["steps", index] : ["steps"], message);
+  }
+
+  config.steps.forEach((step, index) => {
+    const path: SchemaPath = ["steps", index];
+
+    for (const [name, output] of Object.entries(step.outputs)) {
+      const outputPath: SchemaPath = [...path, "outputs", name];
+      for (const stage of splitPipeline(output.path)) {
+        if (stage.startsWith("$")) {
+          try {
+            parseJsonPath(stage);
+          } catch (error) {
+            collector.error([...outputPath, "path"], `Invalid output path: ${errorMessage(error)}`);
+          }
+        } else if (!isKnownTransform(stage)) {
+          collector.error([...outputPath, "path"], `Unknown output transform in path: ${stage}`);
+        }
+      }
+      if (output.transform && !isKnownTransform(output.transform)) {
+        collector.error([...outputPath, "transform"], `Unknown output transform: ${output.transform}`);
+      }
+    }
+
+    const upstream = ancestors?.get(step.id);
+
+    if (step.condition !== undefined) {
+      try {
+        const references = collectReferences(parseExpression(step.condition));
+        for (const reference of references) {
+          checkReference(config, registry, reference, [...path, "condition"], collector, step.id, upstream);
+        }
+      } catch (error) {
+        collector.error([...path, "condition"], `Invalid condition for step ${step.id}: ${errorMessage(error)}`);
+      }
+    }
+
+    forEachString(step.config, [...path, "config"], (value, valuePath) => {
+      for (const match of value.matchAll(/\$\{([^}]+)\}/g)) {
+        checkReference(config, registry, match[1].trim(), valuePath, collector, step.id, upstream);
+      }
+    });
+  });
+}
+
+/**
+ * Check a `steps.<id>.outputs.<name>` reference (or an environment variable name)
+ */
+function checkReference(
+  config: WorkflowConfig,
+  registry: StepRegistry,
+  reference: string,
+  path: SchemaPath,
+  collector: IssueCollector,
+  fromStep?: string,
+  upstream?: Set<string>
+): void {
+  if (!reference.startsWith("steps.")) {
+    if (/^[A-Za-z_]\w*$/.test(reference) && !(reference in config.environment)) {
+      collector.warning(path, `Environment variable ${reference} is not declared in environment`);
+    }
+    return;
+  }
+
+  const [, stepId, section, outputName] = reference.split(".");
+  const target = config.steps.find((step) => step.id === stepId);
+
+  if (!target) {
+    collector.error(path, `Reference ${reference} points to unknown step: ${stepId}`);
+    return;
+  }
+  if (section !== "outputs" || !outputName) {
+    collector.error(path, `Reference ${reference} must have the form steps.<id>.outputs.<name>`);
+    return;
+  }
+  const implicitOutputs = registry.get(target.type)?.implicitOutputs || [];
+  if (!(outputName in target.outputs) && !implicitOutputs.includes(outputName)) {
+    const declared = Object.keys(target.outputs).join(", ") || "none";
+    collector.error(path, `Step ${stepId} has no output ${outputName} (declared: ${declared})`);
+    return;
+  }
+  if (fromStep && upstream && stepId !== fromStep && !upstream.has(stepId)) {
+    collector.warning(path, `Step ${fromStep} references ${stepId} but does not depend on it; the value may be unavailable`);
+  }
+}
+
+function forEachString(value: unknown, path: SchemaPath, visit: (value: string, path: SchemaPath) => void): void {
+  if (typeof value === "string") {
+    visit(value, path);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => forEachString(item, [...path, index], visit));
+  } else if (value && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      forEachString(child, [...path, key], visit);
+    }
+  }
+}
+
+function checkTriggers(config: WorkflowConfig, collector: IssueCollector): void {
+  config.triggers.forEach((trigger, index) => {
+    if (trigger.type === "event") {
+      checkEventTrigger(trigger, index, collector);
+      return;
+    }
+    if (trigger.type !== "cron") return;
+    if (!trigger.schedule) {
+      collector.error(["triggers", index], "cron trigger requires a schedule");
+      return;
+    }
+    try {
+      new CronSchedule(trigger.schedule);
+    } catch (error) {
+      collector.error(["triggers", index, "schedule"], errorMessage(error));
+    }
+  });
+}
+
+function checkEventTrigger(trigger: Trigger, index: number, collector: IssueCollector): void {
+  if (!trigger.contract_address || !trigger.event) {
+    collector.error(["triggers", index], "event trigger requires contract_address and event");
+    return;
+  }
+  let fragment: ethers.EventFragment;
+  try {
+    fragment = parseEventSignature(trigger.event);
+  } catch (error) {
+    collector.error(["triggers", index, "event"], errorMessage(error));
+    return;
+  }
+  try {
+    eventTopics(fragment, trigger.filter);
+  } catch (error) {
+    collector.error(["triggers", index, "filter"], errorMessage(error));
+  }
+}
+
+function checkMonitoring(config: WorkflowConfig, registry: StepRegistry, collector: IssueCollector): void {
+  const monitoring = config.monitoring;
+  if (!monitoring) return;
+
+  const sinkNames = new Set((monitoring.sinks || []).map((sink) => sink.name));
+  (monitoring.sinks || []).forEach((sink, index) => {
+    if (sink.type === "webhook" && !sink.url) {
+      collector.error(["monitoring", "sinks", index], `Alert sink ${sink.name}: webhook sink requires a url`);
+    }
+    if (sink.type === "file" && !sink.path) {
+      collector.error(["monitoring", "sinks", index], `Alert sink ${sink.name}: file sink requires a path`);
+    }
+  });
+
+  monitoring.alerts.forEach((alert, index) => {
+    const path: SchemaPath = ["monitoring", "alerts", index];
+    try {
+      for (const reference of collectReferences(parseExpression(alert.condition))) {
+        // Bare names in alert conditions are run metrics, not environment variables
+        if (reference.startsWith("steps.")) {
+          checkReference(config, registry, reference, [...path, "condition"], collector);
+        }
+      }
+    } catch (error) {
+      collector.error([...path, "condition"], `Invalid alert condition "${alert.condition}": ${errorMessage(error)}`);
+    }
+
+    for (const sink of alert.sinks || []) {
+      if (monitoring.sinks ? !sinkNames.has(sink) : sink !== "log") {
+        collector.error([...path, "sinks"], `Alert routes to unknown sink: ${sink}`);
+      }
+    }
+  });
+}
+
+function checkEnvironment(
+  config: WorkflowConfig,
+  collector: IssueCollector,
+  lookup: (name: string) => string | undefined
+): void {
+  for (const [name, variable] of Object.entries(config.environment)) {
+    if (variable.required && variable.default === undefined && !lookup(name)) {
+      collector.error(["environment", name], `Required environment variable ${name} is not set`);
+    }
+  }
+}
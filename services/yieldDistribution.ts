@@ -0,0 +1,218 @@
+/**
+ * Yield Distribution Policy
+ *
+ * Decides whether YieldDistributor.distributeYields() should run, from a
+ * snapshot of on-chain state read at one block: the distribution pool, the
+ * current rent from PriceManager and the last Distribution record. A
+ * distribution is due when the pool reaches a USD threshold or a multiple of
+ * the monthly rent (whichever is lower) and the minimum interval since the
+ * last distribution has passed. Used by the yield-distribution step.
+ *
+ * Requirements:
+ * - 2.6: Trigger yield distribution after rental payment collection
+ * - 7.5: Skip distribution if pool is empty
+ */
+
+import { ethers } from "ethers";
+import { MulticallProvider, MulticallRequest, multicall } from "./multicall";
+import { DistributionPolicyConfig } from "./types";
+
+export const YIELD_DISTRIBUTOR_ABI = [
+  "function getDistributionPool() view returns (uint256)",
+  "function getDistributionCount() view returns (uint256)",
+  "function getDistribution(uint256 id) view returns (tuple(uint256 id, uint256 totalAmount, uint256 amountPerToken, uint256 timestamp, uint256 recipientCount))",
+  "function priceManager() view returns (address)",
+  "function distributeYields()",
+  "event YieldsDistributed(uint256 indexed distributionId, uint256 totalAmount, uint256 recipientCount, uint256 timestamp)",
+  "error DistributionPoolEmpty()",
+  "error NoTokenHolders()",
+  "error TransferFailed()",
+  "error InvalidDistributionId()",
+];
+
+const PRICE_MANAGER_ABI = ["function getCurrentRentalPrice() view returns (uint256)"];
+
+/** Pool and rent are held in USDC */
+const USDC_DECIMALS = 6;
+
+export interface DistributionSnapshot {
+  blockNumber: number;
+  /** Block timestamp in ms */
+  timestamp: number;
+  pool: bigint;
+  /** Current monthly rent; absent when PriceManager could not be read */
+  rent?: bigint;
+  lastDistribution?: { id: number; timestamp: number };
+}
+
+export interface DistributionDecision {
+  eligible: boolean;
+  reason: string;
+  pool_usd: number;
+  rent_usd?: number;
+  /** Pool size that makes a distribution due */
+  threshold_usd?: number;
+  last_distribution_id?: number;
+  /** ms since epoch */
+  last_distribution_at?: number;
+  next_eligible_at?: number;
+}
+
+export interface SnapshotOptions {
+  /** Defaults to the YieldDistributor's priceManager() */
+  priceManager?: string;
+  multicallAddress?: string;
+  blockTag?: ethers.BlockTag;
+}
+
+/**
+ * Read the pool, rent and last distribution at one block
+ */
+export async function readDistributionSnapshot(
+  provider: MulticallProvider,
+  yieldDistributor: string,
+  options: SnapshotOptions = {}
+): Promise<DistributionSnapshot> {
+  const read = (id: string, functionName: string, args: unknown[] = [], allowFailure = false): MulticallRequest => ({
+    id,
+    to: yieldDistributor,
+    abi: YIELD_DISTRIBUTOR_ABI,
+    functionName,
+    args,
+    allowFailure,
+  });
+
+  const first = await multicall(
+    provider,
+    [
+      read("pool", "getDistributionPool"),
+      read("count", "getDistributionCount"),
+      ...(options.priceManager ? [] : [read("priceManager", "priceManager", [], true)]),
+    ],
+    { address: options.multicallAddress, blockTag: options.blockTag }
+  );
+
+  // Rent and the last distribution depend on the first batch; read them at the same block
+  const count = Number(first.results.count);
+  const priceManager = options.priceManager ?? (first.results.priceManager as string | null) ?? undefined;
+  const second: MulticallRequest[] = [];
+  if (priceManager) {
+    second.push({ id: "rent", to: priceManager, abi: PRICE_MANAGER_ABI, functionName: "getCurrentRentalPrice", allowFailure: true });
+  }
+  if (count > 0) {
+    second.push(read("last", "getDistribution", [count]));
+  }
+  const results =
+    second.length > 0
+      ? (await multicall(provider, second, { address: options.multicallAddress, blockTag: first.blockNumber })).results
+      : {};
+
+  const block = await provider.getBlock(first.blockNumber);
+  if (!block) {
+    throw new Error(`Block ${first.blockNumber} not found`);
+  }
+
+  const last = results.last as { id: string; timestamp: string } | undefined;
+  return {
+    blockNumber: first.blockNumber,
+    timestamp: block.timestamp * 1000,
+    pool: BigInt(first.results.pool as string),
+    ...(results.rent != null ? { rent: BigInt(results.rent as string) } : {}),
+    ...(last ? { lastDistribution: { id: Number(last.id), timestamp: Number(last.timestamp) * 1000 } } : {}),
+  };
+}
+
+function usd(amount: bigint): number {
+  return Number(ethers.formatUnits(amount, USDC_DECIMALS));
+}
+
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+/**
+ * Apply the policy to a snapshot
+ */
+export function evaluateDistributionPolicy(
+  policy: DistributionPolicyConfig,
+  snapshot: DistributionSnapshot
+): DistributionDecision {
+  const decision: DistributionDecision = {
+    eligible: false,
+    reason: "",
+    pool_usd: usd(snapshot.pool),
+    ...(snapshot.rent !== undefined ? { rent_usd: usd(snapshot.rent) } : {}),
+  };
+
+  const last = snapshot.lastDistribution;
+  if (last) {
+    decision.last_distribution_id = last.id;
+    decision.last_distribution_at = last.timestamp;
+  }
+
+  // Requirement 7.5: Skip distribution if pool is empty
+  if (snapshot.pool === 0n) {
+    return { ...decision, reason: "Distribution pool is empty" };
+  }
+
+  if (last && policy.min_interval_hours) {
+    const nextEligibleAt = last.timestamp + policy.min_interval_hours * 3600 * 1000;
+    if (snapshot.timestamp < nextEligibleAt) {
+      return {
+        ...decision,
+        next_eligible_at: nextEligibleAt,
+        reason:
+          `Last distribution #${last.id} was at ${new Date(last.timestamp).toISOString()}; ` +
+          `next eligible at ${new Date(nextEligibleAt).toISOString()}`,
+      };
+    }
+  }
+
+  const thresholds: number[] = [];
+  if (policy.min_pool_usd !== undefined) {
+    thresholds.push(policy.min_pool_usd);
+  }
+  if (policy.min_rent_multiple !== undefined && decision.rent_usd !== undefined) {
+    thresholds.push(policy.min_rent_multiple * decision.rent_usd);
+  }
+
+  if (thresholds.length === 0) {
+    if (policy.min_rent_multiple !== undefined) {
+      return { ...decision, reason: "Current rent is unavailable; cannot apply min_rent_multiple" };
+    }
+    return { ...decision, eligible: true, reason: `Pool ${formatUsd(decision.pool_usd)} is not empty and no threshold is set` };
+  }
+
+  decision.threshold_usd = Math.min(...thresholds);
+  if (decision.pool_usd < decision.threshold_usd) {
+    return {
+      ...decision,
+      reason: `Pool ${formatUsd(decision.pool_usd)} is below the ${formatUsd(decision.threshold_usd)} threshold`,
+    };
+  }
+  return {
+    ...decision,
+    eligible: true,
+    reason: `Pool ${formatUsd(decision.pool_usd)} meets the ${formatUsd(decision.threshold_usd)} threshold`,
+  };
+}
+
+/**
+ * Distribution id, amount and recipients from a distributeYields receipt
+ */
+export function parseDistributionReceipt(
+  receipt: ethers.TransactionReceipt
+): { distribution_id: number; distributed_usd: number; recipient_count: number } | undefined {
+  const iface = new ethers.Interface(YIELD_DISTRIBUTOR_ABI);
+  for (const log of receipt.logs) {
+    const parsed = iface.parseLog(log);
+    if (parsed?.name === "YieldsDistributed") {
+      return {
+        distribution_id: Number(parsed.args.distributionId),
+        distributed_usd: usd(parsed.args.totalAmount),
+        recipient_count: Number(parsed.args.recipientCount),
+      };
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,225 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import {
+  ContractCallRevertError,
+  callContract,
+  decodeResult,
+  encodeArgs,
+  parseBlockTag,
+} from "../services/abiCodec";
+import { WorkflowOrchestrator } from "../services/workflowOrchestrator";
+import { validateWorkflow } from "../services/workflowValidator";
+import { WorkflowStep } from "../services/types";
+import * as fs from "fs";
+import { writeWorkflow } from "./helpers/workflow";
+
+/**
+ * Unit Tests for ABI-driven encoding and decoding of ethereum-call steps
+ *
+ * Requirements:
+ * - 2.6: Check rental payment before distributing yields
+ * - 3.5: Format data in standardized structure
+ */
+
+const RECOMMENDATION_ABI = [
+  "function getLatestRecommendation() view returns (tuple(uint256 id, uint256 recommendedPrice, uint256 confidenceScore, string reasoning, uint256 timestamp, bool accepted, bool rejected, address submitter))",
+  "function getRecommendation(uint256 id) view returns (tuple(uint256 id, uint256 recommendedPrice, uint256 confidenceScore, string reasoning, uint256 timestamp, bool accepted, bool rejected, address submitter))",
+  "function getHolderYields(address holder) view returns (uint256)",
+  "function getReserves() view returns (uint112 reserve0, uint112, bool)",
+  "error InvalidRecommendationId()",
+];
+
+/** ABI JSON as it appears in workflow YAML */
+function abiJson(fragments: string[]): string {
+  return JSON.stringify(fragments.map((fragment) => JSON.parse(ethers.Fragment.from(fragment).format("json"))));
+}
+
+describe("ABI Codec", function () {
+  const iface = new ethers.Interface(RECOMMENDATION_ABI);
+
+  describe("encodeArgs", function () {
+    it("should coerce numbers, booleans and struct objects to the input types", function () {
+      const fragment = ethers.FunctionFragment.from(
+        "function configure(uint256 price, bool enabled, tuple(address holder, uint256[] amounts) split)"
+      );
+      const holder = ethers.Wallet.createRandom().address;
+
+      expect(encodeArgs(fragment, [2500, "true", { holder, amounts: [1, "2"] }])).to.deep.equal([
+        2500n,
+        true,
+        [holder, [1n, "2"]],
+      ]);
+    });
+
+    it("should reject the wrong number of arguments and unsafe numbers", function () {
+      const fragment = iface.getFunction("getHolderYields")!;
+      expect(() => encodeArgs(fragment, [])).to.throw("getHolderYields(address) takes 1 argument(s), got 0");
+
+      const price = ethers.FunctionFragment.from("function set(uint256 price)");
+      expect(() => encodeArgs(price, [2 ** 60])).to.throw("use a string for larger values");
+    });
+  });
+
+  describe("decodeResult", function () {
+    it("should decode structs into named JSON with integers as decimal strings", function () {
+      const fragment = iface.getFunction("getLatestRecommendation")!;
+      const submitter = ethers.Wallet.createRandom().address;
+      const data = iface.encodeFunctionResult(fragment, [
+        [7n, 2n ** 70n, 85n, "Market rate", 1700000000n, true, false, submitter],
+      ]);
+
+      expect(decodeResult(fragment, iface.decodeFunctionResult(fragment, data))).to.deep.equal({
+        id: "7",
+        recommendedPrice: (2n ** 70n).toString(),
+        confidenceScore: "85",
+        reasoning: "Market rate",
+        timestamp: "1700000000",
+        accepted: true,
+        rejected: false,
+        submitter,
+      });
+    });
+
+    it("should key several return values by name, or position when unnamed", function () {
+      const fragment = iface.getFunction("getReserves")!;
+      const data = iface.encodeFunctionResult(fragment, [10n, 20n, true]);
+
+      expect(decodeResult(fragment, iface.decodeFunctionResult(fragment, data))).to.deep.equal({
+        reserve0: "10",
+        1: "20",
+        2: true,
+      });
+    });
+  });
+
+  describe("callContract", function () {
+    it("should read at the requested block and decode custom error reverts", async function () {
+      const blockTags: unknown[] = [];
+      const provider = {
+        call: async (request: ethers.TransactionRequest) => {
+          blockTags.push(request.blockTag);
+          if (request.data!.startsWith(iface.getFunction("getRecommendation")!.selector)) {
+            throw Object.assign(new Error("execution reverted"), {
+              code: "CALL_EXCEPTION",
+              data: iface.encodeErrorResult("InvalidRecommendationId", []),
+            });
+          }
+          return ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [1500000n]);
+        },
+      };
+      const to = ethers.Wallet.createRandom().address;
+
+      const yields = await callContract(provider, {
+        to,
+        abi: RECOMMENDATION_ABI,
+        functionName: "getHolderYields",
+        args: [to],
+        blockTag: parseBlockTag("1234"),
+      });
+      expect(yields).to.equal("1500000");
+      expect(blockTags).to.deep.equal([1234]);
+
+      const error: any = await callContract(provider, {
+        to,
+        abi: RECOMMENDATION_ABI,
+        functionName: "getRecommendation",
+        args: [99],
+      }).catch((e) => e);
+      expect(error).to.be.instanceOf(ContractCallRevertError);
+      expect(error.message).to.equal("Call to getRecommendation reverted: InvalidRecommendationId()");
+      expect(blockTags[1]).to.equal("latest");
+    });
+  });
+
+  describe("Workflow steps", function () {
+    let savedEnv: NodeJS.ProcessEnv;
+
+    beforeEach(function () {
+      savedEnv = { ...process.env };
+      process.env.OPENAI_API_KEY = "test-key";
+      delete process.env.ETHEREUM_RPC_URL;
+      delete process.env.PRIVATE_KEY;
+    });
+
+    afterEach(function () {
+      process.env = savedEnv;
+    });
+
+    function callStep(
+      id: string,
+      config: Record<string, unknown>,
+      outputs: WorkflowStep["outputs"],
+      overrides: Partial<WorkflowStep> = {}
+    ): WorkflowStep {
+      return {
+        id,
+        name: id,
+        type: "ethereum-call",
+        description: `Read ${config.function_name}`,
+        config: { abi: abiJson(RECOMMENDATION_ABI), ...config } as any,
+        outputs,
+        on_error: { action: "halt", log: true },
+        ...overrides,
+      };
+    }
+
+    it("should pass function_args and extract outputs from the decoded struct", async function () {
+      const submitter = ethers.Wallet.createRandom().address;
+      const address = ethers.Wallet.createRandom().address;
+      const recommendation = [1n, 2100000000n, 85n, "Market rate", 1700000000n, false, false, submitter];
+      const calls: Array<{ functionName: string; args: unknown[]; blockTag: unknown }> = [];
+      // A PriceManager holding one recommendation
+      const provider = {
+        call: async (request: ethers.TransactionRequest) => {
+          const parsed = iface.parseTransaction({ data: request.data! })!;
+          calls.push({ functionName: parsed.name, args: [...parsed.args], blockTag: request.blockTag });
+          return iface.encodeFunctionResult(parsed.fragment, [recommendation]);
+        },
+      } as unknown as ethers.Provider;
+
+      const state = await new WorkflowOrchestrator(
+        writeWorkflow([
+          callStep(
+            "latest",
+            { contract_address: address, function_name: "getLatestRecommendation", block_tag: "latest" },
+            {
+              recommendation_id: { path: "$.result.id", description: "" },
+              price_usd: { path: "$.result.recommendedPrice", transform: "divide_by_1e6", description: "" },
+              submitter: { path: "$.result.submitter", description: "" },
+            }
+          ),
+          callStep(
+            "by-id",
+            { contract_address: address, function_name: "getRecommendation", function_args: ["${steps.latest.outputs.recommendation_id}"] },
+            { reasoning: { path: "$.result.reasoning", description: "" } },
+            { depends_on: ["latest"] }
+          ),
+        ]),
+        { provider }
+      ).execute();
+
+      expect(state.status).to.equal("completed");
+      expect(state.step_outputs.latest).to.include({ recommendation_id: "1", price_usd: 2100, submitter });
+      expect(state.step_outputs.latest.result.accepted).to.equal(false);
+      expect(state.step_outputs["by-id"].reasoning).to.equal("Market rate");
+      expect(calls).to.deep.equal([
+        { functionName: "getLatestRecommendation", args: [], blockTag: "latest" },
+        { functionName: "getRecommendation", args: [1n], blockTag: "latest" },
+      ]);
+    });
+
+    it("should report a function_args count that does not match the ABI", function () {
+      const text = fs.readFileSync(
+        writeWorkflow([
+          callStep("yields", { contract_address: ethers.ZeroAddress, function_name: "getHolderYields", function_args: [] }, {
+            amount: { path: "$.result", description: "" },
+          }),
+        ]),
+        "utf8"
+      );
+
+      const issues = validateWorkflow(text).issues.map((issue) => issue.message);
+      expect(issues).to.include("getHolderYields takes 1 argument(s), got 0");
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { expect } from "chai";
+import { canonicalAddress, formatStreetLine, parseUsAddress } from "../services/addressParser";
+import { parseLocation } from "../services/marketDataProviders";
+import { MarketDataOracle } from "../services/marketDataOracle";
+
+/**
+ * Unit Tests for US address parsing and normalization
+ *
+ * Requirements:
+ * - 3.3: Cache market data
+ * - 3.5: Format data in standardized structure
+ */
+
+describe("Address Parser", function () {
+  describe("parseUsAddress", function () {
+    it("should split a full address into standardized components", function () {
+      expect(parseUsAddress("123 N Main Street Apt. 4B, San Francisco, California 94105-1234")).to.deep.equal({
+        number: "123",
+        predirectional: "N",
+        street: "Main",
+        suffix: "ST",
+        unitType: "APT",
+        unitNumber: "4B",
+        city: "San Francisco",
+        state: "CA",
+        zip: "94105",
+        zip4: "1234",
+      });
+    });
+
+    it("should find the city without commas when a state or ZIP follows", function () {
+      expect(parseUsAddress("350 Fifth Avenue Suite 3400 New York NY 10118")).to.include({
+        street: "Fifth",
+        suffix: "AVE",
+        unitType: "STE",
+        unitNumber: "3400",
+        city: "New York",
+        state: "NY",
+        zip: "10118",
+      });
+      expect(parseUsAddress("9 Elm St #2 Portland OR 97201")).to.include({ unitType: "#", unitNumber: "2", city: "Portland", state: "OR" });
+    });
+
+    it("should find the city and state without commas or a ZIP", function () {
+      expect(parseUsAddress("123 Main St San Francisco CA")).to.deep.equal({
+        number: "123",
+        street: "Main",
+        suffix: "ST",
+        city: "San Francisco",
+        state: "CA",
+      });
+      expect(parseUsAddress("123 Main St Apt 4 Austin TX")).to.deep.equal({
+        number: "123",
+        street: "Main",
+        suffix: "ST",
+        unitType: "APT",
+        unitNumber: "4",
+        city: "Austin",
+        state: "TX",
+      });
+      expect(parseUsAddress("9 Elm St #2 Portland Oregon")).to.include({ unitType: "#", unitNumber: "2", city: "Portland", state: "OR" });
+      expect(parseUsAddress("1600 Pennsylvania Ave NW Washington DC")).to.include({
+        street: "Pennsylvania",
+        postdirectional: "NW",
+        city: "Washington",
+        state: "DC",
+      });
+    });
+
+    it("should tell directionals and suffixes from street names", function () {
+      expect(parseUsAddress("1600 Pennsylvania Ave NW, Washington, DC 20500")).to.include({
+        street: "Pennsylvania",
+        postdirectional: "NW",
+        city: "Washington",
+        state: "DC",
+      });
+      expect(parseUsAddress("123 North Ave, Atlanta, Georgia")).to.include({ street: "North", suffix: "AVE", state: "GA" });
+      expect(parseUsAddress("100 Avenue of the Americas, New York, NY")).to.include({ street: "Avenue of the Americas" });
+      expect(parseUsAddress("55 Lake View Terrace")).to.include({ street: "Lake View", suffix: "TER" });
+    });
+
+    it("should not read a state out of a lone street line", function () {
+      expect(parseUsAddress("123 Main Ct")).to.deep.equal({ number: "123", street: "Main", suffix: "CT" });
+      expect(parseUsAddress("12 Oak St Ne")).to.deep.equal({ number: "12", street: "Oak", suffix: "ST", postdirectional: "NE" });
+    });
+  });
+
+  describe("canonicalAddress", function () {
+    it("should give every spelling of an address the same form", function () {
+      const spellings = [
+        "123 North Main Street, Apartment #4b, San Francisco, California 94105-1234",
+        "123 n. main st apt 4B, san francisco, ca 94105",
+        "123 N Main St Apt 4B San Francisco CA 94105",
+      ];
+
+      expect(spellings.map((spelling) => canonicalAddress(spelling))).to.deep.equal(
+        spellings.map(() => "123 N MAIN ST APT 4B, SAN FRANCISCO, CA 94105")
+      );
+      expect(canonicalAddress("456 Oak Ave, Los Angeles, CA")).to.equal("456 OAK AVE, LOS ANGELES, CA");
+      expect(canonicalAddress("123 Main St San Francisco CA")).to.equal(canonicalAddress("123 Main St, San Francisco, CA"));
+      expect(canonicalAddress("123 Main St Apt 4 Austin TX")).to.equal(canonicalAddress("123 Main Street, Apt 4, Austin, Texas"));
+      expect(canonicalAddress("123 Main St Apt 4 Austin TX")).to.equal("123 MAIN ST APT 4, AUSTIN, TX");
+      expect(formatStreetLine(parseUsAddress("123 n. main street apt 4b"))).to.equal("123 N main St Apt 4B");
+    });
+  });
+
+  describe("parseLocation", function () {
+    it("should keep the city and state when the address has a unit and no ZIP", function () {
+      expect(parseLocation("500 Market St Unit 12, San Francisco, CA")).to.deep.equal({
+        address: "500 Market St Unit 12",
+        city: "San Francisco",
+        state: "CA",
+        zipCode: "00000",
+      });
+    });
+  });
+
+  describe("MarketDataOracle cache keys", function () {
+    it("should share one cache entry between spellings of the same address", async function () {
+      let fetches = 0;
+      const oracle = new MarketDataOracle([
+        {
+          name: "reference",
+          fetch: async () => {
+            fetches++;
+            return { comparables: [], medianRent: 3100 };
+          },
+        },
+      ]);
+
+      await oracle.fetchMarketData("123 Main Street, San Francisco, California 94105", "Condo");
+      const cached = await oracle.fetchMarketData("123 main st., san francisco, ca 94105-1234", "Condo");
+
+      expect(fetches).to.equal(1);
+      expect(cached.freshness).to.equal("cached");
+    });
+  });
+});
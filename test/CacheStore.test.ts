@@ -0,0 +1,184 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  CacheStore,
+  FileCacheStore,
+  InMemoryCacheStore,
+  SqliteCacheStore,
+  cacheStoreFromEnv,
+} from "../services/cacheStore";
+import { MetricsRegistry, recordCacheMetrics } from "../services/metrics";
+import { WorkflowOrchestrator } from "../services/workflowOrchestrator";
+import { httpStep, jsonResponse, stubFetch, writeWorkflow } from "./helpers/workflow";
+
+/**
+ * Unit Tests for cache stores and the orchestrator's use of them
+ *
+ * Requirements:
+ * - 3.3: Cache market data
+ * - 3.4: Use cached data when API unavailable
+ * - 13.1: Use cached data on API failure
+ */
+
+const HOUR = 60 * 60 * 1000;
+
+function tempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "cache-store-test-"));
+}
+
+const backends: Array<{ name: string; create: (location: string) => CacheStore }> = [
+  { name: "InMemoryCacheStore", create: () => new InMemoryCacheStore() },
+  { name: "FileCacheStore", create: (dir) => new FileCacheStore(dir) },
+  { name: "SqliteCacheStore", create: (dir) => new SqliteCacheStore(path.join(dir, "cache.sqlite")) },
+];
+
+describe("Cache Stores", function () {
+  for (const backend of backends) {
+    describe(backend.name, function () {
+      let store: CacheStore;
+
+      beforeEach(function () {
+        store = backend.create(tempDir());
+      });
+
+      it("should serve entries within their TTL and expired ones only when stale data is allowed", async function () {
+        const now = Date.now();
+        await store.set("fresh", { rent: 3100 }, HOUR, now - 1000);
+        await store.set("expired", { rent: 2900 }, HOUR, now - 25 * HOUR);
+
+        expect(await store.get("fresh")).to.deep.equal({ value: { rent: 3100 }, fetchedAt: now - 1000, ttlMs: HOUR, stale: false });
+        expect(await store.get("expired")).to.be.null;
+        expect(await store.get("expired", true)).to.include({ fetchedAt: now - 25 * HOUR, stale: true });
+        expect(await store.get("missing", true)).to.be.null;
+
+        expect(await store.stats()).to.deep.equal({
+          backend: store.backend,
+          entries: 2,
+          hits: 1,
+          staleHits: 1,
+          misses: 2,
+          writes: 2,
+          hitRate: 50,
+        });
+      });
+
+      it("should delete entries by key and by prefix", async function () {
+        await store.set("market-data:a", 1, HOUR);
+        await store.set("market-data:b", 2, HOUR);
+        await store.set("http-request:c", 3, HOUR);
+
+        await store.delete("market-data:a");
+        expect(await store.get("market-data:a")).to.be.null;
+
+        await store.clear("market-data:");
+        expect((await store.stats()).entries).to.equal(1);
+        expect((await store.get("http-request:c"))!.value).to.equal(3);
+
+        await store.clear();
+        expect((await store.stats()).entries).to.equal(0);
+      });
+    });
+  }
+
+  describe("persistence", function () {
+    it("should let a new process fall back to yesterday's entry", async function () {
+      const dir = tempDir();
+      const yesterday = Date.now() - 24 * HOUR - 1000;
+      await new FileCacheStore(dir).set("market-data:x", { medianRent: 3100 }, 24 * HOUR, yesterday);
+
+      const restarted = new FileCacheStore(dir);
+
+      expect(await restarted.get("market-data:x")).to.be.null;
+      expect(await restarted.get("market-data:x", true)).to.deep.include({ value: { medianRent: 3100 }, stale: true });
+    });
+
+    it("should pick the backend from WORKFLOW_CACHE", function () {
+      expect(cacheStoreFromEnv({}).backend).to.equal("file");
+      expect(cacheStoreFromEnv({ WORKFLOW_CACHE: "memory" }).backend).to.equal("memory");
+      expect(() => cacheStoreFromEnv({ WORKFLOW_CACHE: "redis" })).to.throw(
+        "Unknown WORKFLOW_CACHE backend: redis (expected file, sqlite or memory)"
+      );
+    });
+  });
+
+  describe("recordCacheMetrics", function () {
+    it("should expose cache statistics labelled by backend", async function () {
+      const store = new InMemoryCacheStore();
+      await store.set("a", 1, HOUR);
+      await store.get("a");
+      await store.get("b");
+      const registry = new MetricsRegistry();
+
+      recordCacheMetrics(registry, await store.stats());
+
+      const text = registry.render();
+      expect(text).to.include('cache_store_entries{backend="memory"} 1');
+      expect(text).to.include("# TYPE cache_store_hits_total counter");
+      expect(text).to.include('cache_store_misses_total{backend="memory"} 1');
+      expect(text).to.include('cache_store_hit_rate{backend="memory"} 50');
+    });
+  });
+
+  describe("http-request steps", function () {
+    let savedEnv: NodeJS.ProcessEnv;
+    let restoreFetch: () => void;
+    let requests: number;
+    let failing: boolean;
+
+    beforeEach(function () {
+      savedEnv = { ...process.env };
+      process.env.OPENAI_API_KEY = "test-key";
+      delete process.env.ETHEREUM_RPC_URL;
+      delete process.env.PRIVATE_KEY;
+      requests = 0;
+      failing = false;
+      restoreFetch = stubFetch(() => {
+        requests++;
+        return failing ? jsonResponse({ error: "down" }, 503) : jsonResponse({ value: `response-${requests}` });
+      });
+    });
+
+    afterEach(function () {
+      restoreFetch();
+      process.env = savedEnv;
+    });
+
+    function cachedWorkflow(ttl: number): string {
+      return writeWorkflow([
+        httpStep("fetch", {
+          config: { method: "GET", url: "http://workflow.test/fetch", cache: { enabled: true, ttl, use_on_error: true } },
+        }),
+      ]);
+    }
+
+    it("should honour the step's ttl", async function () {
+      const cache = new InMemoryCacheStore();
+
+      // Each entry keeps the ttl it was written with
+      const expiring = await new WorkflowOrchestrator(cachedWorkflow(0), { cache }).execute();
+      const fresh = await new WorkflowOrchestrator(cachedWorkflow(60), { cache }).execute();
+      const cached = await new WorkflowOrchestrator(cachedWorkflow(60), { cache }).execute();
+
+      expect([expiring, fresh, cached].map((state) => state.step_outputs.fetch.value)).to.deep.equal([
+        "response-1",
+        "response-2",
+        "response-2",
+      ]);
+      expect(cached.step_outputs.fetch.cached).to.be.true;
+      expect(requests).to.equal(2);
+    });
+
+    it("should fall back to a previous process's response when the request fails", async function () {
+      const dir = tempDir();
+      await new WorkflowOrchestrator(cachedWorkflow(0), { cache: new FileCacheStore(dir) }).execute();
+      failing = true;
+
+      const state = await new WorkflowOrchestrator(cachedWorkflow(0), { cache: new FileCacheStore(dir) }).execute();
+
+      expect(state.step_results.fetch.status).to.equal("completed");
+      expect(state.step_outputs.fetch).to.include({ value: "response-1", cached: true, stale: true });
+    });
+  });
+});
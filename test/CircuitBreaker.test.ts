@@ -0,0 +1,179 @@
+import { expect } from "chai";
+import { CircuitBreaker, InMemoryCircuitStateStore, isFailedExecution } from "../services/circuitBreaker";
+import { Notifier } from "../services/notifier";
+import { WorkflowOrchestrator } from "../services/workflowOrchestrator";
+import { WorkflowNotification, WorkflowState, WorkflowStep } from "../services/types";
+import { httpStep, jsonResponse, stubFetch, writeWorkflow } from "./helpers/workflow";
+
+/**
+ * Unit Tests for the cross-run circuit breaker
+ * (error_handling.max_consecutive_failures / notify_on_failure)
+ *
+ * Requirements:
+ * - 2.5: Log errors and continue operation
+ * - 13.3: Log transaction failures
+ */
+
+class RecordingNotifier implements Notifier {
+  notifications: WorkflowNotification[] = [];
+
+  async notify(notification: WorkflowNotification): Promise<void> {
+    this.notifications.push(notification);
+  }
+}
+
+function execution(id: string, failed: boolean): WorkflowState {
+  return {
+    workflow_id: "test-workflow",
+    execution_id: id,
+    start_time: Date.now(),
+    status: "completed",
+    step_outputs: {},
+    step_results: {},
+    errors: failed ? [{ step_id: "fetch", timestamp: Date.now(), error: "HTTP 401" }] : [],
+    metrics: {},
+  };
+}
+
+describe("Workflow Circuit Breaker", function () {
+  describe("CircuitBreaker", function () {
+    let breaker: CircuitBreaker;
+
+    beforeEach(function () {
+      breaker = new CircuitBreaker(new InMemoryCircuitStateStore());
+    });
+
+    it("should treat runs with step errors as failed", function () {
+      expect(isFailedExecution(execution("a", true))).to.be.true;
+      expect(isFailedExecution(execution("a", false))).to.be.false;
+      expect(isFailedExecution({ ...execution("a", false), status: "failed" })).to.be.true;
+    });
+
+    it("should trip once the consecutive failure limit is reached", async function () {
+      expect((await breaker.recordExecution(execution("1", true), 3)).tripped).to.be.false;
+      expect((await breaker.recordExecution(execution("2", true), 3)).tripped).to.be.false;
+
+      const update = await breaker.recordExecution(execution("3", true), 3);
+      expect(update.tripped).to.be.true;
+      expect(update.state.consecutive_failures).to.equal(3);
+      expect(update.state.last_failure).to.equal("fetch: HTTP 401");
+      expect(await breaker.isOpen("test-workflow")).to.be.true;
+
+      // Only the tripping execution reports tripped
+      expect((await breaker.recordExecution(execution("4", true), 3)).tripped).to.be.false;
+    });
+
+    it("should reset the count on success without closing a tripped breaker", async function () {
+      await breaker.recordExecution(execution("1", true), 2);
+      await breaker.recordExecution(execution("2", false), 2);
+      expect((await breaker.getState("test-workflow")).consecutive_failures).to.equal(0);
+
+      await breaker.recordExecution(execution("3", true), 1);
+      await breaker.recordExecution(execution("4", false), 1);
+      expect(await breaker.isOpen("test-workflow")).to.be.true;
+    });
+
+    it("should never trip without a configured limit", async function () {
+      for (let i = 0; i < 10; i++) {
+        await breaker.recordExecution(execution(String(i), true));
+      }
+      expect(await breaker.isOpen("test-workflow")).to.be.false;
+    });
+
+    it("should close when an operator resets it", async function () {
+      await breaker.recordExecution(execution("1", true), 1);
+      await breaker.reset("test-workflow");
+
+      const state = await breaker.getState("test-workflow");
+      expect(state.tripped).to.be.false;
+      expect(state.consecutive_failures).to.equal(0);
+    });
+  });
+
+  describe("Orchestrator integration", function () {
+    const savedEnv = { ...process.env };
+    let restoreFetch: () => void;
+    let notifier: RecordingNotifier;
+    let breaker: CircuitBreaker;
+
+    const submitStep: WorkflowStep = {
+      id: "submit",
+      name: "submit",
+      type: "ethereum-transaction",
+      description: "Submit recommendation",
+      depends_on: ["fetch"],
+      config: {
+        contract_address: "0x1234567890123456789012345678901234567890",
+        function_name: "submitRecommendation",
+        abi: JSON.stringify([{ name: "submitRecommendation", type: "function", inputs: [], outputs: [] }]),
+      },
+      outputs: { transaction_hash: { path: "$.transactionHash", description: "Hash" } },
+      on_error: { action: "continue", log: true },
+    };
+
+    function workflow(): string {
+      return writeWorkflow([httpStep("fetch"), submitStep], {
+        error_handling: {
+          strategy: "continue",
+          log_errors: true,
+          notify_on_failure: true,
+          max_consecutive_failures: 2,
+        },
+      });
+    }
+
+    beforeEach(function () {
+      process.env.OPENAI_API_KEY = "test-key";
+      delete process.env.ETHEREUM_RPC_URL;
+      delete process.env.PRIVATE_KEY;
+      notifier = new RecordingNotifier();
+      breaker = new CircuitBreaker(new InMemoryCircuitStateStore());
+      restoreFetch = stubFetch(() => jsonResponse({ error: "Unauthorized" }, 401));
+    });
+
+    afterEach(function () {
+      restoreFetch();
+      process.env = { ...savedEnv };
+    });
+
+    it("should notify on failure and trip after max_consecutive_failures runs", async function () {
+      const file = workflow();
+      await new WorkflowOrchestrator(file, { circuitBreaker: breaker, notifier }).execute();
+      expect(notifier.notifications.map((n) => n.severity)).to.deep.equal(["error"]);
+
+      await new WorkflowOrchestrator(file, { circuitBreaker: breaker, notifier }).execute();
+      expect(notifier.notifications.map((n) => n.severity)).to.deep.equal(["error", "critical"]);
+      expect(notifier.notifications[1].title).to.match(/circuit breaker tripped/);
+      expect(await breaker.isOpen("test-workflow")).to.be.true;
+    });
+
+    it("should refuse to submit transactions while the breaker is open", async function () {
+      await breaker.recordExecution(execution("previous", true), 1);
+      restoreFetch();
+      restoreFetch = stubFetch(() => jsonResponse({ value: "ok" }));
+
+      const state = await new WorkflowOrchestrator(workflow(), { circuitBreaker: breaker, notifier }).execute();
+
+      expect(state.step_outputs.fetch).to.deep.equal({ value: "ok" });
+      const submitError = state.errors.find((e) => e.step_id === "submit");
+      expect(submitError?.error).to.match(/Circuit breaker open/);
+    });
+
+    it("should record a circuit state that cannot be read as a failed run", async function () {
+      const unreadable = new CircuitBreaker({
+        load: async () => {
+          throw new Error("Invalid workflow id: test-workflow.Unit 4B");
+        },
+        save: async () => undefined,
+      });
+
+      const state = await new WorkflowOrchestrator(workflow(), { circuitBreaker: unreadable, notifier }).execute();
+
+      expect(state.status).to.equal("failed");
+      expect(state.errors.map((e) => [e.step_id, e.error])).to.deep.equal([
+        ["workflow", "Invalid workflow id: test-workflow.Unit 4B"],
+      ]);
+      expect(notifier.notifications.map((n) => n.severity)).to.deep.equal(["error"]);
+    });
+  });
+});
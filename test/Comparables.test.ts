@@ -0,0 +1,115 @@
+import { expect } from "chai";
+import { analyzeComparables, comparableSimilarity } from "../services/comparables";
+import { AIPricingAgent, computeRuleBasedRecommendation } from "../services/aiPricingAgent";
+import { MarketData, PropertyDetails } from "../services/types";
+
+/**
+ * Unit Tests for comparable-property similarity scoring
+ *
+ * Requirements:
+ * - 3.2: Include comparable properties and market metrics
+ * - 4.1: Analyze market data for pricing recommendation
+ */
+
+const SUBJECT: PropertyDetails = {
+  address: "10 Oak St, San Francisco, CA 94102",
+  propertyType: "Condo",
+  valuation: 600000,
+  bedrooms: 2,
+  bathrooms: 1,
+  squareFeet: 1000,
+};
+
+const COMPARABLES: MarketData["comparableProperties"] = [
+  { address: "2 Oak St", monthlyRent: 4000, bedrooms: 3, bathrooms: 2, squareFeet: 1500, distanceMiles: 1 },
+  { address: "1 Oak St", monthlyRent: 3000, bedrooms: 2, bathrooms: 1, squareFeet: 1000, distanceMiles: 0.5 },
+  { address: "3 Oak St", monthlyRent: 6000, bedrooms: 5, bathrooms: 4, squareFeet: 3000, distanceMiles: 4 },
+];
+
+function marketData(comparableProperties: MarketData["comparableProperties"]): MarketData {
+  return {
+    location: { address: "10 Oak St", city: "San Francisco", state: "CA", zipCode: "94102" },
+    comparableProperties,
+    marketMetrics: { averageRent: 4333, medianRent: 4000, occupancyRate: 95, rentGrowthYoY: 3 },
+    timestamp: Date.now(),
+  };
+}
+
+describe("Comparables", function () {
+  describe("comparableSimilarity", function () {
+    it("should score a comparable on size, bedrooms, bathrooms and distance", function () {
+      expect(comparableSimilarity(COMPARABLES[1], SUBJECT)).to.be.closeTo(0.945, 0.001);
+      expect(comparableSimilarity(COMPARABLES[0], SUBJECT)).to.be.closeTo(0.527, 0.001);
+      expect(comparableSimilarity(COMPARABLES[2], SUBJECT)).to.be.closeTo(0.034, 0.001);
+    });
+
+    it("should only count the factors both sides report", function () {
+      const unsized = { ...COMPARABLES[1], squareFeet: 0, bedrooms: 0, bathrooms: 0, distanceMiles: 0 };
+      expect(comparableSimilarity(unsized, SUBJECT)).to.equal(1);
+      expect(comparableSimilarity(COMPARABLES[0], { ...SUBJECT, bedrooms: undefined, bathrooms: undefined, squareFeet: undefined })).to.be.closeTo(
+        Math.exp(-0.5),
+        0.001
+      );
+    });
+  });
+
+  describe("analyzeComparables", function () {
+    it("should weight rents by similarity and leave out dissimilar comparables", function () {
+      const analysis = analyzeComparables(COMPARABLES, SUBJECT)!;
+
+      expect(analysis).to.deep.include({
+        weightedRent: 3358,
+        rentPerSqFt: 2.88,
+        sizeAdjustedRent: 2881,
+        estimatedRent: 3119,
+        similarity: 80,
+        used: 2,
+      });
+      expect(analysis.topComparables.map((comparable) => [comparable.address, comparable.weight])).to.deep.equal([
+        ["1 Oak St", 0.642],
+        ["2 Oak St", 0.358],
+      ]);
+    });
+
+    it("should fall back to the weighted rent without a size and to nothing without rents", function () {
+      const analysis = analyzeComparables(COMPARABLES, { ...SUBJECT, squareFeet: undefined }, { top: 1 })!;
+
+      expect(analysis.sizeAdjustedRent).to.be.undefined;
+      expect(analysis.estimatedRent).to.equal(analysis.weightedRent);
+      expect(analysis.topComparables).to.have.length(1);
+      expect(analyzeComparables([], SUBJECT)).to.be.undefined;
+    });
+  });
+
+  describe("pricing", function () {
+    it("should base the rule-based recommendation on the comparables estimate", function () {
+      const recommendation = computeRuleBasedRecommendation({ marketData: marketData(COMPARABLES), propertyDetails: SUBJECT });
+
+      expect(recommendation.price).to.equal(3119);
+      expect(recommendation.confidence).to.equal(85 - 2);
+      expect(recommendation.reasoning).to.include("Comparables: $3,358 weighted by similarity across 2 (80% similar), $2.88/sq ft.");
+    });
+
+    it("should give the AI prompt the weighted rent and the top comparables", async function () {
+      const agent = new AIPricingAgent("test-key");
+      let prompt = "";
+      (agent as any).client = {
+        chat: {
+          completions: {
+            create: async (request: any) => {
+              prompt = request.messages[1].content;
+              const reasoning = "Priced from the two most similar comparables on Oak St, weighted by similarity, with stable occupancy.";
+              return { choices: [{ message: { content: JSON.stringify({ price: 3100, confidence: 80, reasoning }) } }] };
+            },
+          },
+        },
+      };
+
+      await agent.analyzePricing({ marketData: marketData(COMPARABLES), propertyDetails: SUBJECT });
+
+      expect(prompt).to.include("- Similarity-weighted rent: $3358/month from 2 comparables (80% similar)");
+      expect(prompt).to.include("- Rent per square foot: $2.88 ($2881/month for this property's size)");
+      expect(prompt).to.include("  - 1 Oak St: $3,000/month, similarity 95%, weight 64%");
+    });
+  });
+});
@@ -0,0 +1,254 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import { ethers } from "ethers";
+import {
+  EventTriggerWatcher,
+  EventWatcherOptions,
+  InMemoryEventCheckpointStore,
+  eventVariables,
+} from "../services/eventTrigger";
+import { InMemoryRunLock } from "../services/scheduler";
+import { EnvSecretsProvider } from "../services/secretsProvider";
+import { validateWorkflow } from "../services/workflowValidator";
+import { Trigger, TriggeredEvent } from "../services/types";
+import { httpStep, writeWorkflow } from "./helpers/workflow";
+
+/**
+ * Unit Tests for event triggers (on-chain logs starting workflow runs)
+ *
+ * Requirements:
+ * - 2.6: Trigger yield distribution after rental payment collection
+ * - 11.2: Execute via manual or scheduled trigger
+ */
+
+const SIGNATURE = "RentalPaymentReceived(uint256 amount, uint256 timestamp, address indexed payer)";
+const DISTRIBUTOR = ethers.getAddress("0x5fbdb2315678afecb367f032d93f642f64180aa3");
+const PAYER = ethers.getAddress("0x70997970c51812dc3a010c7d01b50e0d17dc79c8");
+const iface = new ethers.Interface([`event ${SIGNATURE}`]);
+
+/**
+ * A chain of blocks whose logs can be reorged: each block has a hash that
+ * changes when it is re-mined
+ */
+class FakeChain {
+  head = 0;
+  private hashes: Map<number, string> = new Map();
+  private logs: Array<{ blockNumber: number; transactionHash: string; index: number; data: string; topics: string[] }> = [];
+  private nonce = 0;
+
+  constructor() {
+    this.mine(10);
+  }
+
+  mine(count: number): void {
+    for (let i = 0; i < count; i++) {
+      this.head++;
+      this.hashes.set(this.head, ethers.id(`block-${this.head}-${this.nonce++}`));
+    }
+  }
+
+  /** Emit a payment in a new block */
+  pay(amount: bigint, transactionHash = ethers.id(`tx-${this.nonce++}`)): string {
+    this.mine(1);
+    const { data, topics } = iface.encodeEventLog("RentalPaymentReceived", [amount, 1700000000n, PAYER]);
+    this.logs.push({ blockNumber: this.head, transactionHash, index: 0, data, topics });
+    return transactionHash;
+  }
+
+  /** Replace every block from `fromBlock` with new hashes, moving their logs `shift` blocks later */
+  reorg(fromBlock: number, shift: number): void {
+    for (const log of this.logs) {
+      if (log.blockNumber >= fromBlock) log.blockNumber += shift;
+    }
+    const head = this.head;
+    this.head = fromBlock - 1;
+    this.mine(head - fromBlock + 1 + shift);
+  }
+
+  provider(): EventWatcherOptions["provider"] {
+    return {
+      getBlockNumber: async () => this.head,
+      getBlock: async (blockTag: ethers.BlockTag) =>
+        ({ number: Number(blockTag), hash: this.hashes.get(Number(blockTag)) ?? null }) as ethers.Block,
+      getLogs: async (filter: ethers.Filter) =>
+        this.logs
+          .filter(
+            (log) =>
+              filter.address === DISTRIBUTOR &&
+              filter.topics![0] === log.topics[0] &&
+              log.blockNumber >= Number(filter.fromBlock) &&
+              log.blockNumber <= Number(filter.toBlock)
+          )
+          .map((log) => ({ ...log, address: DISTRIBUTOR, blockHash: this.hashes.get(log.blockNumber)!, removed: false }) as unknown as ethers.Log),
+      on: async () => undefined as any,
+      off: async () => undefined as any,
+    };
+  }
+}
+
+describe("Event Triggers", function () {
+  let restoreLog: () => void;
+
+  beforeEach(function () {
+    const originalLog = console.log;
+    console.log = () => undefined;
+    restoreLog = () => {
+      console.log = originalLog;
+    };
+  });
+
+  afterEach(function () {
+    restoreLog();
+  });
+
+  function eventTrigger(overrides: Partial<Trigger> = {}): Trigger {
+    return {
+      type: "event",
+      description: "Rental payments",
+      enabled: true,
+      contract_address: "${YIELD_DISTRIBUTOR_ADDRESS}",
+      event: SIGNATURE,
+      ...overrides,
+    };
+  }
+
+  describe("EventTriggerWatcher", function () {
+    let chain: FakeChain;
+    let checkpoints: InMemoryEventCheckpointStore;
+    let events: TriggeredEvent[];
+    let file: string;
+
+    beforeEach(function () {
+      chain = new FakeChain();
+      checkpoints = new InMemoryEventCheckpointStore();
+      events = [];
+      file = writeWorkflow([httpStep("fetch")], { triggers: [eventTrigger({ confirmations: 2 })] });
+    });
+
+    function createWatcher(overrides: Partial<EventWatcherOptions> = {}): EventTriggerWatcher {
+      return new EventTriggerWatcher(file, {
+        provider: chain.provider(),
+        checkpoints,
+        lock: new InMemoryRunLock(),
+        secrets: new EnvSecretsProvider({ YIELD_DISTRIBUTOR_ADDRESS: DISTRIBUTOR }),
+        run: async (event) => {
+          events.push(event);
+        },
+        ...overrides,
+      });
+    }
+
+    it("should start one run per confirmed log with the decoded event", async function () {
+      const watcher = createWatcher();
+      await watcher.start();
+      const tx = chain.pay(2500000000n);
+
+      expect(await watcher.poll()).to.equal(0);
+      chain.mine(1);
+      expect(await watcher.poll()).to.equal(1);
+      await watcher.stop();
+
+      expect(events).to.have.length(1);
+      expect(events[0]).to.include({
+        trigger: `RentalPaymentReceived@${DISTRIBUTOR}`,
+        event: "RentalPaymentReceived",
+        contract_address: DISTRIBUTOR,
+        block_number: 11,
+        transaction_hash: tx,
+      });
+      expect(eventVariables(events[0])).to.deep.equal({
+        TRIGGER_EVENT: "RentalPaymentReceived",
+        TRIGGER_CONTRACT_ADDRESS: DISTRIBUTOR,
+        TRIGGER_BLOCK_NUMBER: "11",
+        TRIGGER_TRANSACTION_HASH: tx,
+        TRIGGER_ARG_AMOUNT: "2500000000",
+        TRIGGER_ARG_TIMESTAMP: "1700000000",
+        TRIGGER_ARG_PAYER: PAYER,
+      });
+    });
+
+    it("should resume from the checkpoint after a restart without repeating runs", async function () {
+      const first = createWatcher();
+      await first.start();
+      chain.pay(1n);
+      chain.mine(1);
+      await first.poll();
+      await first.stop();
+
+      // Payments while the watcher was down are picked up on restart
+      chain.pay(2n);
+      chain.mine(1);
+      const second = createWatcher();
+      await second.start();
+      await second.stop();
+
+      expect(events.map((event) => event.args.amount)).to.deep.equal(["1", "2"]);
+      const checkpoint = await checkpoints.load("test-workflow");
+      expect(checkpoint!.triggers[`RentalPaymentReceived@${DISTRIBUTOR}`].last_block).to.equal(chain.head - 1);
+    });
+
+    it("should re-scan reorged blocks and deliver each transaction once", async function () {
+      const watcher = createWatcher();
+      await watcher.start();
+      const kept = chain.pay(1n);
+      chain.mine(1);
+      await watcher.poll();
+
+      // The payment is re-mined two blocks later and a new one lands
+      chain.reorg(11, 2);
+      chain.pay(2n);
+      chain.mine(1);
+      await watcher.poll();
+      await watcher.stop();
+
+      expect(events.map((event) => [event.transaction_hash === kept, event.args.amount])).to.deep.equal([
+        [true, "1"],
+        [false, "2"],
+      ]);
+    });
+
+    it("should defer a log while another run holds the workflow lock", async function () {
+      const lock = new InMemoryRunLock();
+      const watcher = createWatcher({ lock });
+      await watcher.start();
+      chain.pay(1n);
+      chain.mine(1);
+
+      await lock.acquire("test-workflow");
+      expect(await watcher.poll()).to.equal(0);
+      await lock.release("test-workflow");
+      expect(await watcher.poll()).to.equal(1);
+      await watcher.stop();
+
+      expect(events).to.have.length(1);
+    });
+
+    it("should refuse to start when the contract address variable is unset", function () {
+      expect(() => createWatcher({ secrets: new EnvSecretsProvider({}) })).to.throw(
+        "contract_address ${YIELD_DISTRIBUTOR_ADDRESS} is not an address"
+      );
+    });
+  });
+
+  describe("validation", function () {
+    it("should reject event triggers with bad signatures or filters", function () {
+      const text = fs.readFileSync(
+        writeWorkflow([httpStep("fetch")], {
+          triggers: [
+            eventTrigger({ contract_address: undefined }),
+            eventTrigger({ event: "RentalPaymentReceived(uint256, address indexed payer)" }),
+            eventTrigger({ filter: { amount: "1" } }),
+          ],
+        }),
+        "utf8"
+      );
+
+      const issues = validateWorkflow(text, { checkEnvironment: false }).issues;
+      expect(issues.map((issue) => [issue.path, issue.message])).to.deep.equal([
+        ["triggers[0]", "event trigger requires contract_address and event"],
+        ["triggers[1].event", "Event RentalPaymentReceived needs a name for every parameter"],
+        ["triggers[2].filter", "Event RentalPaymentReceived parameter amount is not indexed and cannot be filtered"],
+      ]);
+    });
+  });
+});
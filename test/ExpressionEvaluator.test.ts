@@ -0,0 +1,121 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+import * as yaml from "yaml";
+import {
+  ExpressionError,
+  collectReferences,
+  evaluateExpression,
+  parseExpression,
+} from "../services/expressionEvaluator";
+
+/**
+ * Unit Tests for the workflow condition expression language
+ *
+ * Requirements: 11.1 - Workflow configurable via YAML
+ */
+
+describe("Expression Evaluator", function () {
+  const values: Record<string, unknown> = {
+    "steps.analyze-pricing.outputs.confidence_score": 82,
+    "steps.analyze-pricing.outputs.recommended_price": 2600,
+    "steps.analyze-pricing.outputs.reasoning": "Market is stable",
+    "steps.check-rental-payment.outputs.pool_balance": "1500000000",
+    "steps.fetch-market-data.outputs.is_cached": false,
+    CURRENT_RENT: "2500",
+  };
+  const resolve = (p: string) => values[p];
+  const run = (source: string) => evaluateExpression(source, resolve);
+
+  describe("Literals and arithmetic", function () {
+    it("should evaluate arithmetic with standard precedence", function () {
+      expect(run("1 + 2 * 3")).to.equal(7);
+      expect(run("(1 + 2) * 3")).to.equal(9);
+      expect(run("10 % 4 - -2")).to.equal(4);
+    });
+
+    it("should support string, boolean and null literals", function () {
+      expect(run("'abc' == \"abc\"")).to.be.true;
+      expect(run("true && !false")).to.be.true;
+      expect(run("null == null")).to.be.true;
+    });
+
+    it("should support whitelisted functions", function () {
+      expect(run("abs(-5) + max(1, 3, 2) + round(1.6)")).to.equal(10);
+    });
+
+    it("should reject division by zero", function () {
+      expect(() => run("1 / 0")).to.throw(ExpressionError, /Division by zero/);
+    });
+  });
+
+  describe("References", function () {
+    it("should resolve ${} step output references with their types", function () {
+      expect(run("${steps.analyze-pricing.outputs.confidence_score} >= 70")).to.be.true;
+      expect(run("${steps.analyze-pricing.outputs.confidence_score} >= 90")).to.be.false;
+    });
+
+    it("should resolve bare step output references", function () {
+      expect(run("steps.analyze-pricing.outputs.confidence_score < 50")).to.be.false;
+      expect(run("steps.fetch-market-data.outputs.is_cached == true")).to.be.false;
+    });
+
+    it("should compare numeric strings numerically", function () {
+      expect(run("${steps.check-rental-payment.outputs.pool_balance} > 0")).to.be.true;
+      expect(run("${CURRENT_RENT} > 900")).to.be.true;
+    });
+
+    it("should evaluate combined conditions correctly", function () {
+      const condition =
+        "${steps.analyze-pricing.outputs.confidence_score} >= 70 && " +
+        "abs(${steps.analyze-pricing.outputs.recommended_price} - ${CURRENT_RENT}) / ${CURRENT_RENT} * 100 <= 5";
+      expect(run(condition)).to.be.true;
+
+      values.CURRENT_RENT = "2000";
+      expect(run(condition)).to.be.false;
+      values.CURRENT_RENT = "2500";
+    });
+
+    it("should support the legacy whole-expression ${} form", function () {
+      expect(run("${steps.analyze-pricing.outputs.recommended_price > 0}")).to.be.true;
+    });
+
+    it("should treat unresolved references as null", function () {
+      expect(run("${steps.missing.outputs.value} > 0")).to.be.false;
+      expect(run("${steps.missing.outputs.value} == null")).to.be.true;
+    });
+
+    it("should collect references from an expression", function () {
+      const refs = collectReferences(parseExpression("${A} > 1 && max(steps.b.outputs.c, 2) > ${D}"));
+      expect(refs).to.deep.equal(["A", "steps.b.outputs.c", "D"]);
+    });
+  });
+
+  describe("Errors", function () {
+    it("should fail loudly on syntax errors", function () {
+      expect(() => parseExpression("1 >")).to.throw(ExpressionError, /Unexpected end/);
+      expect(() => parseExpression("(1 > 0")).to.throw(ExpressionError);
+      expect(() => parseExpression("1 > 0 )")).to.throw(ExpressionError, /Unexpected token/);
+      expect(() => parseExpression("${steps.a.outputs.b")).to.throw(ExpressionError, /Unterminated/);
+      expect(() => parseExpression("1 = 1")).to.throw(ExpressionError, /Unexpected character/);
+    });
+
+    it("should reject unknown functions", function () {
+      expect(() => parseExpression("eval('1')")).to.throw(ExpressionError, /Unknown function/);
+    });
+
+    it("should reject arithmetic on non-numeric values", function () {
+      expect(() => run("${steps.analyze-pricing.outputs.reasoning} * 2")).to.throw(ExpressionError, /expects a number/);
+    });
+  });
+
+  describe("Workflow conditions", function () {
+    it("should parse every condition in the production workflow", function () {
+      const workflowPath = path.join(__dirname, "../workflows/yieldprop-optimization.yaml");
+      const config = yaml.parse(fs.readFileSync(workflowPath, "utf8"));
+      config.steps
+        .filter((s: any) => s.condition)
+        .forEach((s: any) => expect(() => parseExpression(s.condition)).to.not.throw());
+    });
+  });
+});
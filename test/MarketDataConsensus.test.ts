@@ -0,0 +1,200 @@
+import { expect } from "chai";
+import { buildConsensus, comparableKey, madOutliers } from "../services/marketDataConsensus";
+import { MarketDataProvider, ProviderMarketData } from "../services/marketDataProviders";
+import { MarketDataOracle } from "../services/marketDataOracle";
+import { computeRuleBasedRecommendation } from "../services/aiPricingAgent";
+
+/**
+ * Unit Tests for multi-source market data consensus
+ *
+ * Requirements:
+ * - 3.2: Include comparable properties and market metrics
+ * - 3.5: Format data in standardized structure
+ * - 4.3: Generate confidence score
+ */
+
+const QUERY = { address: "123 Main St, San Francisco, CA 94102", propertyType: "Condo", radius: 5 };
+
+function comparables(...rents: Array<[string, number]>): ProviderMarketData["comparables"] {
+  return rents.map(([address, monthlyRent]) => ({ address, monthlyRent }));
+}
+
+function provider(name: string, answer: ProviderMarketData | Error): MarketDataProvider {
+  return {
+    name,
+    fetch: async () => {
+      if (answer instanceof Error) throw answer;
+      return answer;
+    },
+  };
+}
+
+describe("Market Data Consensus", function () {
+  describe("madOutliers", function () {
+    it("should flag values far from the median in units of median absolute deviation", function () {
+      expect(madOutliers([3000, 3100, 3200, 3050, 9000])).to.deep.equal([false, false, false, false, true]);
+      expect(madOutliers([3000, 3400, 2600])).to.deep.equal([false, false, false]);
+    });
+
+    it("should fall back to the mean absolute deviation when most values are equal", function () {
+      expect(madOutliers([3000, 3000, 3000, 3000, 12000])).to.deep.equal([false, false, false, false, true]);
+      expect(madOutliers([3000, 3000, 3000])).to.deep.equal([false, false, false]);
+    });
+
+    it("should not judge fewer than three values", function () {
+      expect(madOutliers([3000, 30000])).to.deep.equal([false, false]);
+    });
+  });
+
+  describe("buildConsensus", function () {
+    it("should drop a source whose median rent is an outlier", function () {
+      const data = buildConsensus(
+        [
+          { provider: "rentcast", raw: { comparables: comparables(["1 Oak St", 3000], ["2 Oak St", 3200]), occupancyRate: 94 } },
+          { provider: "dashboard", raw: { comparables: [], medianRent: 3150, averageRent: 3300, rentGrowthYoY: 2 } },
+          { provider: "reference", raw: { comparables: [], medianRent: 3050, averageRent: 3250, rentGrowthYoY: 1.8 } },
+          // A feed quoting rents in cents
+          { provider: "broken", raw: { comparables: comparables(["9 Elm St", 310000]), medianRent: 310000 } },
+        ],
+        QUERY,
+        1000
+      );
+
+      expect(data).to.include({ provider: "consensus", freshness: "live", timestamp: 1000 });
+      expect(data.marketMetrics).to.deep.equal({ averageRent: 3250, medianRent: 3100, occupancyRate: 94, rentGrowthYoY: 1.9 });
+      expect(data.comparableProperties.map((comparable) => comparable.address)).to.deep.equal(["1 Oak St", "2 Oak St"]);
+      expect(data.consensus!.sources.map((source) => [source.provider, source.accepted])).to.deep.equal([
+        ["rentcast", true],
+        ["dashboard", true],
+        ["reference", true],
+        ["broken", false],
+      ]);
+      expect(data.consensus).to.include({ dispersion: 1.6, confidence: 70 });
+    });
+
+    it("should merge comparables by address and reject outlier rents", function () {
+      const data = buildConsensus(
+        [
+          { provider: "rentcast", raw: { comparables: comparables(["12 Oak St.", 3000], ["14 Oak St", 3100], ["16 Oak St", 3050]) } },
+          {
+            provider: "csv",
+            raw: {
+              comparables: [
+                { address: "12 oak st", monthlyRent: 3020, bedrooms: 2 },
+                { address: "18 Oak St", monthlyRent: 2980 },
+                { address: "20 Oak St", monthlyRent: 14000 },
+              ],
+            },
+          },
+          { provider: "reference", raw: { comparables: [], medianRent: 3050 } },
+        ],
+        QUERY
+      );
+
+      expect(data.comparableProperties.map((comparable) => [comparable.address, comparable.monthlyRent, comparable.bedrooms])).to.deep.equal([
+        ["12 Oak St.", 3010, 2],
+        ["14 Oak St", 3100, 0],
+        ["16 Oak St", 3050, 0],
+        ["18 Oak St", 2980, 0],
+      ]);
+      expect(data.consensus).to.include({ duplicateComparables: 1, rejectedComparables: 1 });
+      expect(comparableKey(" 12 Oak St., Apt #4 ")).to.equal("12 oak st apt 4");
+    });
+
+    it("should lower the confidence as the sources disagree", function () {
+      const agree = buildConsensus(
+        [
+          { provider: "a", raw: { comparables: [], medianRent: 3000 } },
+          { provider: "b", raw: { comparables: [], medianRent: 3030 } },
+          { provider: "c", raw: { comparables: [], medianRent: 3060 } },
+        ],
+        QUERY
+      );
+      const disagree = buildConsensus(
+        [
+          { provider: "a", raw: { comparables: [], medianRent: 3000 } },
+          { provider: "b", raw: { comparables: [], medianRent: 3500 } },
+          { provider: "c", raw: { comparables: [], medianRent: 4000 } },
+        ],
+        QUERY
+      );
+
+      expect(agree.consensus).to.include({ dispersion: 1, confidence: 96 });
+      expect(disagree.marketMetrics.medianRent).to.equal(3500);
+      expect(disagree.consensus).to.include({ dispersion: 14.3, confidence: 43 });
+
+      const request = { marketData: disagree, propertyDetails: { address: QUERY.address, propertyType: "Condo", valuation: 500000 } };
+      expect(computeRuleBasedRecommendation(request).confidence).to.equal(85 - 15 - 11);
+    });
+
+    it("should merge two sources without voting either out", function () {
+      const data = buildConsensus(
+        [
+          { provider: "rentcast", raw: { comparables: comparables(["12 Oak St", 3000], ["14 Oak St", 3100], ["16 Oak St", 14000]) } },
+          { provider: "reference", raw: { comparables: comparables(["12 oak st.", 3020]), medianRent: 4000 } },
+        ],
+        QUERY
+      );
+
+      expect(data.provider).to.equal("consensus");
+      expect(data.comparableProperties.map((comparable) => [comparable.address, comparable.monthlyRent])).to.deep.equal([
+        ["12 Oak St", 3010],
+        ["14 Oak St", 3100],
+      ]);
+      expect(data.consensus!.sources.map((source) => [source.provider, source.accepted])).to.deep.equal([
+        ["rentcast", true],
+        ["reference", true],
+      ]);
+      expect(data.marketMetrics.medianRent).to.equal(3550);
+      expect(data.consensus).to.include({ dispersion: 12.7, confidence: 49, duplicateComparables: 1, rejectedComparables: 1 });
+    });
+  });
+
+  describe("MarketDataOracle", function () {
+    it("should query every provider and merge the answers that have data", async function () {
+      const oracle = new MarketDataOracle([
+        provider("rentcast", new Error("RentCast API key not configured")),
+        provider("dashboard", { comparables: comparables(["1 Oak St", 3100]), medianRent: 3150 }),
+        provider("csv", { comparables: comparables(["2 Oak St", 3300]), medianRent: 3300 }),
+        provider("reference", { comparables: [], medianRent: 3100, averageRent: 3350 }),
+      ]);
+      const originalWarn = console.warn;
+      const warnings: string[] = [];
+      console.warn = (message: string) => warnings.push(message);
+
+      const data = await oracle.fetchMarketData(QUERY.address, QUERY.propertyType).finally(() => (console.warn = originalWarn));
+
+      expect(data.provider).to.equal("consensus");
+      expect(data.consensus!.sources.map((source) => source.provider)).to.deep.equal(["dashboard", "csv", "reference"]);
+      expect(data.marketMetrics.medianRent).to.equal(3150);
+      expect(warnings).to.deep.equal(["Market data consensus without rentcast: RentCast API key not configured"]);
+    });
+
+    it("should use the one answer as-is when only one provider has data", async function () {
+      const oracle = new MarketDataOracle([
+        provider("rentcast", new Error("status 503")),
+        provider("reference", { comparables: [], medianRent: 3100 }),
+      ]);
+      const originalWarn = console.warn;
+      console.warn = () => undefined;
+
+      const data = await oracle.fetchMarketData(QUERY.address, QUERY.propertyType).finally(() => (console.warn = originalWarn));
+
+      expect(data.provider).to.equal("reference");
+      expect(data.consensus).to.be.undefined;
+    });
+
+    it("should merge two answers rather than use the first", async function () {
+      const oracle = new MarketDataOracle([
+        provider("rentcast", { comparables: comparables(["1 Oak St", 3600], ["2 Oak St", 3800]) }),
+        provider("reference", { comparables: [], medianRent: 3100 }),
+      ]);
+
+      const data = await oracle.fetchMarketData(QUERY.address, QUERY.propertyType);
+
+      expect(data.provider).to.equal("consensus");
+      expect(data.marketMetrics.medianRent).to.equal(3400);
+      expect(data.consensus).to.include({ dispersion: 8.8, confidence: 65 });
+    });
+  });
+});
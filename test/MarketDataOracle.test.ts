@@ -100,7 +100,7 @@ describe('MarketDataOracle Unit Tests', () => {
       const data1 = await shortCacheOracle.fetchMarketData(address, propertyType);
 
       // Manually expire cache by clearing it
-      shortCacheOracle.clearCache();
+      await shortCacheOracle.clearCache();
 
       // Wait a bit
       await new Promise(resolve => setTimeout(resolve, 10));
@@ -136,14 +136,14 @@ describe('MarketDataOracle Unit Tests', () => {
       const propertyType = 'Single Family';
 
       // Initially no cache
-      let cached = oracle.getCachedData(address, propertyType);
+      let cached = await oracle.getCachedData(address, propertyType);
       expect(cached).to.be.null;
 
       // Fetch data to populate cache
       const fetchedData = await oracle.fetchMarketData(address, propertyType);
 
       // Now cache should exist
-      cached = oracle.getCachedData(address, propertyType);
+      cached = await oracle.getCachedData(address, propertyType);
       expect(cached).to.not.be.null;
       expect(cached!.location.address).to.equal('555 Maple Ln');
 
@@ -164,17 +164,17 @@ describe('MarketDataOracle Unit Tests', () => {
       await oracle.fetchMarketData(address2, propertyType);
 
       // Verify cache exists for both
-      let cached1 = oracle.getCachedData(address1, propertyType);
-      let cached2 = oracle.getCachedData(address2, propertyType);
+      let cached1 = await oracle.getCachedData(address1, propertyType);
+      let cached2 = await oracle.getCachedData(address2, propertyType);
       expect(cached1).to.not.be.null;
       expect(cached2).to.not.be.null;
 
       // Clear cache
-      oracle.clearCache();
+      await oracle.clearCache();
 
       // Verify cache is empty for both
-      cached1 = oracle.getCachedData(address1, propertyType);
-      cached2 = oracle.getCachedData(address2, propertyType);
+      cached1 = await oracle.getCachedData(address1, propertyType);
+      cached2 = await oracle.getCachedData(address2, propertyType);
       expect(cached1).to.be.null;
       expect(cached2).to.be.null;
     });
@@ -324,16 +324,16 @@ describe('MarketDataOracle Unit Tests', () => {
     /**
      * Test cache functionality
      */
-    it('should support cache operations', () => {
+    it('should support cache operations', async () => {
       const oracle = new MarketDataOracle('test-key', 'https://api.test.com');
 
       // Should have clearCache method
       expect(oracle.clearCache).to.be.a('function');
-      oracle.clearCache();
+      await oracle.clearCache();
 
       // Should have getCachedData method
       expect(oracle.getCachedData).to.be.a('function');
-      const cached = oracle.getCachedData('test address', 'Single Family');
+      const cached = await oracle.getCachedData('test address', 'Single Family');
       expect(cached).to.be.null;
     });
   });
@@ -0,0 +1,258 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  CsvFileProvider,
+  HttpJsonProvider,
+  MarketDataProvider,
+  ProviderMarketData,
+  ReferenceTableProvider,
+  RentCastProvider,
+  normalizeMarketData,
+  parseCsv,
+  parseJsonMarketData,
+} from "../services/marketDataProviders";
+import { MarketDataOracle } from "../services/marketDataOracle";
+import { WorkflowOrchestrator } from "../services/workflowOrchestrator";
+import { EnvSecretsProvider } from "../services/secretsProvider";
+import { WorkflowStep } from "../services/types";
+import { jsonResponse, stubFetch, writeWorkflow } from "./helpers/workflow";
+
+/**
+ * Unit Tests for market data providers and the MarketDataOracle fallback chain
+ *
+ * Requirements:
+ * - 3.1: Fetch rental market data from external API
+ * - 3.2: Include comparable properties and market metrics
+ * - 3.4: Use cached data when API unavailable
+ * - 3.5: Format data in standardized structure
+ */
+
+const QUERY = { address: "123 Main St, San Francisco, CA 94102", propertyType: "Condo", radius: 5 };
+
+/** A provider answering from a queue of results or errors */
+function scriptedProvider(name: string, answers: Array<ProviderMarketData | Error>): MarketDataProvider & { calls: number } {
+  const provider = {
+    name,
+    calls: 0,
+    fetch: async () => {
+      const answer = answers[Math.min(provider.calls++, answers.length - 1)];
+      if (answer instanceof Error) throw answer;
+      return answer;
+    },
+  };
+  return provider;
+}
+
+describe("Market Data Providers", function () {
+  describe("normalizeMarketData", function () {
+    it("should derive missing metrics from the comparables and tag the provider", function () {
+      const data = normalizeMarketData(
+        { comparables: [{ address: "1 A St", monthlyRent: 2000 }, { address: "2 B St", monthlyRent: 3000 }, { address: "3 C St", monthlyRent: 2200 }] },
+        QUERY,
+        "csv",
+        1000
+      );
+
+      expect(data.location).to.deep.equal({ address: "123 Main St", city: "San Francisco", state: "CA", zipCode: "94102" });
+      expect(data.comparableProperties[0]).to.deep.equal({
+        address: "1 A St",
+        monthlyRent: 2000,
+        bedrooms: 0,
+        bathrooms: 0,
+        squareFeet: 0,
+        distanceMiles: 0,
+      });
+      expect(data.marketMetrics).to.deep.equal({ averageRent: 2400, medianRent: 2200, occupancyRate: 95, rentGrowthYoY: 0 });
+      expect(data).to.include({ timestamp: 1000, provider: "csv", dataAsOf: 1000, freshness: "live", isStale: false });
+    });
+
+    it("should derive the metrics a Market Data API body leaves out, as the CRE workflow reads it", function () {
+      const body = { data: { comparables: [{ price: 3000 }, { price: 3400 }, { price: 3100 }, { price: 3300 }], rentGrowth: 2.1 } };
+
+      const data = normalizeMarketData(parseJsonMarketData(body), QUERY, "market-data-api", 1000);
+
+      expect(data.marketMetrics).to.deep.equal({ averageRent: 3200, medianRent: 3200, occupancyRate: 95, rentGrowthYoY: 2.1 });
+      expect(data.comparableProperties).to.have.length(4);
+    });
+  });
+
+  describe("HttpJsonProvider", function () {
+    let restoreFetch: () => void;
+
+    afterEach(function () {
+      restoreFetch();
+    });
+
+    it("should read the RentCast-shaped body the dashboard serves", async function () {
+      const requested: string[] = [];
+      restoreFetch = stubFetch((id) => {
+        requested.push(id);
+        return jsonResponse({
+          data: { comparables: [{ price: 3100, address: "Comparable 1" }], averageRent: 3350, medianRent: 3100, occupancyRate: 93.8, rentGrowth: 1.8 },
+          meta: { source: "reference", lastUpdated: "2026-02-01T00:00:00.000Z" },
+        });
+      });
+
+      const raw = await new HttpJsonProvider({ name: "dashboard", url: "http://dashboard.test/api/market-data" }).fetch(QUERY);
+
+      expect(requested).to.deep.equal(["market-data"]);
+      expect(raw).to.deep.include({ averageRent: 3350, medianRent: 3100, occupancyRate: 93.8, rentGrowthYoY: 1.8, asOf: Date.UTC(2026, 1, 1) });
+      expect(raw.comparables).to.deep.equal([
+        { address: "Comparable 1", monthlyRent: 3100, bedrooms: undefined, bathrooms: undefined, squareFeet: undefined, distanceMiles: undefined },
+      ]);
+    });
+
+    it("should map other APIs through configured paths and fields", async function () {
+      restoreFetch = stubFetch(() => jsonResponse({ listings: [{ rent: "2500", street: "9 Elm St", beds: 2 }], stats: { median: 2450 } }));
+
+      const raw = await new HttpJsonProvider({
+        url: "http://listings.test/search",
+        paths: { comparables: "$.listings", medianRent: "$.stats.median" },
+        comparableFields: { monthlyRent: "rent", address: "street", bedrooms: "beds" },
+      }).fetch(QUERY);
+
+      expect(raw.medianRent).to.equal(2450);
+      expect(raw.comparables[0]).to.include({ address: "9 Elm St", monthlyRent: 2500, bedrooms: 2 });
+    });
+
+    it("should refuse to call RentCast without an API key", async function () {
+      restoreFetch = () => undefined;
+      const savedKey = process.env.RENTCAST_API_KEY;
+      delete process.env.RENTCAST_API_KEY;
+      try {
+        await new RentCastProvider("").fetch(QUERY).then(
+          () => expect.fail("should have thrown"),
+          (error) => expect(error.message).to.equal("RentCast API key not configured")
+        );
+      } finally {
+        if (savedKey !== undefined) process.env.RENTCAST_API_KEY = savedKey;
+      }
+    });
+  });
+
+  describe("CsvFileProvider", function () {
+    it("should parse quoted fields and keep the rows matching the property", async function () {
+      const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "market-csv-")), "comparables.csv");
+      fs.writeFileSync(
+        file,
+        [
+          "address,monthly_rent,bedrooms,property_type,zip_code",
+          '"10 Pine St, Unit ""B""",3200,2,Condo,94102',
+          "11 Oak St,4100,3,Single Family,94102",
+          "12 Ash St,2900,1,Condo,10001",
+          "",
+        ].join("\r\n")
+      );
+
+      const raw = await new CsvFileProvider(file).fetch(QUERY);
+
+      expect(raw.comparables).to.have.length(1);
+      expect(raw.comparables[0]).to.include({ address: '10 Pine St, Unit "B"', monthlyRent: 3200, bedrooms: 2 });
+      expect(raw.asOf).to.equal(fs.statSync(file).mtimeMs);
+      expect(parseCsv("a,b\n1,\"x\ny\"\n")).to.deep.equal([["a", "b"], ["1", "x\ny"]]);
+    });
+  });
+
+  describe("ReferenceTableProvider", function () {
+    it("should return the metro's published rents, dated by the table", async function () {
+      const provider = new ReferenceTableProvider();
+
+      expect(await provider.fetch(QUERY)).to.deep.equal({
+        comparables: [],
+        medianRent: 3100,
+        averageRent: 3350,
+        occupancyRate: 93.8,
+        rentGrowthYoY: 1.8,
+        asOf: Date.UTC(2026, 1, 1),
+      });
+      expect(provider.metroFor("1 Main St, Brooklyn, NY 11201")).to.equal("New York");
+      expect(provider.metroFor("1 Main St, Sfax Rd, TX 75001")).to.equal("default");
+    });
+  });
+
+  describe("MarketDataOracle providers", function () {
+    const comparables = { comparables: [{ address: "1 A St", monthlyRent: 2500 }] };
+
+    it("should fall through failing and empty providers in order", async function () {
+      const primary = scriptedProvider("primary", [new Error("status 503")]);
+      const empty = scriptedProvider("empty", [{ comparables: [] }]);
+      const last = scriptedProvider("last", [comparables]);
+
+      const originalWarn = console.warn;
+      console.warn = () => undefined;
+      const data = await new MarketDataOracle([primary, empty, last], undefined, "fallback")
+        .fetchMarketData(QUERY.address, QUERY.propertyType)
+        .finally(() => (console.warn = originalWarn));
+
+      expect(data).to.include({ provider: "last", freshness: "live" });
+      expect([primary.calls, empty.calls, last.calls]).to.deep.equal([1, 1, 1]);
+    });
+
+    it("should tag cached and stale answers", async function () {
+      const provider = scriptedProvider("primary", [comparables, new Error("down")]);
+      const oracle = new MarketDataOracle([provider]);
+
+      await oracle.fetchMarketData(QUERY.address, QUERY.propertyType);
+      expect(await oracle.fetchMarketData(QUERY.address, QUERY.propertyType)).to.include({ freshness: "cached", provider: "primary" });
+
+      // A day later the cache entry has expired and the provider fails
+      const originalNow = Date.now;
+      const originalWarn = console.warn;
+      Date.now = () => originalNow() + 25 * 60 * 60 * 1000;
+      console.warn = () => undefined;
+      const stale = await oracle.fetchMarketData(QUERY.address, QUERY.propertyType).finally(() => {
+        Date.now = originalNow;
+        console.warn = originalWarn;
+      });
+      expect(stale).to.include({ freshness: "stale", isStale: true, provider: "primary" });
+    });
+
+    it("should report every provider's failure when none answers", async function () {
+      const oracle = new MarketDataOracle([scriptedProvider("a", [new Error("timeout")]), scriptedProvider("b", [new Error("status 500")])]);
+
+      await oracle.fetchMarketData(QUERY.address, QUERY.propertyType).then(
+        () => expect.fail("should have thrown"),
+        (error) => expect(error.message).to.include("All market data providers failed: a: timeout; b: status 500")
+      );
+    });
+  });
+
+  describe("market-data steps", function () {
+    let savedEnv: NodeJS.ProcessEnv;
+
+    beforeEach(function () {
+      savedEnv = { ...process.env };
+      process.env.OPENAI_API_KEY = "test-key";
+      delete process.env.ETHEREUM_RPC_URL;
+      delete process.env.PRIVATE_KEY;
+    });
+
+    afterEach(function () {
+      process.env = savedEnv;
+    });
+
+    it("should skip providers whose url is unset and record which provider answered", async function () {
+      const step: WorkflowStep = {
+        id: "fetch-market-data",
+        name: "Fetch Market Data",
+        type: "market-data",
+        description: "Market data from the provider chain",
+        config: {
+          address: QUERY.address,
+          property_type: "Townhouse",
+          providers: [{ type: "http-json", url: "${MARKET_DATA_API_URL}" }, { type: "reference" }],
+        },
+        outputs: { provider: { path: "$.provider", description: "Provider that answered" } },
+        on_error: { action: "halt", log: true },
+      };
+
+      const state = await new WorkflowOrchestrator(writeWorkflow([step]), { secrets: new EnvSecretsProvider({}) }).execute();
+
+      expect(state.status).to.equal("completed");
+      expect(state.step_outputs["fetch-market-data"]).to.include({ provider: "reference", freshness: "live" });
+      expect(state.step_outputs["fetch-market-data"].market_data.marketMetrics.medianRent).to.equal(3600);
+    });
+  });
+});
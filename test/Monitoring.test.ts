@@ -0,0 +1,304 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { MetricsRegistry, collectRunMetrics, recordRunMetrics } from "../services/metrics";
+import { AlertEngine } from "../services/alerts";
+import { Notifier } from "../services/notifier";
+import { InMemoryRunStore } from "../services/runStore";
+import { EnvSecretsProvider } from "../services/secretsProvider";
+import { WorkflowOrchestrator } from "../services/workflowOrchestrator";
+import { MonitoringConfig, WorkflowNotification, WorkflowState } from "../services/types";
+import { httpStep, jsonResponse, stubFetch, writeWorkflow } from "./helpers/workflow";
+
+/**
+ * Unit Tests for workflow metrics and alert rules
+ *
+ * Requirements:
+ * - 2.5: Log errors and continue operation
+ * - 11.3: Log each step execution with timestamps and results
+ */
+
+class RecordingNotifier implements Notifier {
+  notifications: WorkflowNotification[] = [];
+
+  async notify(notification: WorkflowNotification): Promise<void> {
+    this.notifications.push(notification);
+  }
+}
+
+function runState(overrides: Partial<WorkflowState> = {}): WorkflowState {
+  return {
+    workflow_id: "test-workflow",
+    execution_id: "exec-1",
+    start_time: 1000,
+    end_time: 1500,
+    status: "completed",
+    step_outputs: {},
+    step_results: {},
+    errors: [],
+    metrics: {},
+    ...overrides,
+  };
+}
+
+function monitoring(alerts: MonitoringConfig["alerts"], sinks?: MonitoringConfig["sinks"]): MonitoringConfig {
+  return { enabled: true, metrics: [], alerts, sinks };
+}
+
+describe("Workflow Monitoring", function () {
+  describe("collectRunMetrics", function () {
+    it("should derive run metrics from step results and outputs", function () {
+      const state = runState({
+        step_outputs: {
+          market: { is_cached: true },
+          pricing: { recommended_price: 2150, confidence_score: 82 },
+          pool: { pool_balance: "0", pool_balance_usd: 0 },
+          submit: { gas_used: "21000" },
+        },
+        step_results: {
+          market: { status: "completed", started_at: 1000, duration: 100 },
+          pricing: { status: "completed", started_at: 1100, duration: 200 },
+          pool: { status: "completed", started_at: 1300, duration: 50 },
+          submit: { status: "completed", started_at: 1350, duration: 100 },
+          distribute: { status: "failed", started_at: 1450, duration: 50, error: "boom" },
+        },
+      });
+      const steps = ["market", "pricing", "pool", "submit", "distribute"].map((id) => httpStep(id));
+
+      const metrics = collectRunMetrics(state, steps);
+
+      expect(metrics.workflow_execution_time).to.equal(500);
+      expect(metrics.step_failure_count).to.equal(1);
+      expect(metrics.step_success_rate).to.equal(80);
+      expect(metrics.step_duration).to.deep.equal({ market: 100, pricing: 200, pool: 50, submit: 100, distribute: 50 });
+      expect(metrics.cache_hit_rate).to.equal(100);
+      expect(metrics.recommendation_price).to.equal(2150);
+      expect(metrics.recommendation_confidence).to.equal(82);
+      expect(metrics.pool_balance).to.equal(0);
+      expect(metrics.transaction_gas_used).to.equal(21000);
+    });
+  });
+
+  describe("MetricsRegistry", function () {
+    it("should render Prometheus text format", function () {
+      const registry = new MetricsRegistry();
+      const state = runState();
+      recordRunMetrics(registry, state, { workflow_execution_time: 500, step_duration: { fetch: 120 } }, [
+        { name: "workflow_execution_time", description: "Total time", unit: "milliseconds" },
+      ]);
+      recordRunMetrics(registry, state, { workflow_execution_time: 700, step_duration: {} });
+
+      expect(registry.render()).to.equal(
+        [
+          "# HELP workflow_execution_time Total time (milliseconds)",
+          "# TYPE workflow_execution_time gauge",
+          'workflow_execution_time{workflow="test-workflow"} 700',
+          "# HELP step_duration Step execution time (milliseconds)",
+          "# TYPE step_duration gauge",
+          'step_duration{workflow="test-workflow",step="fetch"} 120',
+          "# HELP workflow_runs_total Workflow runs by final status",
+          "# TYPE workflow_runs_total counter",
+          'workflow_runs_total{workflow="test-workflow",status="completed"} 2',
+          "",
+        ].join("\n")
+      );
+    });
+
+    it("should label a property's run metrics with the property", function () {
+      const registry = new MetricsRegistry();
+      recordRunMetrics(registry, runState({ property_id: "prop-a" }), { workflow_execution_time: 500, step_duration: { fetch: 120 } });
+      recordRunMetrics(registry, runState({ property_id: "prop-b" }), { workflow_execution_time: 900, step_duration: { fetch: 300 } });
+
+      expect(registry.get("workflow_execution_time", { workflow: "test-workflow", property: "prop-a" })).to.equal(500);
+      expect(registry.get("workflow_execution_time", { workflow: "test-workflow", property: "prop-b" })).to.equal(900);
+      expect(registry.get("step_duration", { workflow: "test-workflow", property: "prop-b", step: "fetch" })).to.equal(300);
+      expect(registry.get("workflow_runs_total", { workflow: "test-workflow", property: "prop-a", status: "completed" })).to.equal(1);
+    });
+
+    it("should escape label values", function () {
+      const registry = new MetricsRegistry();
+      registry.set("pool_balance", 1, { workflow: 'say "hi"\\' });
+      expect(registry.render()).to.contain('pool_balance{workflow="say \\"hi\\"\\\\"} 1');
+    });
+  });
+
+  describe("AlertEngine", function () {
+    it("should fire alerts whose conditions hold for metrics and step outputs", function () {
+      const engine = new AlertEngine(
+        monitoring([
+          { condition: "workflow_execution_time > 400", severity: "warning", message: "Slow" },
+          { condition: "steps.pricing.outputs.confidence_score < 50", severity: "error", message: "Low confidence" },
+        ]),
+        () => new RecordingNotifier()
+      );
+      const state = runState({
+        metrics: { workflow_execution_time: 500 },
+        step_outputs: { pricing: { confidence_score: 70 } },
+      });
+
+      const fired = engine.evaluate(state);
+      expect(fired.map((alert) => alert.message)).to.deep.equal(["Slow"]);
+      expect(fired[0].severity).to.equal("warning");
+    });
+
+    it("should require for_runs consecutive matching runs", function () {
+      const engine = new AlertEngine(
+        monitoring([{ condition: "pool_balance == 0", message: "Empty pool", for_runs: 3 }]),
+        () => new RecordingNotifier()
+      );
+      const empty = runState({ metrics: { pool_balance: 0 } });
+      const funded = runState({ metrics: { pool_balance: 100 } });
+
+      expect(engine.historyDepth).to.equal(2);
+      expect(engine.evaluate(empty, [empty])).to.have.length(0);
+      expect(engine.evaluate(empty, [empty, funded])).to.have.length(0);
+      expect(engine.evaluate(empty, [empty, empty])).to.have.length(1);
+    });
+
+    it("should not fire when a condition cannot be evaluated", function () {
+      const engine = new AlertEngine(monitoring([{ condition: "status > 1", message: "Bad" }]), () => new RecordingNotifier());
+      expect(engine.evaluate(runState())).to.have.length(0);
+    });
+
+    it("should route alerts to their sinks", async function () {
+      const sinks: Record<string, RecordingNotifier> = {};
+      const engine = new AlertEngine(
+        monitoring(
+          [
+            { condition: "true", severity: "critical", message: "Everywhere" },
+            { condition: "true", severity: "info", message: "Ops only", sinks: ["ops"] },
+          ],
+          [
+            { name: "log", type: "log" },
+            { name: "ops", type: "webhook", url: "http://alerts.test/hook" },
+          ]
+        ),
+        (config) => (sinks[config.name] = new RecordingNotifier())
+      );
+      const state = runState();
+
+      await engine.dispatch(engine.evaluate(state), state);
+
+      expect(sinks.log.notifications.map((n) => n.title)).to.deep.equal(["Workflow alert: Everywhere"]);
+      expect(sinks.ops.notifications.map((n) => n.severity)).to.deep.equal(["critical", "info"]);
+    });
+
+    it("should append alerts to a file sink", async function () {
+      const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "workflow-alerts-")), "alerts.jsonl");
+      const engine = new AlertEngine(monitoring([{ condition: "true", message: "Logged" }], [{ name: "file", type: "file", path: file }]));
+      const state = runState();
+
+      await engine.dispatch(engine.evaluate(state), state);
+
+      const lines = fs.readFileSync(file, "utf8").trim().split("\n");
+      expect(JSON.parse(lines[0]).message).to.match(/^Logged/);
+    });
+
+    it("should resolve sink urls through the secrets provider", async function () {
+      const engine = new AlertEngine(
+        monitoring([{ condition: "true", message: "Paged" }], [{ name: "ops", type: "webhook", url: "http://alerts.test/${ALERT_TOKEN}" }]),
+        undefined,
+        new EnvSecretsProvider({ ALERT_TOKEN: "from-keystore" })
+      );
+      const originalFetch = globalThis.fetch;
+      const urls: string[] = [];
+      globalThis.fetch = (async (url: string) => {
+        urls.push(url);
+        return new Response("{}");
+      }) as typeof fetch;
+      const state = runState();
+
+      await engine.dispatch(engine.evaluate(state), state).finally(() => (globalThis.fetch = originalFetch));
+
+      expect(urls).to.deep.equal(["http://alerts.test/from-keystore"]);
+    });
+
+    it("should reject invalid conditions and unknown sinks", function () {
+      expect(() => new AlertEngine(monitoring([{ condition: "a >", message: "x" }]))).to.throw(/Invalid alert condition/);
+      expect(() => new AlertEngine(monitoring([{ condition: "true", message: "x", sinks: ["pager"] }])))
+        .to.throw(/unknown sink: pager/);
+      expect(() => new AlertEngine(monitoring([], [{ name: "hook", type: "webhook" }]))).to.throw(/requires a url/);
+    });
+  });
+
+  describe("Orchestrator integration", function () {
+    const savedEnv = { ...process.env };
+    let restoreFetch: () => void;
+    let alertFile: string;
+
+    beforeEach(function () {
+      process.env.OPENAI_API_KEY = "test-key";
+      delete process.env.ETHEREUM_RPC_URL;
+      delete process.env.PRIVATE_KEY;
+      alertFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "workflow-alerts-")), "alerts.jsonl");
+      restoreFetch = stubFetch(() => jsonResponse({ value: "0" }));
+    });
+
+    afterEach(function () {
+      restoreFetch();
+      process.env = { ...savedEnv };
+    });
+
+    it("should record metrics and alert after the pool is empty for three runs", async function () {
+      const file = writeWorkflow([httpStep("pool")], {
+        monitoring: {
+          enabled: true,
+          metrics: [],
+          sinks: [{ name: "file", type: "file", path: alertFile }],
+          alerts: [{ condition: "steps.pool.outputs.value == 0", message: "Pool empty", for_runs: 3 }],
+        },
+      });
+      const runStore = new InMemoryRunStore();
+      const metrics = new MetricsRegistry();
+
+      const states: WorkflowState[] = [];
+      for (let i = 0; i < 3; i++) {
+        states.push(await new WorkflowOrchestrator(file, { runStore, metrics }).execute());
+      }
+
+      expect(states[0].metrics.step_success_rate).to.equal(100);
+      expect(states[0].alerts).to.deep.equal([]);
+      expect(states[1].alerts).to.deep.equal([]);
+      expect(states[2].alerts!.map((alert) => alert.message)).to.deep.equal(["Pool empty"]);
+      expect(fs.readFileSync(alertFile, "utf8").trim().split("\n")).to.have.length(1);
+      expect(metrics.get("workflow_runs_total", { workflow: "test-workflow", status: "completed" })).to.equal(3);
+    });
+
+    it("should compare a property's runs only with earlier runs for the same property", async function () {
+      const pools: Record<string, string> = { "prop-a": "0", "prop-b": "5000" };
+      let property = "";
+      restoreFetch();
+      restoreFetch = stubFetch(() => jsonResponse({ value: pools[property] }));
+      const file = writeWorkflow([httpStep("pool")], {
+        monitoring: {
+          enabled: true,
+          metrics: [],
+          alerts: [{ condition: "steps.pool.outputs.value == 0", message: "Pool empty", for_runs: 2 }],
+        },
+      });
+      const runStore = new InMemoryRunStore();
+      const metrics = new MetricsRegistry();
+
+      const run = async (propertyId: string) => {
+        property = propertyId;
+        return await new WorkflowOrchestrator(file, { runStore, metrics, propertyId }).execute();
+      };
+      await run("prop-a");
+      const otherProperty = await run("prop-b");
+      const emptyTwice = await run("prop-a");
+
+      expect(otherProperty.alerts).to.deep.equal([]);
+      expect(emptyTwice.alerts!.map((alert) => alert.message)).to.deep.equal(["Pool empty"]);
+      expect(metrics.get("workflow_runs_total", { workflow: "test-workflow", property: "prop-a", status: "completed" })).to.equal(2);
+      expect(metrics.get("workflow_runs_total", { workflow: "test-workflow", property: "prop-b", status: "completed" })).to.equal(1);
+    });
+
+    it("should fail at load time on an invalid alert condition", function () {
+      const file = writeWorkflow([httpStep("pool")], {
+        monitoring: { enabled: true, metrics: [], alerts: [{ condition: "pool ==", message: "x" }] },
+      });
+      expect(() => new WorkflowOrchestrator(file)).to.throw(/Invalid alert condition/);
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  PropertyEntry,
+  PropertyRegistryError,
+  loadPropertyRegistry,
+  parsePropertyRegistry,
+  propertyVariables,
+} from "../services/propertyRegistry";
+import { executeForProperties, formatPropertyReport } from "../services/multiPropertyRunner";
+import { CircuitBreaker, InMemoryCircuitStateStore } from "../services/circuitBreaker";
+import { InMemoryRunStore } from "../services/runStore";
+import { EnvSecretsProvider } from "../services/secretsProvider";
+import { httpStep, jsonResponse, stubFetch, writeWorkflow } from "./helpers/workflow";
+
+/**
+ * Unit Tests for property registries and per-property workflow fan-out
+ *
+ * Requirements:
+ * - 2.5: Log errors and continue operation
+ * - 11.1: Workflow configurable via YAML
+ * - 11.3: Log each step execution with timestamps
+ */
+
+const PRICE_MANAGER_1 = "0x57B2c87007387FA2BCEaf4A99fc621455b0c8074";
+const PRICE_MANAGER_2 = "0xd06d573BbC46B1B47bcF8CC7729663a071F8B590";
+
+function property(id: string, priceManager: string): PropertyEntry {
+  return { id, name: `Property ${id}`, address: `${id} Main St`, contracts: { PriceManager: priceManager } };
+}
+
+describe("Multi-Property Runner", function () {
+  describe("Property registry", function () {
+    it("should read deployment files written by the deploy script", function () {
+      const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "registry-test-")), "sepolia.json");
+      fs.writeFileSync(
+        file,
+        JSON.stringify({
+          network: "sepolia",
+          MockUSDC: "0x300F325E1407C3d2b6D30A71a4996F58F87A1Fc9",
+          properties: [
+            { id: "prop-1", name: "123 Main St", address: "123 Main St, San Francisco, CA", contracts: { PriceManager: PRICE_MANAGER_1 } },
+          ],
+        })
+      );
+
+      const [entry] = loadPropertyRegistry(file);
+      expect(entry.contracts).to.deep.equal({
+        MockUSDC: "0x300F325E1407C3d2b6D30A71a4996F58F87A1Fc9",
+        PriceManager: PRICE_MANAGER_1,
+      });
+      expect(propertyVariables(entry)).to.deep.equal({
+        PROPERTY_ID: "prop-1",
+        PROPERTY_NAME: "123 Main St",
+        PROPERTY_ADDRESS: "123 Main St, San Francisco, CA",
+        PRICE_MANAGER_ADDRESS: PRICE_MANAGER_1,
+      });
+    });
+
+    it("should read dashboard property arrays with per-property variables", function () {
+      const [entry] = parsePropertyRegistry([
+        { id: "prop-2", name: "456 Oak Ave", propertyType: "Condo", valuation: 350000, contracts: {}, variables: { PROPERTY_CURRENT_RENT: "2100" } },
+      ]);
+      expect(propertyVariables(entry)).to.include({
+        PROPERTY_TYPE: "Condo",
+        PROPERTY_VALUATION: "350000",
+        PROPERTY_CURRENT_RENT: "2100",
+      });
+    });
+
+    it("should reject empty registries and duplicate ids", function () {
+      expect(() => parsePropertyRegistry({ properties: [] })).to.throw(PropertyRegistryError, "non-empty array");
+      expect(() => parsePropertyRegistry([{ id: "a" }, { id: "a" }])).to.throw(PropertyRegistryError, "Duplicate property id: a");
+    });
+
+    it("should reject ids that cannot name a file", function () {
+      expect(() => parsePropertyRegistry([{ id: "Unit 4B" }])).to.throw(PropertyRegistryError, 'Property id "Unit 4B" may only contain');
+      expect(() => parsePropertyRegistry([{ id: "sf/condo" }])).to.throw(PropertyRegistryError, 'Property id "sf/condo"');
+      expect(parsePropertyRegistry([{ id: "sf-condo_4.b" }])[0].id).to.equal("sf-condo_4.b");
+    });
+
+    it("should reject contracts and variables that are not strings", function () {
+      expect(() => parsePropertyRegistry([{ id: "a", contracts: { PriceManager: 1 } }])).to.throw(
+        PropertyRegistryError,
+        "Property a: contracts must map names to strings"
+      );
+      expect(() => parsePropertyRegistry([{ id: "a", variables: ["x"] }])).to.throw(
+        PropertyRegistryError,
+        "Property a: variables must map names to strings"
+      );
+      expect(() => parsePropertyRegistry({ MockUSDC: 7, properties: [{ id: "a" }] })).to.throw(
+        PropertyRegistryError,
+        "Deployment MockUSDC must be a string"
+      );
+    });
+  });
+
+  describe("executeForProperties", function () {
+    let restoreFetch: () => void;
+    let restoreLog: () => void;
+    let savedEnv: NodeJS.ProcessEnv;
+
+    beforeEach(function () {
+      savedEnv = { ...process.env };
+      process.env.OPENAI_API_KEY = "test-key";
+      delete process.env.ETHEREUM_RPC_URL;
+      delete process.env.PRIVATE_KEY;
+
+      const originalLog = console.log;
+      console.log = () => undefined;
+      restoreLog = () => {
+        console.log = originalLog;
+      };
+    });
+
+    afterEach(function () {
+      restoreLog();
+      restoreFetch();
+      process.env = savedEnv;
+    });
+
+    const secrets = new EnvSecretsProvider({ PRICE_MANAGER_ADDRESS: "0xenv" });
+
+    function workflow(): string {
+      return writeWorkflow([
+        httpStep("fetch", {
+          config: { method: "GET", url: "http://workflow.test/${PRICE_MANAGER_ADDRESS}/${PROPERTY_ID}" },
+          outputs: { value: { path: "$.value", description: "Echoed property" } },
+          on_error: { action: "halt", log: true },
+        }),
+      ]);
+    }
+
+    it("should run each property with its own variables and state, bounded by concurrency", async function () {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const urls: string[] = [];
+      const originalFetch = global.fetch;
+      global.fetch = (async (input: any) => {
+        urls.push(String(input));
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        inFlight--;
+        return jsonResponse({ value: String(input).split("/").pop() });
+      }) as typeof fetch;
+      restoreFetch = () => {
+        global.fetch = originalFetch;
+      };
+
+      const runStore = new InMemoryRunStore();
+      const properties = [property("prop-1", PRICE_MANAGER_1), property("prop-2", PRICE_MANAGER_2), property("prop-3", PRICE_MANAGER_1)];
+      const { report, states } = await executeForProperties(workflow(), properties, { concurrency: 2, runStore, secrets });
+
+      expect(maxInFlight).to.equal(2);
+      expect(urls).to.include(`http://workflow.test/${PRICE_MANAGER_2}/prop-2`);
+      expect(states.map((state) => [state.property_id, state.step_outputs.fetch.value])).to.deep.equal([
+        ["prop-1", "prop-1"],
+        ["prop-2", "prop-2"],
+        ["prop-3", "prop-3"],
+      ]);
+      expect(report).to.include({ workflow_id: "test-workflow", status: "completed", total: 3, completed: 3, failed: 0 });
+      expect(report.properties[1].steps).to.deep.equal({ fetch: "completed" });
+
+      const stored = await runStore.list();
+      expect(stored.map((state) => state.property_id).sort()).to.deep.equal(["prop-1", "prop-2", "prop-3"]);
+    });
+
+    it("should keep running the other properties when one fails", async function () {
+      restoreFetch = stubFetch((id) => {
+        if (id === "prop-2") throw new Error("connection refused");
+        return jsonResponse({ value: id });
+      });
+
+      const properties = [property("prop-1", PRICE_MANAGER_1), property("prop-2", PRICE_MANAGER_2), property("prop-3", PRICE_MANAGER_1)];
+      const { report } = await executeForProperties(workflow(), properties, { concurrency: 1, secrets });
+
+      expect(report.status).to.equal("partial");
+      expect(report.properties.map((summary) => summary.status)).to.deep.equal(["completed", "failed", "completed"]);
+      expect(report.properties[1].errors[0]).to.equal("fetch: connection refused");
+      expect(formatPropertyReport(report)).to.include("2/3 properties completed (partial)");
+    });
+
+    it("should keep one circuit breaker per property", async function () {
+      restoreFetch = stubFetch((id) => {
+        if (id === "prop-2") throw new Error("connection refused");
+        return jsonResponse({ value: id });
+      });
+      const file = writeWorkflow(
+        [
+          httpStep("fetch", {
+            config: { method: "GET", url: "http://workflow.test/${PROPERTY_ID}" },
+            on_error: { action: "halt", log: true },
+          }),
+        ],
+        { error_handling: { strategy: "continue", log_errors: true, notify_on_failure: false, max_consecutive_failures: 1 } }
+      );
+      const breaker = new CircuitBreaker(new InMemoryCircuitStateStore());
+
+      await executeForProperties(file, [property("prop-1", PRICE_MANAGER_1), property("prop-2", PRICE_MANAGER_2)], {
+        circuitBreaker: breaker,
+        secrets,
+      });
+
+      expect(await breaker.isOpen("test-workflow.prop-2")).to.be.true;
+      expect(await breaker.isOpen("test-workflow.prop-1")).to.be.false;
+      expect(await breaker.isOpen("test-workflow")).to.be.false;
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import { expect } from "chai";
+import { ethers as hardhatEthers, network } from "hardhat";
+import { ethers } from "ethers";
+import { MULTICALL3_ADDRESS, MulticallRevertError, multicall } from "../services/multicall";
+import { WorkflowOrchestrator } from "../services/workflowOrchestrator";
+import { validateWorkflow } from "../services/workflowValidator";
+import { WorkflowStep } from "../services/types";
+import * as fs from "fs";
+import { writeWorkflow } from "./helpers/workflow";
+
+/**
+ * Unit Tests for batched contract reads (Multicall3 and the per-call stand-in)
+ *
+ * Requirements:
+ * - 2.6: Check rental payment before distributing yields
+ * - 3.5: Format data in standardized structure
+ */
+
+const ABI = [
+  "function getDistributionPool() view returns (uint256)",
+  "function getCurrentRentalPrice() view returns (uint256)",
+  "function getHolderYields(address holder) view returns (uint256)",
+  "error InvalidAddress()",
+];
+
+/** Runtime code that returns 42 for any call */
+const RETURNS_42 = "0x602a60005260206000f3";
+/** Runtime code that reverts without data */
+const REVERTS = "0x60006000fd";
+
+const multicall3 = new ethers.Interface([
+  "function tryBlockAndAggregate(bool requireSuccess, tuple(address target, bytes callData)[] calls) payable returns (uint256 blockNumber, bytes32 blockHash, tuple(bool success, bytes returnData)[] returnData)",
+]);
+const iface = new ethers.Interface(ABI);
+const BLOCK_HASH = "0x" + "ab".repeat(32);
+
+/**
+ * A provider with Multicall3 deployed; each call's return data comes from
+ * `respond` (a string starting with "revert:" is revert data)
+ */
+function multicallProvider(respond: (name: string, args: unknown[]) => string) {
+  const requests: ethers.TransactionRequest[] = [];
+  const provider = {
+    getCode: async () => "0x6080",
+    getBlock: async () => {
+      throw new Error("not used when batching");
+    },
+    call: async (request: ethers.TransactionRequest) => {
+      requests.push(request);
+      const [, calls] = multicall3.decodeFunctionData("tryBlockAndAggregate", request.data!);
+      const results = calls.map(([, callData]: [string, string]) => {
+        const parsed = iface.parseTransaction({ data: callData })!;
+        const response = respond(parsed.name, [...parsed.args]);
+        return response.startsWith("revert:") ? [false, response.slice(7)] : [true, response];
+      });
+      return multicall3.encodeFunctionResult("tryBlockAndAggregate", [1234n, BLOCK_HASH, results]);
+    },
+  };
+  return { provider, requests };
+}
+
+const uint = (value: bigint) => ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [value]);
+
+describe("Multicall", function () {
+  const pool = ethers.Wallet.createRandom().address;
+  const holder = ethers.Wallet.createRandom().address;
+
+  describe("multicall", function () {
+    it("should batch every read into one eth_call and decode each result", async function () {
+      const { provider, requests } = multicallProvider((name, args) => {
+        if (name === "getHolderYields") return uint(args[0] === holder ? 750000n : 0n);
+        return uint(name === "getDistributionPool" ? 5000000n : 2500000000n);
+      });
+
+      const outcome = await multicall(
+        provider,
+        [
+          { id: "pool", to: pool, abi: ABI, functionName: "getDistributionPool" },
+          { id: "rent", to: pool, abi: ABI, functionName: "getCurrentRentalPrice" },
+          { id: "yields", to: pool, abi: ABI, functionName: "getHolderYields", args: [holder] },
+        ],
+        { blockTag: "finalized" }
+      );
+
+      expect(outcome).to.deep.equal({
+        blockNumber: 1234,
+        blockHash: BLOCK_HASH,
+        batched: true,
+        results: { pool: "5000000", rent: "2500000000", yields: "750000" },
+        errors: {},
+      });
+      expect(requests).to.have.length(1);
+      expect(requests[0].to).to.equal(MULTICALL3_ADDRESS);
+      expect(requests[0].blockTag).to.equal("finalized");
+    });
+
+    it("should return null for allowed failures and fail the batch otherwise", async function () {
+      const { provider } = multicallProvider((name) =>
+        name === "getHolderYields" ? "revert:" + iface.encodeErrorResult("InvalidAddress", []) : uint(1n)
+      );
+      const requests = [
+        { id: "pool", to: pool, abi: ABI, functionName: "getDistributionPool" },
+        { id: "yields", to: pool, abi: ABI, functionName: "getHolderYields", args: [ethers.ZeroAddress], allowFailure: true },
+      ];
+
+      const outcome = await multicall(provider, requests);
+      expect(outcome.results).to.deep.equal({ pool: "1", yields: null });
+      expect(outcome.errors).to.deep.equal({ yields: "InvalidAddress()" });
+
+      requests[1].allowFailure = false;
+      await expect(multicall(provider, requests)).to.be.rejectedWith(
+        MulticallRevertError,
+        "Call yields (getHolderYields) reverted: InvalidAddress()"
+      );
+    });
+
+    it("should read each call at one pinned block where Multicall3 is not deployed", async function () {
+      const answer = ethers.Wallet.createRandom().address;
+      const reverter = ethers.Wallet.createRandom().address;
+      await network.provider.send("hardhat_setCode", [answer, RETURNS_42]);
+      await network.provider.send("hardhat_setCode", [reverter, REVERTS]);
+      await network.provider.send("evm_mine", []);
+      const provider = hardhatEthers.provider as unknown as ethers.Provider;
+      const latest = await provider.getBlockNumber();
+
+      const outcome = await multicall(provider, [
+        { id: "pool", to: answer, abi: ABI, functionName: "getDistributionPool" },
+        { id: "yields", to: reverter, abi: ABI, functionName: "getHolderYields", args: [holder], allowFailure: true },
+      ]);
+
+      expect(outcome.batched).to.be.false;
+      expect(outcome.blockNumber).to.equal(latest);
+      expect(outcome.results).to.deep.equal({ pool: "42", yields: null });
+      expect(outcome.errors).to.deep.equal({ yields: "no revert data" });
+    });
+  });
+
+  describe("ethereum-multicall steps", function () {
+    let savedEnv: NodeJS.ProcessEnv;
+
+    beforeEach(function () {
+      savedEnv = { ...process.env };
+      process.env.OPENAI_API_KEY = "test-key";
+      delete process.env.ETHEREUM_RPC_URL;
+      delete process.env.PRIVATE_KEY;
+    });
+
+    afterEach(function () {
+      process.env = savedEnv;
+    });
+
+    function multicallStep(config: Record<string, unknown>): WorkflowStep {
+      return {
+        id: "read-state",
+        name: "Read state",
+        type: "ethereum-multicall",
+        description: "Read pool, rent and holder yields",
+        config: {
+          abi: JSON.stringify(ABI.map((fragment) => JSON.parse(ethers.Fragment.from(fragment).format("json")))),
+          ...config,
+        },
+        outputs: {
+          pool_balance_usd: { path: "$.result.pool", transform: "divide_by_1e6", description: "Pool balance in USD" },
+          holder_yields: { path: "$.result.yields", description: "Holder yields" },
+        },
+        on_error: { action: "halt", log: true },
+      };
+    }
+
+    it("should expose results by call id and the block they were read at", async function () {
+      const { provider, requests } = multicallProvider((name) => uint(name === "getDistributionPool" ? 5000000n : 750000n));
+
+      const state = await new WorkflowOrchestrator(
+        writeWorkflow([
+          multicallStep({
+            block_tag: 1200,
+            calls: [
+              { id: "pool", contract_address: pool, function_name: "getDistributionPool" },
+              { id: "yields", contract_address: pool, function_name: "getHolderYields", function_args: [holder] },
+            ],
+          }),
+        ]),
+        { provider: provider as unknown as ethers.Provider }
+      ).execute();
+
+      expect(state.status).to.equal("completed");
+      expect(state.step_outputs["read-state"]).to.include({ pool_balance_usd: 5, holder_yields: "750000", block_number: 1234 });
+      expect(requests).to.have.length(1);
+      expect(requests[0].blockTag).to.equal(1200);
+    });
+
+    it("should reject duplicate call ids and argument mismatches", function () {
+      const text = fs.readFileSync(
+        writeWorkflow([
+          multicallStep({
+            calls: [
+              { id: "pool", contract_address: pool, function_name: "getDistributionPool" },
+              { id: "pool", contract_address: pool, function_name: "getHolderYields" },
+            ],
+          }),
+        ]),
+        "utf8"
+      );
+
+      expect(validateWorkflow(text).issues.map((issue) => issue.message)).to.include.members([
+        "Duplicate call id: pool",
+        "getHolderYields takes 1 argument(s), got 0",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { expect } from "chai";
+import { JsonPathError, evaluateJsonPath, parseJsonPath, queryJsonPath } from "../services/jsonPath";
+import {
+  OutputValidationError,
+  extractOutput,
+  splitPipeline,
+  validateOutput,
+} from "../services/outputExtractor";
+import { WorkflowOrchestrator } from "../services/workflowOrchestrator";
+import { httpStep, jsonResponse, stubFetch, writeWorkflow } from "./helpers/workflow";
+
+/**
+ * Unit Tests for JSONPath output extraction and output validation
+ *
+ * Requirements:
+ * - 3.5: Format data in standardized structure
+ * - 4.2, 4.3: Parse and validate AI response
+ */
+
+describe("Output Extraction", function () {
+  const marketResponse = {
+    data: {
+      comparables: [
+        { address: "100 Main St", price: 2500, bedrooms: 3 },
+        { address: "200 Oak Ave", price: 2700, bedrooms: 3 },
+        { address: "300 Pine St", price: 1900, bedrooms: 2 },
+      ],
+      averageRent: 2366,
+    },
+  };
+
+  const aiContent = {
+    recommended_price: 2600,
+    confidence_score: 82,
+    reasoning: "Comparable three-bedroom properties within one mile rent for $2,500-$2,700. ".repeat(2),
+  };
+  const openAIResponse = { choices: [{ message: { content: JSON.stringify(aiContent) } }] };
+
+  describe("JSONPath", function () {
+    it("should resolve children and array indices", function () {
+      expect(evaluateJsonPath(marketResponse, "$.data.comparables[1].price")).to.equal(2700);
+      expect(evaluateJsonPath(marketResponse, "$['data']['averageRent']")).to.equal(2366);
+      expect(evaluateJsonPath(marketResponse, "$.data.comparables[-1].address")).to.equal("300 Pine St");
+    });
+
+    it("should return undefined for missing definite paths", function () {
+      expect(evaluateJsonPath(marketResponse, "$.data.missing.value")).to.be.undefined;
+      expect(evaluateJsonPath(marketResponse, "$.data.comparables[10]")).to.be.undefined;
+    });
+
+    it("should expand wildcards, slices and unions", function () {
+      expect(evaluateJsonPath(marketResponse, "$.data.comparables[*].price")).to.deep.equal([2500, 2700, 1900]);
+      expect(evaluateJsonPath(marketResponse, "$.data.comparables[0:2].price")).to.deep.equal([2500, 2700]);
+      expect(evaluateJsonPath(marketResponse, "$.data.comparables[0,2].price")).to.deep.equal([2500, 1900]);
+    });
+
+    it("should support recursive descent", function () {
+      expect(queryJsonPath(marketResponse, "$..price")).to.deep.equal([2500, 2700, 1900]);
+    });
+
+    it("should apply filter expressions", function () {
+      expect(evaluateJsonPath(marketResponse, "$.data.comparables[?(@.price > 2000 && @.bedrooms == 3)].address"))
+        .to.deep.equal(["100 Main St", "200 Oak Ave"]);
+    });
+
+    it("should mark only child/index paths as definite", function () {
+      expect(parseJsonPath("$.a[0].b").definite).to.be.true;
+      expect(parseJsonPath("$.a[*].b").definite).to.be.false;
+    });
+
+    it("should reject malformed paths", function () {
+      expect(() => parseJsonPath("data.value")).to.throw(JsonPathError);
+      expect(() => parseJsonPath("$.a[0")).to.throw(JsonPathError, /Unterminated/);
+      expect(() => parseJsonPath("$.a[?(@.b >)]")).to.throw(JsonPathError, /Invalid filter/);
+    });
+  });
+
+  describe("extractOutput", function () {
+    it("should parse embedded JSON partway along the path", function () {
+      const price = extractOutput(openAIResponse, {
+        path: "$.choices[0].message.content.recommended_price",
+        transform: "json_parse",
+        description: "price",
+      });
+      expect(price).to.equal(2600);
+    });
+
+    it("should not re-parse a string reached after a mid-path parse", function () {
+      const reasoning = extractOutput(openAIResponse, {
+        path: "$.choices[0].message.content.reasoning",
+        transform: "json_parse",
+        description: "reasoning",
+      });
+      expect(reasoning).to.equal(aiContent.reasoning);
+    });
+
+    it("should apply a trailing transform to the extracted value", function () {
+      const recommendation = extractOutput(openAIResponse, {
+        path: "$.choices[0].message.content",
+        transform: "json_parse",
+        description: "recommendation",
+      });
+      expect(recommendation).to.deep.equal(aiContent);
+      expect(extractOutput({ result: "2500000000" }, { path: "$.result", transform: "divide_by_1e6", description: "" }))
+        .to.equal(2500);
+    });
+
+    it("should support explicit pipeline stages", function () {
+      expect(splitPipeline("$.a | json_parse | $.b[?(@.x || @.y)]")).to.deep.equal([
+        "$.a",
+        "json_parse",
+        "$.b[?(@.x || @.y)]",
+      ]);
+      const confidence = extractOutput(openAIResponse, {
+        path: "$.choices[0].message.content | json_parse | $.confidence_score",
+        description: "confidence",
+      });
+      expect(confidence).to.equal(82);
+    });
+
+    it("should fall back to the default value", function () {
+      expect(extractOutput({}, { path: "$.cached", default: false, description: "" })).to.equal(false);
+    });
+  });
+
+  describe("validateOutput", function () {
+    it("should accept values that satisfy the rules", function () {
+      expect(() => validateOutput("price", 2600, { type: "number", min: 0, max: 100000 })).to.not.throw();
+      expect(() => validateOutput("reasoning", "x".repeat(100), { type: "string", min_length: 100 })).to.not.throw();
+    });
+
+    it("should reject type mismatches", function () {
+      expect(() => validateOutput("price", "2600", { type: "number" })).to.throw(OutputValidationError, /expected number/);
+      expect(() => validateOutput("price", undefined, { type: "number" })).to.throw(OutputValidationError);
+    });
+
+    it("should reject values out of range", function () {
+      expect(() => validateOutput("confidence", 120, { type: "number", min: 0, max: 100 }))
+        .to.throw(OutputValidationError, /above maximum 100/);
+      expect(() => validateOutput("price", -1, { type: "number", min: 0 })).to.throw(OutputValidationError, /below minimum/);
+    });
+
+    it("should reject strings that are too short", function () {
+      expect(() => validateOutput("reasoning", "too short", { type: "string", min_length: 100 }))
+        .to.throw(OutputValidationError, /minimum length 100/);
+    });
+  });
+
+  describe("Orchestrator integration", function () {
+    const savedEnv = { ...process.env };
+    let restoreFetch: () => void;
+
+    beforeEach(function () {
+      process.env.OPENAI_API_KEY = "test-key";
+      delete process.env.ETHEREUM_RPC_URL;
+      delete process.env.PRIVATE_KEY;
+    });
+
+    afterEach(function () {
+      restoreFetch();
+      process.env = { ...savedEnv };
+    });
+
+    const pricingStep = httpStep("pricing", {
+      outputs: {
+        recommended_price: {
+          path: "$.choices[0].message.content.recommended_price",
+          transform: "json_parse",
+          validate: { type: "number", min: 0, max: 100000 },
+          description: "Recommended price",
+        },
+        confidence_score: {
+          path: "$.choices[0].message.content.confidence_score",
+          transform: "json_parse",
+          validate: { type: "number", min: 0, max: 100 },
+          description: "Confidence",
+        },
+      },
+    });
+
+    it("should extract validated outputs from nested JSON content", async function () {
+      restoreFetch = stubFetch(() => jsonResponse(openAIResponse));
+      const state = await new WorkflowOrchestrator(writeWorkflow([pricingStep])).execute();
+
+      expect(state.errors).to.have.length(0);
+      expect(state.step_outputs.pricing).to.deep.equal({ recommended_price: 2600, confidence_score: 82 });
+    });
+
+    it("should record a step error when validation fails", async function () {
+      const invalid = { choices: [{ message: { content: JSON.stringify({ ...aiContent, confidence_score: 140 }) } }] };
+      restoreFetch = stubFetch(() => jsonResponse(invalid));
+      const state = await new WorkflowOrchestrator(writeWorkflow([pricingStep])).execute();
+
+      expect(state.step_outputs).to.not.have.property("pricing");
+      expect(state.errors).to.have.length(1);
+      expect(state.errors[0].step_id).to.equal("pricing");
+      expect(state.errors[0].error).to.match(/confidence_score failed validation/);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import {
+  PRICE_MANAGER_ABI,
+  RecommendationSnapshot,
+  evaluateAutoAcceptPolicy,
+} from "../services/recommendationAcceptance";
+import { WorkflowOrchestrator } from "../services/workflowOrchestrator";
+import { InMemoryRunStore } from "../services/runStore";
+import { Notifier } from "../services/notifier";
+import { WorkflowNotification, WorkflowStep } from "../services/types";
+import { httpStep, jsonResponse, stubFetch, writeWorkflow } from "./helpers/workflow";
+
+/**
+ * Unit Tests for the recommendation auto-accept policy and
+ * recommendation-acceptance steps
+ *
+ * Requirements:
+ * - 2.3: Submit Price_Recommendation to on-chain smart contract
+ * - 11.3: Log each step execution with timestamps
+ */
+
+const USDC = 1000000n;
+const PRICE_MANAGER = ethers.getAddress("0xe7f1725e7734ce288f8367e1bb143e90bb3f0512");
+const MANAGER = ethers.getAddress("0x70997970c51812dc3a010c7d01b50e0d17dc79c8");
+const SUBMISSION = "0x" + "ab".repeat(32);
+const POLICY = { min_confidence: 85, max_change_percent: 5 };
+
+const iface = new ethers.Interface(PRICE_MANAGER_ABI);
+
+interface Recommendation {
+  id: number;
+  price: bigint;
+  confidence: number;
+}
+
+/**
+ * A provider without Multicall3 answering PriceManager reads; SUBMISSION's
+ * receipt carries a RecommendationSubmitted log for `submittedId`
+ */
+function priceManagerProvider(rent: bigint, pending: Recommendation[], submittedId?: number) {
+  const calls: string[] = [];
+  const provider = {
+    getCode: async () => "0x",
+    getBlock: async () => ({ number: 50, hash: "0x" + "22".repeat(32) }) as ethers.Block,
+    estimateGas: async () => 80000n,
+    call: async (request: ethers.TransactionRequest) => {
+      const parsed = iface.parseTransaction({ data: request.data! })!;
+      calls.push(parsed.name);
+      if (parsed.name === "getCurrentRentalPrice") {
+        return iface.encodeFunctionResult(parsed.fragment, [rent]);
+      }
+      if (parsed.name === "getPendingRecommendations") {
+        const rows = pending.map((r) => [r.id, r.price, r.confidence, "reasoning", 1700000000n, false, false, MANAGER]);
+        return iface.encodeFunctionResult(parsed.fragment, [rows]);
+      }
+      return "0x";
+    },
+    getTransactionReceipt: async (hash: string) => {
+      if (hash !== SUBMISSION || submittedId === undefined) return null;
+      const { data, topics } = iface.encodeEventLog("RecommendationSubmitted", [submittedId, 2100n * USDC, 90, "reasoning", MANAGER]);
+      return { logs: [{ address: PRICE_MANAGER, data, topics }] } as unknown as ethers.TransactionReceipt;
+    },
+  };
+  return { provider: provider as unknown as ethers.Provider, calls };
+}
+
+describe("Recommendation Auto-Accept", function () {
+  describe("evaluateAutoAcceptPolicy", function () {
+    const snapshot = (pending: Recommendation[]): RecommendationSnapshot => ({
+      blockNumber: 50,
+      currentRent: 2000n * USDC,
+      pending: pending.map((r) => ({ ...r, timestamp: 0 })),
+    });
+
+    it("should accept a confident, small change when nothing else is pending", function () {
+      const recommendation = { id: 7, price: 2080n * USDC, confidence: 90 };
+      const decision = evaluateAutoAcceptPolicy(POLICY, snapshot([recommendation]), { ...recommendation, timestamp: 0 });
+
+      expect(decision).to.include({
+        accept: true,
+        reason: "Recommendation #7 meets the auto-accept policy",
+        recommended_price_usd: 2080,
+        current_rent_usd: 2000,
+        change_percent: 4,
+      });
+      expect(decision.checks.map((check) => check.detail)).to.deep.equal([
+        "confidence 90 >= 85",
+        "price $2080.00 is +4.00% from $2000.00 (limit ±5%)",
+        "no other pending recommendations",
+      ]);
+    });
+
+    it("should list every failed check", function () {
+      const recommendation = { id: 8, price: 1800n * USDC, confidence: 70 };
+      const decision = evaluateAutoAcceptPolicy(
+        POLICY,
+        snapshot([{ id: 6, price: 2000n * USDC, confidence: 95 }, recommendation]),
+        { ...recommendation, timestamp: 0 }
+      );
+
+      expect(decision.accept).to.be.false;
+      expect(decision.other_pending_ids).to.deep.equal([6]);
+      expect(decision.reason).to.equal(
+        "Recommendation #8 left for manual review: confidence 70 < 85; " +
+          "price $1800.00 is -10.00% from $2000.00 (limit ±5%); other pending recommendation(s): #6"
+      );
+    });
+  });
+
+  describe("recommendation-acceptance steps", function () {
+    let savedEnv: NodeJS.ProcessEnv;
+    let notifications: WorkflowNotification[];
+    const notifier: Notifier = {
+      notify: async (notification) => {
+        notifications.push(notification);
+      },
+    };
+
+    beforeEach(function () {
+      savedEnv = { ...process.env };
+      process.env.OPENAI_API_KEY = "test-key";
+      delete process.env.ETHEREUM_RPC_URL;
+      delete process.env.PRIVATE_KEY;
+      notifications = [];
+    });
+
+    afterEach(function () {
+      process.env = savedEnv;
+    });
+
+    function acceptanceStep(config: Record<string, unknown> = {}): WorkflowStep {
+      return {
+        id: "accept-recommendation",
+        name: "Auto-Accept Recommendation",
+        type: "recommendation-acceptance",
+        description: "Accept the recommendation when the policy allows",
+        config: { contract_address: PRICE_MANAGER, policy: POLICY, ...config },
+        outputs: { reason: { path: "$.reason", description: "Why it was accepted or left pending" } },
+        on_error: { action: "halt", log: true },
+      };
+    }
+
+    it("should leave a failing recommendation pending, notify and record the decision", async function () {
+      const { provider, calls } = priceManagerProvider(2000n * USDC, [{ id: 3, price: 2300n * USDC, confidence: 92 }]);
+      const runStore = new InMemoryRunStore();
+
+      const state = await new WorkflowOrchestrator(writeWorkflow([acceptanceStep()]), { provider, notifier, runStore }).execute();
+
+      expect(state.step_outputs["accept-recommendation"]).to.include({ accepted: false, status: "pending" });
+      expect(notifications).to.have.length(1);
+      expect(notifications[0]).to.include({ severity: "warning", title: "Price recommendation awaiting review" });
+      expect(notifications[0].message).to.include("price $2300.00 is +15.00% from $2000.00 (limit ±5%)");
+      expect(calls).to.not.include("acceptRecommendation");
+
+      const [stored] = await runStore.list();
+      const acceptance = stored.step_results["accept-recommendation"].acceptance!;
+      expect(acceptance).to.deep.include({ status: "pending", recommendation_id: 3, confidence: 92, policy: POLICY, block_number: 50 });
+      expect(acceptance.checks!.map((check) => [check.name, check.passed])).to.deep.equal([
+        ["confidence", true],
+        ["price_change", false],
+        ["no_other_pending", true],
+      ]);
+    });
+
+    it("should evaluate the recommendation the submission created and simulate its acceptance in dry-run mode", async function () {
+      const { provider, calls } = priceManagerProvider(2000n * USDC, [{ id: 4, price: 2050n * USDC, confidence: 90 }], 4);
+
+      const state = await new WorkflowOrchestrator(writeWorkflow([acceptanceStep({ transaction_hash: SUBMISSION })]), {
+        provider,
+        notifier,
+        dryRun: { from: MANAGER },
+      }).execute();
+
+      const acceptance = state.step_results["accept-recommendation"].acceptance!;
+      expect(acceptance).to.include({ status: "simulated", recommendation_id: 4 });
+      expect(acceptance.simulation).to.include({ function_name: "acceptRecommendation", would_revert: false, from: MANAGER });
+      expect(calls).to.include("acceptRecommendation");
+      expect(notifications).to.deep.equal([]);
+    });
+
+    it("should do nothing when no recommendation was submitted", async function () {
+      const { provider, calls } = priceManagerProvider(2000n * USDC, [{ id: 2, price: 2000n * USDC, confidence: 99 }]);
+      const restoreFetch = stubFetch((id) => jsonResponse({ value: id }));
+
+      // The submission ran but sent no transaction, so its transaction_hash stays unresolved
+      const state = await new WorkflowOrchestrator(
+        writeWorkflow([
+          httpStep("submit-recommendation", {
+            outputs: { transaction_hash: { path: "$.transaction_hash", description: "Submission transaction" } },
+          }),
+          {
+            ...acceptanceStep({ transaction_hash: "${steps.submit-recommendation.outputs.transaction_hash}" }),
+            depends_on: ["submit-recommendation"],
+          },
+        ]),
+        { provider, notifier }
+      ).execute();
+      restoreFetch();
+
+      expect(state.step_results["accept-recommendation"].acceptance).to.include({
+        status: "none",
+        reason: "No recommendation was submitted in this run",
+      });
+      expect(calls).to.deep.equal([]);
+    });
+  });
+});
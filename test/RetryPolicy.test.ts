@@ -0,0 +1,166 @@
+import { expect } from "chai";
+import {
+  DEFAULT_RETRY_STATUS,
+  HttpStatusError,
+  StepTimeoutError,
+  classifyError,
+  isRetryable,
+  retryDelay,
+  withTimeout,
+} from "../services/retryPolicy";
+import { WorkflowOrchestrator } from "../services/workflowOrchestrator";
+import { RetryConfig } from "../services/types";
+import { httpStep, jsonResponse, stubFetch, writeWorkflow } from "./helpers/workflow";
+
+/**
+ * Unit Tests for failure classification and retry policy
+ *
+ * Requirements:
+ * - 13.2: Retry with exponential backoff
+ * - 13.3: Log transaction failures
+ */
+
+const policy: RetryConfig = {
+  max_attempts: 3,
+  initial_delay: 1,
+  backoff_multiplier: 2,
+  max_delay: 4,
+  retry_on_status: [429, 503],
+};
+
+describe("Retry Policy", function () {
+  describe("classifyError", function () {
+    it("should classify HTTP status and timeout errors", function () {
+      expect(classifyError(new HttpStatusError(503, "Service Unavailable"))).to.deep.equal({ kind: "http_status", status: 503 });
+      expect(classifyError(new StepTimeoutError(100)).kind).to.equal("timeout");
+      expect(classifyError(Object.assign(new Error("aborted"), { name: "AbortError" })).kind).to.equal("timeout");
+      expect(classifyError(Object.assign(new Error("timeout"), { code: "TIMEOUT" })).kind).to.equal("timeout");
+    });
+
+    it("should classify ethers reverts, nonce conflicts and transient RPC errors", function () {
+      const revert = Object.assign(new Error("execution reverted (PriceOutOfBounds)"), { code: "CALL_EXCEPTION" });
+      expect(classifyError(revert).kind).to.equal("revert");
+      expect(classifyError(Object.assign(new Error("nonce expired"), { code: "NONCE_EXPIRED" })).kind).to.equal("nonce");
+      expect(classifyError(new Error("replacement transaction underpriced")).kind).to.equal("nonce");
+      expect(classifyError(Object.assign(new Error("bad gateway"), { code: "SERVER_ERROR" })).kind).to.equal("rpc_transient");
+      expect(classifyError(new Error("429 Too Many Requests")).kind).to.equal("rpc_transient");
+      expect(classifyError(Object.assign(new TypeError("fetch failed"), { cause: { code: "ECONNRESET" } })).kind).to.equal(
+        "rpc_transient"
+      );
+      expect(classifyError(new SyntaxError("Unexpected token < in JSON")).kind).to.equal("unknown");
+    });
+  });
+
+  describe("isRetryable", function () {
+    it("should follow retry_on_status and fall back to the default statuses", function () {
+      expect(isRetryable({ kind: "http_status", status: 503 }, policy)).to.be.true;
+      expect(isRetryable({ kind: "http_status", status: 500 }, policy)).to.be.false;
+      expect(isRetryable({ kind: "http_status", status: 401 }, { ...policy, retry_on_status: undefined })).to.be.false;
+      expect(DEFAULT_RETRY_STATUS).to.include(500);
+      expect(isRetryable({ kind: "http_status", status: 500 }, { ...policy, retry_on_status: undefined })).to.be.true;
+    });
+
+    it("should only retry reverts when retry_on_revert is set", function () {
+      expect(isRetryable({ kind: "revert" }, policy)).to.be.false;
+      expect(isRetryable({ kind: "revert" }, { ...policy, retry_on_revert: true })).to.be.true;
+      expect(isRetryable({ kind: "timeout" }, policy)).to.be.true;
+      expect(isRetryable({ kind: "timeout" }, { ...policy, retry_on_timeout: false })).to.be.false;
+      expect(isRetryable({ kind: "nonce" }, policy)).to.be.true;
+      expect(isRetryable({ kind: "unknown" }, policy)).to.be.false;
+    });
+  });
+
+  describe("retryDelay", function () {
+    it("should back off exponentially with jitter up to max_delay", function () {
+      const config = { ...policy, initial_delay: 1000, max_delay: 3000 };
+      expect(retryDelay(config, 1, () => 0)).to.equal(500);
+      expect(retryDelay(config, 1, () => 1)).to.equal(1000);
+      expect(retryDelay(config, 2, () => 0.5)).to.equal(1500);
+      expect(retryDelay(config, 5, () => 1)).to.equal(3000);
+    });
+  });
+
+  describe("withTimeout", function () {
+    it("should abort the attempt's signal when the timeout fires", async function () {
+      let aborted = false;
+      const attempt = withTimeout(
+        (signal) =>
+          new Promise((_, reject) => {
+            signal!.addEventListener("abort", () => {
+              aborted = true;
+              reject(new Error("aborted"));
+            });
+          }),
+        5
+      );
+
+      await expect(attempt).to.be.rejectedWith(StepTimeoutError, "Timed out after 5ms");
+      expect(aborted).to.be.true;
+    });
+
+    it("should pass through results within the timeout", async function () {
+      expect(await withTimeout(async () => "ok", 1000)).to.equal("ok");
+      expect(await withTimeout(async (signal) => signal)).to.be.undefined;
+    });
+  });
+
+  describe("Orchestrator retries", function () {
+    let restoreFetch: () => void;
+
+    beforeEach(function () {
+      process.env.OPENAI_API_KEY = "test-key";
+      delete process.env.ETHEREUM_RPC_URL;
+      delete process.env.PRIVATE_KEY;
+    });
+
+    afterEach(function () {
+      restoreFetch();
+    });
+
+    it("should not retry statuses outside retry_on_status", async function () {
+      let calls = 0;
+      restoreFetch = stubFetch(() => {
+        calls++;
+        return jsonResponse({ error: "Unauthorized" }, 401);
+      });
+
+      const file = writeWorkflow([httpStep("fetch", { config: { url: "http://workflow.test/fetch", retry: policy } })]);
+      const state = await new WorkflowOrchestrator(file).execute();
+
+      expect(calls).to.equal(1);
+      expect(state.step_results.fetch.error).to.equal("HTTP 401: ");
+      expect(state.step_results.fetch.attempts).to.have.length(1);
+      expect(state.step_results.fetch.attempts![0]).to.include({ failure_kind: "http_status", status: 401, retryable: false });
+    });
+
+    it("should retry retryable failures and record each attempt", async function () {
+      let calls = 0;
+      restoreFetch = stubFetch(() => (++calls < 3 ? jsonResponse({}, 503) : jsonResponse({ value: "ok" })));
+
+      const file = writeWorkflow([httpStep("fetch", { config: { url: "http://workflow.test/fetch", retry: policy } })]);
+      const state = await new WorkflowOrchestrator(file).execute();
+
+      expect(state.step_outputs.fetch.value).to.equal("ok");
+      const attempts = state.step_results.fetch.attempts!;
+      expect(attempts.map((a) => a.status)).to.deep.equal([503, 503, undefined]);
+      expect(attempts[0].retryable).to.be.true;
+      expect(attempts[0].delay).to.be.within(0, policy.max_delay);
+      expect(attempts[2].error).to.be.undefined;
+    });
+
+    it("should time out attempts with config.timeout and report exhaustion", async function () {
+      restoreFetch = stubFetch(
+        (_, init) =>
+          new Promise((_, reject) => init!.signal!.addEventListener("abort", () => reject(init!.signal!.reason)))
+      );
+
+      const file = writeWorkflow([
+        httpStep("fetch", { config: { url: "http://workflow.test/fetch", timeout: 5, retry: { ...policy, max_attempts: 2 } } }),
+      ]);
+      const state = await new WorkflowOrchestrator(file).execute();
+
+      expect(state.step_results.fetch.error).to.equal("Failed after 2 attempts: Timed out after 5ms");
+      expect(state.step_results.fetch.attempts!.map((a) => a.failure_kind)).to.deep.equal(["timeout", "timeout"]);
+    });
+  });
+});
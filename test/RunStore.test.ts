@@ -0,0 +1,187 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers } from "ethers";
+import { FileRunStore, InMemoryRunStore } from "../services/runStore";
+import { WorkflowOrchestrator } from "../services/workflowOrchestrator";
+import { WorkflowState } from "../services/types";
+import { httpStep, jsonResponse, stubFetch, writeWorkflow } from "./helpers/workflow";
+
+/**
+ * Unit Tests for workflow run history and resumable executions
+ *
+ * Requirements: 11.3 - Log each step execution with timestamps and results
+ */
+
+function runState(executionId: string, startTime: number, overrides: Partial<WorkflowState> = {}): WorkflowState {
+  return {
+    workflow_id: "test-workflow",
+    execution_id: executionId,
+    start_time: startTime,
+    status: "completed",
+    step_outputs: {},
+    step_results: {},
+    errors: [],
+    metrics: {},
+    ...overrides,
+  };
+}
+
+describe("Workflow Run Store", function () {
+  describe("FileRunStore", function () {
+    let directory: string;
+    let store: FileRunStore;
+
+    beforeEach(function () {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), "workflow-runs-"));
+      store = new FileRunStore(directory);
+    });
+
+    it("should save and load a run", async function () {
+      const state = runState("exec-1", 1000, { step_outputs: { a: { value: 1n } } });
+      await store.save(state);
+
+      const loaded = await store.get("exec-1");
+      expect(loaded?.execution_id).to.equal("exec-1");
+      expect(loaded?.step_outputs.a.value).to.equal("1");
+      expect(fs.readdirSync(directory)).to.deep.equal(["exec-1.json"]);
+    });
+
+    it("should return null for unknown runs", async function () {
+      expect(await store.get("exec-missing")).to.be.null;
+      expect(await new FileRunStore(path.join(directory, "missing")).list()).to.deep.equal([]);
+    });
+
+    it("should list runs newest first with filters", async function () {
+      await store.save(runState("exec-1", 1000));
+      await store.save(runState("exec-2", 2000, { status: "failed" }));
+      await store.save(runState("exec-3", 3000, { workflow_id: "other", property_id: "prop-1" }));
+
+      expect((await store.list()).map((s) => s.execution_id)).to.deep.equal(["exec-3", "exec-2", "exec-1"]);
+      expect((await store.list({ workflowId: "test-workflow" })).map((s) => s.execution_id))
+        .to.deep.equal(["exec-2", "exec-1"]);
+      expect((await store.list({ propertyId: "prop-1" })).map((s) => s.execution_id)).to.deep.equal(["exec-3"]);
+      expect((await store.list({ status: "failed" })).map((s) => s.execution_id)).to.deep.equal(["exec-2"]);
+      expect((await store.list({ since: 1500, until: 3000 })).map((s) => s.execution_id)).to.deep.equal(["exec-2"]);
+      expect(await store.list({ limit: 1 })).to.have.length(1);
+    });
+
+    it("should keep the last of concurrent saves of one run and leave no temporary files", async function () {
+      const saves = ["running", "running", "failed", "completed"].map((status, i) =>
+        store.save(runState("exec-1", 1000, { status: status as WorkflowState["status"], metrics: { saves: i } }))
+      );
+      await Promise.all(saves);
+
+      const loaded = await store.get("exec-1");
+      expect(loaded?.status).to.equal("completed");
+      expect(loaded?.metrics).to.deep.equal({ saves: 3 });
+      expect(fs.readdirSync(directory)).to.deep.equal(["exec-1.json"]);
+    });
+
+    it("should reject execution ids that could escape the directory", async function () {
+      await expect(store.get("../secrets")).to.be.rejectedWith(/Invalid execution id/);
+    });
+  });
+
+  describe("Orchestrator persistence and resume", function () {
+    const savedEnv = { ...process.env };
+    let restoreFetch: () => void;
+    let calls: string[];
+    let failing: Set<string>;
+
+    beforeEach(function () {
+      process.env.OPENAI_API_KEY = "test-key";
+      delete process.env.ETHEREUM_RPC_URL;
+      delete process.env.PRIVATE_KEY;
+      calls = [];
+      failing = new Set(["second"]);
+      restoreFetch = stubFetch((id) => {
+        calls.push(id);
+        return failing.has(id) ? jsonResponse({}, 503) : jsonResponse({ value: id });
+      });
+    });
+
+    afterEach(function () {
+      restoreFetch();
+      process.env = { ...savedEnv };
+    });
+
+    const steps = [
+      httpStep("first"),
+      httpStep("second", { depends_on: ["first"] }),
+      httpStep("third", { depends_on: ["second"] }),
+    ];
+
+    it("should persist step results, outputs and errors", async function () {
+      const store = new InMemoryRunStore();
+      const state = await new WorkflowOrchestrator(writeWorkflow(steps), { runStore: store }).execute();
+
+      const saved = await store.get(state.execution_id);
+      expect(saved?.step_outputs.first).to.deep.equal({ value: "first" });
+      expect(saved?.step_results.first.status).to.equal("completed");
+      expect(saved?.step_results.first.duration).to.be.a("number");
+      expect(saved?.step_results.second.status).to.equal("failed");
+      expect(saved?.step_results.second.error).to.match(/HTTP 503/);
+      expect(saved?.errors.map((e) => e.step_id)).to.deep.equal(["second", "third"]);
+    });
+
+    it("should resume from the first failed step", async function () {
+      const store = new InMemoryRunStore();
+      const file = writeWorkflow(steps);
+      const failed = await new WorkflowOrchestrator(file, { runStore: store }).execute();
+
+      failing.clear();
+      calls = [];
+      const resumed = await new WorkflowOrchestrator(file, { runStore: store }).resume(failed.execution_id);
+
+      expect(calls).to.deep.equal(["second", "third"]);
+      expect(resumed.resumed_from).to.equal(failed.execution_id);
+      expect(resumed.errors).to.have.length(0);
+      expect(resumed.step_results.first.reused).to.be.true;
+      expect(Object.keys(resumed.step_outputs)).to.deep.equal(["first", "second", "third"]);
+      expect(await store.list()).to.have.length(2);
+    });
+
+    it("should refuse to resume while a step's transaction is pending and re-run it once dropped", async function () {
+      const store = new InMemoryRunStore();
+      const file = writeWorkflow(steps);
+      const failed = await new WorkflowOrchestrator(file, { runStore: store }).execute();
+      const hash = "0x" + "cd".repeat(32);
+      failed.step_results.second = { ...failed.step_results.second, transaction_hash: hash, transaction_hashes: [hash] };
+      await store.save(failed);
+
+      let mempool: ethers.TransactionResponse | null = { hash, blockNumber: null } as ethers.TransactionResponse;
+      const provider = {
+        getTransactionReceipt: async () => null,
+        getTransaction: async () => mempool,
+      } as unknown as ethers.Provider;
+
+      failing.clear();
+      calls = [];
+      await expect(new WorkflowOrchestrator(file, { runStore: store, provider }).resume(failed.execution_id))
+        .to.be.rejectedWith(`Transaction ${hash} for step second is still pending`);
+      expect(calls).to.deep.equal([]);
+
+      mempool = null;
+      const resumed = await new WorkflowOrchestrator(file, { runStore: store, provider }).resume(failed.execution_id);
+      expect(calls).to.deep.equal(["second", "third"]);
+      expect(resumed.errors).to.have.length(0);
+    });
+
+    it("should refuse to resume runs that finished cleanly", async function () {
+      failing.clear();
+      const store = new InMemoryRunStore();
+      const file = writeWorkflow(steps);
+      const state = await new WorkflowOrchestrator(file, { runStore: store }).execute();
+
+      await expect(new WorkflowOrchestrator(file, { runStore: store }).resume(state.execution_id))
+        .to.be.rejectedWith(/nothing to resume/);
+    });
+
+    it("should require a run store to resume", async function () {
+      await expect(new WorkflowOrchestrator(writeWorkflow(steps)).resume("exec-1"))
+        .to.be.rejectedWith(/without a run store/);
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CronParseError, CronSchedule } from "../services/cronSchedule";
+import {
+  FileRunLock,
+  InMemoryRunLock,
+  InMemorySchedulerCheckpointStore,
+  ScheduledRun,
+  SchedulerClock,
+  SchedulerOptions,
+  WorkflowScheduler,
+} from "../services/scheduler";
+import { Trigger } from "../services/types";
+import { httpStep, writeWorkflow } from "./helpers/workflow";
+
+/**
+ * Unit Tests for cron schedules and the workflow scheduler
+ *
+ * Requirements:
+ * - 2.1: Fetch rental market data at scheduled intervals
+ * - 11.2: Execute via manual or scheduled trigger
+ */
+
+const at = (iso: string) => Date.parse(iso);
+
+/**
+ * Deterministic clock: timers fire only when the test advances time
+ */
+class FakeClock implements SchedulerClock {
+  private timers: Array<{ at: number; callback: () => void }> = [];
+
+  constructor(public time: number) {}
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimer(callback: () => void, delayMs: number): unknown {
+    const timer = { at: this.time + delayMs, callback };
+    this.timers.push(timer);
+    return timer;
+  }
+
+  clearTimer(handle: unknown): void {
+    this.timers = this.timers.filter((timer) => timer !== handle);
+  }
+
+  async advance(ms: number): Promise<void> {
+    const target = this.time + ms;
+    while (true) {
+      const due = this.timers.filter((timer) => timer.at <= target).sort((a, b) => a.at - b.at)[0];
+      if (!due) break;
+      this.clearTimer(due);
+      this.time = due.at;
+      due.callback();
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    this.time = target;
+  }
+}
+
+describe("Workflow Scheduler", function () {
+  describe("CronSchedule", function () {
+    it("should compute the next fire time in UTC", function () {
+      const daily = new CronSchedule("0 0 * * *");
+      expect(daily.next(at("2026-03-01T12:34:56Z"))).to.equal(at("2026-03-02T00:00:00Z"));
+      expect(daily.next(at("2026-03-02T00:00:00Z"))).to.equal(at("2026-03-03T00:00:00Z"));
+    });
+
+    it("should support ranges, steps, lists and names", function () {
+      const schedule = new CronSchedule("*/15 9-17 * * MON-FRI");
+      // Saturday 2026-03-07 -> Monday 09:00
+      expect(schedule.next(at("2026-03-06T17:50:00Z"))).to.equal(at("2026-03-09T09:00:00Z"));
+      expect(schedule.next(at("2026-03-09T09:00:00Z"))).to.equal(at("2026-03-09T09:15:00Z"));
+
+      const list = new CronSchedule("30 6,18 1 JAN,JUL *");
+      expect(list.next(at("2026-01-01T07:00:00Z"))).to.equal(at("2026-01-01T18:30:00Z"));
+      expect(list.next(at("2026-01-01T18:30:00Z"))).to.equal(at("2026-07-01T06:30:00Z"));
+    });
+
+    it("should match either day field when both are restricted", function () {
+      // The 15th or any Sunday
+      const schedule = new CronSchedule("0 0 15 * 7");
+      expect(schedule.next(at("2026-03-02T00:00:00Z"))).to.equal(at("2026-03-08T00:00:00Z"));
+      expect(schedule.next(at("2026-03-08T00:00:00Z"))).to.equal(at("2026-03-15T00:00:00Z"));
+    });
+
+    it("should expand macros and list ticks in a window", function () {
+      const hourly = new CronSchedule("@hourly");
+      expect(hourly.between(at("2026-03-01T00:00:00Z"), at("2026-03-01T03:00:00Z"))).to.deep.equal([
+        at("2026-03-01T01:00:00Z"),
+        at("2026-03-01T02:00:00Z"),
+        at("2026-03-01T03:00:00Z"),
+      ]);
+    });
+
+    it("should reject invalid expressions", function () {
+      expect(() => new CronSchedule("0 0 * *")).to.throw(CronParseError, /expected 5 fields/);
+      expect(() => new CronSchedule("60 * * * *")).to.throw(CronParseError, /out of range/);
+      expect(() => new CronSchedule("*/0 * * * *")).to.throw(CronParseError, /invalid minute step/);
+      expect(() => new CronSchedule("0 0 * FOO *")).to.throw(CronParseError, /invalid month value/);
+      expect(() => new CronSchedule("0 0 30 2 *").next(at("2026-01-01T00:00:00Z"))).to.throw(/never fires/);
+    });
+  });
+
+  describe("WorkflowScheduler", function () {
+    let clock: FakeClock;
+    let runs: ScheduledRun[];
+    let checkpoints: InMemorySchedulerCheckpointStore;
+
+    function scheduler(triggers: Trigger[], overrides: Partial<SchedulerOptions> = {}): WorkflowScheduler {
+      const file = writeWorkflow([httpStep("fetch")], { triggers });
+      return new WorkflowScheduler(file, {
+        clock,
+        checkpoints,
+        lock: new InMemoryRunLock(),
+        run: async (run) => {
+          runs.push(run);
+        },
+        ...overrides,
+      });
+    }
+
+    const hourly: Trigger = { type: "cron", schedule: "0 * * * *", description: "Hourly", enabled: true };
+
+    beforeEach(function () {
+      clock = new FakeClock(at("2026-03-01T00:30:00Z"));
+      runs = [];
+      checkpoints = new InMemorySchedulerCheckpointStore();
+    });
+
+    it("should run the workflow on each cron tick", async function () {
+      const instance = scheduler([hourly]);
+      await instance.start();
+      expect(instance.nextTick()).to.equal(at("2026-03-01T01:00:00Z"));
+
+      await clock.advance(2 * 60 * 60 * 1000);
+      await instance.stop();
+
+      expect(runs.map((run) => run.tick)).to.deep.equal([at("2026-03-01T01:00:00Z"), at("2026-03-01T02:00:00Z")]);
+      expect(runs.every((run) => !run.catch_up)).to.be.true;
+      expect((await checkpoints.load("test-workflow"))!.last_ticks["0 * * * *"]).to.equal(at("2026-03-01T02:00:00Z"));
+    });
+
+    it("should ignore disabled and manual triggers", async function () {
+      const instance = scheduler([
+        { ...hourly, enabled: false },
+        { type: "manual", description: "Manual", enabled: true },
+      ]);
+      await instance.start();
+      await clock.advance(3 * 60 * 60 * 1000);
+
+      expect(instance.nextTick()).to.be.undefined;
+      expect(runs).to.have.length(0);
+    });
+
+    it("should skip ticks that fire while a run is in progress", async function () {
+      let finish!: () => void;
+      const instance = scheduler([hourly], {
+        run: (run) => {
+          runs.push(run);
+          // Only the first run blocks until the test finishes it
+          return runs.length === 1 ? new Promise<void>((resolve) => (finish = resolve)) : Promise.resolve();
+        },
+      });
+      await instance.start();
+
+      await clock.advance(2 * 60 * 60 * 1000);
+      expect(runs).to.have.length(1);
+
+      finish();
+      await instance.whenIdle();
+      await clock.advance(60 * 60 * 1000);
+      await instance.stop();
+
+      expect(runs.map((run) => run.tick)).to.deep.equal([at("2026-03-01T01:00:00Z"), at("2026-03-01T03:00:00Z")]);
+    });
+
+    it("should retry a tick while another run holds the lock and checkpoint it once it starts", async function () {
+      const lock = new InMemoryRunLock();
+      await lock.acquire("test-workflow");
+      const instance = scheduler([hourly], { lock, lockRetryMs: 5 * 60 * 1000 });
+      await instance.start();
+
+      await clock.advance(40 * 60 * 1000);
+      expect(runs).to.have.length(0);
+      expect((await checkpoints.load("test-workflow"))!.last_ticks["0 * * * *"]).to.equal(at("2026-03-01T00:30:00Z"));
+
+      await lock.release("test-workflow");
+      await clock.advance(5 * 60 * 1000);
+      expect(runs.map((run) => run.tick)).to.deep.equal([at("2026-03-01T01:00:00Z")]);
+      expect((await checkpoints.load("test-workflow"))!.last_ticks["0 * * * *"]).to.equal(at("2026-03-01T01:00:00Z"));
+
+      await clock.advance(60 * 60 * 1000);
+      await instance.stop();
+      expect(runs.map((run) => run.tick)).to.deep.equal([at("2026-03-01T01:00:00Z"), at("2026-03-01T02:00:00Z")]);
+    });
+
+    it("should give up on a locked tick when the next tick is due and catch it up after a restart", async function () {
+      const lock = new InMemoryRunLock();
+      await lock.acquire("test-workflow");
+      const instance = scheduler([hourly], { lock, lockRetryMs: 20 * 60 * 1000 });
+      await instance.start();
+
+      // Retried at 01:20 and 01:40; a retry at 02:00 would meet the next tick
+      await clock.advance(80 * 60 * 1000);
+      await instance.stop();
+      expect(runs).to.have.length(0);
+      expect((await checkpoints.load("test-workflow"))!.last_ticks["0 * * * *"]).to.equal(at("2026-03-01T00:30:00Z"));
+
+      await lock.release("test-workflow");
+      await scheduler([hourly], { lock }).start();
+      expect(runs).to.deep.equal([{ schedule: "0 * * * *", tick: at("2026-03-01T01:00:00Z"), catch_up: true }]);
+    });
+
+    describe("catch-up after downtime", function () {
+      beforeEach(async function () {
+        // Last processed tick was three hours before now
+        await checkpoints.save({
+          workflow_id: "test-workflow",
+          last_ticks: { "0 * * * *": at("2026-02-28T21:00:00Z") },
+          updated_at: at("2026-02-28T21:00:00Z"),
+        });
+      });
+
+      it("should run once for all missed ticks by default", async function () {
+        const instance = scheduler([hourly]);
+        await instance.start();
+        await instance.stop();
+
+        expect(runs).to.deep.equal([{ schedule: "0 * * * *", tick: at("2026-03-01T00:00:00Z"), catch_up: true }]);
+      });
+
+      it("should skip missed ticks with catch_up: skip", async function () {
+        const instance = scheduler([{ ...hourly, catch_up: "skip" }]);
+        await instance.start();
+        await instance.stop();
+
+        expect(runs).to.have.length(0);
+        expect(instance.nextTick()).to.be.undefined;
+        expect((await checkpoints.load("test-workflow"))!.last_ticks["0 * * * *"]).to.equal(at("2026-03-01T00:00:00Z"));
+      });
+
+      it("should replay missed ticks up to max_catch_up with catch_up: run_all", async function () {
+        const instance = scheduler([{ ...hourly, catch_up: "run_all", max_catch_up: 2 }]);
+        await instance.start();
+        expect(instance.nextTick()).to.equal(at("2026-03-01T01:00:00Z"));
+        await instance.stop();
+
+        expect(runs.map((run) => run.tick)).to.deep.equal([at("2026-02-28T23:00:00Z"), at("2026-03-01T00:00:00Z")]);
+      });
+    });
+
+    it("should reject invalid schedules at startup", function () {
+      expect(() => scheduler([{ ...hourly, schedule: "every hour" }])).to.throw(CronParseError);
+      expect(() => scheduler([{ ...hourly, schedule: undefined }])).to.throw(/has no schedule/);
+    });
+  });
+
+  describe("FileRunLock", function () {
+    let directory: string;
+
+    beforeEach(function () {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), "workflow-locks-"));
+    });
+
+    it("should allow one holder at a time", async function () {
+      const lock = new FileRunLock(directory);
+      expect(await lock.acquire("test-workflow")).to.be.true;
+      expect(await new FileRunLock(directory).acquire("test-workflow")).to.be.false;
+
+      await lock.release("test-workflow");
+      expect(await new FileRunLock(directory).acquire("test-workflow")).to.be.true;
+    });
+
+    it("should take over stale locks", async function () {
+      fs.writeFileSync(
+        path.join(directory, "test-workflow.lock"),
+        JSON.stringify({ pid: process.pid, hostname: os.hostname(), acquired_at: Date.now() - 60_000 })
+      );
+      expect(await new FileRunLock(directory, 30_000).acquire("test-workflow")).to.be.true;
+    });
+  });
+});
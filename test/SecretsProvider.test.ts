@@ -0,0 +1,235 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  ChainedSecretsProvider,
+  CommandSecretsProvider,
+  DotenvSecretsProvider,
+  EnvSecretsProvider,
+  KeystoreSecretsProvider,
+  REDACTED,
+  SecretRedactor,
+  SecretsError,
+  createSecretsProvider,
+} from "../services/secretsProvider";
+import { WorkflowOrchestrator } from "../services/workflowOrchestrator";
+import { validateWorkflow } from "../services/workflowValidator";
+import { httpStep, jsonResponse, stubFetch, writeWorkflow } from "./helpers/workflow";
+
+/**
+ * Unit Tests for secrets providers and redaction of sensitive variables
+ *
+ * Requirements:
+ * - 11.1: Workflow configurable via YAML
+ * - 11.3: Log each step execution with timestamps
+ */
+
+const TOKEN = "tok-4f9a2c71e0";
+const PRIVATE_KEY = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+
+function tempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "secrets-test-"));
+}
+
+/** A command backend that echoes NAME's value from a JSON map, exiting 1 for unknown names */
+function nodeCommand(values: Record<string, string>): CommandSecretsProvider {
+  const script = `const v = ${JSON.stringify(values)}[process.argv[1]]; if (v === undefined) process.exit(1); console.log(v);`;
+  return new CommandSecretsProvider(process.execPath, ["-e", script, "{name}"]);
+}
+
+describe("Secrets Providers", function () {
+  describe("Backends", function () {
+    it("should read values from a dotenv file", function () {
+      const file = path.join(tempDir(), "secrets.env");
+      fs.writeFileSync(file, `API_TOKEN=${TOKEN}\n# comment\nQUOTED="with spaces"\n`);
+      const provider = new DotenvSecretsProvider(file);
+
+      expect(provider.get("API_TOKEN")).to.equal(TOKEN);
+      expect(provider.get("QUOTED")).to.equal("with spaces");
+      expect(provider.get("MISSING")).to.be.undefined;
+      expect(() => new DotenvSecretsProvider(file + ".missing").get("API_TOKEN")).to.throw(SecretsError);
+    });
+
+    it("should round-trip secrets through the encrypted keystore", function () {
+      const file = path.join(tempDir(), "keystore.json");
+      KeystoreSecretsProvider.write(file, "correct horse", { PRIVATE_KEY });
+      KeystoreSecretsProvider.write(file, "correct horse", { API_TOKEN: TOKEN });
+
+      expect(fs.readFileSync(file, "utf8")).not.to.include(TOKEN);
+      const provider = new KeystoreSecretsProvider(file, "correct horse");
+      expect(provider.get("PRIVATE_KEY")).to.equal(PRIVATE_KEY);
+      expect(provider.get("API_TOKEN")).to.equal(TOKEN);
+
+      expect(() => new KeystoreSecretsProvider(file, "wrong").get("API_TOKEN")).to.throw(
+        SecretsError,
+        "wrong passphrase or corrupted file"
+      );
+    });
+
+    it("should run a command per variable and treat a non-zero exit as missing", function () {
+      const provider = nodeCommand({ API_TOKEN: TOKEN });
+      expect(provider.get("API_TOKEN")).to.equal(TOKEN);
+      expect(provider.get("MISSING")).to.be.undefined;
+      expect(() => new CommandSecretsProvider("no-such-secrets-command").get("API_TOKEN")).to.throw(
+        SecretsError,
+        "Secrets command not found"
+      );
+    });
+
+    it("should chain backends with the first defined value winning", function () {
+      const provider = new ChainedSecretsProvider([
+        new EnvSecretsProvider({ API_TOKEN: "from-env" }),
+        new EnvSecretsProvider({ API_TOKEN: "ignored", PRIVATE_KEY }),
+      ]);
+      expect(provider.get("API_TOKEN")).to.equal("from-env");
+      expect(provider.get("PRIVATE_KEY")).to.equal(PRIVATE_KEY);
+      expect(provider.name).to.equal("env,env");
+    });
+  });
+
+  describe("createSecretsProvider", function () {
+    it("should default to the environment", function () {
+      expect(createSecretsProvider({ API_TOKEN: TOKEN }).get("API_TOKEN")).to.equal(TOKEN);
+    });
+
+    it("should build the chain from WORKFLOW_SECRETS", function () {
+      const dir = tempDir();
+      const keystore = path.join(dir, "keystore.json");
+      const dotenvFile = path.join(dir, "secrets.env");
+      KeystoreSecretsProvider.write(keystore, "pass", { PRIVATE_KEY });
+      fs.writeFileSync(dotenvFile, `API_TOKEN=${TOKEN}\n`);
+
+      const provider = createSecretsProvider({
+        WORKFLOW_SECRETS: `keystore:${keystore},dotenv:${dotenvFile},env`,
+        WORKFLOW_KEYSTORE_PASSPHRASE: "pass",
+        RPC: "http://localhost:8545",
+      });
+      expect(provider.name).to.equal(`keystore:${keystore},dotenv:${dotenvFile},env`);
+      expect(provider.get("PRIVATE_KEY")).to.equal(PRIVATE_KEY);
+      expect(provider.get("API_TOKEN")).to.equal(TOKEN);
+      expect(provider.get("RPC")).to.equal("http://localhost:8545");
+    });
+
+    it("should reject unknown backends and a keystore without a passphrase", function () {
+      expect(() => createSecretsProvider({ WORKFLOW_SECRETS: "vault" })).to.throw(SecretsError, 'Unknown secrets backend "vault"');
+      expect(() => createSecretsProvider({ WORKFLOW_SECRETS: "keystore:ks.json" })).to.throw(
+        SecretsError,
+        "WORKFLOW_KEYSTORE_PASSPHRASE is required"
+      );
+    });
+  });
+
+  describe("SecretRedactor", function () {
+    it("should redact values in nested outputs and private keys with or without 0x", function () {
+      const redactor = new SecretRedactor([TOKEN, PRIVATE_KEY, "abc", undefined]);
+      const redacted = redactor.redact({
+        headers: { Authorization: `Bearer ${TOKEN}` },
+        keys: [PRIVATE_KEY.slice(2)],
+        short: "abc",
+        count: 3,
+      });
+
+      expect(redacted).to.deep.equal({
+        headers: { Authorization: `Bearer ${REDACTED}` },
+        keys: [REDACTED],
+        short: "abc",
+        count: 3,
+      });
+      expect(redactor.redactString(`key=${PRIVATE_KEY}`)).to.equal(`key=${REDACTED}`);
+    });
+  });
+
+  describe("Orchestrator", function () {
+    let restoreFetch: () => void;
+    let restoreLog: () => void;
+    let lines: string[];
+    let savedEnv: NodeJS.ProcessEnv;
+
+    const environment = {
+      API_TOKEN: { required: true, description: "API token", sensitive: true },
+      API_HOST: { required: true, description: "API host" },
+    };
+    const secrets = new EnvSecretsProvider({ API_TOKEN: TOKEN, API_HOST: "workflow.test" });
+
+    beforeEach(function () {
+      savedEnv = { ...process.env };
+      process.env.OPENAI_API_KEY = "test-key";
+      delete process.env.ETHEREUM_RPC_URL;
+      delete process.env.PRIVATE_KEY;
+      delete process.env.API_TOKEN;
+
+      lines = [];
+      const originalLog = console.log;
+      console.log = (...args: any[]) => {
+        lines.push(args.join(" "));
+      };
+      restoreLog = () => {
+        console.log = originalLog;
+      };
+    });
+
+    afterEach(function () {
+      restoreLog();
+      restoreFetch();
+      process.env = savedEnv;
+    });
+
+    it("should resolve variables from the provider and redact sensitive values from outputs and logs", async function () {
+      let authorization: string | undefined;
+      restoreFetch = stubFetch((_, init) => {
+        authorization = (init!.headers as Record<string, string>).Authorization;
+        return jsonResponse({ value: authorization });
+      });
+
+      const file = writeWorkflow(
+        [
+          httpStep("fetch", {
+            config: { url: "http://${API_HOST}/fetch", headers: { Authorization: "Bearer ${API_TOKEN}" } },
+          }),
+        ],
+        {
+          environment,
+          logging: {
+            level: "debug",
+            include_timestamps: true,
+            include_step_outputs: true,
+            format: "json",
+            destination: "stdout",
+          },
+        }
+      );
+      const state = await new WorkflowOrchestrator(file, { secrets }).execute();
+
+      expect(authorization).to.equal(`Bearer ${TOKEN}`);
+      expect(state.step_outputs.fetch.value).to.equal(`Bearer ${REDACTED}`);
+      expect(lines.some((line) => line.includes(REDACTED))).to.be.true;
+      expect(lines.join("\n")).not.to.include(TOKEN);
+    });
+
+    it("should redact sensitive values from recorded errors", async function () {
+      restoreFetch = stubFetch(() => {
+        throw new Error(`connection refused for token ${TOKEN}`);
+      });
+
+      const file = writeWorkflow(
+        [httpStep("fetch", { config: { url: "http://workflow.test/fetch?token=${API_TOKEN}" } })],
+        { environment }
+      );
+      const state = await new WorkflowOrchestrator(file, { secrets }).execute();
+
+      expect(state.errors[0].error).to.equal(`connection refused for token ${REDACTED}`);
+      expect(JSON.stringify(state)).not.to.include(TOKEN);
+      expect(lines.join("\n")).not.to.include(TOKEN);
+    });
+
+    it("should check required variables through the provider when validating", function () {
+      const text = fs.readFileSync(writeWorkflow([httpStep("fetch")], { environment }), "utf8");
+      expect(validateWorkflow(text, { secrets }).valid).to.be.true;
+      expect(validateWorkflow(text, { secrets: new EnvSecretsProvider({}) }).issues.map((issue) => issue.message)).to.deep.equal([
+        "Required environment variable API_TOKEN is not set",
+        "Required environment variable API_HOST is not set",
+      ]);
+    });
+  });
+});
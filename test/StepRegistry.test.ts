@@ -0,0 +1,150 @@
+import { expect } from "chai";
+import { StepHandler, StepRegistry, createStepRegistry } from "../services/stepRegistry";
+import { createAiPricingHandler, createMarketDataHandler } from "../services/stepHandlers";
+import { MockMarketDataOracle } from "../services/__mocks__/marketDataOracle";
+import { MockAIPricingAgent } from "../services/__mocks__/aiPricingAgent";
+import { validateWorkflow } from "../services/workflowValidator";
+import { WorkflowOrchestrator } from "../services/workflowOrchestrator";
+import { WorkflowStep } from "../services/types";
+import * as fs from "fs";
+import { httpStep, writeWorkflow } from "./helpers/workflow";
+
+/**
+ * Unit Tests for the step-type registry
+ *
+ * Requirements:
+ * - 2.1: Fetch market data
+ * - 2.2: Call AI agent
+ * - 11.1: Workflow configurable via YAML
+ */
+
+/**
+ * A custom step type that echoes its config, to exercise registration without the built-ins
+ */
+const echoHandler: StepHandler<{ message: string }> = {
+  type: "echo",
+  configSchema: {
+    type: "object",
+    required: ["message"],
+    properties: { message: { type: "string" } },
+    additionalProperties: false,
+  },
+  implicitOutputs: ["echoed"],
+  validateConfig: (config) => (config.message === "" ? [{ path: ["message"], message: "must not be empty" }] : []),
+  async execute(context) {
+    return { success: true, outputs: { echoed: context.config.message }, duration: 0 };
+  },
+};
+
+function step(id: string, type: string, config: Record<string, any>, overrides: Partial<WorkflowStep> = {}): WorkflowStep {
+  return httpStep(id, { type, config, outputs: {}, ...overrides });
+}
+
+describe("Step Registry", function () {
+  describe("StepRegistry", function () {
+    it("should register the built-in step types", function () {
+      expect(createStepRegistry().types()).to.deep.equal([
+        "http-request",
+        "ethereum-transaction",
+        "ethereum-call",
+        "ethereum-multicall",
+        "yield-distribution",
+        "recommendation-acceptance",
+        "market-data",
+        "ai-pricing",
+      ]);
+    });
+
+    it("should reject duplicate registrations and unknown types", function () {
+      const registry = new StepRegistry().register(echoHandler);
+      expect(() => registry.register(echoHandler)).to.throw("Step type already registered: echo");
+      expect(() => registry.resolve("graphql-request")).to.throw("Unknown step type: graphql-request (registered: echo)");
+      expect(registry.get("echo")).to.equal(echoHandler);
+    });
+  });
+
+  describe("Validation", function () {
+    const registry = new StepRegistry().register(echoHandler);
+
+    it("should check step config against the handler's schema and validateConfig", function () {
+      const read = (steps: WorkflowStep[]) => fs.readFileSync(writeWorkflow(steps), "utf8");
+
+      const missing = validateWorkflow(read([step("echo", "echo", {})]), { registry });
+      expect(missing.issues.map((issue) => [issue.path, issue.message])).to.deep.equal([
+        ["steps[0].config", 'missing required property "message"'],
+      ]);
+
+      const empty = validateWorkflow(read([step("echo", "echo", { message: "" })]), { registry });
+      expect(empty.issues.map((issue) => [issue.path, issue.message])).to.deep.equal([
+        ["steps[0].config.message", "must not be empty"],
+      ]);
+    });
+
+    it("should accept references to a handler's implicit outputs", function () {
+      const text = fs.readFileSync(
+        writeWorkflow([
+          step("echo", "echo", { message: "hello" }),
+          step("shout", "echo", { message: "${steps.echo.outputs.echoed}" }, { depends_on: ["echo"] }),
+        ]),
+        "utf8"
+      );
+      expect(validateWorkflow(text, { registry }).valid).to.be.true;
+      expect(validateWorkflow(text).issues[0].message).to.match(/^must be one of: http-request, .* \(got "echo"\)$/);
+    });
+  });
+
+  describe("Orchestrator", function () {
+    let savedEnv: NodeJS.ProcessEnv;
+
+    beforeEach(function () {
+      savedEnv = { ...process.env };
+      process.env.OPENAI_API_KEY = "test-key";
+      delete process.env.ETHEREUM_RPC_URL;
+      delete process.env.PRIVATE_KEY;
+    });
+
+    afterEach(function () {
+      process.env = savedEnv;
+    });
+
+    it("should execute steps of a custom registered type", async function () {
+      const file = writeWorkflow([
+        step("echo", "echo", { message: "hello" }),
+        step("shout", "echo", { message: "${steps.echo.outputs.echoed}!" }, { depends_on: ["echo"] }),
+      ]);
+      const state = await new WorkflowOrchestrator(file, {
+        stepRegistry: new StepRegistry().register(echoHandler),
+      }).execute();
+
+      expect(state.status).to.equal("completed");
+      expect(state.step_outputs.shout.echoed).to.equal("hello!");
+    });
+
+    it("should pass whole structured outputs from market-data to ai-pricing", async function () {
+      const registry = new StepRegistry()
+        .register(createMarketDataHandler(() => new MockMarketDataOracle()))
+        .register(createAiPricingHandler(() => new MockAIPricingAgent()));
+      const file = writeWorkflow([
+        step("market", "market-data", { address: "123 Main St, Austin, TX 78701", property_type: "Single Family" }),
+        step(
+          "pricing",
+          "ai-pricing",
+          {
+            market_data: "${steps.market.outputs.market_data}",
+            property: { address: "123 Main St, Austin, TX 78701", property_type: "Single Family", valuation: 500000 },
+            current_rent: 2400,
+          },
+          { depends_on: ["market"] }
+        ),
+      ]);
+
+      const state = await new WorkflowOrchestrator(file, { stepRegistry: registry }).execute();
+
+      expect(state.step_outputs.market.is_cached).to.be.false;
+      expect(state.step_outputs.market.market_data.comparableProperties).to.have.length(3);
+      expect(state.step_outputs.pricing.recommended_price).to.be.a("number").and.greaterThan(0);
+      expect(state.step_outputs.pricing.is_fallback).to.be.false;
+      expect(state.errors).to.be.empty;
+    });
+  });
+});
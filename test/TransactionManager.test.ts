@@ -0,0 +1,344 @@
+import { expect } from "chai";
+import { ethers as hardhatEthers, network } from "hardhat";
+import { ethers } from "ethers";
+import {
+  NonceTracker,
+  TransactionDroppedError,
+  TransactionManager,
+  TransactionRevertedError,
+  estimateFees,
+  transactionOptionsFromEnv,
+} from "../services/transactionManager";
+import { WorkflowOrchestrator } from "../services/workflowOrchestrator";
+import { WorkflowStep } from "../services/types";
+import { writeWorkflow } from "./helpers/workflow";
+
+/**
+ * Unit Tests for the transaction manager (nonces, fees, replacement, confirmations)
+ *
+ * Runs against the in-process Hardhat network; automining is switched off
+ * where a transaction has to stay pending.
+ *
+ * Requirements:
+ * - 2.3: Submit Price_Recommendation to on-chain smart contract
+ * - 13.3: Log transaction failures
+ */
+
+const GWEI = 1000000000n;
+
+/** Hardhat's first default account */
+const HARDHAT_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+/**
+ * The Hardhat provider, except that the first `lost` broadcasts reach the node
+ * but their reply fails with a transport error; the nonce of every broadcast
+ * is recorded in `nonces`
+ */
+function lostReplyProvider(lost: number, nonces: number[]): ethers.Provider {
+  const target = hardhatEthers.provider;
+  return new Proxy(target, {
+    get(object, property) {
+      if (property === "broadcastTransaction") {
+        return async (raw: string) => {
+          nonces.push(ethers.Transaction.from(raw).nonce);
+          const response = await object.broadcastTransaction(raw);
+          if (lost-- > 0) {
+            throw Object.assign(new Error("socket hang up"), { code: "NETWORK_ERROR" });
+          }
+          return response;
+        };
+      }
+      const value = Reflect.get(object, property);
+      return typeof value === "function" ? value.bind(object) : value;
+    },
+  }) as unknown as ethers.Provider;
+}
+
+/** Creation code for contracts whose runtime is `code` */
+function creationCode(runtime: string): string {
+  const length = ethers.toBeHex((runtime.length - 2) / 2, 1).slice(2);
+  // PUSH1 len PUSH1 12 PUSH1 0 CODECOPY PUSH1 len PUSH1 0 RETURN
+  return `0x60${length}600c60003960${length}6000f3${runtime.slice(2)}`;
+}
+
+describe("Transaction Manager", function () {
+  describe("estimateFees", function () {
+    function feeHistoryProvider(history: any, feeData: Partial<ethers.FeeData> = {}) {
+      return {
+        send: async (method: string) => {
+          expect(method).to.equal("eth_feeHistory");
+          if (history instanceof Error) throw history;
+          return history;
+        },
+        getFeeData: async () => feeData,
+        getBlock: async () => ({ baseFeePerGas: 20n * GWEI }),
+      } as unknown as ethers.Provider;
+    }
+
+    it("should take the median reward and leave room for the base fee to double", async function () {
+      const provider = feeHistoryProvider({
+        baseFeePerGas: ["0x" + (8n * GWEI).toString(16), "0x" + (10n * GWEI).toString(16)],
+        reward: [["0x" + (3n * GWEI).toString(16)], ["0x0"], ["0x" + GWEI.toString(16)], ["0x" + (2n * GWEI).toString(16)]],
+      });
+
+      const fees = await estimateFees(provider);
+      expect(fees.baseFeePerGas).to.equal(10n * GWEI);
+      expect(fees.maxPriorityFeePerGas).to.equal(2n * GWEI);
+      expect(fees.maxFeePerGas).to.equal(22n * GWEI);
+    });
+
+    it("should apply caps and fall back to getFeeData without fee history", async function () {
+      const provider = feeHistoryProvider(new Error("method not found"), { maxPriorityFeePerGas: 5n * GWEI });
+
+      const fees = await estimateFees(provider, {}, { maxFeePerGas: 30n * GWEI, maxPriorityFeePerGas: 3n * GWEI });
+      expect(fees.baseFeePerGas).to.equal(20n * GWEI);
+      expect(fees.maxPriorityFeePerGas).to.equal(3n * GWEI);
+      expect(fees.maxFeePerGas).to.equal(30n * GWEI);
+    });
+  });
+
+  describe("NonceTracker", function () {
+    it("should hand out distinct nonces to concurrent sends and follow the node after a reset", async function () {
+      let pending = 5;
+      const tracker = new NonceTracker({ getTransactionCount: async () => pending } as unknown as ethers.Provider);
+      const nonces = await Promise.all([tracker.allocate("0xA"), tracker.allocate("0xa"), tracker.allocate("0xA")]);
+      expect(nonces).to.deep.equal([5, 6, 7]);
+
+      // Transactions sent outside the tracker move the node ahead
+      pending = 10;
+      expect(await tracker.allocate("0xA")).to.equal(10);
+
+      pending = 4;
+      tracker.reset("0xA");
+      expect(await tracker.allocate("0xA")).to.equal(4);
+    });
+  });
+
+  describe("On Hardhat network", function () {
+    let signer: ethers.Signer;
+    let recipient: string;
+    let logs: string[];
+
+    before(async function () {
+      [signer] = (await hardhatEthers.getSigners()) as unknown as ethers.Signer[];
+      recipient = ethers.Wallet.createRandom().address;
+    });
+
+    beforeEach(function () {
+      logs = [];
+    });
+
+    afterEach(async function () {
+      await network.provider.send("evm_setAutomine", [true]);
+    });
+
+    function manager(sleep: () => Promise<void>, now?: () => number): TransactionManager {
+      return new TransactionManager(signer, {
+        policy: { poll_interval: 1, replace_after: 1000, timeout: 60000 },
+        log: (level, message) => logs.push(`${level}: ${message}`),
+        sleep,
+        now,
+      });
+    }
+
+    const mine = () => network.provider.send("evm_mine", []);
+
+    it("should wait for the configured number of confirmations", async function () {
+      let polls = 0;
+      const txManager = manager(async () => {
+        polls++;
+        await mine();
+      });
+
+      const result = await txManager.sendAndWait({ to: recipient, value: 1n }, { policy: { confirmations: 3 } });
+
+      expect(result.confirmations).to.equal(3);
+      expect(result.receipt.status).to.equal(1);
+      expect(result.replacements).to.equal(0);
+      expect(polls).to.equal(2);
+    });
+
+    it("should replace a stuck transaction with bumped fees", async function () {
+      await network.provider.send("evm_setAutomine", [false]);
+      let clock = 0;
+      const txManager = manager(
+        async () => {
+          clock += 600;
+          // Mine once the replacement is in the mempool
+          if (clock > 1200) await mine();
+        },
+        () => clock
+      );
+
+      const pending = await txManager.send({ to: recipient, value: 1n });
+      const replaced: string[] = [];
+      const result = await txManager.wait(pending, { onReplace: (hash) => void replaced.push(hash) });
+
+      expect(result.replacements).to.equal(1);
+      expect(result.hashes).to.have.length(2);
+      expect(result.hash).to.equal(result.hashes[1]);
+      expect(replaced).to.deep.equal([result.hashes[1]]);
+      expect(pending.fees.maxPriorityFeePerGas).to.be.greaterThan(0n);
+      expect(logs.some((line) => line.startsWith("warn: Replaced stuck transaction"))).to.be.true;
+
+      const replacement = await signer.provider!.getTransaction(result.hash);
+      expect(replacement!.nonce).to.equal(pending.nonce);
+    });
+
+    it("should report a transaction dropped from the mempool", async function () {
+      await network.provider.send("evm_setAutomine", [false]);
+      let clock = 0;
+      const txManager = manager(async () => void (clock += 2000), () => clock);
+
+      const pending = await txManager.send({ to: recipient, value: 1n }, { policy: { max_replacements: 0 } });
+      await network.provider.send("hardhat_dropTransaction", [pending.hashes[0]]);
+
+      await expect(txManager.wait(pending)).to.be.rejectedWith(TransactionDroppedError, "no longer in the mempool");
+    });
+
+    it("should report a nonce taken by another transaction", async function () {
+      await network.provider.send("evm_setAutomine", [false]);
+      const txManager = manager(async () => undefined);
+
+      const pending = await txManager.send({ to: recipient, value: 1n });
+      await network.provider.send("hardhat_dropTransaction", [pending.hashes[0]]);
+      await signer.sendTransaction({ to: recipient, value: 2n, nonce: pending.nonce });
+      await mine();
+
+      await expect(txManager.wait(pending)).to.be.rejectedWith(TransactionDroppedError, "nonce was used by another transaction");
+    });
+
+    it("should wait out a reorg that removes the transaction", async function () {
+      await network.provider.send("evm_setAutomine", [false]);
+      let polls = 0;
+      const txManager = manager(async () => {
+        polls++;
+        if (polls === 1) {
+          // Drop the block containing the transaction; it returns to the mempool
+          await network.provider.send("evm_revert", [snapshot]);
+        } else {
+          await mine();
+        }
+      });
+
+      const pending = await txManager.send({ to: recipient, value: 1n });
+      const snapshot = await network.provider.send("evm_snapshot", []);
+      await mine();
+
+      const result = await txManager.wait({ ...pending, policy: { ...pending.policy, confirmations: 2 } });
+
+      expect(result.receipt.status).to.equal(1);
+      expect(logs.some((line) => line.includes("was removed from block"))).to.be.true;
+    });
+
+    it("should rebroadcast the same signed transaction when the reply to a broadcast is lost", async function () {
+      const broadcasts: number[] = [];
+      const wallet = new ethers.Wallet(HARDHAT_KEY, lostReplyProvider(1, broadcasts));
+      const txManager = new TransactionManager(wallet, { policy: { poll_interval: 1 }, log: () => undefined, sleep: mine });
+      const before = await wallet.getNonce("latest");
+
+      const pending = await txManager.prepare({ to: recipient, value: 1n });
+      await expect(txManager.broadcast(pending)).to.be.rejectedWith("socket hang up");
+      await txManager.broadcast(pending);
+      const result = await txManager.wait(pending);
+
+      expect(broadcasts).to.deep.equal([before, before]);
+      expect(result.hashes).to.deep.equal([pending.hashes[0]]);
+      expect(result.receipt.status).to.equal(1);
+      expect(await wallet.getNonce("latest")).to.equal(before + 1);
+    });
+
+    it("should fail on a reverted transaction", async function () {
+      const txManager = manager(mine);
+      const deployment = await txManager.sendAndWait({ data: creationCode("0x60006000fd") });
+
+      // Without automining the node accepts the transaction and mines the revert
+      await network.provider.send("evm_setAutomine", [false]);
+      const pending = await txManager.send({ to: deployment.receipt.contractAddress!, data: "0x12345678", gasLimit: 50000n });
+
+      await expect(txManager.wait(pending)).to.be.rejectedWith(TransactionRevertedError, "reverted in block");
+    });
+  });
+
+  describe("Orchestrator", function () {
+    let savedEnv: NodeJS.ProcessEnv;
+
+    beforeEach(function () {
+      savedEnv = { ...process.env };
+      process.env.OPENAI_API_KEY = "test-key";
+      process.env.PRIVATE_KEY = HARDHAT_KEY;
+    });
+
+    afterEach(function () {
+      process.env = savedEnv;
+    });
+
+    /** A contract that accepts any call */
+    async function acceptAllContract(): Promise<string> {
+      const [signer] = (await hardhatEthers.getSigners()) as unknown as ethers.Signer[];
+      const txManager = new TransactionManager(signer, { log: () => undefined });
+      return (await txManager.sendAndWait({ data: creationCode("0x00") })).receipt.contractAddress!;
+    }
+
+    function submitStep(target: string, overrides: Partial<WorkflowStep["config"]> = {}): WorkflowStep {
+      return {
+        id: "submit",
+        name: "submit",
+        type: "ethereum-transaction",
+        description: "Submit recommendation",
+        config: {
+          contract_address: target,
+          function_name: "submitRecommendation",
+          abi: JSON.stringify(["function submitRecommendation(uint256 price, uint256 confidence, string reasoning)"].map(
+            (fragment) => JSON.parse(ethers.Fragment.from(fragment).format("json"))
+          )),
+          function_args: [2500, 85, "Market rate"],
+          max_fee_per_gas: 50000000000,
+          transaction: { confirmations: 1, poll_interval: 10 },
+          ...overrides,
+        },
+        outputs: {},
+        on_error: { action: "halt", log: true },
+      };
+    }
+
+    it("should send ethereum-transaction steps through the transaction manager", async function () {
+      const step = submitStep(await acceptAllContract());
+
+      const state = await new WorkflowOrchestrator(writeWorkflow([step]), {
+        provider: hardhatEthers.provider as unknown as ethers.Provider,
+      }).execute();
+
+      expect(state.status).to.equal("completed");
+      expect(state.step_outputs.submit.transaction_hash).to.match(/^0x[0-9a-f]{64}$/);
+      expect(state.step_results.submit.transaction_hashes).to.deep.equal([state.step_outputs.submit.transaction_hash]);
+    });
+
+    it("should not send a second transaction when a retried broadcast had already reached the node", async function () {
+      const step = submitStep(await acceptAllContract(), {
+        retry: { max_attempts: 2, initial_delay: 1, backoff_multiplier: 1, max_delay: 1 },
+      });
+      const wallet = new ethers.Wallet(HARDHAT_KEY, hardhatEthers.provider);
+      const before = await wallet.getNonce("latest");
+      const broadcasts: number[] = [];
+
+      const state = await new WorkflowOrchestrator(writeWorkflow([step]), {
+        provider: lostReplyProvider(1, broadcasts),
+      }).execute();
+
+      expect(state.status).to.equal("completed");
+      expect(broadcasts).to.deep.equal([before, before]);
+      expect(state.step_results.submit.transaction_hashes).to.deep.equal([state.step_outputs.submit.transaction_hash]);
+      expect(await wallet.getNonce("latest")).to.equal(before + 1);
+    });
+  });
+
+  describe("transactionOptionsFromEnv", function () {
+    it("should read confirmations and gwei fee caps", function () {
+      const options = transactionOptionsFromEnv({ TX_CONFIRMATIONS: "3", TX_MAX_FEE_GWEI: "40" });
+      expect(options.policy.confirmations).to.equal(3);
+      expect(options.policy.timeout).to.be.undefined;
+      expect(options.caps.maxFeePerGas).to.equal(40n * GWEI);
+    });
+  });
+});
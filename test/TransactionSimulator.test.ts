@@ -0,0 +1,242 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import {
+  SimulationProvider,
+  decodeRevert,
+  extractRevertData,
+  simulateTransaction,
+} from "../services/transactionSimulator";
+import { WorkflowOrchestrator, dryRunFromEnv } from "../services/workflowOrchestrator";
+import { CircuitBreaker, InMemoryCircuitStateStore } from "../services/circuitBreaker";
+import { InMemoryRunStore } from "../services/runStore";
+import { WorkflowStep } from "../services/types";
+import { httpStep, jsonResponse, stubFetch, writeWorkflow } from "./helpers/workflow";
+
+/**
+ * Unit Tests for dry-run simulation of ethereum-transaction steps
+ *
+ * Requirements:
+ * - 2.3: Submit Price_Recommendation to on-chain smart contract
+ * - 13.3: Log transaction failures
+ */
+
+const PRICE_MANAGER = "0x1234567890123456789012345678901234567890";
+const MANAGER = "0x00000000000000000000000000000000000000aa";
+
+const ABI = [
+  "function submitRecommendation(uint256 price, uint256 confidence, string reasoning)",
+  "function getRecommendationCount() view returns (uint256)",
+  "error PriceOutOfBounds(uint256 price, uint256 lowerBound, uint256 upperBound)",
+];
+const iface = new ethers.Interface(ABI);
+
+/**
+ * Provider stub whose eth_call either returns data or throws like ethers does for a revert
+ */
+class StubProvider {
+  calls: ethers.TransactionRequest[] = [];
+  estimates: ethers.TransactionRequest[] = [];
+
+  constructor(private result: { returns?: string; revert?: string; estimateError?: Error } = {}) {}
+
+  async call(tx: ethers.TransactionRequest): Promise<string> {
+    this.calls.push(tx);
+    if (this.result.revert !== undefined) {
+      throw Object.assign(new Error("execution reverted"), { code: "CALL_EXCEPTION", data: this.result.revert });
+    }
+    return this.result.returns ?? "0x";
+  }
+
+  async estimateGas(tx: ethers.TransactionRequest): Promise<bigint> {
+    this.estimates.push(tx);
+    if (this.result.estimateError) throw this.result.estimateError;
+    return 123456n;
+  }
+}
+
+function provider(stub: StubProvider): SimulationProvider & ethers.Provider {
+  return stub as unknown as SimulationProvider & ethers.Provider;
+}
+
+const outOfBounds = iface.encodeErrorResult("PriceOutOfBounds", [4000000000n, 1000000000n, 3000000000n]);
+
+describe("Transaction Simulator", function () {
+  describe("decodeRevert", function () {
+    it("should decode custom errors from the ABI with named arguments", function () {
+      const revert = decodeRevert(ABI, outOfBounds);
+      expect(revert.name).to.equal("PriceOutOfBounds");
+      expect(revert.args).to.deep.equal({ price: "4000000000", lowerBound: "1000000000", upperBound: "3000000000" });
+      expect(revert.reason).to.equal("PriceOutOfBounds(price=4000000000, lowerBound=1000000000, upperBound=3000000000)");
+    });
+
+    it("should decode Error(string), Panic and access control errors", function () {
+      const builtin = new ethers.Interface(["error Error(string message)", "error Panic(uint256 code)"]);
+      expect(decodeRevert(ABI, builtin.encodeErrorResult("Error", ["Not allowed"])).reason).to.equal("Not allowed");
+      expect(decodeRevert(ABI, builtin.encodeErrorResult("Panic", [0x11])).name).to.equal("Panic");
+
+      const accessControl = new ethers.Interface([
+        "error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)",
+      ]).encodeErrorResult("AccessControlUnauthorizedAccount", [MANAGER, ethers.id("PROPERTY_MANAGER_ROLE")]);
+      const revert = decodeRevert(ABI, accessControl);
+      expect(revert.name).to.equal("AccessControlUnauthorizedAccount");
+      expect(revert.args.account).to.equal(ethers.getAddress(MANAGER));
+    });
+
+    it("should report unknown selectors", function () {
+      expect(decodeRevert(ABI, "0xdeadbeef").reason).to.equal("Unknown revert (selector 0xdeadbeef)");
+    });
+  });
+
+  describe("extractRevertData", function () {
+    it("should find revert data on ethers and JSON-RPC errors", function () {
+      expect(extractRevertData({ data: outOfBounds })).to.equal(outOfBounds);
+      expect(extractRevertData({ info: { error: { data: outOfBounds } } })).to.equal(outOfBounds);
+      expect(extractRevertData({ error: { data: { data: outOfBounds } } })).to.equal(outOfBounds);
+      expect(extractRevertData(new Error("timeout"))).to.be.undefined;
+    });
+  });
+
+  describe("simulateTransaction", function () {
+    const request = {
+      to: PRICE_MANAGER,
+      abi: ABI,
+      functionName: "submitRecommendation",
+      args: [2500000000n, 85, "Market rate"],
+      from: MANAGER,
+      blockTag: 7000000,
+    };
+
+    it("should call and estimate gas against the target block", async function () {
+      const stub = new StubProvider();
+      const report = await simulateTransaction(provider(stub), request);
+
+      expect(report.would_revert).to.be.false;
+      expect(report.estimated_gas).to.equal("123456");
+      expect(report.calldata).to.equal(iface.encodeFunctionData("submitRecommendation", request.args));
+      expect(stub.calls[0]).to.include({ to: PRICE_MANAGER, from: MANAGER, blockTag: 7000000 });
+      expect(stub.estimates[0].blockTag).to.equal(7000000);
+    });
+
+    it("should report a decoded revert without estimating gas", async function () {
+      const stub = new StubProvider({ revert: outOfBounds });
+      const report = await simulateTransaction(provider(stub), request);
+
+      expect(report.would_revert).to.be.true;
+      expect(report.revert_reason).to.match(/^PriceOutOfBounds\(price=4000000000/);
+      expect(report.revert_error!.name).to.equal("PriceOutOfBounds");
+      expect(stub.estimates).to.have.length(0);
+    });
+
+    it("should decode return values with bigints as strings", async function () {
+      const returns = iface.encodeFunctionResult("getRecommendationCount", [42n]);
+      const report = await simulateTransaction(provider(new StubProvider({ returns })), {
+        ...request,
+        functionName: "getRecommendationCount",
+        args: [],
+      });
+      expect(report.return_value).to.equal("42");
+    });
+
+    it("should note gas estimation failures and rethrow non-revert errors", async function () {
+      const estimateError = new StubProvider({ estimateError: new Error("insufficient funds") });
+      expect((await simulateTransaction(provider(estimateError), request)).error).to.equal(
+        "Gas estimation failed: insufficient funds"
+      );
+
+      const broken = new StubProvider();
+      broken.call = async () => {
+        throw new Error("connection refused");
+      };
+      await expect(simulateTransaction(provider(broken), request)).to.be.rejectedWith("connection refused");
+    });
+  });
+
+  describe("Orchestrator dry run", function () {
+    let restoreFetch: () => void;
+    let savedEnv: NodeJS.ProcessEnv;
+
+    const submitStep: WorkflowStep = {
+      id: "submit",
+      name: "submit",
+      type: "ethereum-transaction",
+      description: "Submit recommendation",
+      depends_on: ["fetch"],
+      config: {
+        contract_address: PRICE_MANAGER,
+        function_name: "submitRecommendation",
+        abi: JSON.stringify(iface.fragments.map((fragment) => JSON.parse(fragment.format("json")))),
+        function_args: [4000, 85, "Above market"],
+      },
+      outputs: { transaction_hash: { path: "$.transactionHash", description: "Hash" } },
+      on_error: { action: "continue", log: true },
+    };
+
+    const notifyStep = httpStep("notify", {
+      depends_on: ["submit"],
+      condition: "steps.submit.outputs.would_revert == true",
+    });
+
+    beforeEach(function () {
+      savedEnv = { ...process.env };
+      process.env.OPENAI_API_KEY = "test-key";
+      delete process.env.ETHEREUM_RPC_URL;
+      delete process.env.PRIVATE_KEY;
+      restoreFetch = stubFetch((id) => jsonResponse({ value: id }));
+    });
+
+    afterEach(function () {
+      restoreFetch();
+      process.env = savedEnv;
+    });
+
+    it("should report the revert in the step result and let downstream conditions use it", async function () {
+      const stub = new StubProvider({ revert: outOfBounds });
+      const breaker = new CircuitBreaker(new InMemoryCircuitStateStore());
+      const orchestrator = new WorkflowOrchestrator(writeWorkflow([httpStep("fetch"), submitStep, notifyStep]), {
+        provider: provider(stub),
+        dryRun: { from: MANAGER, blockTag: "latest" },
+        circuitBreaker: breaker,
+      });
+
+      const state = await orchestrator.execute();
+
+      expect(state.dry_run).to.be.true;
+      expect(state.step_results.submit.status).to.equal("completed");
+      expect(state.step_results.submit.dry_run!.revert_error!.args.price).to.equal("4000000000");
+      expect(state.step_outputs.submit).to.include({ dry_run: true, would_revert: true, estimated_gas: null });
+      expect(state.step_outputs.submit.revert_reason).to.match(/^PriceOutOfBounds/);
+      expect(state.step_results.notify.status).to.equal("completed");
+
+      // USD price converted to USDC units before encoding
+      const [price] = iface.decodeFunctionData("submitRecommendation", stub.calls[0].data!);
+      expect(price).to.equal(4000000000n);
+      expect((await breaker.getState("test-workflow")).consecutive_failures).to.equal(0);
+    });
+
+    it("should not resume a dry run as a live run", async function () {
+      const runStore = new InMemoryRunStore();
+      restoreFetch();
+      restoreFetch = stubFetch(() => jsonResponse({ error: "Unavailable" }, 503));
+      const file = writeWorkflow([httpStep("fetch"), submitStep]);
+
+      const dryRun = await new WorkflowOrchestrator(file, {
+        runStore,
+        provider: provider(new StubProvider()),
+        dryRun: true,
+      }).execute();
+
+      await expect(new WorkflowOrchestrator(file, { runStore }).resume(dryRun.execution_id)).to.be.rejectedWith(
+        /was a dry run; resume it in the same mode/
+      );
+    });
+
+    it("should read dry-run settings from the environment", function () {
+      expect(dryRunFromEnv({})).to.be.undefined;
+      expect(dryRunFromEnv({ WORKFLOW_DRY_RUN: "true", WORKFLOW_DRY_RUN_BLOCK: "7000000" })).to.deep.equal({
+        blockTag: 7000000,
+        from: undefined,
+      });
+      expect(dryRunFromEnv({ WORKFLOW_DRY_RUN: "1", WORKFLOW_DRY_RUN_FROM: MANAGER })!.from).to.equal(MANAGER);
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import { expect } from "chai";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { EXIT_FAILED, EXIT_OK, EXIT_USAGE, runCli } from "../services/workflowCli";
+import { executeForProperties } from "../services/multiPropertyRunner";
+import { FileRunStore } from "../services/runStore";
+import { WorkflowState } from "../services/types";
+import { httpStep, jsonResponse, stubFetch, writeWorkflow } from "./helpers/workflow";
+
+/**
+ * Unit Tests for the workflow CLI (run, validate, history, inspect, replay)
+ *
+ * Requirements:
+ * - 11.2: Execute via manual or scheduled trigger
+ * - 11.3: Log each step execution with timestamps
+ */
+
+describe("Workflow CLI", function () {
+  let savedEnv: NodeJS.ProcessEnv;
+  let restoreFetch: () => void;
+  let requested: string[];
+  let runDir: string;
+
+  beforeEach(function () {
+    savedEnv = { ...process.env };
+    process.env.OPENAI_API_KEY = "test-key";
+    delete process.env.ETHEREUM_RPC_URL;
+    delete process.env.PRIVATE_KEY;
+    delete process.env.WORKFLOW_DRY_RUN;
+    runDir = fs.mkdtempSync(path.join(os.tmpdir(), "workflow-cli-test-"));
+    process.env.WORKFLOW_RUN_DIR = runDir;
+
+    requested = [];
+    restoreFetch = stubFetch((id) => {
+      requested.push(id);
+      return id === "broken" ? jsonResponse({ error: "down" }, 500) : jsonResponse({ value: `${id}-value` });
+    });
+  });
+
+  afterEach(function () {
+    restoreFetch();
+    process.env = savedEnv;
+  });
+
+  /** Run the CLI, capturing stdout and stderr */
+  async function cli(...argv: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    const code = await runCli(argv, { out: (text) => stdout.push(text), err: (text) => stderr.push(text) });
+    return { code, stdout: stdout.join("\n"), stderr: stderr.join("\n") };
+  }
+
+  async function cliJson(...argv: string[]): Promise<{ code: number; result: any }> {
+    const { code, stdout } = await cli(...argv, "--json");
+    return { code, result: JSON.parse(stdout) };
+  }
+
+  /** fetch -> price, where price's URL carries fetch's output */
+  function pipeline(): string {
+    return writeWorkflow([
+      httpStep("fetch"),
+      httpStep("price", {
+        depends_on: ["fetch"],
+        config: { method: "GET", url: "http://workflow.test/${steps.fetch.outputs.value}" },
+      }),
+    ]);
+  }
+
+  describe("run", function () {
+    it("should run the workflow, print the state as JSON and record it", async function () {
+      const { code, result } = await cliJson("run", pipeline());
+
+      expect(code).to.equal(EXIT_OK);
+      expect(result.status).to.equal("completed");
+      expect(result.step_outputs.price.value).to.equal("fetch-value-value");
+      expect(await new FileRunStore(runDir).get(result.execution_id)).to.not.be.null;
+    });
+
+    it("should exit non-zero when a step fails", async function () {
+      const file = writeWorkflow([httpStep("broken", { on_error: { action: "halt", log: true } })]);
+
+      const { code, stdout } = await cli("run", file);
+
+      expect(code).to.equal(EXIT_FAILED);
+      expect(stdout).to.match(/^❌ exec-\S+ test-workflow failed/);
+      expect(stdout).to.include("broken: failed");
+    });
+
+    it("should run one step with upstream outputs from a file", async function () {
+      const input = path.join(runDir, "outputs.json");
+      fs.writeFileSync(input, JSON.stringify({ fetch: { value: "injected" } }));
+
+      const { code, result } = await cliJson("run", pipeline(), "--step", "price", "--input", input);
+
+      expect(code).to.equal(EXIT_OK);
+      expect(requested).to.deep.equal(["injected"]);
+      expect(result.single_step).to.equal("price");
+      expect(Object.keys(result.step_results)).to.deep.equal(["price"]);
+      expect(result.step_outputs).to.deep.equal({ fetch: { value: "injected" }, price: { value: "injected-value" } });
+    });
+
+    it("should refuse to run a step without its upstream outputs", async function () {
+      const { code, result } = await cliJson("run", pipeline(), "--step", "price");
+
+      expect(code).to.equal(EXIT_FAILED);
+      expect(result).to.deep.equal({ error: "Step price needs the outputs of fetch" });
+      expect(requested).to.deep.equal([]);
+    });
+  });
+
+  describe("history and inspect", function () {
+    it("should list recorded runs newest first and show one", async function () {
+      const file = pipeline();
+      const first = (await cliJson("run", file)).result as WorkflowState;
+      const second = (await cliJson("run", file, "--step", "price", "--from-run", first.execution_id)).result as WorkflowState;
+
+      const history = await cliJson("history");
+      expect(history.code).to.equal(EXIT_OK);
+      expect(history.result.map((run: any) => [run.execution_id, run.single_step])).to.deep.equal([
+        [second.execution_id, "price"],
+        [first.execution_id, undefined],
+      ]);
+
+      const { code, stdout } = await cli("inspect", first.execution_id);
+      expect(code).to.equal(EXIT_OK);
+      expect(stdout.split("\n").slice(1).map((line) => line.replace(/ \d+ms$/, ""))).to.deep.equal([
+        "  fetch: completed",
+        "  price: completed",
+      ]);
+      expect((await cliJson("inspect", "exec-missing")).result).to.deep.equal({ error: "Run not found: exec-missing" });
+    });
+  });
+
+  describe("replay", function () {
+    it("should re-run with the recorded property variables", async function () {
+      const file = writeWorkflow([httpStep("fetch", { config: { method: "GET", url: "http://workflow.test/${PROPERTY_ID}" } })]);
+      const { states } = await executeForProperties(
+        file,
+        [{ id: "prop-7", name: "Property 7", address: "7 Main St", contracts: {} }],
+        { runStore: new FileRunStore(runDir) }
+      );
+      requested = [];
+
+      const { code, result } = await cliJson("replay", states[0].execution_id, file);
+
+      expect(code).to.equal(EXIT_OK);
+      expect(requested).to.deep.equal(["prop-7"]);
+      expect(result).to.include({ replayed_from: states[0].execution_id, property_id: "prop-7" });
+      expect(result.variables).to.include({ PROPERTY_ID: "prop-7" });
+    });
+
+    it("should replay one step with the outputs its dependencies recorded", async function () {
+      const file = pipeline();
+      const original = (await cliJson("run", file)).result as WorkflowState;
+      requested = [];
+
+      const { code, result } = await cliJson("replay", original.execution_id, file, "--step", "price");
+
+      expect(code).to.equal(EXIT_OK);
+      expect(requested).to.deep.equal(["fetch-value"]);
+      expect(result).to.include({ replayed_from: original.execution_id, single_step: "price" });
+    });
+  });
+
+  describe("validate and usage", function () {
+    it("should exit non-zero for an invalid workflow", async function () {
+      const file = writeWorkflow([httpStep("price", { depends_on: ["missing"] })]);
+
+      const { code, result } = await cliJson("validate", file, "--no-env");
+
+      expect(code).to.equal(EXIT_FAILED);
+      expect(result[0]).to.include({ file, valid: false });
+    });
+
+    it("should exit with the usage code for bad arguments", async function () {
+      expect((await cli()).code).to.equal(EXIT_USAGE);
+      expect((await cli("deploy")).stderr).to.match(/^Unknown command deploy\n\nUsage:/);
+      expect((await cli("run", "--step")).code).to.equal(EXIT_USAGE);
+      expect((await cli("history", "--limit", "ten")).code).to.equal(EXIT_USAGE);
+      expect((await cli("inspect")).code).to.equal(EXIT_USAGE);
+    });
+  });
+
+  describe("scripts/workflow.ts", function () {
+    it("should print nothing but the JSON result on stdout", async function () {
+      this.timeout(60000);
+      await new FileRunStore(runDir).save({
+        workflow_id: "test-workflow",
+        execution_id: "exec-1",
+        start_time: 1000,
+        status: "completed",
+        step_outputs: {},
+        step_results: {},
+        errors: [],
+        metrics: {},
+      });
+
+      const stdout = execFileSync(
+        process.execPath,
+        ["-r", "ts-node/register/transpile-only", path.join(__dirname, "..", "scripts", "workflow.ts"), "history", "--json"],
+        { cwd: path.join(__dirname, ".."), env: process.env, encoding: "utf8", stdio: ["ignore", "pipe", "pipe"] }
+      );
+
+      expect(JSON.parse(stdout).map((run: WorkflowState) => run.execution_id)).to.deep.equal(["exec-1"]);
+    });
+  });
+});
@@ -2,26 +2,37 @@ import { expect } from "chai";
 import * as fs from "fs";
 import * as path from "path";
 import * as yaml from "yaml";
+import { ValidationResult, validateWorkflowFile } from "../services/workflowValidator";
 
 /**
  * Unit Tests for CRE Workflow Configuration
  * 
  * Tests workflow YAML parsing, environment variable substitution,
- * and step dependency resolution.
+ * and step dependency resolution. The structural checks (required fields,
+ * types, dependencies, references, ABIs, cron syntax) are asserted directly
+ * and through the workflow validator.
  * 
  * Requirements: 11.1 - Workflow configurable via YAML
  */
 
 describe("Workflow Configuration Tests", function () {
   let workflowConfig: any;
+  let validation: ValidationResult;
   const workflowPath = path.join(__dirname, "../workflows/yieldprop-optimization.yaml");
 
   before(function () {
     // Load and parse workflow YAML
     const workflowContent = fs.readFileSync(workflowPath, "utf8");
     workflowConfig = yaml.parse(workflowContent);
+    validation = validateWorkflowFile(workflowPath, { checkEnvironment: false });
   });
 
+  function errorsAt(prefix: string): string[] {
+    return validation.issues
+      .filter((issue) => issue.severity === "error" && issue.path.startsWith(prefix))
+      .map((issue) => `${issue.line}:${issue.column} ${issue.message} (${issue.path})`);
+  }
+
   describe("Workflow YAML Parsing", function () {
     it("should successfully parse workflow YAML file", function () {
       expect(workflowConfig).to.not.be.undefined;
@@ -37,6 +48,12 @@ describe("Workflow Configuration Tests", function () {
       expect(workflowConfig).to.have.property("steps");
     });
 
+    it("should pass workflow schema validation", function () {
+      expect(validation.issues.filter((issue) => issue.severity === "error").map((issue) => issue.message))
+        .to.deep.equal([]);
+      expect(validation.valid).to.be.true;
+    });
+
     it("should have correct workflow metadata", function () {
       expect(workflowConfig.name).to.equal("yieldprop-optimization");
       expect(workflowConfig.version).to.equal("1.0.0");
@@ -68,6 +85,7 @@ describe("Workflow Configuration Tests", function () {
       // Validate cron expression format (5 or 6 fields)
       const cronFields = cronTrigger.schedule.split(" ");
       expect(cronFields.length).to.be.oneOf([5, 6]);
+      expect(cronTrigger.schedule).to.equal("0 0 * * *");
     });
 
     it("should have manual trigger for on-demand execution", function () {
@@ -82,6 +100,10 @@ describe("Workflow Configuration Tests", function () {
         expect(trigger.enabled).to.be.a("boolean");
       });
     });
+
+    it("should have valid trigger definitions and cron schedules", function () {
+      expect(errorsAt("triggers")).to.deep.equal([]);
+    });
   });
 
   describe("Environment Variable Configuration", function () {
@@ -188,12 +210,13 @@ describe("Workflow Configuration Tests", function () {
   describe("Step Configuration", function () {
     it("should have all required workflow steps", function () {
       expect(workflowConfig.steps).to.be.an("array");
-      expect(workflowConfig.steps.length).to.equal(5);
+      expect(workflowConfig.steps.length).to.equal(6);
 
       const stepIds = workflowConfig.steps.map((s: any) => s.id);
       expect(stepIds).to.include("fetch-market-data");
       expect(stepIds).to.include("analyze-pricing");
       expect(stepIds).to.include("submit-recommendation");
+      expect(stepIds).to.include("accept-recommendation");
       expect(stepIds).to.include("check-rental-payment");
       expect(stepIds).to.include("distribute-yields");
     });
@@ -208,14 +231,19 @@ describe("Workflow Configuration Tests", function () {
       });
     });
 
+    it("should have valid step definitions", function () {
+      expect(errorsAt("steps")).to.deep.equal([]);
+    });
+
     it("should have correct step types", function () {
       const stepTypes = workflowConfig.steps.map((s: any) => ({ id: s.id, type: s.type }));
       
-      expect(stepTypes.find((s: any) => s.id === "fetch-market-data")?.type).to.equal("http-request");
-      expect(stepTypes.find((s: any) => s.id === "analyze-pricing")?.type).to.equal("http-request");
+      expect(stepTypes.find((s: any) => s.id === "fetch-market-data")?.type).to.equal("market-data");
+      expect(stepTypes.find((s: any) => s.id === "analyze-pricing")?.type).to.equal("ai-pricing");
       expect(stepTypes.find((s: any) => s.id === "submit-recommendation")?.type).to.equal("ethereum-transaction");
+      expect(stepTypes.find((s: any) => s.id === "accept-recommendation")?.type).to.equal("recommendation-acceptance");
       expect(stepTypes.find((s: any) => s.id === "check-rental-payment")?.type).to.equal("ethereum-call");
-      expect(stepTypes.find((s: any) => s.id === "distribute-yields")?.type).to.equal("ethereum-transaction");
+      expect(stepTypes.find((s: any) => s.id === "distribute-yields")?.type).to.equal("yield-distribution");
     });
 
     it("should have outputs defined for each step", function () {
@@ -252,6 +280,10 @@ describe("Workflow Configuration Tests", function () {
       const submitStep = steps.find((s: any) => s.id === "submit-recommendation");
       expect(submitStep.depends_on).to.include("analyze-pricing");
 
+      // accept-recommendation should depend on submit-recommendation
+      const acceptStep = steps.find((s: any) => s.id === "accept-recommendation");
+      expect(acceptStep.depends_on).to.include("submit-recommendation");
+
       // check-rental-payment should depend on submit-recommendation
       const checkStep = steps.find((s: any) => s.id === "check-rental-payment");
       expect(checkStep.depends_on).to.include("submit-recommendation");
@@ -300,27 +332,41 @@ describe("Workflow Configuration Tests", function () {
         }
       });
     });
+
+    it("should have acyclic dependencies on existing steps", function () {
+      const dependencyErrors = validation.issues.filter((issue) =>
+        /unknown step|depends on itself|Circular step dependency|Duplicate step id/.test(issue.message)
+      );
+      expect(dependencyErrors).to.deep.equal([]);
+    });
+
+    it("should only reference declared outputs of upstream steps", function () {
+      const referenceIssues = validation.issues.filter((issue) =>
+        /^Reference |has no output|does not depend on it/.test(issue.message)
+      );
+      expect(referenceIssues).to.deep.equal([]);
+    });
   });
 
-  describe("HTTP Request Configuration", function () {
-    it("should configure RentCast API request correctly", function () {
+  describe("Market Data and AI Pricing Configuration", function () {
+    it("should fall back from RentCast to the reference table", function () {
       const fetchStep = workflowConfig.steps.find((s: any) => s.id === "fetch-market-data");
       
-      expect(fetchStep.config.method).to.equal("GET");
-      expect(fetchStep.config.url).to.include("${RENTCAST_API_URL}");
-      expect(fetchStep.config.headers).to.have.property("X-API-Key");
-      expect(fetchStep.config).to.have.property("query_params");
+      expect(fetchStep.config.strategy).to.equal("consensus");
+      expect(fetchStep.config.providers.map((provider: any) => provider.type)).to.deep.equal(["rentcast", "reference"]);
+      expect(fetchStep.config.providers[0].api_url).to.equal("${RENTCAST_API_URL}");
+      expect(fetchStep.config.providers[0].api_key).to.equal("${RENTCAST_API_KEY}");
+      expect(fetchStep.config.address).to.equal("${PROPERTY_ADDRESS}");
+      expect(fetchStep.config.property_type).to.equal("${PROPERTY_TYPE}");
     });
 
-    it("should configure OpenAI API request correctly", function () {
+    it("should pass market data and property details to the AI pricing step", function () {
       const analyzeStep = workflowConfig.steps.find((s: any) => s.id === "analyze-pricing");
       
-      expect(analyzeStep.config.method).to.equal("POST");
-      expect(analyzeStep.config.url).to.include("openai.com");
-      expect(analyzeStep.config.headers).to.have.property("Authorization");
-      expect(analyzeStep.config).to.have.property("body");
-      expect(analyzeStep.config.body).to.have.property("model");
-      expect(analyzeStep.config.body).to.have.property("messages");
+      expect(analyzeStep.config.api_key).to.equal("${OPENAI_API_KEY}");
+      expect(analyzeStep.config.market_data).to.equal("${steps.fetch-market-data.outputs.market_data}");
+      expect(analyzeStep.config.property).to.have.all.keys("address", "property_type", "valuation", "bedrooms", "bathrooms", "square_feet");
+      expect(analyzeStep.config.price_manager_address).to.equal("${PRICE_MANAGER_ADDRESS}");
     });
 
     it("should have retry configuration for HTTP requests", function () {
@@ -345,14 +391,11 @@ describe("Workflow Configuration Tests", function () {
       });
     });
 
-    it("should have cache configuration for market data fetch", function () {
+    it("should expose the market data cache flag", function () {
       const fetchStep = workflowConfig.steps.find((s: any) => s.id === "fetch-market-data");
       
-      expect(fetchStep.config).to.have.property("cache");
-      expect(fetchStep.config.cache).to.have.property("enabled");
-      expect(fetchStep.config.cache).to.have.property("ttl");
-      expect(fetchStep.config.cache).to.have.property("use_on_error");
-      expect(fetchStep.config.cache.enabled).to.be.true;
+      expect(fetchStep.outputs.is_cached.path).to.equal("$.is_cached");
+      expect(fetchStep.outputs.is_cached.default).to.be.false;
     });
   });
 
@@ -406,6 +449,11 @@ describe("Workflow Configuration Tests", function () {
         expect(abi.length).to.be.greaterThan(0);
       });
     });
+
+    it("should have valid ABI defining each called function", function () {
+      const abiErrors = validation.issues.filter((issue) => issue.path.endsWith("config.abi"));
+      expect(abiErrors).to.deep.equal([]);
+    });
   });
 
   describe("Conditional Execution", function () {
@@ -422,6 +470,13 @@ describe("Workflow Configuration Tests", function () {
       expect(distributeStep.condition).to.be.a("string");
       expect(distributeStep.condition).to.include("pool_balance");
     });
+
+    it("should gate distribute-yields on a distribution policy", function () {
+      const distributeStep = workflowConfig.steps.find((s: any) => s.id === "distribute-yields");
+      expect(distributeStep.config.policy).to.have.property("min_pool_usd");
+      expect(distributeStep.config.policy).to.have.property("min_rent_multiple");
+      expect(distributeStep.config.policy).to.have.property("min_interval_hours");
+    });
   });
 
   describe("Error Handling Configuration", function () {
@@ -0,0 +1,135 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+import * as yaml from "yaml";
+import { buildStepGraph } from "../services/workflowGraph";
+import { WorkflowOrchestrator } from "../services/workflowOrchestrator";
+import { WorkflowStep } from "../services/types";
+import { httpStep, jsonResponse, stubFetch, writeWorkflow } from "./helpers/workflow";
+
+/**
+ * Unit Tests for Workflow Step Graph
+ *
+ * Tests DAG construction from depends_on, load-time validation and
+ * concurrent execution of independent steps.
+ *
+ * Requirements: 11.1 - Workflow configurable via YAML
+ */
+
+function step(id: string, dependsOn?: string[]): WorkflowStep {
+  return httpStep(id, dependsOn ? { depends_on: dependsOn } : {});
+}
+
+describe("Workflow Step Graph", function () {
+  describe("buildStepGraph", function () {
+    it("should order steps topologically regardless of file order", function () {
+      const graph = buildStepGraph([step("c", ["b"]), step("b", ["a"]), step("a")]);
+      expect(graph.order).to.deep.equal(["a", "b", "c"]);
+    });
+
+    it("should break ties using file order", function () {
+      const graph = buildStepGraph([step("x"), step("join", ["x", "y"]), step("y")]);
+      expect(graph.order).to.deep.equal(["x", "y", "join"]);
+    });
+
+    it("should record dependents for each step", function () {
+      const graph = buildStepGraph([step("a"), step("b", ["a"]), step("c", ["a"])]);
+      expect(graph.dependents.get("a")).to.deep.equal(["b", "c"]);
+    });
+
+    it("should reject unknown dependencies", function () {
+      expect(() => buildStepGraph([step("a", ["missing"])])).to.throw(/unknown step: missing/);
+    });
+
+    it("should reject duplicate step ids", function () {
+      expect(() => buildStepGraph([step("a"), step("a")])).to.throw(/Duplicate step id: a/);
+    });
+
+    it("should reject cycles", function () {
+      expect(() => buildStepGraph([step("a", ["c"]), step("b", ["a"]), step("c", ["b"])]))
+        .to.throw(/Circular step dependency/);
+    });
+
+    it("should reject self-dependencies", function () {
+      expect(() => buildStepGraph([step("a", ["a"])])).to.throw(/depends on itself/);
+    });
+
+    it("should accept the production workflow", function () {
+      const workflowPath = path.join(__dirname, "../workflows/yieldprop-optimization.yaml");
+      const config = yaml.parse(fs.readFileSync(workflowPath, "utf8"));
+      const graph = buildStepGraph(config.steps);
+      expect(graph.order[0]).to.equal("fetch-market-data");
+      expect(graph.order).to.have.length(config.steps.length);
+    });
+  });
+
+  describe("Orchestrator execution", function () {
+    const savedEnv = { ...process.env };
+    let events: string[];
+    let restoreFetch: () => void;
+
+    beforeEach(function () {
+      process.env.OPENAI_API_KEY = "test-key";
+      delete process.env.ETHEREUM_RPC_URL;
+      delete process.env.PRIVATE_KEY;
+      events = [];
+
+      restoreFetch = stubFetch(async (id) => {
+        events.push(`start:${id}`);
+        await new Promise((resolve) => setTimeout(resolve, id === "slow" ? 40 : 10));
+        events.push(`end:${id}`);
+        if (id === "broken") {
+          return new Response("{}", { status: 500, statusText: "Internal Server Error" });
+        }
+        return jsonResponse({ value: id });
+      });
+    });
+
+    afterEach(function () {
+      restoreFetch();
+      process.env = { ...savedEnv };
+    });
+
+    it("should reject cyclic workflows at load time", function () {
+      const file = writeWorkflow([step("a", ["b"]), step("b", ["a"])]);
+      expect(() => new WorkflowOrchestrator(file)).to.throw(/Circular step dependency/);
+    });
+
+    it("should run steps whose dependencies appear later in the file", async function () {
+      const file = writeWorkflow([step("second", ["first"]), step("first")]);
+      const state = await new WorkflowOrchestrator(file).execute();
+
+      expect(state.status).to.equal("completed");
+      expect(state.errors).to.have.length(0);
+      expect(events.indexOf("end:first")).to.be.lessThan(events.indexOf("start:second"));
+    });
+
+    it("should run independent branches concurrently", async function () {
+      const file = writeWorkflow([step("slow"), step("fast"), step("join", ["slow", "fast"])]);
+      const state = await new WorkflowOrchestrator(file).execute();
+
+      expect(state.status).to.equal("completed");
+      expect(events.slice(0, 2)).to.have.members(["start:slow", "start:fast"]);
+      expect(events[events.length - 1]).to.equal("end:join");
+    });
+
+    it("should key step outputs in graph order", async function () {
+      const file = writeWorkflow([step("slow"), step("fast"), step("join", ["slow", "fast"])]);
+      const state = await new WorkflowOrchestrator(file).execute();
+
+      expect(Object.keys(state.step_outputs)).to.deep.equal(["slow", "fast", "join"]);
+      expect(state.step_outputs.fast.value).to.equal("fast");
+    });
+
+    it("should fail dependents of a failed step without blocking other branches", async function () {
+      const file = writeWorkflow([step("broken"), step("after-broken", ["broken"]), step("independent")]);
+      const state = await new WorkflowOrchestrator(file).execute();
+
+      expect(state.step_outputs).to.have.property("independent");
+      expect(state.step_outputs).to.not.have.property("after-broken");
+      expect(events).to.not.include("start:after-broken");
+      const dependencyError = state.errors.find((e) => e.step_id === "after-broken");
+      expect(dependencyError?.error).to.equal("Dependency not met: broken");
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as yaml from "yaml";
+import { ValidationIssue, formatIssue, validateWorkflow } from "../services/workflowValidator";
+import { validateSchema } from "../services/workflowSchema";
+import { WorkflowOrchestrator } from "../services/workflowOrchestrator";
+import { httpStep, writeWorkflow } from "./helpers/workflow";
+
+/**
+ * Unit Tests for workflow schema validation
+ *
+ * Requirements: 11.1 - Workflow configurable via YAML
+ */
+
+function source(mutate: (config: any) => void = () => {}): string {
+  const config = yaml.parse(
+    fs.readFileSync(
+      writeWorkflow([
+        httpStep("fetch"),
+        httpStep("analyze", { depends_on: ["fetch"], config: { method: "POST", url: "http://workflow.test/analyze" } }),
+      ]),
+      "utf8"
+    )
+  );
+  mutate(config);
+  return yaml.stringify(config);
+}
+
+function errors(issues: ValidationIssue[]): string[] {
+  return issues.filter((issue) => issue.severity === "error").map((issue) => issue.message);
+}
+
+describe("Workflow Validator", function () {
+  it("should accept a valid workflow", function () {
+    const result = validateWorkflow(source());
+    expect(result.issues).to.deep.equal([]);
+    expect(result.valid).to.be.true;
+    expect(result.config!.steps).to.have.length(2);
+  });
+
+  it("should report a string depends_on with its line and column", function () {
+    const text = source((config) => (config.steps[1].depends_on = "fetch"));
+    const result = validateWorkflow(text);
+
+    expect(result.valid).to.be.false;
+    const [issue] = result.issues;
+    expect(issue.message).to.equal("expected an array, got string");
+    expect(issue.path).to.equal("steps[1].depends_on");
+
+    const line = text.split("\n")[issue.line! - 1];
+    expect(line.slice(issue.column! - 1)).to.equal("fetch");
+  });
+
+  it("should reject unknown step types and suggest misspelled keys", function () {
+    const result = validateWorkflow(
+      source((config) => {
+        config.steps[0].type = "graphql-request";
+        config.steps[1].depends_On = config.steps[1].depends_on;
+      })
+    );
+
+    expect(errors(result.issues)).to.deep.equal([
+      'unknown property "depends_On" (did you mean "depends_on"?)',
+    ]);
+
+    const unknownType = validateWorkflow(source((config) => (config.steps[0].type = "graphql-request")));
+    expect(errors(unknownType.issues)).to.deep.equal([
+      'must be one of: http-request, ethereum-transaction, ethereum-call, ethereum-multicall, yield-distribution, recommendation-acceptance, market-data, ai-pricing (got "graphql-request")',
+    ]);
+    expect(unknownType.issues[0].path).to.equal("steps[0].type");
+  });
+
+  it("should report missing required properties on the parent node", function () {
+    const result = validateWorkflow(source((config) => delete config.steps[0].on_error));
+    expect(result.issues[0].message).to.equal('missing required property "on_error"');
+    expect(result.issues[0].path).to.equal("steps[0]");
+  });
+
+  it("should report YAML syntax errors with positions", function () {
+    const result = validateWorkflow("name: test\nsteps: [\n");
+    expect(result.valid).to.be.false;
+    expect(result.issues[0].line).to.be.a("number");
+  });
+
+  it("should check step output references", function () {
+    const result = validateWorkflow(
+      source((config) => {
+        config.steps[1].condition = "${steps.fetch.outputs.price} > 0";
+        config.steps[1].config.url = "http://workflow.test/${steps.missing.outputs.value}";
+      })
+    );
+
+    expect(errors(result.issues)).to.deep.equal([
+      "Step fetch has no output price (declared: value)",
+      "Reference steps.missing.outputs.value points to unknown step: missing",
+    ]);
+  });
+
+  it("should warn when referencing a step that is not a dependency", function () {
+    const result = validateWorkflow(
+      source((config) => {
+        delete config.steps[1].depends_on;
+        config.steps[1].condition = "steps.fetch.outputs.value == 'ok'";
+      })
+    );
+
+    expect(result.valid).to.be.true;
+    expect(result.issues.map((issue) => issue.message)).to.deep.equal([
+      "Step analyze references fetch but does not depend on it; the value may be unavailable",
+    ]);
+  });
+
+  it("should check dependencies, conditions, transforms and cron schedules", function () {
+    const result = validateWorkflow(
+      source((config) => {
+        config.steps[0].depends_on = ["analyze"];
+        config.steps[1].outputs.value.transform = "divide_by_1e9";
+        config.triggers.push({ type: "cron", schedule: "0 0 * *", description: "Broken", enabled: true });
+      })
+    );
+
+    const messages = errors(result.issues);
+    expect(messages).to.have.length(3);
+    expect(messages[0]).to.match(/Circular step dependency/);
+    expect(messages[1]).to.equal("Unknown output transform: divide_by_1e9");
+    expect(messages[2]).to.match(/Invalid cron expression "0 0 \* \*"/);
+  });
+
+  it("should verify required environment variables", function () {
+    const text = source((config) => {
+      config.environment = {
+        API_KEY: { required: true, description: "Key" },
+        API_URL: { required: true, default: "http://workflow.test", description: "URL" },
+      };
+    });
+
+    expect(errors(validateWorkflow(text, { env: {} }).issues)).to.deep.equal([
+      "Required environment variable API_KEY is not set",
+    ]);
+    expect(validateWorkflow(text, { env: { API_KEY: "secret" } }).valid).to.be.true;
+    expect(validateWorkflow(text, { checkEnvironment: false }).valid).to.be.true;
+  });
+
+  it("should format issues as file:line:column", function () {
+    const issue: ValidationIssue = { severity: "error", message: "bad", path: "steps[0]", line: 3, column: 5 };
+    expect(formatIssue(issue, "workflow.yaml")).to.equal("workflow.yaml:3:5: error: bad (steps[0])");
+  });
+
+  it("should validate nested schema values", function () {
+    const issues = validateSchema({ retry: { max_attempts: 0 } }, {
+      type: "object",
+      properties: { retry: { type: "object", properties: { max_attempts: { type: "integer", minimum: 1 } } } },
+    });
+    expect(issues).to.deep.equal([{ path: ["retry", "max_attempts"], message: "must be >= 1 (got 0)" }]);
+  });
+
+  it("should make the orchestrator reject invalid workflows at load time", function () {
+    const file = writeWorkflow([httpStep("fetch", { depends_on: "other" as any })]);
+    expect(() => new WorkflowOrchestrator(file)).to.throw(/Invalid workflow .*expected an array, got string \(steps\[0\]\.depends_on\)/s);
+  });
+});
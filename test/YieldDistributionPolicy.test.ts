@@ -0,0 +1,201 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+import {
+  DistributionSnapshot,
+  YIELD_DISTRIBUTOR_ABI,
+  evaluateDistributionPolicy,
+  readDistributionSnapshot,
+} from "../services/yieldDistribution";
+import { WorkflowOrchestrator } from "../services/workflowOrchestrator";
+import { WorkflowStep } from "../services/types";
+import { writeWorkflow } from "./helpers/workflow";
+
+/**
+ * Unit Tests for the yield distribution policy and yield-distribution steps
+ *
+ * Requirements:
+ * - 2.6: Trigger yield distribution after rental payment collection
+ * - 7.5: Skip distribution if pool is empty
+ */
+
+const USDC = 1000000n;
+const HOUR = 3600 * 1000;
+const NOW = Date.UTC(2026, 0, 15);
+
+const DISTRIBUTOR = ethers.getAddress("0x5fbdb2315678afecb367f032d93f642f64180aa3");
+const PRICE_MANAGER = ethers.getAddress("0xe7f1725e7734ce288f8367e1bb143e90bb3f0512");
+const MANAGER = ethers.getAddress("0x70997970c51812dc3a010c7d01b50e0d17dc79c8");
+
+const iface = new ethers.Interface([...YIELD_DISTRIBUTOR_ABI, "function getCurrentRentalPrice() view returns (uint256)"]);
+
+interface ChainState {
+  pool: bigint;
+  rent: bigint;
+  /** Timestamps (ms) of past distributions */
+  distributions: number[];
+  /** Error distributeYields reverts with */
+  revert?: string;
+}
+
+/**
+ * A provider without Multicall3 that answers YieldDistributor and
+ * PriceManager reads from `chain`
+ */
+function chainProvider(chain: ChainState) {
+  const calls: string[] = [];
+  const provider = {
+    getCode: async () => "0x",
+    getBlock: async () => ({ number: 100, hash: "0x" + "11".repeat(32), timestamp: NOW / 1000 }) as ethers.Block,
+    estimateGas: async () => 250000n,
+    call: async (request: ethers.TransactionRequest) => {
+      const parsed = iface.parseTransaction({ data: request.data! })!;
+      calls.push(parsed.name);
+      switch (parsed.name) {
+        case "getDistributionPool":
+          return iface.encodeFunctionResult(parsed.fragment, [chain.pool]);
+        case "getDistributionCount":
+          return iface.encodeFunctionResult(parsed.fragment, [chain.distributions.length]);
+        case "priceManager":
+          return iface.encodeFunctionResult(parsed.fragment, [PRICE_MANAGER]);
+        case "getCurrentRentalPrice":
+          return iface.encodeFunctionResult(parsed.fragment, [chain.rent]);
+        case "getDistribution": {
+          const id = Number(parsed.args[0]);
+          const timestamp = BigInt(chain.distributions[id - 1] / 1000);
+          return iface.encodeFunctionResult(parsed.fragment, [[id, 1n, 1n, timestamp, 3n]]);
+        }
+        case "distributeYields":
+          if (chain.revert) {
+            throw Object.assign(new Error("execution reverted"), { data: iface.encodeErrorResult(chain.revert, []) });
+          }
+          return "0x";
+      }
+      throw new Error(`Unexpected call ${parsed.name}`);
+    },
+  };
+  return { provider, calls };
+}
+
+describe("Yield Distribution Policy", function () {
+  describe("evaluateDistributionPolicy", function () {
+    function snapshot(overrides: Partial<DistributionSnapshot> = {}): DistributionSnapshot {
+      return { blockNumber: 100, timestamp: NOW, pool: 1500n * USDC, rent: 2000n * USDC, ...overrides };
+    }
+
+    it("should skip an empty pool whatever the policy", function () {
+      const decision = evaluateDistributionPolicy({}, snapshot({ pool: 0n }));
+      expect(decision).to.include({ eligible: false, reason: "Distribution pool is empty" });
+    });
+
+    it("should apply the lower of the USD and rent-multiple thresholds", function () {
+      expect(evaluateDistributionPolicy({ min_pool_usd: 5000, min_rent_multiple: 0.5 }, snapshot())).to.include({
+        eligible: true,
+        threshold_usd: 1000,
+        reason: "Pool $1500.00 meets the $1000.00 threshold",
+      });
+      expect(evaluateDistributionPolicy({ min_pool_usd: 5000, min_rent_multiple: 1 }, snapshot())).to.include({
+        eligible: false,
+        threshold_usd: 2000,
+        reason: "Pool $1500.00 is below the $2000.00 threshold",
+      });
+      expect(evaluateDistributionPolicy({ min_rent_multiple: 1 }, snapshot({ rent: undefined }))).to.include({
+        eligible: false,
+        reason: "Current rent is unavailable; cannot apply min_rent_multiple",
+      });
+    });
+
+    it("should wait out the minimum interval since the last distribution", function () {
+      const last = { id: 4, timestamp: NOW - 100 * HOUR };
+      const decision = evaluateDistributionPolicy({ min_interval_hours: 168 }, snapshot({ lastDistribution: last }));
+
+      expect(decision).to.include({ eligible: false, last_distribution_id: 4, next_eligible_at: NOW + 68 * HOUR });
+      expect(decision.reason).to.match(/^Last distribution #4 was at .*; next eligible at /);
+      expect(evaluateDistributionPolicy({ min_interval_hours: 72 }, snapshot({ lastDistribution: last })).eligible).to.be.true;
+    });
+  });
+
+  describe("readDistributionSnapshot", function () {
+    it("should read pool, rent and the last distribution at one block", async function () {
+      const { provider } = chainProvider({ pool: 1500n * USDC, rent: 2000n * USDC, distributions: [NOW - 200 * HOUR, NOW - 10 * HOUR] });
+
+      expect(await readDistributionSnapshot(provider, DISTRIBUTOR)).to.deep.equal({
+        blockNumber: 100,
+        timestamp: NOW,
+        pool: 1500n * USDC,
+        rent: 2000n * USDC,
+        lastDistribution: { id: 2, timestamp: NOW - 10 * HOUR },
+      });
+    });
+  });
+
+  describe("yield-distribution steps", function () {
+    let savedEnv: NodeJS.ProcessEnv;
+
+    beforeEach(function () {
+      savedEnv = { ...process.env };
+      process.env.OPENAI_API_KEY = "test-key";
+      delete process.env.ETHEREUM_RPC_URL;
+      delete process.env.PRIVATE_KEY;
+    });
+
+    afterEach(function () {
+      process.env = savedEnv;
+    });
+
+    function distributionStep(policy: Record<string, number>): WorkflowStep {
+      return {
+        id: "distribute-yields",
+        name: "Distribute Yields",
+        type: "yield-distribution",
+        description: "Distribute yields when due",
+        config: { contract_address: DISTRIBUTOR, policy },
+        outputs: { reason: { path: "$.reason", description: "Why the distribution was sent or skipped" } },
+        on_error: { action: "halt", log: true },
+      };
+    }
+
+    it("should record a skipped distribution without simulating it", async function () {
+      const { provider, calls } = chainProvider({ pool: 500n * USDC, rent: 2000n * USDC, distributions: [] });
+
+      const state = await new WorkflowOrchestrator(writeWorkflow([distributionStep({ min_pool_usd: 1000 })]), {
+        provider: provider as unknown as ethers.Provider,
+      }).execute();
+
+      expect(state.status).to.equal("completed");
+      expect(state.step_outputs["distribute-yields"]).to.include({
+        distributed: false,
+        status: "skipped",
+        reason: "Pool $500.00 is below the $1000.00 threshold",
+      });
+      expect(state.step_results["distribute-yields"].distribution).to.include({ status: "skipped", pool_usd: 500, rent_usd: 2000 });
+      expect(calls).to.not.include("distributeYields");
+    });
+
+    it("should simulate a due distribution in dry-run mode and report the outcome", async function () {
+      const { provider } = chainProvider({ pool: 2500n * USDC, rent: 2000n * USDC, distributions: [], revert: "NoTokenHolders" });
+
+      const state = await new WorkflowOrchestrator(writeWorkflow([distributionStep({ min_rent_multiple: 1 })]), {
+        provider: provider as unknown as ethers.Provider,
+        dryRun: { from: MANAGER },
+      }).execute();
+
+      const result = state.step_results["distribute-yields"];
+      expect(result.distribution).to.include({ status: "simulated", threshold_usd: 2000 });
+      expect(result.distribution!.simulation).to.include({ would_revert: true, revert_reason: "NoTokenHolders()", from: MANAGER });
+      expect(result.dry_run).to.deep.equal(result.distribution!.simulation);
+    });
+
+    it("should not send a distribution whose simulation reverts", async function () {
+      const { provider, calls } = chainProvider({ pool: 2500n * USDC, rent: 2000n * USDC, distributions: [], revert: "NoTokenHolders" });
+      process.env.PRIVATE_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+      const state = await new WorkflowOrchestrator(writeWorkflow([distributionStep({})]), {
+        provider: provider as unknown as ethers.Provider,
+      }).execute();
+
+      expect(state.status).to.equal("failed");
+      expect(state.step_results["distribute-yields"].error).to.equal("distributeYields would revert: NoTokenHolders(); not sent");
+      expect(calls.filter((name) => name === "distributeYields")).to.have.length(1);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as yaml from "yaml";
+import { WorkflowConfig, WorkflowStep } from "../../services/types";
+
+/**
+ * Shared fixtures for orchestrator tests that run small, network-free workflows
+ */
+
+export function httpStep(id: string, overrides: Partial<WorkflowStep> = {}): WorkflowStep {
+  return {
+    id,
+    name: id,
+    type: "http-request",
+    description: `Test step ${id}`,
+    config: { method: "GET", url: `http://workflow.test/${id}` },
+    outputs: { value: { path: "$.value", description: "Echoed step id" } },
+    on_error: { action: "continue", log: true },
+    ...overrides,
+  };
+}
+
+/**
+ * Write a minimal workflow YAML to a temp directory and return its path
+ */
+export function writeWorkflow(steps: WorkflowStep[], overrides: Partial<WorkflowConfig> = {}): string {
+  const config: WorkflowConfig = {
+    name: "test-workflow",
+    version: "1.0.0",
+    description: "Test workflow",
+    triggers: [{ type: "manual", description: "Manual", enabled: true }],
+    environment: {},
+    steps,
+    error_handling: { strategy: "continue", log_errors: true, notify_on_failure: false },
+    logging: {
+      level: "info",
+      include_timestamps: true,
+      include_step_outputs: false,
+      format: "json",
+      destination: "stdout",
+    },
+    metadata: { author: "test", created: "2026-01-01", version: "1.0.0", category: "test", tags: [] },
+    ...overrides,
+  };
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "workflow-test-"));
+  const file = path.join(dir, "workflow.yaml");
+  fs.writeFileSync(file, yaml.stringify(config));
+  return file;
+}
+
+/**
+ * Replace global fetch with a handler keyed on the last URL path segment
+ */
+export function stubFetch(handler: (id: string, init?: RequestInit) => Promise<Response> | Response): () => void {
+  const originalFetch = global.fetch;
+  global.fetch = (async (input: any, init?: RequestInit) => {
+    const id = String(input).split("?")[0].split("/").pop()!;
+    return handler(id, init);
+  }) as typeof fetch;
+  return () => {
+    global.fetch = originalFetch;
+  };
+}
+
+export function jsonResponse(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), { status });
+}